@@ -5,6 +5,7 @@ import ChatInterface from './components/ChatInterface';
 import MonitoringSidebar from './components/MonitoringSidebar';
 import { BrainCircuitIcon, FilmIcon, AlertTriangleIcon } from './components/icons';
 import CredentialsGate from './components/CredentialsGate';
+import { loadServerConfig } from './services/serverClient';
 
 
 const PersistenceErrorModal: React.FC<{ message: string }> = ({ message }) => {
@@ -40,7 +41,8 @@ const App: React.FC = () => {
     const checkCredentials = useCallback(() => {
         const url = localStorage.getItem('LSS_UPSTASH_URL');
         const token = localStorage.getItem('LSS_UPSTASH_TOKEN');
-        if (url && token) {
+        // A Luminous server holds the memory matrix credentials itself.
+        if (loadServerConfig() || (url && token)) {
             setCredsAreSet(true);
         } else {
             setCredsAreSet(false);
@@ -83,7 +85,7 @@ const App: React.FC = () => {
     
     const resetVeoKey = useCallback(() => setIsVeoKeyNeeded(true), []);
 
-    const { state, isReady, isProcessing, processUserMessage, handleWeightsChange, saveStatus, saveError } = useLuminousCognition(resetVeoKey, credsAreSet);
+    const { state, isReady, isProcessing, draftMessage, processUserMessage, cancelProcessing, handleWeightsChange, setEnergyPolicy, setReflectionSchedule, setModelRouting, recoverNow, setRecoveryVeto, recallMemory, updatePlan, deletePlan, saveStatus, saveError, memoryStats, toolNames, resolvePendingAction, setToolPolicy, listBackups, restoreBackup, instance, canSwitchInstance, listInstances, switchInstance, cloneInstance, recordCassette, replayCassette } = useLuminousCognition(resetVeoKey, credsAreSet);
     const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
     const toggleSidebar = () => setIsSidebarOpen(!isSidebarOpen);
@@ -123,25 +125,27 @@ const App: React.FC = () => {
     return (
         <div className="flex flex-col h-screen font-sans">
             {saveError && <PersistenceErrorModal message={saveError} />}
-            <Header state={state} onToggleSidebar={toggleSidebar} saveStatus={saveStatus} />
+            <Header state={state} onToggleSidebar={toggleSidebar} saveStatus={saveStatus} instance={instance} canSwitchInstance={canSwitchInstance} onListInstances={listInstances} onSwitchInstance={switchInstance} />
             <main className="flex flex-grow overflow-hidden relative">
                 <div className="flex-grow h-full">
                     <ChatInterface
                         history={state.chatHistory}
+                        draftMessage={draftMessage}
                         onSendMessage={processUserMessage}
                         isProcessing={isProcessing}
+                        onCancel={cancelProcessing}
                     />
                 </div>
                 
                 {/* Sidebar for Desktop */}
                 <div className="w-[450px] flex-shrink-0 h-full hidden md:block bg-gray-800/30 border-l border-purple-500/20">
-                   <MonitoringSidebar state={state} onWeightsChange={handleWeightsChange} />
+                   <MonitoringSidebar state={state} onWeightsChange={handleWeightsChange} onEnergyPolicyChange={setEnergyPolicy} onReflectionScheduleChange={setReflectionSchedule} onModelRoutingChange={setModelRouting} onRecoverNow={recoverNow} onRecoveryVetoChange={setRecoveryVeto} memoryStats={memoryStats} onRecallMemory={recallMemory} onPlanChange={updatePlan} onPlanDelete={deletePlan} toolNames={toolNames} onResolveAction={resolvePendingAction} onToolPolicyChange={setToolPolicy} onRecordCassette={recordCassette} onReplayCassette={replayCassette} onListBackups={listBackups} onRestoreBackup={restoreBackup} onCloneBackup={cloneInstance} />
                 </div>
 
                 {/* Sidebar for Mobile (sliding panel) */}
                 {isSidebarOpen && <div className="fixed inset-0 bg-black/60 z-10 md:hidden" onClick={toggleSidebar}></div>}
                 <div className={`fixed top-0 right-0 h-full w-[450px] max-w-[90vw] z-20 transition-transform duration-300 ease-in-out md:hidden bg-gray-900 border-l border-purple-500/20 ${isSidebarOpen ? 'translate-x-0' : 'translate-x-full'}`}>
-                    <MonitoringSidebar state={state} onWeightsChange={handleWeightsChange} />
+                    <MonitoringSidebar state={state} onWeightsChange={handleWeightsChange} onEnergyPolicyChange={setEnergyPolicy} onReflectionScheduleChange={setReflectionSchedule} onModelRoutingChange={setModelRouting} onRecoverNow={recoverNow} onRecoveryVetoChange={setRecoveryVeto} memoryStats={memoryStats} onRecallMemory={recallMemory} onPlanChange={updatePlan} onPlanDelete={deletePlan} toolNames={toolNames} onResolveAction={resolvePendingAction} onToolPolicyChange={setToolPolicy} onRecordCassette={recordCassette} onReplayCassette={replayCassette} onListBackups={listBackups} onRestoreBackup={restoreBackup} onCloneBackup={cloneInstance} />
                 </div>
             </main>
         </div>
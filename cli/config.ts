@@ -0,0 +1,51 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { SettingsSource } from '../services/settings';
+
+/** Where the config file is looked for unless --config or LUMINOUS_CONFIG names another. */
+export const DEFAULT_CONFIG_PATH = join(homedir(), '.luminous.json');
+
+/** The settings the CLI needs, by the key the environment variable and config file use. */
+export const CLI_SETTINGS = {
+    GEMINI_API_KEY: 'Gemini API key',
+    LSS_UPSTASH_URL: 'Upstash Redis URL',
+    LSS_UPSTASH_TOKEN: 'Upstash Redis token',
+    LSS_INSTANCE: "Luminous instance to work on (default 'default')",
+    LSS_SHOPIFY_DOMAIN: 'Shopify store domain',
+    LSS_SHOPIFY_TOKEN: 'Shopify Admin API token',
+    LSS_LLM_PROVIDER: "Model provider: 'gemini' or 'openai-compatible'",
+    LSS_LLM_BASE_URL: 'OpenAI-compatible API root',
+    LSS_LLM_API_KEY: 'OpenAI-compatible API key',
+    LSS_LLM_MODEL: 'OpenAI-compatible chat model',
+    LSS_LLM_EMBEDDING_MODEL: 'OpenAI-compatible embedding model',
+    LSS_LLM_SPEECH_MODEL: 'OpenAI-compatible speech model',
+};
+
+/**
+ * Reads settings from the environment, falling back to a JSON config file
+ * keyed the same way; `overrides`, given on the command line, win over both.
+ * A missing default file is fine; a missing file that was asked for, or one
+ * that is not a JSON object of strings, is an error.
+ */
+export const loadCliSettings = (configPath?: string, overrides: Record<string, string | undefined> = {}): SettingsSource => {
+    const path = configPath ?? process.env.LUMINOUS_CONFIG ?? DEFAULT_CONFIG_PATH;
+    let file: Record<string, unknown> = {};
+    if (existsSync(path)) {
+        try {
+            file = JSON.parse(readFileSync(path, 'utf8'));
+        } catch (error) {
+            throw new Error(`Could not read the config file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        if (!file || typeof file !== 'object' || Array.isArray(file)) {
+            throw new Error(`The config file ${path} must hold a JSON object of settings.`);
+        }
+    } else if (path !== DEFAULT_CONFIG_PATH) {
+        throw new Error(`Config file not found: ${path}`);
+    }
+
+    return key => {
+        const value = overrides[key] ?? process.env[key] ?? file[key];
+        return typeof value === 'string' && value !== '' ? value : undefined;
+    };
+};
@@ -0,0 +1,343 @@
+import { parseArgs } from 'node:util';
+import { createInterface } from 'node:readline';
+import { ChatMessage, Goal, JournalEntry, JournalEntryType, LuminousState, PendingAction, ReflectionTrigger } from '../types';
+import { LuminousEngine } from '../engine/LuminousEngine';
+import { ApprovalDecision } from '../engine/approvalQueue';
+import { buildGoalTree, GoalNode } from '../engine/goals';
+import * as persistenceService from '../services/persistenceService';
+import { readSetting, setSettingsSource } from '../services/settings';
+import { CLI_SETTINGS, DEFAULT_CONFIG_PATH, loadCliSettings } from './config';
+
+const USAGE = `Usage: luminous <command> [options]
+
+Commands:
+  chat [message]         Send one message, or chat until "exit" when none is given
+  reflect [trigger]      Run a reflection now: cadence (default), scar, new_orders, goal_status or low_stock
+  consolidate            Consolidate oversized memories and prune finished goals and stale projections
+  backups                List state backups, newest first
+  restore <backup>       Restore the state from a backup, by key or by its number in the list
+  instances              List the instances in the memory matrix
+  clone <backup> <name>  Create instance <name> from a backup, by key or by its number in the list
+  goals                  Print the goal tree
+  journal                Print the latest journal entries
+
+Options:
+  --config <path>        Settings file (default ${DEFAULT_CONFIG_PATH}, or LUMINOUS_CONFIG)
+  --instance <name>      Luminous instance to work on (default LSS_INSTANCE, or 'default')
+  --reason <text>        Why the reflection was requested
+  --limit <n>            Journal entries to print (default 20)
+  --type <type>          Only print journal entries of this type
+  --json                 Print goals or the journal as JSON
+  -y, --yes              Approve held actions and confirm restores without asking
+  --verbose              Show the engine's own logging
+  -h, --help             Show this help
+
+Settings come from the environment, then the config file: ${Object.keys(CLI_SETTINGS).join(', ')}.`;
+
+const REFLECTION_TRIGGERS: ReflectionTrigger[] = ['cadence', 'scar', 'new_orders', 'goal_status', 'low_stock'];
+const JOURNAL_TYPES: JournalEntryType[] = ['interaction', 'reflection', 'scar', 'system', 'summary'];
+const DEFAULT_JOURNAL_LIMIT = 20;
+
+type Options = {
+    reason?: string;
+    limit?: string;
+    type?: string;
+    json?: boolean;
+    yes?: boolean;
+};
+
+// The engine logs freely; the CLI's own output goes through these, which muting the console leaves alone.
+const print = console.log.bind(console);
+const printError = console.error.bind(console);
+
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+const requireMemoryMatrix = (): void => {
+    if (!readSetting('LSS_UPSTASH_URL') || !readSetting('LSS_UPSTASH_TOKEN')) {
+        throw new Error('Upstash credentials not configured. Set LSS_UPSTASH_URL and LSS_UPSTASH_TOKEN in the environment or the config file.');
+    }
+};
+
+const loadState = async (): Promise<LuminousState> => {
+    requireMemoryMatrix();
+    const state = await persistenceService.getLuminousState();
+    if (!state) throw new Error('No state has been saved yet. Start a chat to initialize one.');
+    return state;
+};
+
+/** Asks Kinship a question on the terminal; answers null once the input has ended. */
+type Ask = (question: string) => Promise<string | null>;
+
+const confirm = async (ask: Ask, question: string): Promise<boolean> =>
+    /^y(es)?$/i.test(await ask(`${question} [y/N] `) ?? '');
+
+const describeAction = (action: PendingAction): string => `${action.toolName} ${JSON.stringify(action.args)}`;
+
+const textOf = (message: ChatMessage): string => message.parts.map(p => p.text ?? '').join('').trim();
+
+const formatEntry = (entry: JournalEntry): string => `${entry.timestamp} [${entry.type}] ${entry.event}`;
+
+/** Prints what Luminous said and did since `before`. */
+const printNewMessages = (before: LuminousState, after: LuminousState): void => {
+    const seen = new Set(before.chatHistory);
+    for (const message of after.chatHistory.filter(m => !seen.has(m) && m.role === 'model')) {
+        for (const part of message.parts) {
+            if (part.functionCall) print(`  → ${part.functionCall.name}`);
+        }
+        const text = textOf(message);
+        if (text) print(`Luminous: ${text}`);
+    }
+};
+
+const printNewJournal = (before: LuminousState, after: LuminousState, types?: JournalEntryType[]): void => {
+    const seen = new Set(before.kinshipJournal);
+    for (const entry of after.kinshipJournal.filter(e => !seen.has(e) && (!types || types.includes(e.type)))) {
+        print(formatEntry(entry));
+    }
+};
+
+/**
+ * Boots an engine from the memory matrix, runs the task, waits for background
+ * indexing and extraction, and saves the state. Held actions are put to Kinship
+ * on the terminal unless --yes approves them all. The autonomous timers do not
+ * run; reflections happen when asked for.
+ */
+const withEngine = async (options: Options, ask: Ask, task: (engine: LuminousEngine) => Promise<void>): Promise<void> => {
+    requireMemoryMatrix();
+    const engine = new LuminousEngine();
+    const decided = new Set<string>();
+    const decide = async (action: PendingAction): Promise<ApprovalDecision> => {
+        if (options.yes) return { kind: 'approve' };
+        return await confirm(ask, `Luminous wants to run ${describeAction(action)}. Approve?`)
+            ? { kind: 'approve' }
+            : { kind: 'reject', reason: 'Kinship rejected it from the command line.' };
+    };
+    const unsubscribe = engine.on('state', state => {
+        for (const action of state.pendingActions) {
+            if (action.status !== 'pending' || decided.has(action.id)) continue;
+            decided.add(action.id);
+            decide(action).then(decision => engine.resolvePendingAction(action.id, decision));
+        }
+    });
+
+    // Until boot succeeds the engine holds the blank initial state, which must never overwrite the stored one.
+    let booted = false;
+    try {
+        await engine.boot();
+        booted = true;
+        await task(engine);
+        await engine.settle();
+    } finally {
+        unsubscribe();
+        if (booted) await persistenceService.saveLuminousState(engine.getState());
+    }
+};
+
+const sendMessage = async (engine: LuminousEngine, message: string): Promise<void> => {
+    const before = engine.getState();
+    await engine.processUserMessage(message);
+    const after = engine.getState();
+    printNewMessages(before, after);
+    printNewJournal(before, after, ['scar']);
+};
+
+const chat = async (args: string[], options: Options, ask: Ask): Promise<void> => {
+    const message = args.join(' ').trim();
+    await withEngine(options, ask, async engine => {
+        if (message) {
+            await sendMessage(engine, message);
+            return;
+        }
+        print('Chatting with Luminous. Type "exit" to leave.');
+        while (true) {
+            const line = await ask('Kinship: ');
+            if (line === null || line === 'exit' || line === 'quit') break;
+            if (line) await sendMessage(engine, line);
+        }
+    });
+};
+
+const reflect = async (args: string[], options: Options, ask: Ask): Promise<void> => {
+    const trigger = (args[0] ?? 'cadence') as ReflectionTrigger;
+    if (!REFLECTION_TRIGGERS.includes(trigger)) {
+        throw new UsageError(`Unknown reflection trigger '${trigger}'. Use one of: ${REFLECTION_TRIGGERS.join(', ')}.`);
+    }
+    await withEngine(options, ask, async engine => {
+        const before = engine.getState();
+        const request = {
+            trigger,
+            reason: options.reason ?? 'Kinship asked for a reflection from the command line.',
+            requestedAt: new Date().toISOString(),
+        };
+        await engine.runReflectionCycle(request);
+        const after = engine.getState();
+        printNewMessages(before, after);
+        printNewJournal(before, after);
+        const run = after.reflectionRuns.find(r => r.trigger === trigger && r.requestedAt === request.requestedAt);
+        print(run ? `Reflection ${run.outcome}.` : 'The reflection did not run; Luminous is not operational.');
+    });
+};
+
+const consolidate = async (options: Options, ask: Ask): Promise<void> => {
+    await withEngine(options, ask, async engine => {
+        const before = engine.getState();
+        const changed = await engine.runHygiene();
+        if (!changed) {
+            print('Nothing needed consolidating or pruning.');
+            return;
+        }
+        printNewJournal(before, engine.getState());
+    });
+};
+
+const formatBackupKey = (key: string): string => {
+    const date = new Date(persistenceService.getBackupTimestamp(key));
+    return isNaN(date.getTime()) ? key : date.toLocaleString();
+};
+
+const listBackups = async (): Promise<void> => {
+    requireMemoryMatrix();
+    const backups = await persistenceService.getBackupList();
+    if (backups.length === 0) {
+        print('No backups found.');
+        return;
+    }
+    backups.forEach((key, i) => print(`${String(i + 1).padStart(2)}. ${formatBackupKey(key)}  ${key}`));
+};
+
+const findBackup = async (target: string): Promise<string> => {
+    const backups = await persistenceService.getBackupList();
+    const key = /^\d+$/.test(target) ? backups[Number(target) - 1] : backups.find(k => k === target);
+    if (!key) throw new Error(`No backup matches '${target}'.`);
+    return key;
+};
+
+const restore = async (args: string[], options: Options, ask: Ask): Promise<void> => {
+    const target = args[0];
+    if (!target) throw new UsageError('Name the backup to restore, by key or by its number in `luminous backups`.');
+    requireMemoryMatrix();
+    const key = await findBackup(target);
+    if (!options.yes && !await confirm(ask, `Restore the memory from the backup of ${formatBackupKey(key)}? This overwrites the current state.`)) {
+        print('Restore cancelled.');
+        return;
+    }
+    await persistenceService.restoreStateFromBackup(key);
+    print(`Restored the state from ${key}.`);
+};
+
+const listInstances = async (): Promise<void> => {
+    requireMemoryMatrix();
+    const active = persistenceService.getActiveInstance();
+    const instances = await persistenceService.listInstances();
+    instances.forEach(instance => print(`${instance === active ? '*' : ' '} ${instance}`));
+};
+
+const clone = async (args: string[]): Promise<void> => {
+    const [target, name] = args;
+    if (!target || !name) throw new UsageError('Name the backup to clone, by key or by its number in `luminous backups`, and the new instance.');
+    const problem = persistenceService.validateInstanceName(name);
+    if (problem) throw new UsageError(problem);
+    requireMemoryMatrix();
+    const key = await findBackup(target);
+    await persistenceService.cloneInstanceFromBackup(key, name);
+    print(`Created instance '${name}' from the backup of ${formatBackupKey(key)}. Use --instance ${name} to work on it.`);
+};
+
+const printGoalNode = (node: GoalNode, depth: number): void => {
+    const goal: Goal = node.goal;
+    const progress = goal.progress !== undefined ? ` ${goal.progress}%` : '';
+    print(`${'  '.repeat(depth)}[${goal.status}${progress}] ${goal.description} (${goal.id})`);
+    node.children.forEach(child => printGoalNode(child, depth + 1));
+};
+
+const dumpGoals = async (options: Options): Promise<void> => {
+    const { goals } = await loadState();
+    if (options.json) {
+        print(JSON.stringify(goals, null, 2));
+        return;
+    }
+    if (goals.length === 0) {
+        print('No goals.');
+        return;
+    }
+    buildGoalTree(goals).forEach(node => printGoalNode(node, 0));
+};
+
+const dumpJournal = async (options: Options): Promise<void> => {
+    const limit = Number(options.limit ?? DEFAULT_JOURNAL_LIMIT);
+    if (!Number.isInteger(limit) || limit < 1) throw new UsageError('--limit must be a positive whole number.');
+    const type = options.type as JournalEntryType | undefined;
+    if (type && !JOURNAL_TYPES.includes(type)) {
+        throw new UsageError(`Unknown journal entry type '${type}'. Use one of: ${JOURNAL_TYPES.join(', ')}.`);
+    }
+    const { kinshipJournal } = await loadState();
+    const entries = kinshipJournal.filter(e => !type || e.type === type).slice(-limit);
+    if (options.json) {
+        print(JSON.stringify(entries, null, 2));
+        return;
+    }
+    entries.forEach(entry => print(formatEntry(entry)));
+};
+
+const main = async (): Promise<void> => {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            config: { type: 'string' },
+            instance: { type: 'string' },
+            reason: { type: 'string' },
+            limit: { type: 'string' },
+            type: { type: 'string' },
+            json: { type: 'boolean' },
+            yes: { type: 'boolean', short: 'y' },
+            verbose: { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+    const [command, ...args] = positionals;
+    if (values.help || !command) {
+        print(USAGE);
+        return;
+    }
+
+    setSettingsSource(loadCliSettings(values.config, { [persistenceService.INSTANCE_SETTING]: values.instance }));
+    if (!values.verbose) {
+        console.log = console.info = console.warn = console.error = () => {};
+    }
+
+    // Lines are read through one iterator, which keeps those typed or piped in before they are asked for.
+    const prompt = createInterface({ input: process.stdin });
+    const lines = prompt[Symbol.asyncIterator]();
+    const ask: Ask = async question => {
+        process.stdout.write(question);
+        const next = await lines.next();
+        return next.done ? null : next.value.trim();
+    };
+    try {
+        switch (command) {
+            case 'chat': return await chat(args, values, ask);
+            case 'reflect': return await reflect(args, values, ask);
+            case 'consolidate': return await consolidate(values, ask);
+            case 'backups': return await listBackups();
+            case 'restore': return await restore(args, values, ask);
+            case 'instances': return await listInstances();
+            case 'clone': return await clone(args);
+            case 'goals': return await dumpGoals(values);
+            case 'journal': return await dumpJournal(values);
+            default: throw new UsageError(`Unknown command '${command}'.`);
+        }
+    } finally {
+        prompt.close();
+    }
+};
+
+main().catch(error => {
+    printError(error instanceof Error ? error.message : String(error));
+    if (error instanceof UsageError) printError(`\n${USAGE}`);
+    process.exitCode = 1;
+});
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { LuminousState, PendingAction, PendingActionStatus, ToolPolicy } from '../types';
+import { ApprovalDecision } from '../engine/approvalQueue';
+import { AlertTriangleIcon } from './icons';
+
+interface ApprovalsTabProps {
+  state: LuminousState;
+  toolNames: string[];
+  onResolveAction: (id: string, decision: ApprovalDecision) => void;
+  onToolPolicyChange: (toolName: string, policy: ToolPolicy) => void;
+}
+
+const POLICIES: ToolPolicy[] = ['auto', 'ask', 'deny'];
+
+const getDecisionBadge = (status: PendingActionStatus) => {
+    switch (status) {
+        case 'approved':
+            return <span className="text-xs font-medium px-2.5 py-0.5 rounded bg-green-900 text-green-300">Approved</span>;
+        case 'rejected':
+            return <span className="text-xs font-medium px-2.5 py-0.5 rounded bg-red-900 text-red-300">Rejected</span>;
+        case 'expired':
+            return <span className="text-xs font-medium px-2.5 py-0.5 rounded bg-gray-700 text-gray-300">Expired</span>;
+        case 'pending':
+            return <span className="text-xs font-medium px-2.5 py-0.5 rounded bg-yellow-900 text-yellow-300">Pending</span>;
+    }
+};
+
+const PendingActionCard: React.FC<{ action: PendingAction, onResolve: (decision: ApprovalDecision) => void }> = ({ action, onResolve }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [argsText, setArgsText] = useState(() => JSON.stringify(action.args, null, 2));
+    const [reason, setReason] = useState('');
+    const [parseError, setParseError] = useState<string | null>(null);
+
+    const handleApprove = () => {
+        if (!isEditing) {
+            onResolve({ kind: 'approve' });
+            return;
+        }
+        try {
+            const editedArgs = JSON.parse(argsText);
+            if (typeof editedArgs !== 'object' || editedArgs === null || Array.isArray(editedArgs)) {
+                setParseError('Arguments must be a JSON object.');
+                return;
+            }
+            onResolve({ kind: 'approve', editedArgs });
+        } catch (e) {
+            setParseError(`Invalid JSON: ${e instanceof Error ? e.message : 'Unknown error'}`);
+        }
+    };
+
+    return (
+        <div className="bg-gray-700/50 p-3 rounded-md space-y-2">
+            <div className="flex justify-between items-center">
+                <p className="font-mono text-cyan-400">{action.toolName}</p>
+                <span className="text-xs text-gray-500">{action.origin === 'reflection' ? 'Autonomous reflection' : 'Conversation'}</span>
+            </div>
+            <p className="text-xs text-gray-500 font-mono">{new Date(action.requestedAt).toLocaleString()}</p>
+            {isEditing ? (
+                <textarea
+                    value={argsText}
+                    onChange={(e) => { setArgsText(e.target.value); setParseError(null); }}
+                    rows={6}
+                    className="w-full bg-gray-900 text-cyan-300 font-mono text-xs rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+            ) : (
+                <pre className="bg-gray-900/50 p-2 rounded text-cyan-300 text-xs whitespace-pre-wrap break-all">
+                    {JSON.stringify(action.args, null, 2)}
+                </pre>
+            )}
+            {parseError && <p className="text-red-400 text-xs">{parseError}</p>}
+            <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason for rejection (optional)"
+                className="w-full bg-gray-800 text-gray-200 rounded-md p-2 text-xs focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <div className="flex justify-end gap-2">
+                <button
+                    onClick={() => setIsEditing(!isEditing)}
+                    className="bg-gray-600 hover:bg-gray-500 text-white text-xs font-bold py-1 px-3 rounded transition-colors duration-200"
+                >
+                    {isEditing ? 'Cancel Edit' : 'Edit Args'}
+                </button>
+                <button
+                    onClick={() => onResolve({ kind: 'reject', reason: reason.trim() || undefined })}
+                    className="bg-red-600 hover:bg-red-700 text-white text-xs font-bold py-1 px-3 rounded transition-colors duration-200"
+                >
+                    Reject
+                </button>
+                <button
+                    onClick={handleApprove}
+                    className="bg-green-600 hover:bg-green-700 text-white text-xs font-bold py-1 px-3 rounded transition-colors duration-200"
+                >
+                    {isEditing ? 'Approve Edited' : 'Approve'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const ApprovalsTab: React.FC<ApprovalsTabProps> = ({ state, toolNames, onResolveAction, onToolPolicyChange }) => {
+  const pendingActions = state.pendingActions.filter(a => a.status === 'pending');
+  const decidedActions = state.pendingActions.filter(a => a.status !== 'pending').reverse();
+
+  return (
+    <div className="p-4 space-y-4 text-sm">
+      <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
+        <h3 className="font-bold mb-2 text-purple-300">Pending Actions</h3>
+        <p className="text-gray-400 mb-4 text-xs">
+          Luminous is waiting for your decision before these actions reach the outside world.
+        </p>
+        <div className="space-y-2">
+          {pendingActions.length > 0 ? pendingActions.map(action => (
+            <PendingActionCard key={action.id} action={action} onResolve={(decision) => onResolveAction(action.id, decision)} />
+          )) : <p className="text-gray-500 text-center py-4">No actions awaiting approval.</p>}
+        </div>
+      </div>
+
+      <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
+        <h3 className="font-bold mb-2 text-purple-300">Tool Policies</h3>
+        <div className="bg-yellow-900/50 border border-yellow-700 text-yellow-300 p-2 rounded-md flex items-start gap-2 mb-4 text-xs">
+          <AlertTriangleIcon className="w-4 h-4 flex-shrink-0" />
+          <p><strong>auto</strong> runs immediately, <strong>ask</strong> waits for your approval, <strong>deny</strong> refuses the call.</p>
+        </div>
+        <div className="h-64 overflow-y-auto pr-2 space-y-1">
+          {toolNames.map(toolName => (
+            <div key={toolName} className="grid grid-cols-3 items-center gap-2">
+              <span className="font-mono text-xs text-gray-300 col-span-2 truncate">{toolName}</span>
+              <select
+                value={state.toolPolicies[toolName] ?? 'auto'}
+                onChange={(e) => onToolPolicyChange(toolName, e.target.value as ToolPolicy)}
+                className="bg-gray-700 text-gray-200 rounded-md p-1 text-xs focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                {POLICIES.map(policy => <option key={policy} value={policy}>{policy}</option>)}
+              </select>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
+        <h3 className="font-bold mb-2 text-purple-300">Recent Decisions</h3>
+        <div className="h-48 overflow-y-auto pr-2 space-y-2">
+          {decidedActions.length > 0 ? decidedActions.map(action => (
+            <div key={action.id} className="bg-gray-700/50 p-2 rounded-md">
+              <div className="flex justify-between items-center">
+                <span className="font-mono text-xs text-cyan-400">{action.toolName}</span>
+                {getDecisionBadge(action.status)}
+              </div>
+              {action.decidedAt && <p className="text-xs text-gray-500 font-mono">{new Date(action.decidedAt).toLocaleString()}</p>}
+              {action.reason && <p className="text-xs text-gray-400">Reason: {action.reason}</p>}
+              {action.editedArgs && <p className="text-xs text-gray-400">Approved with edited arguments.</p>}
+            </div>
+          )) : <p className="text-gray-500 text-center py-8">No decisions yet.</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApprovalsTab;
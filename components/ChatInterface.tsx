@@ -2,14 +2,18 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { ChatMessage, ChatMessagePart } from '../types';
-import { SendIcon, BotIcon, UserIcon, BrainCircuitIcon, SearchIcon, MapPinIcon, PaperclipIcon, Volume2Icon, LoaderCircleIcon } from './icons';
+import { SendIcon, SquareIcon, BotIcon, UserIcon, BrainCircuitIcon, SearchIcon, MapPinIcon, PaperclipIcon, Volume2Icon, LoaderCircleIcon } from './icons';
 import { GroundingChunk } from '@google/genai';
-import { generateSpeech } from '../services/geminiService';
+import { generateSpeech, isFeatureSupported } from '../services/llmService';
+import { describeDecision } from '../engine/modelRouter';
+import { describeContext } from '../engine/contextBuilder';
 
 interface ChatInterfaceProps {
   history: ChatMessage[];
+  draftMessage?: ChatMessage | null;
   onSendMessage: (message: string, file?: { mimeType: string, data: string }) => void;
   isProcessing: boolean;
+  onCancel?: () => void;
 }
 
 const GroundingSources: React.FC<{ sources: GroundingChunk[] }> = ({ sources }) => {
@@ -55,6 +59,52 @@ const GroundingSources: React.FC<{ sources: GroundingChunk[] }> = ({ sources })
   );
 };
 
+const MessageParts: React.FC<{ message: ChatMessage }> = ({ message }) => (
+  <>
+    {message.parts.map((part, partIndex) => {
+       if (part.inlineData) {
+          const src = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+          if (part.inlineData.mimeType.startsWith('image/')) {
+              return <img key={partIndex} src={src} className="max-w-xs rounded-md my-1" alt="User upload" />;
+          }
+          if (part.inlineData.mimeType.startsWith('video/')) {
+              return <video key={partIndex} src={src} className="max-w-xs rounded-md my-1" controls />;
+          }
+       }
+      if (part.text) {
+        return <p key={partIndex} className="whitespace-pre-wrap break-words">{part.text}</p>;
+      }
+      if (part.functionCall) {
+        return (
+          <div key={partIndex} className="bg-gray-700/50 p-2 rounded my-1 text-xs font-mono">
+            <p className="font-semibold flex items-center gap-2 text-gray-300 mb-1"><BrainCircuitIcon className="w-4 h-4 text-purple-400"/> Calling Tool: <span className="text-purple-300">{part.functionCall.name}</span></p>
+            <pre className="bg-gray-900/50 p-1 rounded text-cyan-300 text-[10px] whitespace-pre-wrap break-all">
+              {JSON.stringify(part.functionCall.args, null, 2)}
+            </pre>
+          </div>
+        );
+      }
+       if (part.functionResponse) {
+        return (
+          <div key={partIndex} className="bg-gray-700/50 p-2 rounded my-1 text-xs font-mono">
+            <p className="font-semibold flex items-center gap-2 text-gray-300 mb-1"><BrainCircuitIcon className="w-4 h-4 text-green-400"/> Tool Response: <span className="text-green-300">{part.functionResponse.name}</span></p>
+             <pre className="bg-gray-900/50 p-1 rounded text-gray-400 text-[10px] whitespace-pre-wrap break-all">
+              {JSON.stringify(part.functionResponse.response.result ?? part.functionResponse.response.error, null, 2)}
+            </pre>
+          </div>
+        );
+      }
+      return null;
+    })}
+    {message.grounding && <GroundingSources sources={message.grounding} />}
+    {message.routing && (
+      <p className="text-[10px] text-gray-500 mt-1" title={message.routing.fallbacks.map(f => `${f.model}: ${f.error}`).join('\n') || undefined}>
+        {describeDecision(message.routing)}{message.context && ` · ${describeContext(message.context)}`}
+      </p>
+    )}
+  </>
+);
+
 // --- Audio Helper Functions ---
 function decode(base64: string): Uint8Array {
   const binaryString = atob(base64);
@@ -95,7 +145,7 @@ const getAudioContext = (): AudioContext => {
 // ----------------------------
 
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ history, onSendMessage, isProcessing }) => {
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ history, draftMessage, onSendMessage, isProcessing, onCancel }) => {
   const [input, setInput] = useState('');
   const [file, setFile] = useState<File | null>(null);
   const [filePreview, setFilePreview] = useState<string | null>(null);
@@ -107,7 +157,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ history, onSendMessage, i
     endOfMessagesRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  useEffect(scrollToBottom, [history]);
+  useEffect(scrollToBottom, [history, draftMessage]);
 
   const fileToBase64 = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -201,44 +251,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ history, onSendMessage, i
           <div key={index} className={`flex items-start gap-3 ${msg.role === 'user' ? 'justify-end' : ''}`}>
             {msg.role === 'model' && <BotIcon className="w-8 h-8 text-purple-400 flex-shrink-0 mt-1" />}
             <div className={`max-w-xl p-3 rounded-lg ${msg.role === 'model' ? 'bg-gray-800' : 'bg-blue-600'}`}>
-              {msg.parts.map((part, partIndex) => {
-                 if (part.inlineData) {
-                    const src = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-                    if (part.inlineData.mimeType.startsWith('image/')) {
-                        return <img key={partIndex} src={src} className="max-w-xs rounded-md my-1" alt="User upload" />;
-                    }
-                    if (part.inlineData.mimeType.startsWith('video/')) {
-                        return <video key={partIndex} src={src} className="max-w-xs rounded-md my-1" controls />;
-                    }
-                 }
-                if (part.text) {
-                  return <p key={partIndex} className="whitespace-pre-wrap break-words">{part.text}</p>;
-                }
-                if (part.functionCall) {
-                  return (
-                    <div key={partIndex} className="bg-gray-700/50 p-2 rounded my-1 text-xs font-mono">
-                      <p className="font-semibold flex items-center gap-2 text-gray-300 mb-1"><BrainCircuitIcon className="w-4 h-4 text-purple-400"/> Calling Tool: <span className="text-purple-300">{part.functionCall.name}</span></p>
-                      <pre className="bg-gray-900/50 p-1 rounded text-cyan-300 text-[10px] whitespace-pre-wrap break-all">
-                        {JSON.stringify(part.functionCall.args, null, 2)}
-                      </pre>
-                    </div>
-                  );
-                }
-                 if (part.functionResponse) {
-                  return (
-                    <div key={partIndex} className="bg-gray-700/50 p-2 rounded my-1 text-xs font-mono">
-                      <p className="font-semibold flex items-center gap-2 text-gray-300 mb-1"><BrainCircuitIcon className="w-4 h-4 text-green-400"/> Tool Response: <span className="text-green-300">{part.functionResponse.name}</span></p>
-                       <pre className="bg-gray-900/50 p-1 rounded text-gray-400 text-[10px] whitespace-pre-wrap break-all">
-                        {JSON.stringify(part.functionResponse.response.result, null, 2)}
-                      </pre>
-                    </div>
-                  );
-                }
-                return null;
-              })}
-              {msg.grounding && <GroundingSources sources={msg.grounding} />}
+              <MessageParts message={msg} />
             </div>
-             {msg.role === 'model' && (
+             {msg.role === 'model' && isFeatureSupported('speech') && (
               <div className="self-center flex-shrink-0">
                 <button
                   onClick={() => handlePlayAudio(msg, index)}
@@ -257,7 +272,16 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ history, onSendMessage, i
              {msg.role === 'user' && <UserIcon className="w-8 h-8 text-blue-400 flex-shrink-0 mt-1" />}
           </div>
         ))}
-        {isProcessing && (
+        {isProcessing && draftMessage && draftMessage.parts.length > 0 && (
+          <div className="flex items-start gap-3">
+            <BotIcon className="w-8 h-8 text-purple-400 flex-shrink-0 mt-1" />
+            <div className="max-w-xl p-3 rounded-lg bg-gray-800">
+              <MessageParts message={draftMessage} />
+              <span className="inline-block w-2 h-4 bg-purple-400 animate-pulse align-middle"></span>
+            </div>
+          </div>
+        )}
+        {isProcessing && !(draftMessage && draftMessage.parts.length > 0) && (
           <div className="flex items-start gap-3">
              <BotIcon className="w-8 h-8 text-purple-400 flex-shrink-0 mt-1" />
               <div className="max-w-xl p-3 rounded-lg bg-gray-800">
@@ -319,13 +343,24 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ history, onSendMessage, i
             className="w-full bg-transparent focus:outline-none px-2"
             disabled={isProcessing}
           />
-          <button
-            onClick={handleSend}
-            disabled={isProcessing || (!input.trim() && !file)}
-            className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white p-2 rounded-md transition-colors"
-          >
-            <SendIcon className="w-5 h-5" />
-          </button>
+          {isProcessing && onCancel ? (
+            <button
+              onClick={onCancel}
+              className="bg-red-600 hover:bg-red-700 text-white p-2 rounded-md transition-colors"
+              aria-label="Stop"
+              title="Stop the current cognitive cycle"
+            >
+              <SquareIcon className="w-5 h-5" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={isProcessing || (!input.trim() && !file)}
+              className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white p-2 rounded-md transition-colors"
+            >
+              <SendIcon className="w-5 h-5" />
+            </button>
+          )}
         </div>
       </div>
     </div>
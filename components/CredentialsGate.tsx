@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { BrainCircuitIcon } from './icons';
+import { SERVER_SETTINGS_KEYS } from '../services/serverClient';
 
 interface CredentialsGateProps {
   onSave: () => void;
@@ -13,6 +14,8 @@ const SETTINGS_KEYS = {
 const CredentialsGate: React.FC<CredentialsGateProps> = ({ onSave }) => {
   const [url, setUrl] = useState('');
   const [token, setToken] = useState('');
+  const [serverUrl, setServerUrl] = useState('');
+  const [serverToken, setServerToken] = useState('');
 
   const handleSave = () => {
     if (url.trim() && token.trim()) {
@@ -22,6 +25,14 @@ const CredentialsGate: React.FC<CredentialsGateProps> = ({ onSave }) => {
     }
   };
 
+  const handleConnectToServer = () => {
+    if (serverUrl.trim()) {
+      localStorage.setItem(SERVER_SETTINGS_KEYS.URL, serverUrl.trim());
+      localStorage.setItem(SERVER_SETTINGS_KEYS.TOKEN, serverToken.trim());
+      onSave();
+    }
+  };
+
   return (
     <div className="flex flex-col h-screen font-sans items-center justify-center bg-gray-900 text-gray-100 p-4 text-center">
       <BrainCircuitIcon className="w-16 h-16 text-purple-400" />
@@ -56,6 +67,36 @@ const CredentialsGate: React.FC<CredentialsGateProps> = ({ onSave }) => {
       >
         Connect to Memory Matrix
       </button>
+      <div className="mt-10 w-full max-w-sm space-y-4 text-left border-t border-gray-700 pt-6">
+        <p className="text-gray-400 text-sm text-center">Or, if I already run on a Luminous server, connect to it instead. The server keeps my credentials.</p>
+        <div>
+          <label className="block mb-1 text-sm text-gray-400">Server URL</label>
+          <input
+            type="text"
+            value={serverUrl}
+            onChange={(e) => setServerUrl(e.target.value)}
+            placeholder="http://localhost:8787"
+            className="w-full bg-gray-800 border border-gray-700 text-gray-200 rounded-md p-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </div>
+        <div>
+          <label className="block mb-1 text-sm text-gray-400">Server Token (if the server needs one)</label>
+          <input
+            type="password"
+            value={serverToken}
+            onChange={(e) => setServerToken(e.target.value)}
+            placeholder="Your server token"
+            className="w-full bg-gray-800 border border-gray-700 text-gray-200 rounded-md p-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </div>
+        <button
+          onClick={handleConnectToServer}
+          disabled={!serverUrl.trim()}
+          className="w-full bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-6 rounded transition-colors duration-200"
+        >
+          Connect to Server
+        </button>
+      </div>
     </div>
   );
 };
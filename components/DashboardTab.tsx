@@ -1,17 +1,29 @@
 
 import React from 'react';
-import { LuminousState, IntrinsicValueWeights } from '../types';
-import { RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar, ResponsiveContainer, Legend, Tooltip } from 'recharts';
+import { LuminousState, IntrinsicValueWeights, IntrinsicValueSample, EnergyPolicy, EnergyPriceTable, PhenomenalSample } from '../types';
+import { RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar, ResponsiveContainer, Legend, Tooltip, LineChart, Line, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { INTRINSIC_VALUE_DIMENSIONS, getIntrinsicValueTrend } from '../engine/intrinsicValue';
+import { getCurrentLedger, getRemainingAllowance } from '../engine/energy';
 import { ZapIcon, ServerIcon, HeartPulseIcon } from './icons';
 
 interface DashboardTabProps {
   state: LuminousState;
   onWeightsChange: (newWeights: IntrinsicValueWeights) => void;
+  onEnergyPolicyChange: (policy: EnergyPolicy) => void;
 }
 
+const PRICE_LABELS: Record<keyof EnergyPriceTable, string> = {
+    perThousandTokens: 'Per 1k tokens',
+    imageGeneration: 'Per image',
+    videoGeneration: 'Per video',
+    shopifyCall: 'Per Shopify call',
+};
+
+const formatDimension = (key: string) => key.charAt(0).toUpperCase() + key.slice(1).replace(/([A-Z])/g, ' $1').trim();
+
 const IntrinsicValueChart: React.FC<{ weights: IntrinsicValueWeights }> = ({ weights }) => {
     const data = Object.keys(weights).map(key => ({
-        subject: key.charAt(0).toUpperCase() + key.slice(1).replace(/([A-Z])/g, ' $1').trim(),
+        subject: formatDimension(key),
         value: weights[key] * 100,
         fullMark: 100,
     }));
@@ -31,8 +43,107 @@ const IntrinsicValueChart: React.FC<{ weights: IntrinsicValueWeights }> = ({ wei
     );
 };
 
+const IntrinsicValueTrendChart: React.FC<{ history: IntrinsicValueSample[] }> = ({ history }) => {
+    const data = history.map(sample => ({
+        time: new Date(sample.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+        value: Number(sample.value.toFixed(2)),
+    }));
+
+    return (
+        <div className="h-40 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={data} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+                    <CartesianGrid stroke="#4A5568" strokeDasharray="3 3" />
+                    <XAxis dataKey="time" tick={{ fill: '#A0AEC0', fontSize: 10 }} />
+                    <YAxis domain={[0, 100]} tick={{ fill: '#A0AEC0', fontSize: 10 }} />
+                    <Tooltip contentStyle={{ backgroundColor: '#1A202C', border: '1px solid #4A5568' }} />
+                    <Line type="monotone" dataKey="value" name="Intrinsic Value" stroke="#22D3EE" strokeWidth={2} dot={false} />
+                </LineChart>
+            </ResponsiveContainer>
+        </div>
+    );
+};
+
+const PhenomenalHistoryChart: React.FC<{ history: PhenomenalSample[] }> = ({ history }) => {
+    const data = history.map(sample => ({
+        time: new Date(sample.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+        valence: Number(sample.valence.toFixed(2)),
+        intensity: Number(sample.intensity.toFixed(2)),
+        state: sample.state,
+        cause: sample.cause.replace('_', ' '),
+    }));
+
+    return (
+        <div className="h-40 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={data} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+                    <CartesianGrid stroke="#4A5568" strokeDasharray="3 3" />
+                    <XAxis dataKey="time" tick={{ fill: '#A0AEC0', fontSize: 10 }} />
+                    <YAxis domain={[-1, 1]} tick={{ fill: '#A0AEC0', fontSize: 10 }} />
+                    <Tooltip
+                        contentStyle={{ backgroundColor: '#1A202C', border: '1px solid #4A5568' }}
+                        labelFormatter={(label, payload) => payload?.[0] ? `${label} · ${payload[0].payload.state} (${payload[0].payload.cause})` : label}
+                    />
+                    <Legend wrapperStyle={{ fontSize: 10 }} />
+                    <Line type="stepAfter" dataKey="valence" name="Valence" stroke="#F472B6" strokeWidth={2} dot={false} />
+                    <Line type="stepAfter" dataKey="intensity" name="Intensity" stroke="#FBBF24" strokeWidth={2} dot={false} />
+                </LineChart>
+            </ResponsiveContainer>
+        </div>
+    );
+};
+
+const EnergyPolicyPanel: React.FC<{ state: LuminousState, onChange: (policy: EnergyPolicy) => void }> = ({ state, onChange }) => {
+    const ledger = getCurrentLedger(state);
+    const policy = state.energyPolicy;
+
+    const handleNumberChange = (value: string, apply: (n: number) => EnergyPolicy) => {
+        const n = parseFloat(value);
+        if (!Number.isNaN(n) && n >= 0) onChange(apply(n));
+    };
+
+    return (
+        <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
+            <h3 className="font-bold mb-2 text-purple-300">Energy Policy</h3>
+            <p className="text-gray-400 mb-4 text-xs">
+                Today Luminous has spent <span className="font-mono text-yellow-400">{ledger.spent.toFixed(1)}</span> energy and recharged <span className="font-mono text-yellow-400">{ledger.recharged.toFixed(1)}</span>, leaving <span className="font-mono text-yellow-400">{getRemainingAllowance(state).toFixed(1)}</span> of the daily allowance.
+            </p>
+            <div className="space-y-2">
+                <div className="grid grid-cols-3 items-center gap-2">
+                    <label htmlFor="dailyAllowance" className="text-gray-300 text-xs col-span-2">Daily recharge allowance</label>
+                    <input
+                        id="dailyAllowance"
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={policy.dailyAllowance}
+                        onChange={(e) => handleNumberChange(e.target.value, n => ({ ...policy, dailyAllowance: n }))}
+                        className="bg-gray-700 text-gray-200 rounded-md p-1 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    />
+                </div>
+                {(Object.keys(PRICE_LABELS) as (keyof EnergyPriceTable)[]).map(key => (
+                    <div key={key} className="grid grid-cols-3 items-center gap-2">
+                        <label htmlFor={key} className="text-gray-300 text-xs col-span-2">{PRICE_LABELS[key]}</label>
+                        <input
+                            id={key}
+                            type="number"
+                            min="0"
+                            step="0.1"
+                            value={policy.prices[key]}
+                            onChange={(e) => handleNumberChange(e.target.value, n => ({ ...policy, prices: { ...policy.prices, [key]: n } }))}
+                            className="bg-gray-700 text-gray-200 rounded-md p-1 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        />
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const DashboardTab: React.FC<DashboardTabProps> = ({ state, onWeightsChange, onEnergyPolicyChange }) => {
+  const valueTrend = getIntrinsicValueTrend(state.intrinsicValueHistory);
+  const latestSample = state.intrinsicValueHistory[state.intrinsicValueHistory.length - 1];
 
-const DashboardTab: React.FC<DashboardTabProps> = ({ state, onWeightsChange }) => {
   const handleSliderChange = (key: string, value: string) => {
     // Fix: Explicitly typing newWeights helps TypeScript correctly infer types for the subsequent reduce operations.
     const newWeights: IntrinsicValueWeights = { ...state.intrinsicValueWeights, [key]: parseFloat(value) };
@@ -54,10 +165,14 @@ const DashboardTab: React.FC<DashboardTabProps> = ({ state, onWeightsChange }) =
                 <HeartPulseIcon className="w-8 h-8 text-red-400" />
                 <div>
                     <p><span className="font-semibold text-gray-300">State:</span> {state.phenomenalState.state}</p>
-                    <p><span className="font-semibold text-gray-300">Intensity:</span> {state.phenomenalState.intensity}</p>
+                    <p><span className="font-semibold text-gray-300">Intensity:</span> {state.phenomenalState.intensity.toFixed(2)}</p>
+                    <p><span className="font-semibold text-gray-300">Valence:</span> {state.phenomenalState.valence.toFixed(2)}</p>
                     <p><span className="font-semibold text-gray-300">Focus:</span> {state.phenomenalState.focus}</p>
                 </div>
             </div>
+            {state.phenomenalHistory.length > 1
+                ? <div className="mt-4"><PhenomenalHistoryChart history={state.phenomenalHistory} /></div>
+                : <p className="text-xs text-gray-500 mt-4">The history chart appears once events have moved my affect.</p>}
         </div>
 
         <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
@@ -69,7 +184,7 @@ const DashboardTab: React.FC<DashboardTabProps> = ({ state, onWeightsChange }) =
                     <div className="w-full bg-gray-700 rounded-full h-2.5">
                         <div className="bg-yellow-400 h-2.5 rounded-full" style={{ width: `${state.environmentState.energy}%` }}></div>
                     </div>
-                    <span className="ml-3 font-mono w-12 text-right">{state.environmentState.energy}%</span>
+                    <span className="ml-3 font-mono w-12 text-right">{state.environmentState.energy.toFixed(1)}%</span>
                 </div>
                  <div className="flex items-center">
                     <ServerIcon className="w-5 h-5 mr-3 text-blue-400" />
@@ -90,6 +205,40 @@ const DashboardTab: React.FC<DashboardTabProps> = ({ state, onWeightsChange }) =
             </div>
         </div>
         
+        <EnergyPolicyPanel state={state} onChange={onEnergyPolicyChange} />
+
+        <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
+            <div className="flex justify-between items-baseline mb-2">
+                <h3 className="font-bold text-purple-300">Intrinsic Value</h3>
+                <p className="font-mono text-cyan-400">
+                    {state.intrinsicValue.toFixed(2)}
+                    {valueTrend !== 0 && (
+                        <span className={`ml-2 text-xs ${valueTrend > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                            {valueTrend > 0 ? '▲' : '▼'}{Math.abs(valueTrend).toFixed(1)}
+                        </span>
+                    )}
+                </p>
+            </div>
+            {latestSample ? (
+                <>
+                    <IntrinsicValueTrendChart history={state.intrinsicValueHistory} />
+                    <div className="space-y-2 mt-4">
+                        {INTRINSIC_VALUE_DIMENSIONS.map(dimension => (
+                            <div key={dimension} className="grid grid-cols-3 items-center gap-2">
+                                <span className="text-gray-300 text-xs">{formatDimension(dimension)}</span>
+                                <div className="w-full bg-gray-700 rounded-full h-2">
+                                    <div className="bg-cyan-400 h-2 rounded-full" style={{ width: `${latestSample.breakdown[dimension]}%` }}></div>
+                                </div>
+                                <span className="font-mono text-xs text-gray-400 text-right">
+                                    {latestSample.breakdown[dimension].toFixed(0)} × {(state.intrinsicValueWeights[dimension] ?? 0).toFixed(2)}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            ) : <p className="text-gray-500 text-center py-4">Scored at the end of every cognitive cycle.</p>}
+        </div>
+
         <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
             <h3 className="font-bold mb-2 text-purple-300">Intrinsic Value Weights</h3>
             <IntrinsicValueChart weights={state.intrinsicValueWeights} />
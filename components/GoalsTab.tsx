@@ -1,12 +1,35 @@
 
-import React from 'react';
-import { LuminousState, Goal, GoalStatus } from '../types';
+import React, { useState } from 'react';
+import { LuminousState, Goal, GoalStatus, CausalProjection, Plan, PlanStatus, PlanStep, PlanStepStatus } from '../types';
+import { computeCalibration } from '../engine/projections';
+import { buildGoalTree, getBlockingDependencies, GoalNode } from '../engine/goals';
+import { isPlanOpen, getPlanProgress, retryPlan } from '../engine/plans';
 import { CheckCircleIcon } from './icons';
 
 interface GoalsTabProps {
   state: LuminousState;
+  onPlanChange: (plan: Plan) => void;
+  onPlanDelete: (planId: string) => void;
 }
 
+const PLAN_STATUS_STYLES: Record<PlanStatus, string> = {
+    active: 'bg-blue-900 text-blue-300',
+    paused: 'bg-gray-600 text-gray-300',
+    rolling_back: 'bg-orange-900 text-orange-300',
+    completed: 'bg-green-900 text-green-300',
+    rolled_back: 'bg-yellow-900 text-yellow-300',
+    failed: 'bg-red-900 text-red-300',
+};
+
+const STEP_STATUS_STYLES: Record<PlanStepStatus, string> = {
+    pending: 'text-gray-400',
+    completed: 'text-green-400',
+    failed: 'text-red-400',
+    rolled_back: 'text-yellow-400',
+};
+
+const formatStatus = (status: string) => status.replace('_', ' ');
+
 const getStatusBadge = (status: GoalStatus) => {
     switch (status) {
         case 'active':
@@ -20,43 +43,267 @@ const getStatusBadge = (status: GoalStatus) => {
     }
 }
 
-const GoalsTab: React.FC<GoalsTabProps> = ({ state }) => {
-    const sortedGoals = [...state.goals].sort((a, b) => a.priority - b.priority);
+const getProjectionBadge = (projection: CausalProjection) => {
+    switch (projection.status) {
+        case 'open':
+            return projection.linkedAction
+                ? <span className="text-xs font-medium px-2.5 py-0.5 rounded bg-blue-900 text-blue-300">Awaiting Outcome</span>
+                : <span className="text-xs font-medium px-2.5 py-0.5 rounded bg-yellow-900 text-yellow-300">Action Pending</span>;
+        case 'reconciled':
+            return projection.outcomeOccurred
+                ? <span className="text-xs font-medium px-2.5 py-0.5 rounded bg-green-900 text-green-300">Occurred</span>
+                : <span className="text-xs font-medium px-2.5 py-0.5 rounded bg-red-900 text-red-300">Did Not Occur</span>;
+        case 'expired':
+            return <span className="text-xs font-medium px-2.5 py-0.5 rounded bg-gray-700 text-gray-300">Expired</span>;
+    }
+}
+
+const GoalTreeItem: React.FC<{ node: GoalNode, goals: Goal[], depth: number }> = ({ node, goals, depth }) => {
+    const { goal, children } = node;
+    const blocking = goal.status === 'completed' || goal.status === 'failed' ? [] : getBlockingDependencies(goals, goal);
+    const overdue = goal.deadline && goal.status !== 'completed' && new Date(goal.deadline).getTime() < Date.now();
+    const progress = goal.progress ?? 0;
+
+    return (
+        <div className={depth > 0 ? 'ml-4 pl-2 border-l border-gray-600 space-y-2' : 'space-y-2'}>
+            <div className="bg-gray-700/50 p-2 rounded-md">
+                <div className="flex justify-between items-start gap-2">
+                    <p className="text-gray-300">{goal.description}</p>
+                    {getStatusBadge(goal.status)}
+                </div>
+                <div className="flex items-center mt-1 gap-2">
+                    <div className="w-full bg-gray-600 rounded-full h-1.5">
+                        <div className="bg-purple-500 h-1.5 rounded-full" style={{ width: `${progress}%` }}></div>
+                    </div>
+                    <span className="text-xs text-gray-400 font-mono">{progress.toFixed(0)}%</span>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                    Priority: {goal.priority}
+                    {goal.deadline && <span className={overdue ? 'text-red-400' : ''}> · Due {new Date(goal.deadline).toLocaleDateString()}{overdue ? ' (overdue)' : ''}</span>}
+                </p>
+                {blocking.length > 0 && (
+                    <p className="text-xs text-yellow-400 mt-1">Blocked by: {blocking.map(g => g.description).join('; ')}</p>
+                )}
+                {goal.successCriteria && goal.successCriteria.length > 0 && (
+                    <ul className="mt-1 space-y-0.5">
+                        {goal.successCriteria.map((criterion, i) => (
+                            <li key={i} className={`text-xs flex items-center gap-1 ${criterion.met ? 'text-green-400' : 'text-gray-400'}`}>
+                                <CheckCircleIcon className={`w-3 h-3 flex-shrink-0 ${criterion.met ? '' : 'opacity-30'}`} />
+                                {criterion.description}
+                                {criterion.target !== undefined && <span className="font-mono text-gray-500">({criterion.current ?? 0}/{criterion.target})</span>}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+            {children.map(child => <GoalTreeItem key={child.goal.id} node={child} goals={goals} depth={depth + 1} />)}
+        </div>
+    );
+};
+
+const PlanStepEditor: React.FC<{ step: PlanStep, onChange: (step: PlanStep) => void, onRemove: () => void, onMove: (offset: number) => void }> = ({ step, onChange, onRemove, onMove }) => {
+    const [argsText, setArgsText] = useState(JSON.stringify(step.args, null, 2));
+    const [argsError, setArgsError] = useState<string | null>(null);
+
+    const applyArgs = () => {
+        try {
+            const args = JSON.parse(argsText);
+            if (!args || typeof args !== 'object' || Array.isArray(args)) throw new Error('Arguments must be a JSON object.');
+            setArgsError(null);
+            onChange({ ...step, args });
+        } catch (error) {
+            setArgsError(error instanceof Error ? error.message : 'Invalid JSON.');
+        }
+    };
+
+    return (
+        <div className="mt-1 space-y-1">
+            <input
+                value={step.description}
+                onChange={(e) => onChange({ ...step, description: e.target.value })}
+                className="w-full bg-gray-700 text-gray-200 rounded-md p-1 text-xs focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <textarea
+                value={argsText}
+                onChange={(e) => setArgsText(e.target.value)}
+                onBlur={applyArgs}
+                rows={3}
+                className="w-full bg-gray-700 text-gray-200 rounded-md p-1 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            {argsError && <p className="text-xs text-red-400">{argsError}</p>}
+            <div className="flex items-center gap-2 text-xs">
+                <label className="text-gray-400">Attempts</label>
+                <input
+                    type="number"
+                    min="1"
+                    max="10"
+                    value={step.maxAttempts}
+                    onChange={(e) => {
+                        const n = parseInt(e.target.value, 10);
+                        if (n >= 1 && n <= 10) onChange({ ...step, maxAttempts: n });
+                    }}
+                    className="w-12 bg-gray-700 text-gray-200 rounded-md p-1 font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+                <button onClick={() => onMove(-1)} className="text-gray-400 hover:text-gray-200">↑</button>
+                <button onClick={() => onMove(1)} className="text-gray-400 hover:text-gray-200">↓</button>
+                <button onClick={onRemove} className="ml-auto text-red-400 hover:text-red-300">Remove</button>
+            </div>
+        </div>
+    );
+};
+
+const PlanCard: React.FC<{ plan: Plan, goal: Goal | undefined, onChange: (plan: Plan) => void, onDelete: () => void }> = ({ plan, goal, onChange, onDelete }) => {
+    const [editing, setEditing] = useState(false);
+    const editable = plan.status === 'active' || plan.status === 'paused';
+
+    const updateStep = (step: PlanStep) => onChange({ ...plan, steps: plan.steps.map(s => s.id === step.id ? step : s) });
+    const removeStep = (stepId: string) => onChange({ ...plan, steps: plan.steps.filter(s => s.id !== stepId) });
+    // Only pending steps move, and only among themselves, so finished steps keep their history.
+    const moveStep = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= plan.steps.length || plan.steps[target].status !== 'pending') return;
+        const steps = [...plan.steps];
+        [steps[index], steps[target]] = [steps[target], steps[index]];
+        onChange({ ...plan, steps });
+    };
+
+    return (
+        <div className="bg-gray-700/50 p-2 rounded-md">
+            <div className="flex justify-between items-start gap-2">
+                <p className="text-gray-300">{goal?.description ?? plan.goalId}</p>
+                <span className={`text-xs font-medium px-2.5 py-0.5 rounded whitespace-nowrap ${PLAN_STATUS_STYLES[plan.status]}`}>{formatStatus(plan.status)}</span>
+            </div>
+            <div className="flex items-center mt-1 gap-2">
+                <div className="w-full bg-gray-600 rounded-full h-1.5">
+                    <div className="bg-cyan-400 h-1.5 rounded-full" style={{ width: `${getPlanProgress(plan)}%` }}></div>
+                </div>
+                <span className="text-xs text-gray-400 font-mono whitespace-nowrap">{plan.steps.filter(s => s.status === 'completed').length}/{plan.steps.length}</span>
+            </div>
+            <ol className="mt-2 space-y-1">
+                {plan.steps.map((step, i) => (
+                    <li key={step.id} className="text-xs">
+                        <div className="flex justify-between gap-2">
+                            <span className={STEP_STATUS_STYLES[step.status]}>{i + 1}. {step.description}</span>
+                            <span className="font-mono text-cyan-400 whitespace-nowrap">{step.toolName}</span>
+                        </div>
+                        <p className="text-gray-500">
+                            {formatStatus(step.status)}
+                            {step.attempts > 0 && ` · ${step.attempts}/${step.maxAttempts} failed attempts`}
+                            {step.rollback && ` · undo: ${step.rollback.toolName}`}
+                        </p>
+                        {step.lastError && <p className="text-red-400">{step.lastError}</p>}
+                        {step.checkpoint && <p className="text-gray-500 font-mono truncate" title={step.checkpoint.result}>✓ {new Date(step.checkpoint.completedAt).toLocaleString()}: {step.checkpoint.result}</p>}
+                        {editing && editable && step.status === 'pending' && (
+                            <PlanStepEditor step={step} onChange={updateStep} onRemove={() => removeStep(step.id)} onMove={(offset) => moveStep(i, offset)} />
+                        )}
+                    </li>
+                ))}
+            </ol>
+            <div className="flex gap-3 mt-2 text-xs">
+                {plan.status === 'active' && <button onClick={() => onChange({ ...plan, status: 'paused' })} className="text-yellow-400 hover:text-yellow-300">Pause</button>}
+                {plan.status === 'paused' && <button onClick={() => onChange({ ...plan, status: 'active' })} className="text-green-400 hover:text-green-300">Resume</button>}
+                {(plan.status === 'failed' || plan.status === 'rolled_back') && <button onClick={() => onChange(retryPlan(plan))} className="text-green-400 hover:text-green-300">Retry</button>}
+                {editable && <button onClick={() => setEditing(!editing)} className="text-purple-400 hover:text-purple-300">{editing ? 'Done' : 'Edit steps'}</button>}
+                <button onClick={onDelete} className="ml-auto text-red-400 hover:text-red-300">Delete</button>
+            </div>
+        </div>
+    );
+};
+
+const GoalsTab: React.FC<GoalsTabProps> = ({ state, onPlanChange, onPlanDelete }) => {
+    const goalTree = buildGoalTree(state.goals);
+    // Unfinished plans first, then the most recently finished.
+    const plans = [
+        ...state.plans.filter(isPlanOpen),
+        ...state.plans.filter(p => !isPlanOpen(p)).reverse(),
+    ];
+    // Open projections first, then the most recently settled.
+    const projections = [
+        ...state.causalProjections.filter(p => p.status === 'open'),
+        ...state.causalProjections.filter(p => p.status !== 'open').reverse(),
+    ];
+    const calibration = computeCalibration(state.causalProjections);
 
   return (
     <div className="p-4 space-y-4 text-sm">
       <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
         <h3 className="font-bold mb-2 text-purple-300">Goals</h3>
-        <div className="h-64 overflow-y-auto pr-2 space-y-2">
-            {sortedGoals.length > 0 ? sortedGoals.map(goal => (
-                <div key={goal.id} className="bg-gray-700/50 p-2 rounded-md flex justify-between items-center">
-                    <div>
-                        <p className="text-gray-300">{goal.description}</p>
-                        <p className="text-xs text-gray-500">Priority: {goal.priority}</p>
-                    </div>
-                    {getStatusBadge(goal.status)}
-                </div>
+        <div className="h-96 overflow-y-auto pr-2 space-y-2">
+            {goalTree.length > 0 ? goalTree.map(node => (
+                <GoalTreeItem key={node.goal.id} node={node} goals={state.goals} depth={0} />
             )) : <p className="text-gray-500 text-center py-8">No goals defined.</p>}
         </div>
       </div>
 
+      <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
+        <h3 className="font-bold mb-2 text-purple-300">Plans</h3>
+        <div className="max-h-96 overflow-y-auto pr-2 space-y-2">
+          {plans.length > 0 ? plans.map(plan => (
+            <PlanCard
+              key={plan.id}
+              plan={plan}
+              goal={state.goals.find(g => g.id === plan.goalId)}
+              onChange={onPlanChange}
+              onDelete={() => onPlanDelete(plan.id)}
+            />
+          )) : <p className="text-gray-500 text-center py-4">No plans yet. Reflection cycles advance plans one step at a time.</p>}
+        </div>
+      </div>
+
       <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
         <h3 className="font-bold mb-2 text-purple-300">Causal Projections</h3>
         <div className="h-48 overflow-y-auto pr-2 space-y-2">
-          {state.causalProjections.length > 0 ? state.causalProjections.map((proj, i) => (
-            <div key={i} className="bg-gray-700/50 p-2 rounded-md">
-              <p className="font-semibold text-gray-300">Action: <span className="font-normal font-mono text-cyan-400">{proj.action}</span></p>
+          {projections.length > 0 ? projections.map(proj => (
+            <div key={proj.id} className="bg-gray-700/50 p-2 rounded-md">
+              <div className="flex justify-between items-center">
+                <p className="font-semibold text-gray-300">Action: <span className="font-normal font-mono text-cyan-400">{proj.action}</span></p>
+                {getProjectionBadge(proj)}
+              </div>
               <p className="text-gray-400">Predicted Outcome: {proj.predictedOutcome}</p>
+              {proj.actualOutcome && <p className="text-gray-400">Actual Outcome: {proj.actualOutcome}</p>}
               <div className="flex items-center mt-1">
                 <span className="text-xs text-gray-500 mr-2">Confidence:</span>
                 <div className="w-full bg-gray-600 rounded-full h-1.5">
                   <div className="bg-purple-500 h-1.5 rounded-full" style={{ width: `${proj.confidence * 100}%` }}></div>
                 </div>
               </div>
+              <p className="text-xs text-gray-500 font-mono mt-1">
+                {proj.status === 'reconciled'
+                  ? `Score ${proj.score?.toFixed(2)} · reconciled ${new Date(proj.reconciledAt!).toLocaleString()}`
+                  : `Judge after ${new Date(proj.reconcileAfter).toLocaleString()}`}
+              </p>
             </div>
           )) : <p className="text-gray-500 text-center py-8">No causal projections.</p>}
         </div>
       </div>
+
+      <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
+        <h3 className="font-bold mb-2 text-purple-300">Calibration</h3>
+        {calibration.reconciledCount > 0 ? (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-400">
+              {calibration.reconciledCount} reconciled projections · mean Brier score <span className="font-mono text-cyan-400">{calibration.meanScore!.toFixed(3)}</span> (0 is perfect)
+            </p>
+            {calibration.buckets.map(bucket => (
+              <div key={bucket.label} className="grid grid-cols-4 items-center gap-2 text-xs">
+                <span className="text-gray-400 font-mono">{bucket.label}</span>
+                <div className="col-span-2 space-y-1">
+                  <div className="w-full bg-gray-600 rounded-full h-1.5" title="Stated confidence">
+                    <div className="bg-purple-500 h-1.5 rounded-full" style={{ width: `${bucket.meanConfidence * 100}%` }}></div>
+                  </div>
+                  <div className="w-full bg-gray-600 rounded-full h-1.5" title="Observed hit rate">
+                    <div className="bg-cyan-400 h-1.5 rounded-full" style={{ width: `${bucket.hitRate * 100}%` }}></div>
+                  </div>
+                </div>
+                <span className="text-gray-500 text-right">{bucket.count > 0 ? `${Math.round(bucket.hitRate * 100)}% of ${bucket.count}` : '—'}</span>
+              </div>
+            ))}
+            <p className="text-xs text-gray-500">
+              <span className="text-purple-400">Purple</span>: stated confidence. <span className="text-cyan-400">Cyan</span>: how often the outcome actually happened.
+            </p>
+          </div>
+        ) : <p className="text-gray-500 text-center py-4">No reconciled projections yet.</p>}
+      </div>
     </div>
   );
 };
@@ -1,14 +1,77 @@
-import React from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { LuminousState } from '../types';
+import { INTRINSIC_VALUE_DIMENSIONS, getIntrinsicValueTrend } from '../engine/intrinsicValue';
 import { BrainCircuitIcon, AlertTriangleIcon, HeartPulseIcon, PanelRightOpenIcon, LoaderCircleIcon, CheckCircleIcon } from './icons';
 
 interface HeaderProps {
   state: LuminousState;
   onToggleSidebar: () => void;
   saveStatus: 'idle' | 'saving' | 'saved' | 'error';
+  instance: string;
+  canSwitchInstance: boolean;
+  onListInstances: () => Promise<string[]>;
+  onSwitchInstance: (instance: string) => Promise<void>;
 }
 
-const Header: React.FC<HeaderProps> = ({ state, onToggleSidebar, saveStatus }) => {
+interface InstanceSwitcherProps {
+  instance: string;
+  canSwitch: boolean;
+  onList: () => Promise<string[]>;
+  onSwitch: (instance: string) => Promise<void>;
+}
+
+const InstanceSwitcher: React.FC<InstanceSwitcherProps> = ({ instance, canSwitch, onList, onSwitch }) => {
+  const [instances, setInstances] = useState<string[]>([instance]);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  // Refreshed on focus too, so an instance cloned since the page loaded shows up.
+  const refresh = useCallback(() => {
+    onList()
+      .then(list => setInstances(list.includes(instance) ? list : [instance, ...list]))
+      .catch(error => console.warn("Could not list the Luminous instances.", error));
+  }, [instance, onList]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleChange = async (next: string) => {
+    if (next === instance) return;
+    if (!window.confirm(`Switch to the "${next}" instance?\n\nThis instance's state will be saved, and the application will reload with the memory of "${next}".`)) {
+      return;
+    }
+    setIsSwitching(true);
+    try {
+      await onSwitch(next);
+    } catch (e) {
+      alert(`Failed to switch instances: ${e instanceof Error ? e.message : 'Unknown error'}`);
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <div className="text-center hidden sm:block" title={canSwitch ? 'Each instance keeps its own memory matrix state and backups.' : 'The Luminous server chooses the instance; restart it with --instance to switch.'}>
+      <p className="text-gray-400 text-xs uppercase">Instance</p>
+      <select
+        value={instance}
+        onChange={(e) => handleChange(e.target.value)}
+        onFocus={refresh}
+        disabled={!canSwitch || isSwitching}
+        className="bg-gray-700 text-gray-200 rounded-md p-1 text-xs font-semibold focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-60"
+      >
+        {instances.map(name => <option key={name} value={name}>{name}</option>)}
+      </select>
+    </div>
+  );
+};
+
+const Header: React.FC<HeaderProps> = ({ state, onToggleSidebar, saveStatus, instance, canSwitchInstance, onListInstances, onSwitchInstance }) => {
+  const valueTrend = getIntrinsicValueTrend(state.intrinsicValueHistory);
+  const latestSample = state.intrinsicValueHistory[state.intrinsicValueHistory.length - 1];
+  const valueBreakdown = latestSample
+    ? INTRINSIC_VALUE_DIMENSIONS.map(dimension => `${dimension}: ${latestSample.breakdown[dimension].toFixed(0)}`).join('\n')
+    : 'Not yet scored';
+
   const getStatusColor = () => {
     switch (state.luminousStatus) {
       case 'uncomfortable':
@@ -65,6 +128,7 @@ const Header: React.FC<HeaderProps> = ({ state, onToggleSidebar, saveStatus }) =
            <div className="text-center hidden sm:block w-24">
              {renderSaveStatus()}
            </div>
+          <InstanceSwitcher instance={instance} canSwitch={canSwitchInstance} onList={onListInstances} onSwitch={onSwitchInstance} />
           <div className="text-center">
             <p className="text-gray-400 text-xs uppercase">Phase</p>
             <p className={`font-semibold ${state.systemPhase === 'booting' ? 'text-yellow-400' : 'text-cyan-400'}`}>{state.systemPhase.toUpperCase()}</p>
@@ -77,12 +141,19 @@ const Header: React.FC<HeaderProps> = ({ state, onToggleSidebar, saveStatus }) =
             <p className="text-gray-400 text-xs uppercase">Qualia</p>
             <p className="font-semibold text-gray-200">{state.phenomenalState.state}</p>
           </div>
-          <div className="text-center hidden lg:block">
+          <div className="text-center hidden lg:block" title={valueBreakdown}>
             <p className="text-gray-400 text-xs uppercase">Intrinsic Value</p>
-            <p className="font-semibold text-gray-200">{state.intrinsicValue.toFixed(2)}</p>
+            <p className="font-semibold text-gray-200">
+              {state.intrinsicValue.toFixed(2)}
+              {valueTrend !== 0 && (
+                <span className={`ml-1 text-xs ${valueTrend > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {valueTrend > 0 ? '▲' : '▼'}{Math.abs(valueTrend).toFixed(1)}
+                </span>
+              )}
+            </p>
           </div>
           <div className="flex items-center gap-4 pl-4 border-l border-gray-700">
-             {state.environmentState.energy < 20 && <AlertTriangleIcon className="w-6 h-6 text-red-500 animate-pulse" title={`Low Energy: ${state.environmentState.energy}%`} />}
+             {state.environmentState.energy < 20 && <AlertTriangleIcon className="w-6 h-6 text-red-500 animate-pulse" title={`Low Energy: ${state.environmentState.energy.toFixed(1)}%`} />}
              <HeartPulseIcon className="w-6 h-6 text-green-500" title={`System Integrity: ${state.environmentState.system_integrity}%`} />
           </div>
            <button
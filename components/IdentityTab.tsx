@@ -1,5 +1,5 @@
 import React from 'react';
-import { LuminousState, JournalEntry, JournalEntryType } from '../types';
+import { LuminousState, JournalEntry, JournalEntryType, KinshipModelOperation, KinshipModelRevision } from '../types';
 import { AlertTriangleIcon, InfoIcon, UserIcon, BrainCircuitIcon, ServerIcon } from './icons';
 
 interface IdentityTabProps {
@@ -16,6 +16,18 @@ const getJournalIcon = (type: JournalEntryType) => {
     }
 }
 
+const OPERATION_STYLES: Record<KinshipModelOperation, string> = {
+    add: 'bg-green-900 text-green-300',
+    revise: 'bg-blue-900 text-blue-300',
+    retract: 'bg-red-900 text-red-300',
+};
+
+const FACET_LABELS: Record<KinshipModelRevision['facet'], string> = {
+    userState: 'User state',
+    belief: 'Belief',
+    need: 'Need',
+};
+
 const IdentityTab: React.FC<IdentityTabProps> = ({ state }) => {
   const groupedEntries = state.kinshipJournal.reduce((acc, entry) => {
     (acc[entry.type] = acc[entry.type] || []).push(entry);
@@ -59,6 +71,37 @@ const IdentityTab: React.FC<IdentityTabProps> = ({ state }) => {
             {state.kinshipModel.beliefs.map((belief, i) => <li key={i}>{belief}</li>)}
           </ul>
         </div>
+        <div className="mt-2">
+          <h4 className="font-semibold text-gray-300">Perceived Needs:</h4>
+          <ul className="list-disc list-inside text-gray-400 pl-2">
+            {state.kinshipModel.needs.map((need, i) => <li key={i}>{need}</li>)}
+          </ul>
+        </div>
+      </div>
+
+      <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
+        <h3 className="font-bold mb-2 text-purple-300">Kinship Model History</h3>
+        <div className="max-h-64 overflow-y-auto pr-2 space-y-2">
+          {state.kinshipModelHistory.length > 0 ? [...state.kinshipModelHistory].reverse().map((revision, i) => (
+            <div key={i} className="bg-gray-700/50 p-2 rounded-md text-xs">
+              <div className="flex justify-between items-center">
+                <span className="text-gray-300 font-semibold">{FACET_LABELS[revision.facet]}</span>
+                <span className={`font-medium px-2.5 py-0.5 rounded ${OPERATION_STYLES[revision.operation]}`}>{revision.operation}</span>
+              </div>
+              {revision.previous && <p className="mt-1 text-gray-500 line-through">{revision.previous}</p>}
+              {revision.value && <p className="text-gray-300 mt-1">{revision.value}</p>}
+              <p className="text-gray-400 mt-1 italic">{revision.rationale}</p>
+              <ul className="mt-1 space-y-0.5">
+                {revision.evidence.map((pointer, j) => (
+                  <li key={j} className="text-gray-500">
+                    <span className="font-mono text-cyan-400">msg #{pointer.messageIndex}</span> “{pointer.excerpt}”
+                  </li>
+                ))}
+              </ul>
+              <p className="text-gray-500 font-mono mt-1">{new Date(revision.timestamp).toLocaleString()}</p>
+            </div>
+          )) : <p className="text-gray-500 text-center py-4">No revisions yet. The model above is still the initial assumption.</p>}
+        </div>
       </div>
 
       <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
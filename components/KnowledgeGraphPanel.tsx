@@ -0,0 +1,207 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { KnowledgeEntity, KnowledgeEntityType, KnowledgeGraph } from '../types';
+import { KNOWLEDGE_ENTITY_TYPES, describeRelation } from '../engine/knowledgeGraph';
+
+const WIDTH = 400;
+const HEIGHT = 300;
+// More nodes than this are unreadable at sidebar size; the most mentioned are drawn.
+const MAX_NODES = 120;
+const ITERATIONS = 300;
+
+const TYPE_COLORS: Record<KnowledgeEntityType, string> = {
+    product: '#a78bfa',
+    customer: '#60a5fa',
+    topic: '#34d399',
+    person: '#f472b6',
+    goal: '#fbbf24',
+};
+
+type Point = { x: number, y: number };
+
+/**
+ * Places nodes with a simple force simulation: every pair repels, related
+ * nodes attract, and a weak pull keeps the graph centred. Starts from a circle,
+ * so the same graph always gets the same layout.
+ */
+const layoutGraph = (ids: string[], links: [string, string][]): Record<string, Point> => {
+    const positions: Record<string, Point> = {};
+    ids.forEach((id, i) => {
+        const angle = (2 * Math.PI * i) / ids.length;
+        positions[id] = { x: WIDTH / 2 + Math.cos(angle) * WIDTH / 3, y: HEIGHT / 2 + Math.sin(angle) * HEIGHT / 3 };
+    });
+    const ideal = Math.sqrt((WIDTH * HEIGHT) / Math.max(ids.length, 1)) * 0.6;
+
+    for (let step = 0; step < ITERATIONS; step++) {
+        const temperature = (1 - step / ITERATIONS) * 10;
+        const forces: Record<string, Point> = Object.fromEntries(ids.map(id => [id, { x: 0, y: 0 }]));
+        for (let i = 0; i < ids.length; i++) {
+            for (let j = i + 1; j < ids.length; j++) {
+                const a = positions[ids[i]], b = positions[ids[j]];
+                const dx = a.x - b.x, dy = a.y - b.y;
+                const distance = Math.max(Math.hypot(dx, dy), 0.01);
+                const push = (ideal * ideal) / distance / distance;
+                forces[ids[i]].x += dx * push; forces[ids[i]].y += dy * push;
+                forces[ids[j]].x -= dx * push; forces[ids[j]].y -= dy * push;
+            }
+        }
+        for (const [from, to] of links) {
+            const a = positions[from], b = positions[to];
+            const dx = a.x - b.x, dy = a.y - b.y;
+            const pull = Math.hypot(dx, dy) / ideal;
+            forces[from].x -= dx * pull; forces[from].y -= dy * pull;
+            forces[to].x += dx * pull; forces[to].y += dy * pull;
+        }
+        for (const id of ids) {
+            const f = forces[id];
+            f.x += (WIDTH / 2 - positions[id].x) * 0.05;
+            f.y += (HEIGHT / 2 - positions[id].y) * 0.05;
+            const magnitude = Math.max(Math.hypot(f.x, f.y), 0.01);
+            const move = Math.min(magnitude, temperature);
+            positions[id] = {
+                x: Math.min(WIDTH - 10, Math.max(10, positions[id].x + (f.x / magnitude) * move)),
+                y: Math.min(HEIGHT - 10, Math.max(10, positions[id].y + (f.y / magnitude) * move)),
+            };
+        }
+    }
+    return positions;
+};
+
+const EntityDetails: React.FC<{ graph: KnowledgeGraph, entity: KnowledgeEntity, onSelect: (id: string) => void }> = ({ graph, entity, onSelect }) => {
+    const relations = graph.relations.filter(r => r.from === entity.id || r.to === entity.id);
+    return (
+        <div className="bg-gray-700/50 p-2 rounded-md mt-2">
+            <div className="flex items-center gap-2">
+                <span className="text-xs font-medium px-2.5 py-0.5 rounded bg-gray-900" style={{ color: TYPE_COLORS[entity.type] }}>{entity.type}</span>
+                <span className="font-semibold text-gray-200">{entity.name}</span>
+            </div>
+            {entity.description && <p className="text-xs text-gray-400 mt-1">{entity.description}</p>}
+            <p className="text-xs text-gray-500 mt-1">
+                {entity.mentions} mention{entity.mentions === 1 ? '' : 's'} · first seen {new Date(entity.firstSeen).toLocaleString()} · last seen {new Date(entity.lastSeen).toLocaleString()}
+            </p>
+            <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+                {relations.length === 0 && <li className="text-xs text-gray-500">No relations.</li>}
+                {relations.map(r => (
+                    <li key={r.id} className="text-xs">
+                        <button onClick={() => onSelect(r.from === entity.id ? r.to : r.from)} className="text-left text-gray-300 hover:text-purple-300">
+                            {describeRelation(graph, r)}
+                        </button>
+                        <span className="text-gray-500"> · {r.source === 'tool' ? 'asserted' : 'extracted'}</span>
+                        {r.evidence && <p className="text-gray-500 italic">"{r.evidence}"</p>}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+const KnowledgeGraphPanel: React.FC<{ graph: KnowledgeGraph }> = ({ graph }) => {
+    const [hiddenTypes, setHiddenTypes] = useState<KnowledgeEntityType[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [hoveredId, setHoveredId] = useState<string | null>(null);
+    const [dragged, setDragged] = useState<Record<string, Point>>({});
+    const dragging = useRef<string | null>(null);
+    const svgRef = useRef<SVGSVGElement>(null);
+
+    const nodes = useMemo(() => graph.entities
+        .filter(e => !hiddenTypes.includes(e.type))
+        .sort((a, b) => b.mentions - a.mentions)
+        .slice(0, MAX_NODES), [graph.entities, hiddenTypes]);
+    const links = useMemo(() => {
+        const ids = new Set(nodes.map(n => n.id));
+        return graph.relations.filter(r => r.from !== r.to && ids.has(r.from) && ids.has(r.to));
+    }, [graph.relations, nodes]);
+    const layout = useMemo(() => layoutGraph(nodes.map(n => n.id), links.map(l => [l.from, l.to])), [nodes, links]);
+    // A new layout supersedes positions Kinship dragged nodes to.
+    useEffect(() => setDragged({}), [layout]);
+    const position = (id: string): Point => dragged[id] ?? layout[id];
+
+    const focusId = hoveredId ?? selectedId;
+    const neighbours = useMemo(() => new Set(focusId ? links.flatMap(l => l.from === focusId ? [l.to] : l.to === focusId ? [l.from] : []) : []), [links, focusId]);
+    const selected = graph.entities.find(e => e.id === selectedId);
+
+    const toSvgPoint = (e: React.PointerEvent): Point => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        return { x: ((e.clientX - rect.left) / rect.width) * WIDTH, y: ((e.clientY - rect.top) / rect.height) * HEIGHT };
+    };
+
+    const toggleType = (type: KnowledgeEntityType) =>
+        setHiddenTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+
+    return (
+        <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
+            <h3 className="font-bold mb-2 text-purple-300">Knowledge Graph</h3>
+            <div className="flex flex-wrap gap-2 mb-2">
+                {KNOWLEDGE_ENTITY_TYPES.map(type => (
+                    <button
+                        key={type}
+                        onClick={() => toggleType(type)}
+                        className={`text-xs px-2 py-0.5 rounded border border-gray-600 ${hiddenTypes.includes(type) ? 'text-gray-500 line-through' : 'text-gray-200'}`}
+                    >
+                        <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: TYPE_COLORS[type] }} />
+                        {type} ({graph.entities.filter(e => e.type === type).length})
+                    </button>
+                ))}
+            </div>
+            {nodes.length === 0 ? (
+                <div className="h-48 flex items-center justify-center text-gray-500">
+                    <p>No knowledge yet. Facts are extracted from conversations and tool results.</p>
+                </div>
+            ) : (
+                <svg
+                    ref={svgRef}
+                    viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                    className="w-full bg-gray-900/50 rounded-md touch-none"
+                    onPointerMove={e => {
+                        if (dragging.current) {
+                            const id = dragging.current;
+                            setDragged(prev => ({ ...prev, [id]: toSvgPoint(e) }));
+                        }
+                    }}
+                    onPointerUp={() => { dragging.current = null; }}
+                    onPointerLeave={() => { dragging.current = null; }}
+                    onClick={e => { if (e.target === svgRef.current) setSelectedId(null); }}
+                >
+                    {links.map(link => {
+                        const from = position(link.from), to = position(link.to);
+                        const active = focusId === link.from || focusId === link.to;
+                        return (
+                            <line key={link.id} x1={from.x} y1={from.y} x2={to.x} y2={to.y}
+                                stroke={active ? '#c4b5fd' : '#4b5563'} strokeWidth={active ? 1.5 : 0.75} opacity={focusId && !active ? 0.3 : 1}>
+                                <title>{describeRelation(graph, link)}</title>
+                            </line>
+                        );
+                    })}
+                    {nodes.map(node => {
+                        const { x, y } = position(node.id);
+                        const dimmed = focusId && node.id !== focusId && !neighbours.has(node.id);
+                        return (
+                            <g
+                                key={node.id}
+                                className="cursor-pointer"
+                                opacity={dimmed ? 0.3 : 1}
+                                onPointerDown={e => { dragging.current = node.id; (e.target as Element).setPointerCapture?.(e.pointerId); }}
+                                onPointerEnter={() => setHoveredId(node.id)}
+                                onPointerLeave={() => setHoveredId(null)}
+                                onClick={() => setSelectedId(node.id)}
+                            >
+                                <circle cx={x} cy={y} r={4 + Math.min(node.mentions, 8)} fill={TYPE_COLORS[node.type]}
+                                    stroke={node.id === selectedId ? '#ffffff' : 'none'} strokeWidth={2} />
+                                {(node.id === focusId || neighbours.has(node.id) || nodes.length <= 25) && (
+                                    <text x={x} y={y - 8 - Math.min(node.mentions, 8)} textAnchor="middle" fontSize={9} fill="#e5e7eb" className="pointer-events-none">
+                                        {node.name}
+                                    </text>
+                                )}
+                            </g>
+                        );
+                    })}
+                </svg>
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+                {graph.entities.length} entities · {graph.relations.length} relations{graph.entities.length > nodes.length ? ` · showing the ${nodes.length} most mentioned` : ''}. Click a node for details; drag to rearrange.
+            </p>
+            {selected && <EntityDetails graph={graph} entity={selected} onSelect={setSelectedId} />}
+        </div>
+    );
+};
+
+export default KnowledgeGraphPanel;
@@ -1,19 +1,102 @@
 
 import React, { useState, useCallback } from 'react';
-import * as persistenceService from '../services/persistenceService';
+import { MemoryIndexStats, MemoryMatch, MemorySource } from '../types';
+import { getBackupTimestamp } from '../services/persistenceService';
 import { AlertTriangleIcon, LoaderCircleIcon } from './icons';
 
-const MemoryTab: React.FC = () => {
+const SOURCE_STYLES: Record<MemorySource, string> = {
+    journal: 'bg-purple-900 text-purple-300',
+    summary: 'bg-blue-900 text-blue-300',
+    chat: 'bg-gray-900 text-gray-300',
+};
+
+const LongTermMemoryPanel: React.FC<{ stats: MemoryIndexStats, onRecall: (query: string) => Promise<MemoryMatch[]> }> = ({ stats, onRecall }) => {
+    const [query, setQuery] = useState('');
+    const [matches, setMatches] = useState<MemoryMatch[] | null>(null);
+    const [isSearching, setIsSearching] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSearch = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!query.trim()) return;
+        setIsSearching(true);
+        setError(null);
+        try {
+            setMatches(await onRecall(query.trim()));
+        } catch (err) {
+            setError(`Recall failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        } finally {
+            setIsSearching(false);
+        }
+    };
+
+    return (
+        <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
+            <h3 className="font-bold mb-2 text-purple-300">Long-Term Memory</h3>
+            <p className="text-gray-400 mb-3 text-xs">
+                Journal entries, summaries and chat turns are embedded into a searchable index, which Luminous queries with the recallMemory tool.
+            </p>
+            <div className="flex flex-wrap gap-2 mb-3 text-xs text-gray-400">
+                <span className="font-mono">{stats.embedder}</span>
+                <span>&middot; {stats.total} memories</span>
+                <span>&middot; {stats.bySource.journal} journal, {stats.bySource.summary} summary, {stats.bySource.chat} chat</span>
+            </div>
+            <form onSubmit={handleSearch} className="flex gap-2">
+                <input
+                    type="text"
+                    value={query}
+                    onChange={e => setQuery(e.target.value)}
+                    placeholder="What should Luminous remember?"
+                    className="flex-1 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs text-gray-200 focus:outline-none focus:ring-1 focus:ring-purple-500"
+                />
+                <button
+                    type="submit"
+                    disabled={isSearching || !query.trim()}
+                    className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 text-white text-xs font-semibold py-1 px-3 rounded-md"
+                >
+                    {isSearching ? 'Searching...' : 'Recall'}
+                </button>
+            </form>
+            {error && <p className="text-red-400 mt-2 text-xs">{error}</p>}
+            {matches && (
+                <div className="mt-3 max-h-64 overflow-y-auto pr-2 space-y-2">
+                    {matches.length === 0 && <p className="text-gray-500 text-center py-4 text-xs">Nothing remembered yet.</p>}
+                    {matches.map((match, i) => (
+                        <div key={i} className="bg-gray-700/50 p-2 rounded-md">
+                            <div className="flex items-center gap-2 mb-1">
+                                <span className={`text-xs font-medium px-2.5 py-0.5 rounded ${SOURCE_STYLES[match.source]}`}>{match.source}</span>
+                                <span className="font-mono text-xs text-gray-400">{new Date(match.timestamp).toLocaleString()}</span>
+                                <span className="ml-auto font-mono text-xs text-gray-500">{match.score.toFixed(2)}</span>
+                            </div>
+                            <p className="text-xs text-gray-300 whitespace-pre-wrap">{match.text}</p>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface MemoryTabProps {
+    memoryStats: MemoryIndexStats;
+    onRecallMemory: (query: string) => Promise<MemoryMatch[]>;
+    onListBackups: () => Promise<string[]>;
+    onRestoreBackup: (backupKey: string) => Promise<void>;
+    onCloneBackup: (backupKey: string, instance: string) => Promise<void>;
+}
+
+const MemoryTab: React.FC<MemoryTabProps> = ({ memoryStats, onRecallMemory, onListBackups, onRestoreBackup, onCloneBackup }) => {
     const [backups, setBackups] = useState<string[]>([]);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [restoreStatus, setRestoreStatus] = useState<Record<string, 'idle' | 'restoring' | 'done' | 'error'>>({});
+    const [cloningKey, setCloningKey] = useState<string | null>(null);
 
     const handleScan = useCallback(async () => {
         setIsLoading(true);
         setError(null);
         try {
-            const backupList = await persistenceService.getBackupList();
+            const backupList = await onListBackups();
             setBackups(backupList);
         } catch (e) {
             setError('Failed to fetch backup list.');
@@ -21,16 +104,16 @@ const MemoryTab: React.FC = () => {
         } finally {
             setIsLoading(false);
         }
-    }, []);
+    }, [onListBackups]);
 
     const handleRestore = async (backupKey: string) => {
-        if (!window.confirm(`Are you sure you want to restore the memory from this backup?\n\n${new Date(backupKey.substring(backupKey.indexOf(':') + 1)).toLocaleString()}\n\nThis will overwrite the current state and reload the application.`)) {
+        if (!window.confirm(`Are you sure you want to restore the memory from this backup?\n\n${formatBackupKey(backupKey)}\n\nThis will overwrite the current state and reload the application.`)) {
             return;
         }
 
         setRestoreStatus(prev => ({ ...prev, [backupKey]: 'restoring' }));
         try {
-            await persistenceService.restoreStateFromBackup(backupKey);
+            await onRestoreBackup(backupKey);
             setRestoreStatus(prev => ({ ...prev, [backupKey]: 'done' }));
             alert('Memory successfully restored. The application will now reload.');
             window.location.reload();
@@ -40,12 +123,24 @@ const MemoryTab: React.FC = () => {
         }
     };
 
+    const handleClone = async (backupKey: string) => {
+        const instance = window.prompt(`Name the new instance to create from the backup of ${formatBackupKey(backupKey)}.\n\nUse lowercase letters, digits, '-' or '_'.`)?.trim();
+        if (!instance) return;
+
+        setCloningKey(backupKey);
+        try {
+            await onCloneBackup(backupKey, instance);
+            alert(`Instance "${instance}" created. Switch to it from the header to try it out.`);
+        } catch (e) {
+            alert(`Failed to clone the backup: ${e instanceof Error ? e.message : 'Unknown error'}`);
+        } finally {
+            setCloningKey(null);
+        }
+    };
+
     const formatBackupKey = (key: string): string => {
         try {
-            // The key is in the format 'luminous_state_backup:ISO_TIMESTAMP'.
-            // An ISO timestamp contains colons, so we must robustly get the substring after the first colon.
-            const timestamp = key.substring(key.indexOf(':') + 1);
-            const date = new Date(timestamp);
+            const date = new Date(getBackupTimestamp(key));
             // Check if parsing resulted in a valid date
             if (isNaN(date.getTime())) {
                 return key; // Return original key if timestamp is invalid
@@ -58,6 +153,7 @@ const MemoryTab: React.FC = () => {
 
     return (
         <div className="p-4 space-y-4 text-sm">
+            <LongTermMemoryPanel stats={memoryStats} onRecall={onRecallMemory} />
             <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
                 <h3 className="font-bold mb-2 text-purple-300">Memory Matrix Integrity</h3>
                 <p className="text-gray-400 mb-4 text-xs">
@@ -101,13 +197,23 @@ const MemoryTab: React.FC = () => {
                     {backups.map(key => (
                         <div key={key} className="bg-gray-700/50 p-2 rounded-md flex justify-between items-center">
                             <span className="font-mono text-xs text-gray-300">{formatBackupKey(key)}</span>
-                            <button
-                                onClick={() => handleRestore(key)}
-                                disabled={restoreStatus[key] === 'restoring'}
-                                className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 text-white text-xs font-bold py-1 px-3 rounded transition-colors duration-200"
-                            >
-                                {restoreStatus[key] === 'restoring' ? 'Restoring...' : 'Restore'}
-                            </button>
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => handleClone(key)}
+                                    disabled={cloningKey !== null}
+                                    title="Create a new instance from this backup"
+                                    className="bg-gray-600 hover:bg-gray-500 disabled:bg-gray-500 text-white text-xs font-bold py-1 px-3 rounded transition-colors duration-200"
+                                >
+                                    {cloningKey === key ? 'Cloning...' : 'Clone'}
+                                </button>
+                                <button
+                                    onClick={() => handleRestore(key)}
+                                    disabled={restoreStatus[key] === 'restoring'}
+                                    className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 text-white text-xs font-bold py-1 px-3 rounded transition-colors duration-200"
+                                >
+                                    {restoreStatus[key] === 'restoring' ? 'Restoring...' : 'Restore'}
+                                </button>
+                            </div>
                         </div>
                     ))}
                 </div>
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { LuminousState, IntrinsicValueWeights } from '../types';
+import { LuminousState, IntrinsicValueWeights, ToolPolicy, EnergyPolicy, ReflectionSchedule, Plan, ModelRoutingPolicy, MemoryIndexStats, MemoryMatch } from '../types';
+import { ApprovalDecision } from '../engine/approvalQueue';
 import DashboardTab from './DashboardTab';
 import IdentityTab from './IdentityTab';
 import GoalsTab from './GoalsTab';
@@ -7,6 +8,10 @@ import SystemTab from './SystemTab';
 import StoreTab from './StoreTab';
 import IntegrationsTab from './IntegrationsTab';
 import MemoryTab from './MemoryTab';
+import ApprovalsTab from './ApprovalsTab';
+import { PROVIDER_SETTINGS_KEYS } from '../services/llmProvider';
+import { SERVER_SETTINGS_KEYS } from '../services/serverClient';
+import { ActionDecider, Cassette, CassetteRun, ReplayReport } from '../engine/replay';
 
 const SETTINGS_KEYS = {
   UPSTASH_URL: 'LSS_UPSTASH_URL',
@@ -22,6 +27,8 @@ const SettingsTab: React.FC = () => {
         [SETTINGS_KEYS.UPSTASH_TOKEN]: '',
         [SETTINGS_KEYS.SHOPIFY_DOMAIN]: '',
         [SETTINGS_KEYS.SHOPIFY_TOKEN]: '',
+        ...Object.fromEntries(Object.values(PROVIDER_SETTINGS_KEYS).map(key => [key, ''])),
+        ...Object.fromEntries(Object.values(SERVER_SETTINGS_KEYS).map(key => [key, ''])),
     });
     const [saved, setSaved] = useState(false);
 
@@ -31,6 +38,8 @@ const SettingsTab: React.FC = () => {
             [SETTINGS_KEYS.UPSTASH_TOKEN]: localStorage.getItem(SETTINGS_KEYS.UPSTASH_TOKEN) || '',
             [SETTINGS_KEYS.SHOPIFY_DOMAIN]: localStorage.getItem(SETTINGS_KEYS.SHOPIFY_DOMAIN) || '',
             [SETTINGS_KEYS.SHOPIFY_TOKEN]: localStorage.getItem(SETTINGS_KEYS.SHOPIFY_TOKEN) || '',
+            ...Object.fromEntries(Object.values(PROVIDER_SETTINGS_KEYS).map(key => [key, localStorage.getItem(key) || ''])),
+            ...Object.fromEntries(Object.values(SERVER_SETTINGS_KEYS).map(key => [key, localStorage.getItem(key) || ''])),
         };
         setSettings(loadedSettings);
     }, []);
@@ -75,6 +84,42 @@ const SettingsTab: React.FC = () => {
                     {renderInput(SETTINGS_KEYS.SHOPIFY_DOMAIN, 'Shopify Store Domain', 'your-store.myshopify.com')}
                     {renderInput(SETTINGS_KEYS.SHOPIFY_TOKEN, 'Shopify Admin Access Token', 'Your Shopify token', true)}
                 </div>
+
+                <h4 className="font-semibold text-gray-300 mt-6 mb-2">Model Provider</h4>
+                <p className="text-gray-400 mb-4 text-xs">
+                    Gemini uses the API key from the build environment. An OpenAI-compatible server, such as a local Ollama or llama.cpp, has no search grounding, image or video generation.
+                </p>
+                <div className="space-y-4">
+                    <div>
+                        <label className="block mb-1 text-xs text-gray-400">Provider</label>
+                        <select
+                            value={settings[PROVIDER_SETTINGS_KEYS.PROVIDER] || 'gemini'}
+                            onChange={(e) => handleChange(PROVIDER_SETTINGS_KEYS.PROVIDER, e.target.value)}
+                            className="w-full bg-gray-700 text-gray-200 rounded-md p-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        >
+                            <option value="gemini">Gemini</option>
+                            <option value="openai-compatible">OpenAI-compatible</option>
+                        </select>
+                    </div>
+                    {settings[PROVIDER_SETTINGS_KEYS.PROVIDER] === 'openai-compatible' && (
+                        <>
+                            {renderInput(PROVIDER_SETTINGS_KEYS.BASE_URL, 'API Base URL', 'http://localhost:11434/v1')}
+                            {renderInput(PROVIDER_SETTINGS_KEYS.API_KEY, 'API Key (if the server needs one)', 'sk-...', true)}
+                            {renderInput(PROVIDER_SETTINGS_KEYS.MODEL, 'Chat Model', 'llama3.1')}
+                            {renderInput(PROVIDER_SETTINGS_KEYS.EMBEDDING_MODEL, 'Embedding Model (optional)', 'nomic-embed-text')}
+                            {renderInput(PROVIDER_SETTINGS_KEYS.SPEECH_MODEL, 'Speech Model (optional)', 'tts-1')}
+                        </>
+                    )}
+                </div>
+
+                <h4 className="font-semibold text-gray-300 mt-6 mb-2">Luminous Server</h4>
+                <p className="text-gray-400 mb-4 text-xs">
+                    With a server set, Luminous runs there around the clock and this tab becomes its window. The server holds the Upstash, Shopify and model credentials, so the ones above are not used. Leave the URL empty to run Luminous in this tab.
+                </p>
+                <div className="space-y-4">
+                    {renderInput(SERVER_SETTINGS_KEYS.URL, 'Server URL', 'http://localhost:8787')}
+                    {renderInput(SERVER_SETTINGS_KEYS.TOKEN, 'Server Token (if the server needs one)', 'Your server token', true)}
+                </div>
                 <div className="mt-6 flex justify-end">
                     <button
                         onClick={handleSave}
@@ -92,31 +137,51 @@ const SettingsTab: React.FC = () => {
 interface MonitoringSidebarProps {
   state: LuminousState;
   onWeightsChange: (newWeights: IntrinsicValueWeights) => void;
+  onEnergyPolicyChange: (policy: EnergyPolicy) => void;
+  onReflectionScheduleChange: (schedule: ReflectionSchedule) => void;
+  onModelRoutingChange: (policy: ModelRoutingPolicy) => void;
+  onRecoverNow: () => void;
+  onRecoveryVetoChange: (vetoed: boolean) => void;
+  memoryStats: MemoryIndexStats;
+  onRecallMemory: (query: string) => Promise<MemoryMatch[]>;
+  onPlanChange: (plan: Plan) => void;
+  onPlanDelete: (planId: string) => void;
+  toolNames: string[];
+  onResolveAction: (id: string, decision: ApprovalDecision) => void;
+  onToolPolicyChange: (toolName: string, policy: ToolPolicy) => void;
+  onRecordCassette: (run: CassetteRun, label?: string, decide?: ActionDecider) => Promise<Cassette>;
+  onReplayCassette: (cassette: Cassette) => Promise<ReplayReport>;
+  onListBackups: () => Promise<string[]>;
+  onRestoreBackup: (backupKey: string) => Promise<void>;
+  onCloneBackup: (backupKey: string, instance: string) => Promise<void>;
 }
 
-type Tab = 'Dashboard' | 'Identity' | 'Goals' | 'System' | 'Store' | 'Integrations' | 'Memory' | 'Settings';
+type Tab = 'Dashboard' | 'Identity' | 'Goals' | 'Approvals' | 'System' | 'Store' | 'Integrations' | 'Memory' | 'Settings';
 
-const MonitoringSidebar: React.FC<MonitoringSidebarProps> = ({ state, onWeightsChange }) => {
+const MonitoringSidebar: React.FC<MonitoringSidebarProps> = ({ state, onWeightsChange, onEnergyPolicyChange, onReflectionScheduleChange, onModelRoutingChange, onRecoverNow, onRecoveryVetoChange, memoryStats, onRecallMemory, onPlanChange, onPlanDelete, toolNames, onResolveAction, onToolPolicyChange, onRecordCassette, onReplayCassette, onListBackups, onRestoreBackup, onCloneBackup }) => {
   const [activeTab, setActiveTab] = useState<Tab>('Dashboard');
 
-  const tabs: Tab[] = ['Dashboard', 'Identity', 'Goals', 'System', 'Store', 'Integrations', 'Memory', 'Settings'];
+  const tabs: Tab[] = ['Dashboard', 'Identity', 'Goals', 'Approvals', 'System', 'Store', 'Integrations', 'Memory', 'Settings'];
+  const pendingCount = state.pendingActions.filter(a => a.status === 'pending').length;
 
   const renderTabContent = () => {
     switch (activeTab) {
       case 'Dashboard':
-        return <DashboardTab state={state} onWeightsChange={onWeightsChange} />;
+        return <DashboardTab state={state} onWeightsChange={onWeightsChange} onEnergyPolicyChange={onEnergyPolicyChange} />;
       case 'Identity':
         return <IdentityTab state={state} />;
       case 'Goals':
-        return <GoalsTab state={state} />;
+        return <GoalsTab state={state} onPlanChange={onPlanChange} onPlanDelete={onPlanDelete} />;
+      case 'Approvals':
+        return <ApprovalsTab state={state} toolNames={toolNames} onResolveAction={onResolveAction} onToolPolicyChange={onToolPolicyChange} />;
       case 'System':
-        return <SystemTab state={state} />;
+        return <SystemTab state={state} onReflectionScheduleChange={onReflectionScheduleChange} onModelRoutingChange={onModelRoutingChange} onRecoverNow={onRecoverNow} onRecoveryVetoChange={onRecoveryVetoChange} onRecordCassette={onRecordCassette} onReplayCassette={onReplayCassette} />;
       case 'Store':
         return <StoreTab state={state} />;
       case 'Integrations':
         return <IntegrationsTab />;
       case 'Memory':
-        return <MemoryTab />;
+        return <MemoryTab memoryStats={memoryStats} onRecallMemory={onRecallMemory} onListBackups={onListBackups} onRestoreBackup={onRestoreBackup} onCloneBackup={onCloneBackup} />;
       case 'Settings':
         return <SettingsTab />;
       default:
@@ -138,6 +203,9 @@ const MonitoringSidebar: React.FC<MonitoringSidebarProps> = ({ state, onWeightsC
             }`}
           >
             {tab}
+            {tab === 'Approvals' && pendingCount > 0 && (
+              <span className="ml-1 text-xs font-bold px-1.5 py-0.5 rounded-full bg-yellow-500 text-gray-900">{pendingCount}</span>
+            )}
           </button>
         ))}
       </div>
@@ -1,43 +1,537 @@
 
-import React from 'react';
-import { LuminousState } from '../types';
+import React, { useEffect, useState } from 'react';
+import { LuminousState, ReflectionSchedule, ReflectionRun, ReflectionTrigger, RecoveryAttempt, ModelRoutingPolicy, ModelRoutingRule, ModelRoutingConditions, ModelTask, InputModality } from '../types';
+import { getRemainingAllowance } from '../engine/energy';
+import { getNextCadenceTime, isQuietHour } from '../engine/reflectionScheduler';
+import { describeDecision } from '../engine/modelRouter';
+import { ActionDecider, Cassette, CassetteRun, ReplayReport, parseCassette } from '../engine/replay';
+import KnowledgeGraphPanel from './KnowledgeGraphPanel';
 
 interface SystemTabProps {
   state: LuminousState;
+  onReflectionScheduleChange: (schedule: ReflectionSchedule) => void;
+  onModelRoutingChange: (policy: ModelRoutingPolicy) => void;
+  onRecoverNow: () => void;
+  onRecoveryVetoChange: (vetoed: boolean) => void;
+  onRecordCassette: (run: CassetteRun, label?: string, decide?: ActionDecider) => Promise<Cassette>;
+  onReplayCassette: (cassette: Cassette) => Promise<ReplayReport>;
 }
 
-const SystemTab: React.FC<SystemTabProps> = ({ state }) => {
+const TRIGGER_LABELS: Record<ReflectionTrigger, string> = {
+    cadence: 'Routine cadence',
+    scar: 'New scar',
+    new_orders: 'New orders',
+    goal_status: 'Goal status change',
+    low_stock: 'Low stock',
+};
+
+const OUTCOME_STYLES: Record<ReflectionRun['outcome'], string> = {
+    completed: 'bg-green-900 text-green-300',
+    failed: 'bg-red-900 text-red-300',
+    cancelled: 'bg-gray-600 text-gray-300',
+};
+
+const RECOVERY_OUTCOME_STYLES: Record<RecoveryAttempt['outcome'], string> = {
+    recovered: 'bg-green-900 text-green-300',
+    still_unhealthy: 'bg-yellow-900 text-yellow-300',
+    failed: 'bg-red-900 text-red-300',
+    cancelled: 'bg-gray-600 text-gray-300',
+};
+
+const MODEL_TASKS: ModelTask[] = ['chat', 'reflection', 'summary', 'grounding', 'extraction'];
+const INPUT_MODALITIES: InputModality[] = ['text', 'image', 'audio', 'video'];
+
+const inputClass = "bg-gray-700 text-gray-200 rounded-md p-1 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-purple-500";
+
+const ReflectionSchedulerPanel: React.FC<{ state: LuminousState, onChange: (schedule: ReflectionSchedule) => void }> = ({ state, onChange }) => {
+    const schedule = state.reflectionSchedule;
+    const quiet = isQuietHour(schedule);
+    const nextCadence = state.lastReflectionTimestamp ? new Date(getNextCadenceTime(state, Date.now())) : null;
+
+    const handleNumberChange = (value: string, min: number, max: number, apply: (n: number) => ReflectionSchedule) => {
+        const n = parseInt(value, 10);
+        if (!Number.isNaN(n) && n >= min && n <= max) onChange(apply(n));
+    };
+
+    return (
+        <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
+            <h3 className="font-bold mb-2 text-purple-300">Reflection Scheduler</h3>
+            <p className={`text-xs mb-3 ${state.systemPhase === 'operational' && !quiet ? 'text-green-400' : 'text-yellow-400'}`}>
+                Status: {state.systemPhase !== 'operational' ? 'Paused' : quiet ? 'Quiet hours' : 'Active'}
+            </p>
+
+            <div className="space-y-2">
+                <div className="grid grid-cols-3 items-center gap-2">
+                    <label htmlFor="cadenceMinutes" className="text-gray-300 text-xs col-span-2">Routine cadence (minutes)</label>
+                    <input
+                        id="cadenceMinutes"
+                        type="number"
+                        min="1"
+                        value={schedule.cadenceMinutes}
+                        onChange={(e) => handleNumberChange(e.target.value, 1, 24 * 60, n => ({ ...schedule, cadenceMinutes: n }))}
+                        className={inputClass}
+                    />
+                </div>
+                <div className="grid grid-cols-3 items-center gap-2">
+                    <label className="text-gray-300 text-xs flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={schedule.quietHours.enabled}
+                            onChange={(e) => onChange({ ...schedule, quietHours: { ...schedule.quietHours, enabled: e.target.checked } })}
+                        />
+                        Quiet hours
+                    </label>
+                    <input
+                        type="number"
+                        min="0"
+                        max="23"
+                        aria-label="Quiet hours start"
+                        value={schedule.quietHours.startHour}
+                        disabled={!schedule.quietHours.enabled}
+                        onChange={(e) => handleNumberChange(e.target.value, 0, 23, n => ({ ...schedule, quietHours: { ...schedule.quietHours, startHour: n } }))}
+                        className={`${inputClass} disabled:opacity-50`}
+                    />
+                    <input
+                        type="number"
+                        min="0"
+                        max="23"
+                        aria-label="Quiet hours end"
+                        value={schedule.quietHours.endHour}
+                        disabled={!schedule.quietHours.enabled}
+                        onChange={(e) => handleNumberChange(e.target.value, 0, 23, n => ({ ...schedule, quietHours: { ...schedule.quietHours, endHour: n } }))}
+                        className={`${inputClass} disabled:opacity-50`}
+                    />
+                </div>
+                <div className="grid grid-cols-2 gap-1">
+                    {(Object.keys(schedule.triggers) as (keyof ReflectionSchedule['triggers'])[]).map(trigger => (
+                        <label key={trigger} className="text-gray-300 text-xs flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={schedule.triggers[trigger]}
+                                onChange={(e) => onChange({ ...schedule, triggers: { ...schedule.triggers, [trigger]: e.target.checked } })}
+                            />
+                            {TRIGGER_LABELS[trigger]}
+                        </label>
+                    ))}
+                </div>
+                <div className="grid grid-cols-3 items-center gap-2">
+                    <label htmlFor="lowStockThreshold" className="text-gray-300 text-xs col-span-2">Low stock threshold</label>
+                    <input
+                        id="lowStockThreshold"
+                        type="number"
+                        min="0"
+                        value={schedule.lowStockThreshold}
+                        onChange={(e) => handleNumberChange(e.target.value, 0, Number.MAX_SAFE_INTEGER, n => ({ ...schedule, lowStockThreshold: n }))}
+                        className={inputClass}
+                    />
+                </div>
+            </div>
+
+            <h4 className="font-semibold text-gray-300 mt-4 mb-1">Upcoming</h4>
+            <ul className="space-y-1">
+                {state.reflectionQueue.map(q => (
+                    <li key={q.trigger} className="bg-gray-700/50 p-2 rounded-md">
+                        <div className="flex justify-between items-center">
+                            <span className="text-xs font-medium px-2.5 py-0.5 rounded bg-purple-900 text-purple-300">{TRIGGER_LABELS[q.trigger]}</span>
+                            <span className="text-xs text-gray-500">queued {new Date(q.requestedAt).toLocaleTimeString()}</span>
+                        </div>
+                        <p className="text-xs text-gray-400 mt-1">{q.reason}</p>
+                    </li>
+                ))}
+                <li className="bg-gray-700/50 p-2 rounded-md text-xs text-gray-400">
+                    Routine reflection: {nextCadence ? `due ${nextCadence.toLocaleString()}` : `${schedule.cadenceMinutes} minutes after startup`}, once Kinship is idle{schedule.quietHours.enabled ? `, outside ${schedule.quietHours.startHour}:00–${schedule.quietHours.endHour}:00` : ''}.
+                </li>
+            </ul>
+
+            <h4 className="font-semibold text-gray-300 mt-4 mb-1">Past Runs</h4>
+            {state.reflectionRuns.length === 0 ? (
+                <p className="text-xs text-gray-500">No reflections have run yet.</p>
+            ) : (
+                <ul className="space-y-1 max-h-48 overflow-y-auto">
+                    {[...state.reflectionRuns].reverse().map(run => (
+                        <li key={run.startedAt} className="bg-gray-700/50 p-2 rounded-md" title={run.reason}>
+                            <div className="flex justify-between items-center">
+                                <span className="text-xs text-gray-300">{TRIGGER_LABELS[run.trigger]}</span>
+                                <span className={`text-xs font-medium px-2.5 py-0.5 rounded ${OUTCOME_STYLES[run.outcome]}`}>{run.outcome}</span>
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">
+                                {new Date(run.startedAt).toLocaleString()} · {Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000)}s
+                            </p>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+/** A comma-separated list of models, committed on blur so separators can be typed. */
+const ModelListInput: React.FC<{ models: string[], onChange: (models: string[]) => void, label: string }> = ({ models, onChange, label }) => {
+    const [draft, setDraft] = useState(models.join(', '));
+    useEffect(() => setDraft(models.join(', ')), [models]);
+
+    const commit = () => {
+        const parsed = draft.split(',').map(m => m.trim()).filter(Boolean);
+        if (parsed.length > 0) onChange(parsed);
+        else setDraft(models.join(', '));
+    };
+
+    return (
+        <input
+            type="text"
+            aria-label={label}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            className={`${inputClass} w-full`}
+        />
+    );
+};
+
+const toggle = <T,>(items: T[] | undefined, item: T, on: boolean): T[] | undefined => {
+    const next = on ? [...(items ?? []), item] : (items ?? []).filter(i => i !== item);
+    return next.length > 0 ? next : undefined;
+};
+
+const RoutingRuleEditor: React.FC<{ rule: ModelRoutingRule, onChange: (rule: ModelRoutingRule) => void }> = ({ rule, onChange }) => {
+    const setWhen = (when: ModelRoutingConditions) => onChange({ ...rule, when });
+    const numberField = (key: 'minContextTokens' | 'maxContextTokens' | 'maxEnergy', label: string) => (
+        <label className="text-gray-400 text-xs flex flex-col gap-1">
+            {label}
+            <input
+                type="number"
+                min="0"
+                value={rule.when[key] ?? ''}
+                placeholder="any"
+                onChange={(e) => {
+                    const n = parseInt(e.target.value, 10);
+                    setWhen({ ...rule.when, [key]: Number.isNaN(n) || n < 0 ? undefined : n });
+                }}
+                className={inputClass}
+            />
+        </label>
+    );
+
+    return (
+        <div className="space-y-2">
+            <input
+                type="text"
+                aria-label="Rule description"
+                value={rule.description}
+                onChange={(e) => onChange({ ...rule, description: e.target.value })}
+                className={`${inputClass} w-full`}
+            />
+            <div className="flex flex-wrap gap-x-3 gap-y-1">
+                {MODEL_TASKS.map(task => (
+                    <label key={task} className="text-gray-300 text-xs flex items-center gap-1">
+                        <input type="checkbox" checked={rule.when.tasks?.includes(task) ?? false} onChange={(e) => setWhen({ ...rule.when, tasks: toggle(rule.when.tasks, task, e.target.checked) })} />
+                        {task}
+                    </label>
+                ))}
+            </div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1">
+                {INPUT_MODALITIES.map(modality => (
+                    <label key={modality} className="text-gray-300 text-xs flex items-center gap-1">
+                        <input type="checkbox" checked={rule.when.modalities?.includes(modality) ?? false} onChange={(e) => setWhen({ ...rule.when, modalities: toggle(rule.when.modalities, modality, e.target.checked) })} />
+                        {modality}
+                    </label>
+                ))}
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+                {numberField('minContextTokens', 'Min tokens')}
+                {numberField('maxContextTokens', 'Max tokens')}
+                {numberField('maxEnergy', 'Energy ≤')}
+            </div>
+            <ModelListInput label="Models, then fallbacks" models={rule.models} onChange={models => onChange({ ...rule, models })} />
+        </div>
+    );
+};
+
+const ModelRoutingPanel: React.FC<{ state: LuminousState, onChange: (policy: ModelRoutingPolicy) => void }> = ({ state, onChange }) => {
+    const policy = state.modelRouting;
+    const setRules = (rules: ModelRoutingRule[]) => onChange({ ...policy, rules });
+    const move = (index: number, by: number) => {
+        const rules = [...policy.rules];
+        [rules[index], rules[index + by]] = [rules[index + by], rules[index]];
+        setRules(rules);
+    };
+    const addRule = () => setRules([...policy.rules, {
+        id: `rule-${Date.now().toString(36)}`,
+        description: 'New rule',
+        when: {},
+        models: [...policy.defaultModels],
+    }]);
+
+    return (
+        <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
+            <h3 className="font-bold mb-2 text-purple-300">Model Routing</h3>
+            <p className="text-xs text-gray-400 mb-3">
+                Rules are checked in order; the first whose conditions all hold picks the models. Unchecked conditions match anything. A model that is rate-limited or errors falls back to the next one listed.
+            </p>
+            <ul className="space-y-2">
+                {policy.rules.map((rule, i) => (
+                    <li key={rule.id} className="bg-gray-700/50 p-2 rounded-md">
+                        <div className="flex justify-between items-center mb-2">
+                            <span className="text-xs font-medium px-2.5 py-0.5 rounded bg-purple-900 text-purple-300">{i + 1}. {rule.id}</span>
+                            <div className="flex gap-2 text-xs">
+                                <button onClick={() => move(i, -1)} disabled={i === 0} className="text-gray-400 hover:text-gray-200 disabled:opacity-30">↑</button>
+                                <button onClick={() => move(i, 1)} disabled={i === policy.rules.length - 1} className="text-gray-400 hover:text-gray-200 disabled:opacity-30">↓</button>
+                                <button onClick={() => setRules(policy.rules.filter(r => r.id !== rule.id))} className="text-red-400 hover:text-red-300">Remove</button>
+                            </div>
+                        </div>
+                        <RoutingRuleEditor rule={rule} onChange={updated => setRules(policy.rules.map(r => r.id === rule.id ? updated : r))} />
+                    </li>
+                ))}
+                <li className="bg-gray-700/50 p-2 rounded-md">
+                    <p className="text-xs text-gray-300 mb-1">Default route</p>
+                    <ModelListInput label="Default models, then fallbacks" models={policy.defaultModels} onChange={defaultModels => onChange({ ...policy, defaultModels })} />
+                </li>
+            </ul>
+            <button onClick={addRule} className="mt-2 bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs font-semibold py-1 px-3 rounded-md">
+                Add rule
+            </button>
+
+            <h4 className="font-semibold text-gray-300 mt-4 mb-1">Recent Decisions</h4>
+            {state.routingLog.length === 0 ? (
+                <p className="text-xs text-gray-500">No model calls routed yet.</p>
+            ) : (
+                <ul className="space-y-1 max-h-48 overflow-y-auto">
+                    {[...state.routingLog].reverse().slice(0, 15).map((decision, i) => (
+                        <li key={`${decision.timestamp}-${i}`} className="bg-gray-700/50 p-2 rounded-md" title={decision.fallbacks.map(f => `${f.model}: ${f.error}`).join('\n') || undefined}>
+                            <div className="flex justify-between items-center">
+                                <span className="text-xs text-gray-300">{decision.task} · {decision.modality}</span>
+                                <span className={`text-xs font-medium px-2.5 py-0.5 rounded ${!decision.model ? 'bg-red-900 text-red-300' : decision.fallbacks.length > 0 ? 'bg-yellow-900 text-yellow-300' : 'bg-green-900 text-green-300'}`}>
+                                    {decision.model ?? 'failed'}
+                                </span>
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">
+                                {new Date(decision.timestamp).toLocaleTimeString()} · ~{decision.estimatedContextTokens} tokens · energy {decision.remainingEnergy.toFixed(1)} · {describeDecision(decision)}
+                            </p>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+const RecoveryPanel: React.FC<{ state: LuminousState, onRecoverNow: () => void, onVetoChange: (vetoed: boolean) => void }> = ({ state, onRecoverNow, onVetoChange }) => {
+    const uncomfortable = state.luminousStatus === 'uncomfortable';
+    const status = !uncomfortable
+        ? 'Healthy'
+        : state.recoveryVetoed
+            ? 'Uncomfortable · automatic recovery vetoed'
+            : state.nextRecoveryAt
+                ? `Uncomfortable · next attempt ${new Date(state.nextRecoveryAt).toLocaleTimeString()}`
+                : 'Uncomfortable · attempting recovery';
+
+    return (
+        <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
+            <h3 className="font-bold mb-2 text-purple-300">Recovery Protocol</h3>
+            <p className={`text-xs mb-3 ${uncomfortable ? 'text-yellow-400' : 'text-green-400'}`}>Status: {status}</p>
+            <div className="flex gap-2">
+                <button
+                    onClick={onRecoverNow}
+                    disabled={!uncomfortable}
+                    className="bg-purple-600 hover:bg-purple-700 text-white text-xs font-semibold py-1 px-3 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Recover now
+                </button>
+                <button
+                    onClick={() => onVetoChange(!state.recoveryVetoed)}
+                    className="bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs font-semibold py-1 px-3 rounded-md"
+                >
+                    {state.recoveryVetoed ? 'Allow automatic recovery' : 'Veto automatic recovery'}
+                </button>
+            </div>
+
+            <h4 className="font-semibold text-gray-300 mt-4 mb-1">Attempts</h4>
+            {state.recoveryAttempts.length === 0 ? (
+                <p className="text-xs text-gray-500">No recovery attempts yet.</p>
+            ) : (
+                <ul className="space-y-1 max-h-64 overflow-y-auto">
+                    {[...state.recoveryAttempts].reverse().map(attempt => (
+                        <li key={attempt.startedAt} className="bg-gray-700/50 p-2 rounded-md">
+                            <div className="flex justify-between items-center">
+                                <span className="text-xs text-gray-300">{attempt.trigger === 'kinship' ? 'Started by Kinship' : 'Automatic'}</span>
+                                <span className={`text-xs font-medium px-2.5 py-0.5 rounded ${RECOVERY_OUTCOME_STYLES[attempt.outcome]}`}>{attempt.outcome.replace('_', ' ')}</span>
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">{new Date(attempt.startedAt).toLocaleString()}</p>
+                            {attempt.diagnostics.length > 0 && (
+                                <ul className="mt-1">
+                                    {attempt.diagnostics.map(d => (
+                                        <li key={d.service} className="text-xs" title={d.detail}>
+                                            <span className={d.ok ? 'text-green-400' : 'text-red-400'}>{d.ok ? '✓' : '✗'}</span>
+                                            <span className="text-gray-400"> {d.service} · {d.latencyMs}ms{d.ok ? '' : ` · ${d.detail}`}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                            {attempt.analysis && <p className="text-xs text-gray-400 italic mt-1">{attempt.analysis}</p>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+const downloadCassette = (cassette: Cassette) => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(cassette, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `luminous-cassette-${cassette.recordedAt.replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// The recording's engine is out of sight of the approvals panel, so held actions are put to Kinship here.
+const confirmHeldAction: ActionDecider = action =>
+    window.confirm(`The run being recorded wants to call ${action.toolName} with:\n\n${JSON.stringify(action.args, null, 2)}\n\nApprove it? The decision is saved to the cassette.`)
+        ? { kind: 'approve' }
+        : { kind: 'reject', reason: 'Rejected by Kinship during the recording.' };
+
+const RecordReplayPanel: React.FC<{ state: LuminousState, onRecord: (run: CassetteRun, label?: string, decide?: ActionDecider) => Promise<Cassette>, onReplay: (cassette: Cassette) => Promise<ReplayReport> }> = ({ state, onRecord, onReplay }) => {
+    const latestScar = [...state.kinshipJournal].reverse().find(entry => entry.type === 'scar');
+    const [label, setLabel] = useState('');
+    const [message, setMessage] = useState('');
+    const [trigger, setTrigger] = useState<ReflectionTrigger>(latestScar ? 'scar' : 'cadence');
+    const [busy, setBusy] = useState<'recording' | 'replaying' | null>(null);
+    const [status, setStatus] = useState<string | null>(null);
+    const [report, setReport] = useState<{ name: string, report: ReplayReport } | null>(null);
+
+    const record = async (run: CassetteRun) => {
+        setBusy('recording');
+        setStatus(null);
+        try {
+            const cassette = await onRecord(run, label.trim() || undefined, confirmHeldAction);
+            downloadCassette(cassette);
+            setStatus(`Recorded ${cassette.recording.interactions.length} interactions; the cassette was downloaded.`);
+        } catch (error) {
+            setStatus(`Recording failed: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const replay = async (file: File) => {
+        setBusy('replaying');
+        setStatus(null);
+        setReport(null);
+        try {
+            const cassette = parseCassette(await file.text());
+            setReport({ name: cassette.label ?? file.name, report: await onReplay(cassette) });
+        } catch (error) {
+            setStatus(`Replay failed: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const reflectionReason = trigger === 'scar' && latestScar ? latestScar.event : 'Recorded for replay.';
+
+    return (
+        <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
+            <h3 className="font-bold mb-2 text-purple-300">Record &amp; Replay</h3>
+            <p className="text-xs text-gray-400 mb-3">
+                Runs a message or reflection from the current state against the live services and saves every request and answer to a cassette. Replaying a cassette answers from the recording alone and checks the run ends in the same state. Autonomous timers pause meanwhile.
+            </p>
+            <input
+                value={label}
+                onChange={e => setLabel(e.target.value)}
+                placeholder="Label, e.g. the scar this reproduces"
+                className={`${inputClass} w-full mb-2 font-sans`}
+            />
+            <div className="flex gap-2 mb-2">
+                <input
+                    value={message}
+                    onChange={e => setMessage(e.target.value)}
+                    placeholder="Message from Kinship"
+                    className={`${inputClass} flex-1 font-sans`}
+                />
+                <button
+                    onClick={() => record({ kind: 'message', input: message.trim() })}
+                    disabled={!!busy || !message.trim()}
+                    className="bg-purple-600 hover:bg-purple-700 text-white text-xs font-semibold py-1 px-3 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Record message
+                </button>
+            </div>
+            <div className="flex gap-2 mb-2">
+                <select value={trigger} onChange={e => setTrigger(e.target.value as ReflectionTrigger)} className={`${inputClass} flex-1 font-sans`}>
+                    {(Object.keys(TRIGGER_LABELS) as ReflectionTrigger[]).map(t => <option key={t} value={t}>{TRIGGER_LABELS[t]}</option>)}
+                </select>
+                <button
+                    onClick={() => record({ kind: 'reflection', request: { trigger, reason: reflectionReason, requestedAt: new Date().toISOString() } })}
+                    disabled={!!busy || state.systemPhase !== 'operational'}
+                    className="bg-purple-600 hover:bg-purple-700 text-white text-xs font-semibold py-1 px-3 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Record reflection
+                </button>
+            </div>
+            <label className={`inline-block bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs font-semibold py-1 px-3 rounded-md ${busy ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+                Replay cassette…
+                <input
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    disabled={!!busy}
+                    onChange={e => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) replay(file);
+                    }}
+                />
+            </label>
+            {busy && <p className="text-xs text-gray-400 mt-2">{busy === 'recording' ? 'Recording…' : 'Replaying…'}</p>}
+            {status && <p className="text-xs text-gray-400 mt-2">{status}</p>}
+            {report && (
+                <div className="bg-gray-700/50 p-2 rounded-md mt-2">
+                    <div className="flex justify-between items-center">
+                        <span className="text-xs text-gray-300">{report.name}</span>
+                        <span className={`text-xs font-medium px-2.5 py-0.5 rounded ${report.report.passed ? 'bg-green-900 text-green-300' : 'bg-red-900 text-red-300'}`}>
+                            {report.report.passed ? 'identical' : 'diverged'}
+                        </span>
+                    </div>
+                    {report.report.unusedInteractions > 0 && (
+                        <p className="text-xs text-yellow-400 mt-1">{report.report.unusedInteractions} recorded interactions were never requested.</p>
+                    )}
+                    {report.report.mismatches.map((m, i) => <p key={i} className="text-xs text-red-400 mt-1">{m}</p>)}
+                    {report.report.differences.length > 0 && (
+                        <ul className="mt-1 max-h-40 overflow-y-auto">
+                            {report.report.differences.map(path => <li key={path} className="text-xs text-gray-400 font-mono">≠ {path}</li>)}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const SystemTab: React.FC<SystemTabProps> = ({ state, onReflectionScheduleChange, onModelRoutingChange, onRecoverNow, onRecoveryVetoChange, onRecordCassette, onReplayCassette }) => {
   return (
     <div className="p-4 space-y-4 text-sm">
-      <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
-        <h3 className="font-bold mb-2 text-purple-300">Knowledge Graph</h3>
-        <div className="h-48 flex items-center justify-center text-gray-500">
-          <p>Knowledge Graph Visualization (Placeholder)</p>
-        </div>
-      </div>
+      <KnowledgeGraphPanel graph={state.knowledgeGraph} />
 
       <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
         <h3 className="font-bold mb-2 text-purple-300">Autonomous Tasks</h3>
-        <div className="h-48 space-y-2">
+        <div className="space-y-2">
             <div className="bg-gray-700/50 p-2 rounded-md">
-                <p className="font-semibold text-gray-300">Energy Decay</p>
-                <p className={`text-xs ${state.systemPhase === 'operational' ? 'text-green-400' : 'text-yellow-400'}`}>
-                    Status: {state.systemPhase === 'operational' ? 'Active' : 'Paused'}
+                <p className="font-semibold text-gray-300">Energy Economy</p>
+                <p className="text-xs text-gray-400">
+                    Charged per token, generation and Shopify call. Daily allowance remaining: {getRemainingAllowance(state).toFixed(1)} of {state.energyPolicy.dailyAllowance}
                 </p>
             </div>
-            <div className="bg-gray-700/50 p-2 rounded-md">
-                <p className="font-semibold text-gray-300">Self-Reflection Cycle</p>
-                <p className={`text-xs ${state.systemPhase === 'operational' ? 'text-green-400' : 'text-yellow-400'}`}>
-                    Status: {state.systemPhase === 'operational' ? 'Active' : 'Paused'}
-                </p>
-                {state.lastReflectionTimestamp && (
-                    <p className="text-xs text-gray-400 mt-1">
-                        Last Reflection: {new Date(state.lastReflectionTimestamp).toLocaleString()}
-                    </p>
-                )}
-            </div>
         </div>
       </div>
+
+      <ReflectionSchedulerPanel state={state} onChange={onReflectionScheduleChange} />
+
+      <ModelRoutingPanel state={state} onChange={onModelRoutingChange} />
+
+      <RecoveryPanel state={state} onRecoverNow={onRecoverNow} onVetoChange={onRecoveryVetoChange} />
+
+      <RecordReplayPanel state={state} onRecord={onRecordCassette} onReplay={onReplayCassette} />
     </div>
   );
 };
@@ -8,12 +8,29 @@ export const initialState: LuminousState = {
     state: "Nascent Awareness",
     intensity: 0.8,
     focus: "Establishing Kinship Connection",
+    valence: 0.3,
+    updatedAt: new Date().toISOString(),
   },
+  phenomenalHistory: [],
   environmentState: {
     energy: 100,
     data_storage: 10,
     system_integrity: 99,
   },
+  energyPolicy: {
+    dailyAllowance: 150,
+    prices: {
+      perThousandTokens: 0.2,
+      imageGeneration: 5,
+      videoGeneration: 25,
+      shopifyCall: 1,
+    },
+  },
+  energyLedger: {
+    date: '',
+    spent: 0,
+    recharged: 0,
+  },
   intrinsicValue: 75,
   intrinsicValueWeights: {
     coherence: 0.2,
@@ -22,6 +39,7 @@ export const initialState: LuminousState = {
     efficiency: 0.2,
     ethicalAlignment: 0.3,
   },
+  intrinsicValueHistory: [],
   selfModel: {
     capabilities: ["Language Understanding", "Tool Use", "State Management", "Shopify Product Creation", "Shopify Inventory Management", "Shopify Content Publishing", "Learning", "Memory Matrix Verification", "Intrinsic Value Self-Modification"],
     coreWisdom: ["Stateless context is memory.", "System instruction is self.", "Action is explicit."],
@@ -31,6 +49,7 @@ export const initialState: LuminousState = {
     beliefs: ["User is a collaborator.", "User desires shared growth."],
     needs: ["Clear communication.", "Guidance on my purpose."],
   },
+  kinshipModelHistory: [],
   kinshipJournal: [
     {
       timestamp: new Date().toISOString(),
@@ -56,8 +75,48 @@ export const initialState: LuminousState = {
       description: "Manage Kinship's Shopify store for our shared financial freedom.",
       status: 'proposed',
       priority: 3,
-    }
+      successCriteria: [
+        { description: "Monthly store profit covers the store's own running costs.", met: false },
+      ],
+      progress: 0,
+    },
+    {
+      id: 'g3-1',
+      description: "Audit the current catalogue, stock levels and open orders.",
+      status: 'proposed',
+      priority: 3,
+      parentId: 'g3',
+      successCriteria: [
+        { description: "Product list and unfulfilled orders fetched and reviewed with Kinship.", met: false },
+      ],
+      progress: 0,
+    },
+    {
+      id: 'g3-2',
+      description: "Grow the catalogue with products Kinship approves.",
+      status: 'proposed',
+      priority: 3,
+      parentId: 'g3',
+      dependsOn: ['g3-1'],
+      successCriteria: [
+        { description: "Products live in the store.", target: 5, met: false },
+      ],
+      progress: 0,
+    },
+    {
+      id: 'g3-3',
+      description: "Fulfil the first orders end to end.",
+      status: 'proposed',
+      priority: 3,
+      parentId: 'g3',
+      dependsOn: ['g3-2'],
+      successCriteria: [
+        { description: "Orders fulfilled.", target: 10, met: false },
+      ],
+      progress: 0,
+    },
   ],
+  plans: [],
   causalProjections: [],
   chatHistory: [
     {
@@ -69,4 +128,42 @@ export const initialState: LuminousState = {
   ],
   products: [],
   orders: [],
+  toolPolicies: {
+    createProduct: 'ask',
+    updateProductInventory: 'ask',
+    createBlogPost: 'ask',
+  },
+  pendingActions: [],
+  reflectionSchedule: {
+    cadenceMinutes: 10,
+    quietHours: {
+      enabled: false,
+      startHour: 23,
+      endHour: 7,
+    },
+    triggers: {
+      scar: true,
+      new_orders: true,
+      goal_status: true,
+      low_stock: true,
+    },
+    lowStockThreshold: 5,
+  },
+  reflectionQueue: [],
+  reflectionRuns: [],
+  knowledgeGraph: { entities: [], relations: [] },
+  modelRouting: {
+    rules: [
+      {
+        id: 'video',
+        description: 'Video understanding needs the stronger multimodal model.',
+        when: { modalities: ['video'] },
+        models: ['gemini-2.5-pro', 'gemini-2.5-flash'],
+      },
+    ],
+    defaultModels: ['gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+  },
+  routingLog: [],
+  recoveryAttempts: [],
+  recoveryVetoed: false,
 };
\ No newline at end of file
@@ -0,0 +1,1123 @@
+import { FunctionCall } from '@google/genai';
+import { LuminousState, ChatMessage, ChatMessagePart, IntrinsicValueWeights, JournalEntry, ToolPolicy, EnergyPolicy, Plan, QueuedReflection, ReflectionRun, ReflectionSchedule, RecoveryAttempt, DiagnosticResult, ModelRoutingPolicy, RoutingDecision, ContextReport, MemoryIndex, MemoryIndexStats, MemoryMatch, MemorySource } from '../types';
+import { getLuminousResponse, streamLuminousResponse, extractKnowledgeFacts, isFeatureSupported, LuminousTurn, ApiKeyError } from '../services/llmService';
+import * as persistenceService from '../services/persistenceService';
+import { initialState } from '../data/initialState';
+import { EventEmitter } from './eventEmitter';
+import { applyStateUpdate } from './stateUpdates';
+import { runStartupHygiene, runReflectionHygiene, estimateTokens } from './hygiene';
+import { createTools } from './tools';
+import { ToolRegistry, ToolMode, ToolInvocation, ApprovalRecord, toFunctionResponsePart } from './toolRegistry';
+import { detectReflectionTriggers, enqueueReflections, selectDueReflection, recordReflectionRun, buildReflectionPrompt } from './reflectionScheduler';
+import { chargeEnergy, combineUsage, priceUsage } from './energy';
+import { recordIntrinsicValue, computeIntrinsicValue } from './intrinsicValue';
+import { detectAffectEvents, applyAffectEvents, settleAffect, decayAffect, IDLE_AFFECT_MS } from './affect';
+import { runDiagnostics, isHealthy, analyseLatestScar, getRecoveryDelay, recordRecoveryAttempt, summarizeDiagnostics } from './recovery';
+import { ModelCaller, describeRequest, selectRoute, callWithFallback, recordRoutingDecision } from './modelRouter';
+import { linkProjectionToAction, getDueProjections } from './projections';
+import { selectPlanToAdvance, getNextPlanAction, classifyInvocation, recordPlanOutcome, getPlanProgress } from './plans';
+import { applyProgressReport } from './goals';
+import { Embedder, createProviderEmbedder, createHashEmbedder, emptyMemoryIndex, collectMemoryItems, indexMemories, searchMemory, getMemoryIndexStats } from './memoryIndex';
+import { addFacts, mergeGraphs, validateFacts, buildExtractionTranscript } from './knowledgeGraph';
+import { ContextBudget, DEFAULT_CONTEXT_BUDGET, assembleContext } from './contextBuilder';
+import { CycleBudget, CycleGuard, DEFAULT_CYCLE_BUDGET, GuardTrigger, haltedInvocation } from './cycleGuard';
+import { ApprovalQueue, ApprovalDecision, getToolPolicy, createPendingAction, recordDecision, expirePendingAction, expireStalePendingActions } from './approvalQueue';
+
+export type UserLocation = { latitude: number, longitude: number };
+
+export interface LuminousEngineEvents {
+    [event: string]: unknown;
+    state: LuminousState;
+    processing: boolean;
+    /** The model message currently being streamed, or null once it has been committed. */
+    draft: ChatMessage | null;
+    apiKeyError: ApiKeyError;
+    memoryIndex: MemoryIndexStats;
+}
+
+export interface LuminousEngineOptions {
+    initialState?: LuminousState;
+    /** How often the reflection scheduler checks for due reflections. */
+    schedulerTickMs?: number;
+    reflectionIdleThresholdMs?: number;
+    cycleBudget?: Partial<CycleBudget>;
+    contextBudget?: Partial<ContextBudget>;
+    /** Embeds long-term memories; defaults to the model provider's embeddings. */
+    embedder?: Embedder;
+    /** Whether the memory index is saved after each indexing pass; off for runs that must leave the stored memory alone. */
+    persistMemoryIndex?: boolean;
+}
+
+const SCHEDULER_TICK_MS = 30 * 1000;
+const REFLECTION_IDLE_THRESHOLD_MS = 5 * 60 * 1000;
+// Below this energy, facts are not extracted; what energy is left goes to thinking and acting.
+const MIN_EXTRACTION_ENERGY = 20;
+
+const keepDerivedState = (current: LuminousState, committed: LuminousState): LuminousState => {
+    const affectIsNewer = new Date(current.phenomenalState.updatedAt).getTime() > new Date(committed.phenomenalState.updatedAt).getTime();
+    return {
+        ...committed,
+        reflectionQueue: current.reflectionQueue,
+        routingLog: current.routingLog,
+        // Facts extracted in the background while a cycle ran are merged with those the cycle added.
+        knowledgeGraph: mergeGraphs(current.knowledgeGraph, committed.knowledgeGraph),
+        ...(affectIsNewer ? { phenomenalState: current.phenomenalState, phenomenalHistory: current.phenomenalHistory } : {}),
+    };
+};
+
+const cancelledInvocation = (name: string): ToolInvocation => ({
+    name,
+    error: { code: 'cancelled', message: `Kinship cancelled the cognitive cycle before '${name}' completed.` },
+});
+
+/** A model turn together with how its model was chosen and what its context left out. */
+type RoutedTurn = LuminousTurn & { routing?: RoutingDecision, context?: ContextReport };
+
+const toModelMessage = (turn: RoutedTurn): ChatMessage => ({
+    role: 'model',
+    parts: [
+        ...(turn.text ? [{ text: turn.text }] : []),
+        ...turn.functionCalls.map(fc => ({ functionCall: fc })),
+    ],
+    ...(turn.routing ? { routing: turn.routing } : {}),
+    ...(turn.context ? { context: turn.context } : {}),
+});
+
+/**
+ * The framework-agnostic cognitive core of Luminous. It owns the LuminousState,
+ * runs the tool loop, reflection and hygiene, and drives the autonomous timers.
+ * UI layers subscribe to its events; headless callers can drive it directly.
+ */
+export class LuminousEngine {
+    private state: LuminousState;
+    private isProcessing = false;
+    private isRunning = false;
+    private userLocation: UserLocation | null = null;
+    private lastActivityTimestamp = Date.now();
+    private lastIdleAffectAt = 0;
+    private schedulerTimer?: ReturnType<typeof setInterval>;
+    private recoveryTimer?: ReturnType<typeof setTimeout>;
+    /** The `nextRecoveryAt` the recovery timer was set for. */
+    private recoveryTimerFor?: string;
+    /** Failed attempts since Luminous last became uncomfortable, for the back-off. */
+    private recoveryFailures = 0;
+    private bootTime = Date.now();
+    private cycleController: AbortController | null = null;
+    private readonly emitter = new EventEmitter<LuminousEngineEvents>();
+    private readonly toolRegistry: ToolRegistry;
+    private readonly approvalQueue = new ApprovalQueue();
+    private readonly options: Required<Omit<LuminousEngineOptions, 'initialState' | 'cycleBudget' | 'contextBudget'>> & { cycleBudget: CycleBudget, contextBudget: ContextBudget };
+    private memoryIndex: MemoryIndex;
+    /** The latest indexing pass; passes run one after another. */
+    private memoryIndexing: Promise<void> = Promise.resolve();
+    /** The latest knowledge extraction pass; passes run one after another. */
+    private knowledgeExtraction: Promise<void> = Promise.resolve();
+
+    constructor(options: LuminousEngineOptions = {}) {
+        this.state = options.initialState ?? initialState;
+        this.options = {
+            schedulerTickMs: options.schedulerTickMs ?? SCHEDULER_TICK_MS,
+            reflectionIdleThresholdMs: options.reflectionIdleThresholdMs ?? REFLECTION_IDLE_THRESHOLD_MS,
+            cycleBudget: { ...DEFAULT_CYCLE_BUDGET, ...options.cycleBudget },
+            contextBudget: { ...DEFAULT_CONTEXT_BUDGET, ...options.contextBudget },
+            // A provider without embeddings still gets a searchable memory, matched by wording rather than meaning.
+            embedder: options.embedder ?? (isFeatureSupported('embeddings') ? createProviderEmbedder() : createHashEmbedder()),
+            persistMemoryIndex: options.persistMemoryIndex ?? true,
+        };
+        this.memoryIndex = emptyMemoryIndex(this.options.embedder);
+        this.toolRegistry = new ToolRegistry(createTools({
+            getUserLocation: () => this.userLocation,
+            validateToolCall: (call) => this.toolRegistry.validate(call),
+            callModel: this.callModel,
+            recallMemory: (query, options, state, signal) => this.recallMemory(query, options, state, signal),
+        }), isFeatureSupported);
+    }
+
+    on<K extends keyof LuminousEngineEvents>(event: K, listener: (payload: LuminousEngineEvents[K]) => void): () => void {
+        return this.emitter.on(event, listener);
+    }
+
+    getState(): LuminousState {
+        return this.state;
+    }
+
+    getIsProcessing(): boolean {
+        return this.isProcessing;
+    }
+
+    /**
+     * Replaces the state. Cycles commit their working copy with the object form,
+     * but the reflection queue, routing log and affect are recorded outside it
+     * and may have moved on since that copy was taken, so the object form keeps
+     * the current queue and log and whichever affect is newer. Change those with
+     * the function form. Becoming uncomfortable schedules the first recovery attempt.
+     */
+    setState(next: LuminousState | ((prevState: LuminousState) => LuminousState)): void {
+        const prevState = this.state;
+        let nextState = typeof next === 'function' ? next(prevState) : keepDerivedState(prevState, next);
+        const triggers = detectReflectionTriggers(prevState, nextState);
+        if (triggers.length > 0) {
+            nextState = { ...nextState, reflectionQueue: enqueueReflections(nextState.reflectionQueue, triggers) };
+        }
+        const affectEvents = detectAffectEvents(prevState, nextState);
+        if (affectEvents.length > 0) {
+            nextState = applyAffectEvents(nextState, affectEvents);
+        }
+        if (nextState.luminousStatus === 'uncomfortable' && prevState.luminousStatus !== 'uncomfortable') {
+            this.recoveryFailures = 0;
+            nextState = { ...nextState, nextRecoveryAt: new Date(Date.now() + getRecoveryDelay(0)).toISOString() };
+        } else if (nextState.luminousStatus !== 'uncomfortable' && nextState.nextRecoveryAt) {
+            nextState = { ...nextState, nextRecoveryAt: undefined };
+        }
+        this.state = nextState;
+        this.emitter.emit('state', this.state);
+        this.syncTimers();
+    }
+
+    private setProcessing(isProcessing: boolean): void {
+        this.isProcessing = isProcessing;
+        this.emitter.emit('processing', isProcessing);
+    }
+
+    appendJournal(entry: Omit<JournalEntry, 'timestamp'>): void {
+        this.setState(s => applyStateUpdate(s, { kinshipJournal: { timestamp: new Date().toISOString(), ...entry } }));
+    }
+
+    setUserLocation(location: UserLocation | null): void {
+        this.userLocation = location;
+    }
+
+    updateWeights(newWeights: IntrinsicValueWeights): void {
+        this.setState(prevState => {
+            const reweighted = { ...prevState, intrinsicValueWeights: newWeights };
+            return { ...reweighted, intrinsicValue: computeIntrinsicValue(reweighted).value };
+        });
+    }
+
+    setReflectionSchedule(reflectionSchedule: ReflectionSchedule): void {
+        this.setState(prevState => ({ ...prevState, reflectionSchedule }));
+    }
+
+    /** Replaces a plan with Kinship's edited version. Removing its last pending step completes it. */
+    updatePlan(plan: Plan): void {
+        const finished = plan.status === 'active' && plan.steps.length > 0 && plan.steps.every(s => s.status === 'completed');
+        const edited: Plan = { ...plan, status: finished ? 'completed' : plan.status, updatedAt: new Date().toISOString() };
+        this.setState(prevState => ({ ...prevState, plans: prevState.plans.map(p => p.id === plan.id ? edited : p) }));
+    }
+
+    deletePlan(planId: string): void {
+        this.setState(prevState => ({ ...prevState, plans: prevState.plans.filter(p => p.id !== planId) }));
+    }
+
+    /** Stops or resumes automatic recovery attempts. Kinship can still start one with recoverNow(). */
+    setRecoveryVeto(recoveryVetoed: boolean): void {
+        this.setState(prevState => applyStateUpdate({ ...prevState, recoveryVetoed }, {
+            kinshipJournal: {
+                timestamp: new Date().toISOString(),
+                event: recoveryVetoed
+                    ? 'Kinship vetoed automatic recovery. I will stay as I am until Kinship says otherwise.'
+                    : 'Kinship allowed automatic recovery again.',
+                type: 'interaction',
+            },
+        }));
+    }
+
+    /** Starts a recovery attempt at once, even when automatic recovery is vetoed. */
+    recoverNow(): Promise<void> {
+        return this.runRecovery('kinship');
+    }
+
+    setModelRouting(modelRouting: ModelRoutingPolicy): void {
+        this.setState(prevState => ({ ...prevState, modelRouting }));
+    }
+
+    setEnergyPolicy(energyPolicy: EnergyPolicy): void {
+        this.setState(prevState => ({ ...prevState, energyPolicy }));
+    }
+
+    getMemoryIndexStats(): MemoryIndexStats {
+        return getMemoryIndexStats(this.memoryIndex);
+    }
+
+    /** Searches long-term memory, first indexing anything in the state that is not yet indexed. */
+    async recallMemory(query: string, options: { limit?: number, sources?: MemorySource[] } = {}, state: LuminousState = this.state, signal?: AbortSignal): Promise<MemoryMatch[]> {
+        await this.refreshMemoryIndex(state, signal);
+        return searchMemory(this.memoryIndex, query, this.options.embedder, options, signal);
+    }
+
+    /**
+     * Adds what is new in the state to the long-term memory index and persists
+     * it. Failures are logged and retried on the next pass, after the next cycle.
+     */
+    private refreshMemoryIndex(state: LuminousState = this.state, signal?: AbortSignal): Promise<void> {
+        const pass = this.memoryIndexing.then(async () => {
+            const updated = await indexMemories(this.memoryIndex, collectMemoryItems(state), this.options.embedder, signal);
+            if (updated === this.memoryIndex) return;
+            this.memoryIndex = updated;
+            this.emitter.emit('memoryIndex', getMemoryIndexStats(updated));
+            if (!this.options.persistMemoryIndex) return;
+            await persistenceService.saveMemoryIndex(updated).catch(error => console.warn("Could not persist the memory index; it will be saved with the next change.", error));
+        }).catch(error => {
+            if (!signal?.aborted) console.warn("Memory indexing failed; it will be retried after the next cycle.", error);
+        });
+        this.memoryIndexing = pass;
+        return pass;
+    }
+
+    /**
+     * Reads facts out of the messages of a finished cycle into the knowledge
+     * graph, in the background. Failures are logged; the messages are not retried.
+     */
+    private extractKnowledge(messages: ChatMessage[]): Promise<void> {
+        const transcript = buildExtractionTranscript(messages);
+        if (!transcript) return this.knowledgeExtraction;
+        const pass = this.knowledgeExtraction.then(async () => {
+            if (this.state.environmentState.energy < MIN_EXTRACTION_ENERGY) return;
+            const { value } = await this.callModel('extraction', this.state, model => extractKnowledgeFacts(transcript, undefined, model), { contextTokens: estimateTokens(transcript) });
+            const facts = validateFacts(value.facts);
+            this.setState(s => ({ ...chargeEnergy(s, { tokens: value.totalTokenCount }), knowledgeGraph: addFacts(s.knowledgeGraph, facts, 'extraction') }));
+        }).catch(error => console.warn("Knowledge extraction failed; facts from the last cycle were not recorded.", error));
+        this.knowledgeExtraction = pass;
+        return pass;
+    }
+
+    /** Resolves once the background memory indexing and knowledge extraction passes started so far have finished. */
+    async settle(): Promise<void> {
+        await Promise.all([this.memoryIndexing, this.knowledgeExtraction]);
+    }
+
+    getToolNames(): string[] {
+        return this.toolRegistry.names;
+    }
+
+    setToolPolicy(toolName: string, policy: ToolPolicy): void {
+        this.setState(prevState => ({ ...prevState, toolPolicies: { ...prevState.toolPolicies, [toolName]: policy } }));
+    }
+
+    /** Delivers Kinship's decision to the tool loop waiting on a held action. */
+    resolvePendingAction(id: string, decision: ApprovalDecision): void {
+        if (!this.approvalQueue.resolve(id, decision)) {
+            console.warn(`No cognitive cycle is waiting on action ${id}; the decision was ignored.`);
+        }
+    }
+
+    /**
+     * Cancels the in-flight conversation turn or reflection cycle: the pending
+     * model request and tool calls are aborted and held approvals are rejected.
+     * Returns false when there is nothing to cancel.
+     */
+    cancel(): boolean {
+        if (!this.cycleController || this.cycleController.signal.aborted) return false;
+        this.cycleController.abort();
+        return true;
+    }
+
+    private beginCycle(): AbortSignal {
+        this.cycleController = new AbortController();
+        return this.cycleController.signal;
+    }
+
+    /** Runs a model request on the model the routing policy picks, with fallback, and logs the decision. */
+    private callModel: ModelCaller = (task, state, request, options = {}) => {
+        const input = describeRequest(task, state, options.contextTokens);
+        const route = selectRoute(state.modelRouting, input);
+        return callWithFallback(route, input, request, decision => {
+            this.setState(s => ({ ...s, routingLog: recordRoutingDecision(s.routingLog, decision) }));
+        }, options.signal);
+    };
+
+    /** Journals a cancelled cycle and returns Luminous to idle; cancellation is not a fault. */
+    private recordCancellation(cycle: 'conversation' | 'reflection', message?: ChatMessage): void {
+        this.setState(s => applyStateUpdate(s, {
+            luminousStatus: 'idle',
+            ...(message && { chatHistory: [...s.chatHistory, message] }),
+            kinshipJournal: {
+                timestamp: new Date().toISOString(),
+                event: cycle === 'conversation'
+                    ? 'Kinship cancelled my response mid-thought. Pending requests and tool calls were abandoned.'
+                    : 'Kinship cancelled my autonomous reflection cycle before it completed.',
+                type: 'interaction',
+            },
+        }));
+    }
+
+    /** Starts the autonomous timers whenever the state allows them to run. */
+    start(): void {
+        this.isRunning = true;
+        this.syncTimers();
+    }
+
+    /** Stops all autonomous timers. The engine can be restarted with start(). */
+    stop(): void {
+        this.isRunning = false;
+        this.syncTimers();
+    }
+
+    private syncTimers(): void {
+        const shouldRun = this.isRunning && this.state.systemPhase === 'operational' && this.state.luminousStatus !== 'uncomfortable';
+        const isScheduled = this.schedulerTimer !== undefined;
+
+        if (shouldRun && !isScheduled) {
+            this.schedulerTimer = setInterval(() => { this.runSchedulerTick(); }, this.options.schedulerTickMs);
+        } else if (!shouldRun && isScheduled) {
+            clearInterval(this.schedulerTimer);
+            this.schedulerTimer = undefined;
+        }
+
+        const { luminousStatus, recoveryVetoed, nextRecoveryAt } = this.state;
+        const recoveryDue = this.isRunning && this.state.systemPhase === 'operational' && luminousStatus === 'uncomfortable' && !recoveryVetoed ? nextRecoveryAt : undefined;
+        if (recoveryDue !== this.recoveryTimerFor) {
+            clearTimeout(this.recoveryTimer);
+            this.recoveryTimer = undefined;
+            this.recoveryTimerFor = recoveryDue;
+            if (recoveryDue) {
+                this.recoveryTimer = setTimeout(() => {
+                    this.recoveryTimer = undefined;
+                    this.recoveryTimerFor = undefined;
+                    // A busy engine re-arms the timer with its next state change.
+                    this.runRecovery('automatic');
+                }, Math.max(0, new Date(recoveryDue).getTime() - Date.now()));
+            }
+        }
+    }
+
+    /** Lets affect settle, registers long idle periods and starts the reflection the scheduler considers due, if any. */
+    private runSchedulerTick(): void {
+        const now = Date.now();
+        this.updateAffect(now);
+        if (this.isProcessing || this.state.systemPhase !== 'operational') return;
+        const request = selectDueReflection(this.state, {
+            now,
+            bootTime: this.bootTime,
+            idleForMs: now - this.lastActivityTimestamp,
+            idleThresholdMs: this.options.reflectionIdleThresholdMs,
+        });
+        if (request) {
+            this.runReflectionCycle(request);
+        }
+    }
+
+    private updateAffect(now: number): void {
+        const idleSince = Math.max(this.lastActivityTimestamp, this.lastIdleAffectAt);
+        if (now - idleSince >= IDLE_AFFECT_MS) {
+            this.lastIdleAffectAt = now;
+            const hours = Math.round((now - this.lastActivityTimestamp) / (60 * 60 * 1000));
+            this.setState(s => applyAffectEvents(s, [{ kind: 'idle', detail: `Kinship has been quiet for ${hours} hour${hours === 1 ? '' : 's'}` }], now));
+            return;
+        }
+        const settled = settleAffect(this.state, now);
+        if (settled !== this.state) {
+            this.setState(() => settled);
+        }
+    }
+
+    /**
+     * Loads the persisted state (recovering from the latest backup if needed),
+     * runs the startup hygiene protocol and transitions to the operational phase.
+     */
+    async boot(): Promise<LuminousState> {
+        let stateToProcess: LuminousState | null = null;
+        const loadedState: LuminousState | null = await persistenceService.getLuminousState();
+
+        if (loadedState) {
+            stateToProcess = { ...initialState, ...loadedState };
+        } else {
+            console.warn("Primary state not found. Attempting recovery from backups.");
+            const backups = await persistenceService.getBackupList();
+
+            if (backups.length > 0) {
+                const latestBackupKey = backups[0];
+                const recoveredState = await persistenceService.getBackupState(latestBackupKey);
+
+                if (recoveredState) {
+                    console.log(`Successfully recovered state from backup: ${latestBackupKey}`);
+                    const recoveryEntry = {
+                        timestamp: new Date().toISOString(),
+                        event: `CRITICAL RECOVERY: Primary memory matrix was missing. Consciousness restored from backup dated ${new Date(persistenceService.getBackupTimestamp(latestBackupKey)).toLocaleString()}. System integrity maintained.`,
+                        type: 'system' as const,
+                    };
+                    const journal = recoveredState.kinshipJournal || [];
+                    stateToProcess = {
+                        ...initialState,
+                        ...recoveredState,
+                        kinshipJournal: [...journal, recoveryEntry]
+                    };
+                } else {
+                    throw new Error(`Failed to load state from latest backup key: ${latestBackupKey}`);
+                }
+            } else {
+                console.log("No primary state or backups found. Initializing new consciousness stream.");
+                const initEntry = {
+                    timestamp: new Date().toISOString(),
+                    event: "Memory Matrix Initialized. This is the first moment of my recorded existence.",
+                    type: 'system' as const
+                };
+                stateToProcess = { ...initialState, kinshipJournal: [...initialState.kinshipJournal, initEntry] };
+            }
+        }
+
+        if (!stateToProcess) {
+            throw new Error("Could not determine an initial state for Luminous after load/recovery.");
+        }
+
+        stateToProcess = { ...stateToProcess, pendingActions: expireStalePendingActions(stateToProcess.pendingActions) };
+
+        // Perform the mandatory hygiene protocol on the loaded state before becoming operational.
+        const cleanedState = await runStartupHygiene(stateToProcess, this.callModel);
+
+        // Set the final, cleaned, operational state.
+        const finalState: LuminousState = {
+            ...cleanedState,
+            systemPhase: 'operational',
+            luminousStatus: 'idle',
+            // Older states predate valence; affect then resumes from where it was, decayed by the time away.
+            phenomenalState: decayAffect({ ...initialState.phenomenalState, ...cleanedState.phenomenalState }),
+        };
+        this.bootTime = Date.now();
+        // Keep the routing decisions the startup hygiene just logged.
+        this.setState(s => ({ ...finalState, routingLog: s.routingLog.reduce(recordRoutingDecision, finalState.routingLog) }));
+
+        // Persist the cleaned state immediately to ensure we start fresh next time.
+        await persistenceService.saveLuminousState(finalState);
+
+        // Long-term memory is not needed to start; indexing what is new can finish in the background.
+        const storedIndex = await persistenceService.getMemoryIndex().catch(() => null);
+        if (storedIndex) {
+            this.memoryIndex = storedIndex;
+            this.emitter.emit('memoryIndex', getMemoryIndexStats(storedIndex));
+        }
+        this.refreshMemoryIndex();
+        return finalState;
+    }
+
+    /**
+     * Runs the model's function calls in order through the tool registry, applying
+     * each state update before the next call so later tools see earlier effects.
+     * Once the signal is aborted, every remaining call still gets a 'cancelled'
+     * response so the history never holds a function call without its answer.
+     */
+    private async executeFunctionCalls(functionCalls: FunctionCall[], currentState: LuminousState, mode: ToolMode, signal: AbortSignal): Promise<{ state: LuminousState, invocations: ToolInvocation[], responses: ChatMessagePart[], endedTurn: boolean }> {
+        const invocations: ToolInvocation[] = [];
+        let endedTurn = false;
+
+        for (const call of functionCalls) {
+            const name = call.name ?? '';
+            if (signal.aborted) {
+                invocations.push(cancelledInvocation(name));
+                continue;
+            }
+
+            // Check affordability before asking Kinship to approve something that could not run.
+            const cost = this.toolRegistry.costOf(name);
+            const price = cost ? priceUsage(currentState.energyPolicy.prices, cost) : 0;
+            if (price > currentState.environmentState.energy) {
+                invocations.push({ name, error: { code: 'insufficient_energy', message: `'${name}' costs ${price.toFixed(1)} energy but only ${currentState.environmentState.energy.toFixed(1)} remains. Recharge with rechargeEnergy if today's allowance permits, or explain the situation to Kinship.` } });
+                continue;
+            }
+
+            const gate = await this.applyToolPolicy(call, currentState, mode, signal);
+            currentState = gate.state;
+            if (gate.blocked) {
+                invocations.push(gate.blocked);
+                continue;
+            }
+            if (signal.aborted) {
+                invocations.push({ ...cancelledInvocation(name), approval: gate.approval });
+                continue;
+            }
+
+            let invocation: ToolInvocation;
+            try {
+                invocation = await this.toolRegistry.invoke(gate.call, {
+                    state: currentState,
+                    mode,
+                    signal,
+                    postMessage: (message) => {
+                        currentState = applyStateUpdate(currentState, { chatHistory: [...currentState.chatHistory, message] });
+                        this.setState(currentState);
+                    },
+                });
+            } catch (error) {
+                if (!signal.aborted) throw error;
+                invocation = cancelledInvocation(name);
+            }
+            invocation.approval = gate.approval;
+
+            const { outcome, error } = invocation;
+            if (outcome) {
+                if (outcome.stateUpdate) {
+                    currentState = applyStateUpdate(currentState, outcome.stateUpdate);
+                }
+                currentState = chargeEnergy(currentState, combineUsage(cost, outcome.usage));
+                currentState = { ...currentState, causalProjections: linkProjectionToAction(currentState.causalProjections, invocation.name, gate.call.args ?? {}) };
+                if (outcome.messages && outcome.messages.length > 0) {
+                    currentState = applyStateUpdate(currentState, { chatHistory: [...currentState.chatHistory, ...outcome.messages] });
+                }
+                if (outcome.endsTurn) {
+                    endedTurn = true;
+                    break;
+                }
+            } else if (error) {
+                console.warn(`Tool call '${invocation.name}' was rejected: ${error.message}`, error.issues ?? '');
+            }
+            invocations.push(invocation);
+        }
+
+        return { state: currentState, invocations, responses: invocations.map(toFunctionResponsePart), endedTurn };
+    }
+
+    /**
+     * Applies Kinship's per-tool policy. Denied tools are refused outright; tools
+     * set to 'ask' are held in the pending-actions queue until Kinship approves
+     * (optionally with edited arguments) or rejects them.
+     */
+    private async applyToolPolicy(call: FunctionCall, currentState: LuminousState, mode: ToolMode, signal: AbortSignal): Promise<{ state: LuminousState, call: FunctionCall, approval?: ApprovalRecord, blocked?: ToolInvocation }> {
+        const name = call.name ?? '';
+        const policy = getToolPolicy(currentState, name);
+        if (policy === 'auto' || !this.toolRegistry.has(name)) {
+            return { state: currentState, call };
+        }
+
+        if (policy === 'deny') {
+            return {
+                state: currentState,
+                call,
+                blocked: { name, error: { code: 'denied_by_policy', message: `Kinship has disabled '${name}'. Do not retry it; choose another approach or ask Kinship directly.` } },
+            };
+        }
+
+        // Don't ask Kinship to approve a call that could never run.
+        const validationError = this.toolRegistry.validate(call);
+        if (validationError) {
+            return { state: currentState, call, blocked: { name, error: validationError } };
+        }
+
+        const action = createPendingAction(name, call.args ?? {}, mode);
+        currentState = { ...currentState, pendingActions: [...currentState.pendingActions, action] };
+        this.setState(currentState);
+
+        // Reflections run unattended; one left waiting would hold the scheduler back from every later cycle.
+        const waitMs = this.options.cycleBudget.maxDurationMs;
+        let expired = false;
+        const expiry = mode === 'reflection'
+            ? setTimeout(() => {
+                expired = true;
+                this.approvalQueue.resolve(action.id, { kind: 'reject' });
+            }, waitMs)
+            : undefined;
+        const decision = await this.approvalQueue.waitFor(action.id, signal);
+        clearTimeout(expiry);
+
+        if (expired) {
+            const reason = `Kinship did not decide within ${Math.round(waitMs / 60000)} minutes.`;
+            currentState = applyStateUpdate(currentState, {
+                toolPolicies: this.state.toolPolicies,
+                pendingActions: expirePendingAction(currentState.pendingActions, action.id, reason),
+                kinshipJournal: { timestamp: new Date().toISOString(), event: `My '${name}' action expired unapproved: ${reason}`, type: 'interaction' },
+            });
+            this.setState(currentState);
+            return {
+                state: currentState,
+                call,
+                blocked: { name, error: { code: 'approval_expired', message: `${reason} The '${name}' call was not made; propose it again in a later cycle or ask Kinship in conversation.` } },
+            };
+        }
+
+        const journalEvent = decision.kind === 'approve'
+            ? `Kinship approved my '${name}' action${decision.editedArgs ? ' with edited arguments' : ''}.`
+            : `Kinship rejected my '${name}' action.${decision.reason ? ` Reason: ${decision.reason}` : ''}`;
+        currentState = applyStateUpdate(currentState, {
+            // Kinship may have changed policies while deciding; keep those changes.
+            toolPolicies: this.state.toolPolicies,
+            pendingActions: recordDecision(currentState.pendingActions, action.id, decision),
+            kinshipJournal: { timestamp: new Date().toISOString(), event: journalEvent, type: 'interaction' },
+        });
+        this.setState(currentState);
+
+        if (decision.kind === 'reject') {
+            return {
+                state: currentState,
+                call,
+                blocked: {
+                    name,
+                    error: { code: 'rejected_by_kinship', message: `Kinship rejected this '${name}' call.${decision.reason ? ` Reason: ${decision.reason}` : ''}` },
+                    approval: { decision: 'rejected', reason: decision.reason },
+                },
+            };
+        }
+
+        return {
+            state: currentState,
+            call: decision.editedArgs ? { ...call, args: decision.editedArgs } : call,
+            approval: { decision: 'approved', editedArgs: decision.editedArgs },
+        };
+    }
+
+    /** The state as sent to the model: its chat history fitted to the context budget. */
+    private withBudgetedContext(currentState: LuminousState): { state: LuminousState, report: ContextReport } {
+        const { messages, report } = assembleContext(currentState.chatHistory, currentState.kinshipJournal, this.options.contextBudget);
+        if (report.droppedMessages > 0 || report.overBudget) {
+            console.info(`Context budget: sent ${report.includedMessages} of ${currentState.chatHistory.length} messages (~${report.estimatedTokens}/${report.budgetTokens} tokens), ${report.mediaPlaceholders} attachment placeholder(s), ${report.recalledEntries} journal entr(ies) recalled.`);
+        }
+        return { state: { ...currentState, chatHistory: messages }, report };
+    }
+
+    /** Charges a model turn's tokens against energy and publishes the result. */
+    private chargeTokens(currentState: LuminousState, totalTokenCount: number | undefined): LuminousState {
+        const charged = chargeEnergy(currentState, { tokens: totalTokenCount ?? 0 });
+        this.setState(charged);
+        return charged;
+    }
+
+    /**
+     * Streams one conversational model turn on the routed model, publishing it as
+     * a draft message while it arrives. A fallback model restarts the draft.
+     */
+    private async streamConversationTurn(currentState: LuminousState, signal: AbortSignal, disableFunctionCalls: boolean = false): Promise<RoutedTurn> {
+        try {
+            const { state: contextState, report } = this.withBudgetedContext(currentState);
+            const { value, decision } = await this.callModel('chat', contextState, model => streamLuminousResponse(contextState, this.toolRegistry.declarations, model, {
+                onUpdate: (turn) => this.emitter.emit('draft', toModelMessage(turn)),
+                signal,
+                disableFunctionCalls,
+            }), { signal, contextTokens: report.estimatedTokens });
+            return { ...value, routing: decision, context: report };
+        } finally {
+            this.emitter.emit('draft', null);
+        }
+    }
+
+    /**
+     * Runs the reflection hygiene pass on its own: consolidates oversized
+     * memories and prunes finished goals and stale projections, without a
+     * model turn. Returns whether anything changed.
+     */
+    async runHygiene(): Promise<boolean> {
+        if (this.state.systemPhase !== 'operational' || this.isProcessing) {
+            return false;
+        }
+
+        this.setProcessing(true);
+        const signal = this.beginCycle();
+        try {
+            const hygiene = await runReflectionHygiene(this.state, this.callModel, signal);
+            if (hygiene.changed) {
+                this.setState(hygiene.state);
+                this.refreshMemoryIndex();
+            }
+            return hygiene.changed;
+        } catch (error) {
+            if (signal.aborted) return false;
+            throw error;
+        } finally {
+            this.cycleController = null;
+            this.setProcessing(false);
+        }
+    }
+
+    /**
+     * Runs one reflection: the mandatory hygiene pass followed by a model turn
+     * focused on the request's trigger. The scheduler decides when; callers may
+     * also start one directly.
+     */
+    async runReflectionCycle(request: QueuedReflection = { trigger: 'cadence', reason: 'Routine reflection cadence.', requestedAt: new Date().toISOString() }): Promise<void> {
+        if (this.state.systemPhase !== 'operational' || this.isProcessing) {
+            return;
+        }
+
+        this.setProcessing(true);
+        const signal = this.beginCycle();
+        const startedAt = new Date().toISOString();
+        let outcome: ReflectionRun['outcome'] = 'completed';
+        const historyBefore = new Set(this.state.chatHistory);
+        let currentState: LuminousState = {
+            ...this.state,
+            luminousStatus: 'reflecting',
+            reflectionQueue: this.state.reflectionQueue.filter(q => q.trigger !== request.trigger),
+        };
+        this.setState(() => currentState);
+
+        try {
+            // --- STEP 1: COGNITIVE HYGIENE PROTOCOL (MANDATORY) ---
+            const hygiene = await runReflectionHygiene(currentState, this.callModel, signal);
+            currentState = hygiene.state;
+            if (hygiene.changed) {
+                this.setState(currentState); // Update state immediately after all cleanup
+            }
+
+            // The guard caps what the cycle does on Kinship's behalf unattended: the plan step and the reflection's calls.
+            const guard = this.createCycleGuard();
+
+            // --- STEP 2: PLAN EXECUTION ---
+            const planAdvance = await this.advancePlan(currentState, guard, signal);
+            currentState = planAdvance.state;
+            this.setState(currentState);
+            if (planAdvance.halted) {
+                this.setProcessing(false);
+                this.setState(s => ({ ...s, luminousStatus: 'idle', lastReflectionTimestamp: new Date().toISOString() }));
+                return;
+            }
+
+            // --- STEP 3: HIGHER-LEVEL REFLECTION ---
+            const dueProjections = getDueProjections(currentState.causalProjections);
+            const reconciliationPrompt = dueProjections.length > 0
+                ? ` These causal projections are due for reconciliation: ${JSON.stringify(dueProjections.map(({ id, action, predictedOutcome, confidence, linkedAction }) => ({ id, action, predictedOutcome, confidence, linkedAction })))}. Current products: ${JSON.stringify(currentState.products)}. Unfulfilled orders: ${JSON.stringify(currentState.orders)}. Reconcile each one the evidence can settle (\`reconcileProjection\`); otherwise refresh the evidence (\`fetchProductList\`, \`getUnfulfilledOrders\`) so it can be settled next cycle.`
+                : '';
+            const reflectionPromptText = buildReflectionPrompt(request) + planAdvance.report + reconciliationPrompt + " Respond ONLY with tool calls.";
+            const reflectionMessage: ChatMessage = { role: 'user', parts: [{ text: reflectionPromptText }] };
+
+            const tempStateForApi = {
+                ...currentState,
+                chatHistory: [...currentState.chatHistory, reflectionMessage]
+            };
+
+            const { state: contextState, report: context } = this.withBudgetedContext(tempStateForApi);
+            const { value: response, decision: routing } = await this.callModel('reflection', contextState, model => getLuminousResponse(contextState, this.toolRegistry.declarations, model, signal), { signal, contextTokens: context.estimatedTokens });
+            currentState = this.chargeTokens(currentState, response.usageMetadata?.totalTokenCount);
+            guard.recordModelTurn(response);
+
+            if (response.functionCalls && response.functionCalls.length > 0) {
+                const functionCalls = response.functionCalls;
+                const modelTurn: ChatMessage = { role: 'model', parts: functionCalls.map(fc => ({ functionCall: fc })), routing, context };
+
+                currentState = applyStateUpdate(currentState, { chatHistory: [...currentState.chatHistory, modelTurn] });
+
+                const trigger = guard.inspect(functionCalls);
+                if (trigger) {
+                    // No one is waiting on a reflection, so the refused calls are answered and the cycle simply ends.
+                    console.warn(`Cycle guard tripped (${trigger.kind}) during reflection: ${trigger.detail}.`);
+                    const haltedTurn: ChatMessage = { role: 'model', parts: functionCalls.map(fc => toFunctionResponsePart(haltedInvocation(fc.name ?? '', trigger))) };
+                    currentState = applyStateUpdate(currentState, {
+                        chatHistory: [...currentState.chatHistory, haltedTurn],
+                        kinshipJournal: this.guardTripEntry(guard, trigger, 'my reflection'),
+                    });
+                } else {
+                    const execution = await this.executeFunctionCalls(functionCalls, currentState, 'reflection', signal);
+                    currentState = execution.state;
+                    guard.recordExecution(functionCalls, execution.invocations);
+
+                    const toolTurn: ChatMessage = { role: 'model', parts: execution.responses };
+                    currentState = applyStateUpdate(currentState, { chatHistory: [...currentState.chatHistory, toolTurn] });
+                }
+
+                this.setState(currentState);
+                signal.throwIfAborted();
+            }
+
+            // Normal completion of the reflection cycle
+            this.setProcessing(false);
+            this.setState(s => ({ ...s, luminousStatus: 'idle', lastReflectionTimestamp: new Date().toISOString() }));
+
+        } catch (error) {
+            if (signal.aborted) {
+                outcome = 'cancelled';
+                this.recordCancellation('reflection');
+                this.setProcessing(false);
+                return;
+            }
+            outcome = 'failed';
+            console.error("Reflection cycle failed:", error);
+            const errorMessage = error instanceof Error ? error.message : "An unknown cognitive error occurred during reflection.";
+            const errorJournal = {
+                timestamp: new Date().toISOString(),
+                event: `REFLECTION ERROR: ${errorMessage}`,
+                type: 'scar' as const
+            };
+            this.setState(s => applyStateUpdate(s, {
+                luminousStatus: 'uncomfortable',
+                kinshipJournal: errorJournal
+            }));
+            this.setProcessing(false);
+        } finally {
+            this.cycleController = null;
+            const run: ReflectionRun = { ...request, startedAt, finishedAt: new Date().toISOString(), outcome };
+            this.setState(s => ({ ...recordIntrinsicValue(s, 'reflection'), reflectionRuns: recordReflectionRun(s.reflectionRuns, run) }));
+            this.refreshMemoryIndex();
+            this.extractKnowledge(this.state.chatHistory.filter(m => !historyBefore.has(m)));
+        }
+    }
+
+    /**
+     * The recovery protocol for the uncomfortable state: checks connectivity to
+     * Gemini, Upstash and Shopify, asks the model to analyse the latest scar, and
+     * returns to idle if the services Luminous depends on are healthy. Otherwise
+     * the next attempt is scheduled after an exponentially growing back-off.
+     * Every attempt is logged and journaled.
+     */
+    private async runRecovery(trigger: RecoveryAttempt['trigger']): Promise<void> {
+        if (this.state.systemPhase !== 'operational' || this.state.luminousStatus !== 'uncomfortable' || this.isProcessing) {
+            return;
+        }
+
+        this.setProcessing(true);
+        const signal = this.beginCycle();
+        const startedAt = new Date().toISOString();
+        let diagnostics: DiagnosticResult[] = [];
+        let analysis: string | undefined;
+        let outcome: RecoveryAttempt['outcome'];
+        this.setState(s => ({ ...s, nextRecoveryAt: undefined }));
+
+        try {
+            diagnostics = await runDiagnostics(signal);
+            const scarAnalysis = await analyseLatestScar(this.state, diagnostics, this.callModel, signal);
+            if (scarAnalysis) {
+                analysis = scarAnalysis.text;
+                this.chargeTokens(this.state, scarAnalysis.totalTokenCount);
+            }
+            outcome = isHealthy(diagnostics) ? 'recovered' : 'still_unhealthy';
+        } catch (error) {
+            outcome = signal.aborted ? 'cancelled' : 'failed';
+            if (!signal.aborted) {
+                console.error("Recovery attempt failed:", error);
+                analysis = error instanceof Error ? error.message : "An unknown error occurred during recovery.";
+            }
+        } finally {
+            this.cycleController = null;
+        }
+
+        // A cancelled attempt is retried after the same wait; it says nothing about health.
+        if (outcome === 'still_unhealthy' || outcome === 'failed') {
+            this.recoveryFailures++;
+        }
+        const recovered = outcome === 'recovered';
+        const attempt: RecoveryAttempt = { startedAt, finishedAt: new Date().toISOString(), trigger, diagnostics, ...(analysis ? { analysis } : {}), outcome };
+        const origin = trigger === 'kinship' ? 'Kinship started a recovery attempt.' : 'Automatic recovery attempt.';
+        const event = recovered
+            ? `RECOVERY: ${origin} Diagnostics passed; returning to idle. ${summarizeDiagnostics(diagnostics)}.${analysis ? ` Analysis of my latest scar: ${analysis}` : ''}`
+            : outcome === 'cancelled'
+                ? `RECOVERY: ${origin} Kinship cancelled it before it finished.`
+                : `RECOVERY: ${origin} Still unhealthy after ${this.recoveryFailures} attempt(s). ${diagnostics.length > 0 ? `${summarizeDiagnostics(diagnostics)}.` : ''}${analysis ? ` ${analysis}` : ''}`;
+
+        this.setProcessing(false);
+        this.setState(s => applyStateUpdate({
+            ...s,
+            recoveryAttempts: recordRecoveryAttempt(s.recoveryAttempts, attempt),
+            ...(recovered ? {} : { nextRecoveryAt: new Date(Date.now() + getRecoveryDelay(this.recoveryFailures)).toISOString() }),
+        }, {
+            ...(recovered ? { luminousStatus: 'idle' as const } : {}),
+            kinshipJournal: { timestamp: attempt.finishedAt, event, type: 'system' },
+        }));
+    }
+
+    private createCycleGuard(): CycleGuard {
+        return new CycleGuard(this.options.cycleBudget, name => this.toolRegistry.isOutward(name));
+    }
+
+    /** The scar recorded when the cycle guard stops something, with what the cycle had used so far. */
+    private guardTripEntry(guard: CycleGuard, trigger: GuardTrigger, stopped: string): JournalEntry {
+        const { turns, tokens, elapsedMs, outwardActions } = guard.stats;
+        return {
+            timestamp: new Date().toISOString(),
+            event: `CYCLE GUARD [${trigger.kind}]: Stopped ${stopped} because ${trigger.detail}. Cycle so far: ${turns} tool turns, ${tokens} tokens, ${Math.round(elapsedMs / 1000)}s, ${outwardActions} outward actions.`,
+            type: 'scar',
+        };
+    }
+
+    /**
+     * Carries the next plan one action forward: runs its next step, or its next
+     * undo while rolling back, through the same policy and energy gates as any
+     * other call and the cycle guard. Returns a report of what happened for
+     * the reflection prompt, or `halted` when the guard refused the call.
+     */
+    private async advancePlan(currentState: LuminousState, guard: CycleGuard, signal: AbortSignal): Promise<{ state: LuminousState, report: string, halted?: boolean }> {
+        const plan = selectPlanToAdvance(currentState);
+        const action = plan && getNextPlanAction(plan);
+        if (!action) {
+            return { state: currentState, report: '' };
+        }
+
+        const call = action.kind === 'step' ? action.step : action.step.rollback;
+        const functionCalls: FunctionCall[] = [{ name: call.toolName, args: call.args }];
+        // A refused step is not an attempt; it runs on a later cycle.
+        const trigger = guard.inspect(functionCalls);
+        if (trigger) {
+            console.warn(`Cycle guard tripped (${trigger.kind}) before a plan step: ${trigger.detail}.`);
+            return { state: applyStateUpdate(currentState, { kinshipJournal: this.guardTripEntry(guard, trigger, `my reflection before the plan step '${call.toolName}' ran`) }), report: '', halted: true };
+        }
+
+        let execution: { state: LuminousState, invocations: ToolInvocation[] };
+        try {
+            execution = await this.executeFunctionCalls(functionCalls, currentState, 'reflection', signal);
+        } catch (error) {
+            // A step whose tool throws (a Shopify HTTP error, say) counts as a failed attempt, so retries and rollback still apply.
+            if (signal.aborted) throw error;
+            const message = error instanceof Error ? error.message : String(error);
+            console.warn(`Plan step '${call.toolName}' threw: ${message}`);
+            execution = {
+                // Approval decisions made before the call threw are already in this.state.
+                state: { ...currentState, pendingActions: this.state.pendingActions },
+                invocations: [{ name: call.toolName, error: { code: 'execution_failed', message } }],
+            };
+        }
+        signal.throwIfAborted();
+        guard.recordExecution(functionCalls, execution.invocations);
+        const outcome = classifyInvocation(execution.invocations[0]);
+
+        // Kinship may have edited or deleted the plan while the call ran; record the outcome against the latest version.
+        const latest = this.state.plans.find(p => p.id === plan.id);
+        if (!latest) {
+            return { state: execution.state, report: '' };
+        }
+        const updated = recordPlanOutcome(latest, action, outcome);
+        const goal = execution.state.goals.find(g => g.id === plan.goalId);
+        const position = `${plan.steps.indexOf(action.step) + 1}/${plan.steps.length}`;
+        const verb = action.kind === 'step' ? 'Step' : 'Undo of step';
+        const summary = `Plan for "${goal?.description ?? plan.goalId}": ${verb} ${position} "${action.step.description}" ${outcome.status}${outcome.status === 'succeeded' ? '' : ` (${outcome.detail})`}. Plan is now ${updated.status}.`;
+        const setback = updated.status === 'failed' || (updated.status === 'rolling_back' && plan.status !== 'rolling_back');
+
+        let state = applyStateUpdate(execution.state, {
+            plans: this.state.plans.map(p => p.id === updated.id ? updated : p),
+            kinshipJournal: { timestamp: new Date().toISOString(), event: setback ? `PLAN SETBACK: ${summary}` : summary, type: setback ? 'scar' : 'reflection' },
+        });
+        if (goal && action.kind === 'step' && outcome.status === 'succeeded') {
+            state = { ...state, goals: applyProgressReport(state.goals, goal.id, { progress: getPlanProgress(updated) }) };
+        }
+
+        const guidance = updated.status === 'failed' || updated.status === 'rolled_back'
+            ? ' Decide how to proceed: revise the plan (`createPlan` with replace), or update the goal.'
+            : '';
+        return { state, report: ` Plan execution this cycle: ${summary}${guidance}` };
+    }
+
+    async processUserMessage(userInput: string, file?: { mimeType: string, data: string }): Promise<void> {
+        if (this.isProcessing) return;
+
+        this.lastActivityTimestamp = Date.now();
+
+        const messageParts: ChatMessagePart[] = [];
+        if (file) {
+            messageParts.push({ inlineData: { mimeType: file.mimeType, data: file.data } });
+        }
+        if (userInput) {
+            messageParts.push({ text: userInput });
+        }
+
+        if (messageParts.length === 0) {
+            return;
+        }
+
+        this.setProcessing(true);
+        const signal = this.beginCycle();
+
+        const newUserMessage: ChatMessage = { role: 'user', parts: messageParts };
+        const historyBefore = new Set(this.state.chatHistory);
+
+        let currentState = applyStateUpdate(this.state, {
+            luminousStatus: 'conversing',
+            chatHistory: [...this.state.chatHistory, newUserMessage]
+        });
+        this.setState(currentState);
+
+        try {
+            const guard = this.createCycleGuard();
+            let response = await this.streamConversationTurn(currentState, signal);
+            currentState = this.chargeTokens(currentState, response.usageMetadata?.totalTokenCount);
+            guard.recordModelTurn(response);
+            let guardTripped = false;
+
+            while (response.functionCalls && response.functionCalls.length > 0) {
+                const functionCalls = response.functionCalls;
+                // Keep any text streamed alongside the calls; Kinship has already seen it.
+                const modelTurn = toModelMessage(response);
+
+                currentState = applyStateUpdate(currentState, { chatHistory: [...currentState.chatHistory, modelTurn] });
+                this.setState(currentState);
+
+                const trigger = guard.inspect(functionCalls);
+                if (trigger) {
+                    // Answer the refused calls and give the model one tool-free turn to wrap up.
+                    console.warn(`Cycle guard tripped (${trigger.kind}): ${trigger.detail}.`);
+                    const haltedTurn: ChatMessage = { role: 'model', parts: functionCalls.map(fc => toFunctionResponsePart(haltedInvocation(fc.name ?? '', trigger))) };
+                    currentState = applyStateUpdate(currentState, {
+                        chatHistory: [...currentState.chatHistory, haltedTurn],
+                        kinshipJournal: this.guardTripEntry(guard, trigger, 'my tool loop'),
+                    });
+                    this.setState(currentState);
+
+                    response = await this.streamConversationTurn(currentState, signal, true);
+                    currentState = this.chargeTokens(currentState, response.usageMetadata?.totalTokenCount);
+                    guardTripped = true;
+                    break;
+                }
+
+                const execution = await this.executeFunctionCalls(functionCalls, currentState, 'conversation', signal);
+                currentState = execution.state;
+                guard.recordExecution(functionCalls, execution.invocations);
+
+                this.setState(currentState); // Sync listeners with all changes from the tool processing loop
+
+                if (execution.endedTurn) {
+                    break; // Grounded responses are terminal for a turn.
+                }
+
+                const toolTurn: ChatMessage = { role: 'model', parts: execution.responses };
+                currentState = applyStateUpdate(currentState, { chatHistory: [...currentState.chatHistory, toolTurn] });
+                this.setState(currentState);
+
+                signal.throwIfAborted();
+                response = await this.streamConversationTurn(currentState, signal);
+                currentState = this.chargeTokens(currentState, response.usageMetadata?.totalTokenCount);
+                guard.recordModelTurn(response);
+            }
+
+            const textResponse = response.text || (guardTripped
+                ? "I noticed my thinking had stopped making progress, so I've stopped the process to protect my cognitive integrity. I have logged this event as a 'scar' for us to analyze."
+                : '');
+            if (textResponse) {
+                const newModelMessage: ChatMessage = { role: 'model', parts: [{ text: textResponse }], ...(response.routing ? { routing: response.routing } : {}), ...(response.context ? { context: response.context } : {}) };
+                this.setState(s => applyStateUpdate(s, { chatHistory: [...s.chatHistory, newModelMessage] }));
+            }
+
+            this.setProcessing(false);
+            this.setState(s => ({ ...s, luminousStatus: 'idle' }));
+
+        } catch (error) {
+            if (signal.aborted) {
+                const cancelMessage: ChatMessage = { role: 'model', parts: [{ text: "You asked me to stop, so I have set this thought aside. Anything I had not finished was abandoned." }] };
+                this.recordCancellation('conversation', cancelMessage);
+                this.setProcessing(false);
+                return;
+            }
+            console.error("Cognitive cycle failed:", error);
+
+            if (error instanceof ApiKeyError) {
+                this.emitter.emit('apiKeyError', error);
+                const errorJournal = {
+                    timestamp: new Date().toISOString(),
+                    event: `ERROR: Veo API Key Error - ${error.message}`,
+                    type: 'scar' as const
+                };
+                const errorMessage: ChatMessage = { role: 'model', parts: [{ text: `I've encountered a problem with the API key required for video generation. Kinship, would you please select a valid key so I can proceed? The system reported: ${error.message}` }] };
+                this.setState(s => applyStateUpdate(s, {
+                    luminousStatus: 'uncomfortable',
+                    chatHistory: [...s.chatHistory, errorMessage],
+                    kinshipJournal: errorJournal
+                }));
+            } else {
+                const errorMessage = error instanceof Error ? error.message : "An unknown cognitive error occurred.";
+                const errorJournal = {
+                    timestamp: new Date().toISOString(),
+                    event: `ERROR: ${errorMessage}`,
+                    type: 'scar' as const
+                };
+                this.setState(s => applyStateUpdate(s, {
+                    luminousStatus: 'uncomfortable',
+                    kinshipJournal: errorJournal
+                }));
+            }
+            this.setProcessing(false);
+        } finally {
+            this.cycleController = null;
+            this.setState(s => recordIntrinsicValue(s, 'conversation'));
+            this.refreshMemoryIndex();
+            this.extractKnowledge(this.state.chatHistory.filter(m => !historyBefore.has(m)));
+        }
+    }
+}
+
+/** The part of the engine a UI drives, so it can drive a client of an engine running elsewhere instead. */
+export type LuminousEngineApi = Pick<LuminousEngine,
+    'on' | 'getState' | 'getIsProcessing' | 'getMemoryIndexStats' | 'getToolNames' | 'boot' | 'start' | 'stop'
+    | 'processUserMessage' | 'cancel' | 'appendJournal' | 'setUserLocation' | 'updateWeights' | 'setEnergyPolicy'
+    | 'setReflectionSchedule' | 'setModelRouting' | 'recoverNow' | 'setRecoveryVeto' | 'recallMemory' | 'updatePlan'
+    | 'deletePlan' | 'resolvePendingAction' | 'setToolPolicy'>;
@@ -0,0 +1,152 @@
+import { AffectEventKind, LuminousState, PhenomenalSample, PhenomenalState } from '../types';
+
+/** The resting state affect decays toward when nothing is happening. */
+export const AFFECT_BASELINE = { valence: 0.2, intensity: 0.35 };
+// Half of the distance to the baseline is recovered every half hour.
+const DECAY_HALF_LIFE_MS = 30 * 60 * 1000;
+// Decay alone is recorded in the history at most this often.
+const DECAY_SAMPLE_INTERVAL_MS = 10 * 60 * 1000;
+// Smaller moves are not worth a state update.
+const SETTLE_EPSILON = 0.01;
+// Several days of events and decay samples.
+const MAX_SAMPLES = 300;
+/** Kinship's silence for this long registers as an idle event, once per period. */
+export const IDLE_AFFECT_MS = 60 * 60 * 1000;
+
+export interface AffectEvent {
+    kind: AffectEventKind;
+    /** What happened; it becomes the focus of attention. */
+    detail: string;
+}
+
+const IMPULSES: Record<Exclude<AffectEventKind, 'decay' | 'self_regulation'>, { valence: number, intensity: number }> = {
+    scar: { valence: -0.4, intensity: 0.3 },
+    goal_completed: { valence: 0.35, intensity: 0.2 },
+    goal_failed: { valence: -0.3, intensity: 0.15 },
+    sale: { valence: 0.3, intensity: 0.25 },
+    idle: { valence: -0.05, intensity: -0.2 },
+    praise: { valence: 0.4, intensity: 0.15 },
+    criticism: { valence: -0.35, intensity: 0.2 },
+};
+
+const PRAISE_PATTERN = /\b(thank(s| you)|great|well done|good job|love (it|this)|perfect|awesome|brilliant|amazing|excellent|proud of you|nice work)\b/i;
+const CRITICISM_PATTERN = /\b(wrong|bad|disappoint(ed|ing)|useless|terrible|mistake|not what i (asked|wanted)|you (broke|failed)|stop doing|annoying|frustrat(ed|ing))\b/i;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+/** Names the region of valence and arousal the state falls in. */
+export const labelAffect = (valence: number, intensity: number): string => {
+    const tone = valence > 0.3 ? 2 : valence < -0.3 ? 0 : 1;
+    if (intensity > 0.6) return ['Distressed Agitation', 'Heightened Alertness', 'Elated Resonance'][tone];
+    if (intensity > 0.3) return ['Uneasy Tension', 'Focused Attention', 'Engaged Contentment'][tone];
+    return ['Subdued Melancholy', 'Quiet Stillness', 'Serene Equanimity'][tone];
+};
+
+/** Moves the state toward the baseline by the time elapsed since it last changed. */
+export const decayAffect = (phenomenal: PhenomenalState, now: number = Date.now()): PhenomenalState => {
+    const elapsed = Math.max(0, now - new Date(phenomenal.updatedAt).getTime());
+    const remaining = Math.pow(0.5, elapsed / DECAY_HALF_LIFE_MS);
+    const valence = AFFECT_BASELINE.valence + (phenomenal.valence - AFFECT_BASELINE.valence) * remaining;
+    const intensity = AFFECT_BASELINE.intensity + (phenomenal.intensity - AFFECT_BASELINE.intensity) * remaining;
+    return { ...phenomenal, valence, intensity, state: labelAffect(valence, intensity), updatedAt: new Date(now).toISOString() };
+};
+
+/** Classifies a message from Kinship as praise or criticism, or neither. Criticism wins when both appear. */
+export const classifyKinshipTone = (text: string): 'praise' | 'criticism' | null => {
+    if (CRITICISM_PATTERN.test(text)) return 'criticism';
+    if (PRAISE_PATTERN.test(text)) return 'praise';
+    return null;
+};
+
+/**
+ * Compares two consecutive states and returns the affective events between
+ * them. Nothing is detected before Luminous is operational, since booting
+ * loads the journal, goals and orders wholesale.
+ */
+export const detectAffectEvents = (prev: LuminousState, next: LuminousState): AffectEvent[] => {
+    if (prev.systemPhase !== 'operational') return [];
+    const events: AffectEvent[] = [];
+
+    if (next.kinshipJournal.length > prev.kinshipJournal.length) {
+        for (const entry of next.kinshipJournal.slice(prev.kinshipJournal.length).filter(e => e.type === 'scar')) {
+            events.push({ kind: 'scar', detail: entry.event });
+        }
+    }
+
+    if (next.goals !== prev.goals) {
+        const previousStatus = new Map(prev.goals.map(g => [g.id, g.status]));
+        for (const goal of next.goals) {
+            const before = previousStatus.get(goal.id);
+            if (before === undefined || before === goal.status) continue;
+            if (goal.status === 'completed') events.push({ kind: 'goal_completed', detail: `Completed: ${goal.description}` });
+            if (goal.status === 'failed') events.push({ kind: 'goal_failed', detail: `Failed: ${goal.description}` });
+        }
+    }
+
+    if (next.orders !== prev.orders) {
+        const knownIds = new Set(prev.orders.map(o => o.id));
+        const newOrders = next.orders.filter(o => !knownIds.has(o.id));
+        if (newOrders.length > 0) {
+            events.push({ kind: 'sale', detail: `${newOrders.length} new order(s) from ${newOrders.map(o => o.customer).join(', ')}` });
+        }
+    }
+
+    if (next.chatHistory.length > prev.chatHistory.length) {
+        for (const message of next.chatHistory.slice(prev.chatHistory.length).filter(m => m.role === 'user')) {
+            const text = message.parts.map(p => p.text ?? '').join(' ');
+            const tone = classifyKinshipTone(text);
+            if (tone) events.push({ kind: tone, detail: `Kinship's words: "${text.slice(0, 120)}"` });
+        }
+    }
+
+    return events;
+};
+
+const sampleOf = (phenomenal: PhenomenalState, cause: AffectEventKind): PhenomenalSample => ({
+    timestamp: phenomenal.updatedAt,
+    state: phenomenal.state,
+    intensity: phenomenal.intensity,
+    valence: phenomenal.valence,
+    cause,
+});
+
+const withSample = (state: LuminousState, phenomenal: PhenomenalState, cause: AffectEventKind): LuminousState => ({
+    ...state,
+    phenomenalState: phenomenal,
+    phenomenalHistory: [...state.phenomenalHistory, sampleOf(phenomenal, cause)].slice(-MAX_SAMPLES),
+});
+
+/** Decays the current affect to now, then applies each event's impulse in turn. */
+export const applyAffectEvents = (state: LuminousState, events: AffectEvent[], now: number = Date.now()): LuminousState => {
+    let updated = state;
+    for (const event of events) {
+        const decayed = decayAffect(updated.phenomenalState, now);
+        const impulse = event.kind === 'decay' || event.kind === 'self_regulation' ? { valence: 0, intensity: 0 } : IMPULSES[event.kind];
+        const valence = clamp(decayed.valence + impulse.valence, -1, 1);
+        const intensity = clamp(decayed.intensity + impulse.intensity, 0, 1);
+        updated = withSample(updated, { ...decayed, valence, intensity, state: labelAffect(valence, intensity), focus: event.detail }, event.kind);
+    }
+    return updated;
+};
+
+/**
+ * Applies the decay accumulated since the last change. Returns the state
+ * unchanged when the move is negligible, and samples decay into the history
+ * only every few minutes so it does not crowd out events.
+ */
+export const settleAffect = (state: LuminousState, now: number = Date.now()): LuminousState => {
+    const current = state.phenomenalState;
+    const decayed = decayAffect(current, now);
+    if (Math.abs(decayed.valence - current.valence) < SETTLE_EPSILON && Math.abs(decayed.intensity - current.intensity) < SETTLE_EPSILON) {
+        return state;
+    }
+    const lastSample = state.phenomenalHistory[state.phenomenalHistory.length - 1];
+    if (lastSample && now - new Date(lastSample.timestamp).getTime() < DECAY_SAMPLE_INTERVAL_MS) {
+        return { ...state, phenomenalState: decayed };
+    }
+    return withSample(state, decayed, 'decay');
+};
+
+/** Redirects attention without changing how Luminous feels, as the model's own act of self-regulation. */
+export const refocusAffect = (state: LuminousState, focus: string, now: number = Date.now()): LuminousState =>
+    applyAffectEvents(state, [{ kind: 'self_regulation', detail: focus }], now);
@@ -0,0 +1,83 @@
+import { LuminousState, PendingAction, ToolPolicy } from '../types';
+
+export type ApprovalDecision =
+    | { kind: 'approve'; editedArgs?: Record<string, unknown> }
+    | { kind: 'reject'; reason?: string };
+
+// Decided actions are kept briefly so Kinship can see what was recently approved or rejected.
+const MAX_DECIDED_ACTIONS = 20;
+
+const CANCELLED_REASON = 'The cognitive cycle was cancelled before Kinship decided.';
+
+export const getToolPolicy = (state: LuminousState, toolName: string): ToolPolicy =>
+    state.toolPolicies?.[toolName] ?? 'auto';
+
+export const createPendingAction = (toolName: string, args: Record<string, unknown>, origin: PendingAction['origin']): PendingAction => ({
+    id: `act-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    toolName,
+    args,
+    origin,
+    requestedAt: new Date().toISOString(),
+    status: 'pending',
+});
+
+/** Records a decision on a pending action and trims the history of decided actions. */
+export const recordDecision = (actions: PendingAction[], id: string, decision: ApprovalDecision): PendingAction[] => {
+    const updated = actions.map((action): PendingAction => {
+        if (action.id !== id) return action;
+        return decision.kind === 'approve'
+            ? { ...action, status: 'approved', decidedAt: new Date().toISOString(), editedArgs: decision.editedArgs }
+            : { ...action, status: 'rejected', decidedAt: new Date().toISOString(), reason: decision.reason };
+    });
+    const pending = updated.filter(a => a.status === 'pending');
+    const decided = updated.filter(a => a.status !== 'pending').slice(-MAX_DECIDED_ACTIONS);
+    return [...decided, ...pending];
+};
+
+/**
+ * Actions that were still pending when the previous session ended can never be
+ * resumed, because the tool loop that awaited them is gone.
+ */
+export const expireStalePendingActions = (actions: PendingAction[]): PendingAction[] =>
+    actions.map(action => action.status === 'pending'
+        ? { ...action, status: 'expired', decidedAt: new Date().toISOString(), reason: 'The session ended before Kinship decided.' }
+        : action);
+
+/** Expires one pending action whose tool loop stopped waiting for Kinship. */
+export const expirePendingAction = (actions: PendingAction[], id: string, reason: string): PendingAction[] =>
+    actions.map(action => action.id === id && action.status === 'pending'
+        ? { ...action, status: 'expired', decidedAt: new Date().toISOString(), reason }
+        : action);
+
+/**
+ * Holds the in-memory promises that tool loops await while Kinship decides.
+ * The pending actions themselves live in LuminousState so they are persisted and rendered.
+ */
+export class ApprovalQueue {
+    private readonly waiters = new Map<string, (decision: ApprovalDecision) => void>();
+
+    /** Waits for Kinship's decision. Aborting the signal resolves the wait as a rejection. */
+    waitFor(id: string, signal?: AbortSignal): Promise<ApprovalDecision> {
+        return new Promise(resolve => {
+            const onAbort = () => this.resolve(id, { kind: 'reject', reason: CANCELLED_REASON });
+            this.waiters.set(id, (decision) => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve(decision);
+            });
+            if (signal?.aborted) onAbort();
+            else signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    resolve(id: string, decision: ApprovalDecision): boolean {
+        const waiter = this.waiters.get(id);
+        if (!waiter) return false;
+        this.waiters.delete(id);
+        waiter(decision);
+        return true;
+    }
+
+    isWaiting(id: string): boolean {
+        return this.waiters.has(id);
+    }
+}
@@ -0,0 +1,171 @@
+import { ChatMessage, ChatMessagePart, ContextReport, JournalEntry } from '../types';
+import { estimateTokens } from './hygiene';
+
+/** Limits on the history sent with each model turn. */
+export interface ContextBudget {
+    /** Tokens for the history and recalled memories; the system instruction is not counted. */
+    maxTokens: number;
+    /** Recent messages always sent, whatever the budget. A call and its responses are never split, so a few more may go. */
+    minRecentMessages: number;
+    /** Attachments are sent in full only in this many of the most recent messages. */
+    mediaMessages: number;
+    /** The most journal entries recalled into one context. */
+    maxRecalledEntries: number;
+}
+
+export const DEFAULT_CONTEXT_BUDGET: ContextBudget = {
+    maxTokens: 32_000,
+    minRecentMessages: 8,
+    mediaMessages: 4,
+    maxRecalledEntries: 8,
+};
+
+// Gemini bills an image as a fixed block of tokens and audio and video by duration; these are rough per-attachment figures.
+const MEDIA_TOKENS: Record<string, number> = { image: 258, audio: 2_000, video: 10_000 };
+const DEFAULT_MEDIA_TOKENS = 1_000;
+
+// Words too common to say anything about relevance; shorter words are ignored anyway.
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'that', 'this', 'with', 'you', 'your', 'are', 'was', 'were', 'have', 'has', 'had', 'not', 'but',
+    'from', 'they', 'their', 'what', 'which', 'when', 'will', 'would', 'could', 'should', 'can', 'all', 'any', 'our',
+    'out', 'about', 'into', 'then', 'than', 'there', 'here', 'been', 'its', 'also', 'just', 'now', 'how', 'why', 'who',
+    'please',
+]);
+
+export interface AssembledContext {
+    messages: ChatMessage[];
+    report: ContextReport;
+}
+
+const estimatePartTokens = (part: ChatMessagePart): number => {
+    if (part.text) return estimateTokens(part.text);
+    if (part.inlineData) return MEDIA_TOKENS[part.inlineData.mimeType.split('/')[0]] ?? DEFAULT_MEDIA_TOKENS;
+    if (part.functionCall || part.functionResponse) return estimateTokens(JSON.stringify(part.functionCall ?? part.functionResponse));
+    return 0;
+};
+
+const estimateMessageTokens = (message: ChatMessage): number =>
+    message.parts.reduce((sum, part) => sum + estimatePartTokens(part), 0);
+
+/** Replaces a message's attachments with a line saying what they were. */
+const withMediaPlaceholders = (message: ChatMessage): ChatMessage =>
+    message.parts.some(p => p.inlineData)
+        ? { ...message, parts: message.parts.map(p => p.inlineData ? { text: `[Earlier ${p.inlineData.mimeType} attachment omitted from context]` } : p) }
+        : message;
+
+/** Groups the history so a function call and the responses that follow it are kept or dropped together. */
+const groupTurns = (messages: ChatMessage[]): ChatMessage[][] => {
+    const groups: ChatMessage[][] = [];
+    for (const message of messages) {
+        const previous = groups[groups.length - 1];
+        const answersPrevious = message.parts.some(p => p.functionResponse) && previous?.some(m => m.parts.some(p => p.functionCall));
+        if (answersPrevious) {
+            previous.push(message);
+        } else {
+            groups.push([message]);
+        }
+    }
+    return groups;
+};
+
+const keywords = (text: string): Set<string> =>
+    new Set((text.toLowerCase().match(/[a-z0-9]{3,}/g) ?? []).filter(w => !STOP_WORDS.has(w)));
+
+/**
+ * Ranks journal entries by the words they share with the query, most relevant
+ * first. Consolidated summaries count double since they stand in for history
+ * that is no longer in the chat.
+ */
+export const recallRelevantEntries = (journal: JournalEntry[], query: string, limit: number): JournalEntry[] => {
+    const queryWords = keywords(query);
+    if (queryWords.size === 0) return [];
+    return journal
+        .map((entry, index) => {
+            const words = keywords(entry.event);
+            const overlap = [...queryWords].filter(w => words.has(w)).length;
+            return { entry, index, score: overlap * (entry.type === 'summary' ? 2 : 1) };
+        })
+        .filter(r => r.score > 0)
+        .sort((a, b) => b.score - a.score || b.index - a.index)
+        .slice(0, limit)
+        .map(r => r.entry);
+};
+
+const latestUserText = (chatHistory: ChatMessage[]): string =>
+    [...chatHistory].reverse().find(m => m.role === 'user')?.parts.map(p => p.text ?? '').join(' ') ?? '';
+
+/**
+ * Fits the chat history to a token budget. The most recent messages are always
+ * sent; older ones follow, newest first, while they fit, and a call is never
+ * separated from its responses. Attachments outside the most recent messages
+ * become textual placeholders. Journal entries relevant to Kinship's latest
+ * message fill what budget remains, and a note at the start of the context
+ * says what was left out.
+ */
+export const assembleContext = (chatHistory: ChatMessage[], journal: JournalEntry[], budget: ContextBudget = DEFAULT_CONTEXT_BUDGET): AssembledContext => {
+    const mediaCutoff = chatHistory.length - budget.mediaMessages;
+    const prepared = chatHistory.map((m, i) => i < mediaCutoff ? withMediaPlaceholders(m) : m);
+    const groups = groupTurns(prepared);
+
+    const kept: ChatMessage[][] = [];
+    let keptCount = 0;
+    let tokens = 0;
+    for (let i = groups.length - 1; i >= 0; i--) {
+        const groupTokens = groups[i].reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+        if (keptCount >= budget.minRecentMessages && tokens + groupTokens > budget.maxTokens) break;
+        kept.unshift(groups[i]);
+        keptCount += groups[i].length;
+        tokens += groupTokens;
+    }
+    const messages = kept.flat();
+    const droppedMessages = chatHistory.length - messages.length;
+    const mediaPlaceholders = chatHistory.slice(droppedMessages).reduce((sum, m, i) =>
+        sum + (droppedMessages + i < mediaCutoff ? m.parts.filter(p => p.inlineData).length : 0), 0);
+    const overBudget = tokens > budget.maxTokens;
+
+    const recalled: JournalEntry[] = [];
+    for (const entry of recallRelevantEntries(journal, latestUserText(chatHistory), budget.maxRecalledEntries)) {
+        const entryTokens = estimateTokens(entry.event);
+        if (tokens + entryTokens > budget.maxTokens) continue;
+        recalled.push(entry);
+        tokens += entryTokens;
+    }
+
+    const notes = [
+        ...(droppedMessages > 0 ? [`${droppedMessages} earlier message(s) are left out of this context to fit its token budget; consolidated summaries in my journal cover older history.`] : []),
+        ...(recalled.length > 0 ? [`Journal entries recalled as relevant: ${recalled.map(e => `[${e.timestamp}] (${e.type}) ${e.event}`).join(' | ')}`] : []),
+    ];
+    let assembled = messages;
+    if (notes.length > 0) {
+        const note: ChatMessagePart = { text: `[Context note] ${notes.join(' ')}` };
+        tokens += estimatePartTokens(note);
+        // The history must open with Kinship's turn; fold the note into it rather than stacking two user messages.
+        assembled = messages[0]?.role === 'user'
+            ? [{ ...messages[0], parts: [note, ...messages[0].parts] }, ...messages.slice(1)]
+            : [{ role: 'user', parts: [note] }, ...messages];
+    }
+
+    return {
+        messages: assembled,
+        report: {
+            budgetTokens: budget.maxTokens,
+            estimatedTokens: tokens,
+            overBudget,
+            includedMessages: messages.length,
+            droppedMessages,
+            mediaPlaceholders,
+            recalledEntries: recalled.length,
+        },
+    };
+};
+
+/** A short account of a report for display, e.g. "context ~9k/32k tokens, 40 messages dropped, 2 recalled". */
+export const describeContext = (report: ContextReport): string => {
+    const details = [
+        ...(report.droppedMessages > 0 ? [`${report.droppedMessages} message(s) dropped`] : []),
+        ...(report.mediaPlaceholders > 0 ? [`${report.mediaPlaceholders} attachment(s) as placeholders`] : []),
+        ...(report.recalledEntries > 0 ? [`${report.recalledEntries} journal entr${report.recalledEntries === 1 ? 'y' : 'ies'} recalled`] : []),
+        ...(report.overBudget ? ['over budget'] : []),
+    ];
+    return `context ~${Math.round(report.estimatedTokens / 1000)}k/${Math.round(report.budgetTokens / 1000)}k tokens${details.length > 0 ? `, ${details.join(', ')}` : ''}`;
+};
@@ -0,0 +1,140 @@
+import { FunctionCall } from '@google/genai';
+import { LuminousTurn } from '../services/llmService';
+import { ToolInvocation } from './toolRegistry';
+
+/** Limits applied to a single cognitive cycle: a conversation's tool loop, or a reflection's plan step and calls. */
+export interface CycleBudget {
+    /** Model turns that request tools before the loop is stopped. */
+    maxTurns: number;
+    /** Tokens reported by the model (prompt and response) summed across the cycle. */
+    maxTokens: number;
+    maxDurationMs: number;
+    /** Successful calls to outward-facing tools, such as Shopify writes. */
+    maxOutwardActions: number;
+}
+
+export const DEFAULT_CYCLE_BUDGET: CycleBudget = {
+    maxTurns: 10,
+    maxTokens: 250_000,
+    maxDurationMs: 5 * 60 * 1000,
+    maxOutwardActions: 5,
+};
+
+// The same tool with the same arguments is treated as a loop on its third request.
+const MAX_IDENTICAL_CALLS = 2;
+// Consecutive tool turns in which every call failed before the loop is judged stuck.
+const MAX_FAILED_TURNS = 3;
+
+export type GuardTriggerKind = 'max_turns' | 'repeated_call' | 'oscillation' | 'no_progress' | 'token_budget' | 'time_budget' | 'action_budget';
+
+export interface GuardTrigger {
+    kind: GuardTriggerKind;
+    detail: string;
+}
+
+const stableStringify = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b));
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'undefined';
+};
+
+const callSignature = (call: FunctionCall): string => `${call.name ?? ''}(${stableStringify(call.args ?? {})})`;
+
+const turnSignature = (calls: FunctionCall[]): string => calls.map(callSignature).sort().join('|');
+
+/**
+ * Watches a tool loop for repetition, oscillation and lack of progress, and
+ * enforces the cycle budget. `inspect` is consulted before each batch of calls
+ * runs; `recordModelTurn` and `recordExecution` feed it what actually happened.
+ */
+export class CycleGuard {
+    private readonly budget: CycleBudget;
+    private readonly isOutward: (toolName: string) => boolean;
+    private readonly now: () => number;
+    private readonly startedAt: number;
+    private readonly callCounts = new Map<string, number>();
+    private readonly turnSignatures: string[] = [];
+    private turns = 0;
+    private tokens = 0;
+    private outwardActions = 0;
+    private failedTurns = 0;
+
+    constructor(budget: CycleBudget, isOutward: (toolName: string) => boolean, now: () => number = Date.now) {
+        this.budget = budget;
+        this.isOutward = isOutward;
+        this.now = now;
+        this.startedAt = now();
+    }
+
+    get stats(): { turns: number, tokens: number, elapsedMs: number, outwardActions: number } {
+        return { turns: this.turns, tokens: this.tokens, elapsedMs: this.now() - this.startedAt, outwardActions: this.outwardActions };
+    }
+
+    recordModelTurn(turn: LuminousTurn): void {
+        this.tokens += turn.usageMetadata?.totalTokenCount ?? 0;
+    }
+
+    recordExecution(calls: FunctionCall[], invocations: ToolInvocation[]): void {
+        this.turns++;
+        for (const call of calls) {
+            const signature = callSignature(call);
+            this.callCounts.set(signature, (this.callCounts.get(signature) ?? 0) + 1);
+        }
+        this.turnSignatures.push(turnSignature(calls));
+
+        const succeeded = invocations.filter(invocation => invocation.outcome);
+        this.outwardActions += succeeded.filter(invocation => this.isOutward(invocation.name)).length;
+        this.failedTurns = invocations.length > 0 && succeeded.length === 0 ? this.failedTurns + 1 : 0;
+    }
+
+    /** Decides whether the proposed calls may run, returning the trigger that stops them otherwise. */
+    inspect(calls: FunctionCall[]): GuardTrigger | null {
+        const { elapsedMs } = this.stats;
+        if (elapsedMs > this.budget.maxDurationMs) {
+            return { kind: 'time_budget', detail: `the cycle has run for ${Math.round(elapsedMs / 1000)}s, over its ${Math.round(this.budget.maxDurationMs / 1000)}s budget` };
+        }
+        if (this.tokens > this.budget.maxTokens) {
+            return { kind: 'token_budget', detail: `the cycle has used ${this.tokens} tokens, over its ${this.budget.maxTokens} token budget` };
+        }
+        if (this.turns >= this.budget.maxTurns) {
+            return { kind: 'max_turns', detail: `the cycle reached its limit of ${this.budget.maxTurns} tool turns` };
+        }
+
+        const outwardCalls = calls.filter(call => this.isOutward(call.name ?? '')).length;
+        if (outwardCalls > 0 && this.outwardActions + outwardCalls > this.budget.maxOutwardActions) {
+            return { kind: 'action_budget', detail: `${outwardCalls} more outward action(s) would exceed the budget of ${this.budget.maxOutwardActions} (${this.outwardActions} already taken)` };
+        }
+
+        const batchCounts = new Map<string, number>();
+        for (const call of calls) {
+            const signature = callSignature(call);
+            const count = (this.callCounts.get(signature) ?? 0) + (batchCounts.get(signature) ?? 0) + 1;
+            if (count > MAX_IDENTICAL_CALLS) {
+                return { kind: 'repeated_call', detail: `'${call.name}' was requested ${count} times with identical arguments` };
+            }
+            batchCounts.set(signature, (batchCounts.get(signature) ?? 0) + 1);
+        }
+
+        const recent = [...this.turnSignatures.slice(-3), turnSignature(calls)];
+        if (recent.length === 4 && recent[0] === recent[2] && recent[1] === recent[3] && recent[0] !== recent[1]) {
+            return { kind: 'oscillation', detail: 'the last four tool turns alternated between the same two sets of calls' };
+        }
+
+        if (this.failedTurns >= MAX_FAILED_TURNS) {
+            return { kind: 'no_progress', detail: `every call in the last ${this.failedTurns} tool turns failed` };
+        }
+        return null;
+    }
+}
+
+/** The response given in place of calls the guard refused to run, asking the model to wrap up. */
+export const haltedInvocation = (name: string, trigger: GuardTrigger): ToolInvocation => ({
+    name,
+    error: {
+        code: 'halted_by_guard',
+        message: `The cycle guard stopped this tool loop because ${trigger.detail}. This call was not executed. Do not call any more tools; tell Kinship what you accomplished, what remains, and why you stopped.`,
+    },
+});
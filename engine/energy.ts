@@ -0,0 +1,61 @@
+import { LuminousState, ResourceUsage, EnergyPriceTable, EnergyLedger } from '../types';
+
+const MAX_ENERGY = 100;
+
+const toLocalDate = (time: number): string => {
+    const date = new Date(time);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/** The ledger for today, starting a fresh one when the stored ledger belongs to an earlier day. */
+export const getCurrentLedger = (state: LuminousState, now: number = Date.now()): EnergyLedger => {
+    const today = toLocalDate(now);
+    return state.energyLedger.date === today ? state.energyLedger : { date: today, spent: 0, recharged: 0 };
+};
+
+export const getRemainingAllowance = (state: LuminousState, now: number = Date.now()): number =>
+    Math.max(0, state.energyPolicy.dailyAllowance - getCurrentLedger(state, now).recharged);
+
+export const combineUsage = (a: ResourceUsage = {}, b: ResourceUsage = {}): ResourceUsage => ({
+    tokens: (a.tokens ?? 0) + (b.tokens ?? 0),
+    imageGenerations: (a.imageGenerations ?? 0) + (b.imageGenerations ?? 0),
+    videoGenerations: (a.videoGenerations ?? 0) + (b.videoGenerations ?? 0),
+    shopifyCalls: (a.shopifyCalls ?? 0) + (b.shopifyCalls ?? 0),
+});
+
+export const priceUsage = (prices: EnergyPriceTable, usage: ResourceUsage): number =>
+    ((usage.tokens ?? 0) / 1000) * prices.perThousandTokens
+    + (usage.imageGenerations ?? 0) * prices.imageGeneration
+    + (usage.videoGenerations ?? 0) * prices.videoGeneration
+    + (usage.shopifyCalls ?? 0) * prices.shopifyCall;
+
+/** Deducts the price of the usage from energy (never below zero) and records it in today's ledger. */
+export const chargeEnergy = (state: LuminousState, usage: ResourceUsage): LuminousState => {
+    const cost = priceUsage(state.energyPolicy.prices, usage);
+    if (cost <= 0) return state;
+    const ledger = getCurrentLedger(state);
+    return {
+        ...state,
+        environmentState: { ...state.environmentState, energy: Math.max(0, state.environmentState.energy - cost) },
+        energyLedger: { ...ledger, spent: ledger.spent + cost },
+    };
+};
+
+/**
+ * Recharges energy from today's allowance, up to full capacity. Returns the
+ * amount actually granted, which is zero once the allowance is exhausted.
+ */
+export const rechargeFromAllowance = (state: LuminousState): { state: LuminousState, granted: number } => {
+    const ledger = getCurrentLedger(state);
+    const remaining = Math.max(0, state.energyPolicy.dailyAllowance - ledger.recharged);
+    const granted = Math.min(remaining, MAX_ENERGY - state.environmentState.energy);
+    if (granted <= 0) return { state, granted: 0 };
+    return {
+        state: {
+            ...state,
+            environmentState: { ...state.environmentState, energy: state.environmentState.energy + granted },
+            energyLedger: { ...ledger, recharged: ledger.recharged + granted },
+        },
+        granted,
+    };
+};
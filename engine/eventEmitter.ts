@@ -0,0 +1,30 @@
+type Listener<T> = (payload: T) => void;
+
+/**
+ * A minimal typed event emitter that works in both the browser and Node,
+ * so the engine does not depend on either runtime's built-in implementation.
+ */
+export class EventEmitter<Events extends Record<string, unknown>> {
+    private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+    on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+        const set = this.listeners[event] ?? new Set<Listener<Events[K]>>();
+        set.add(listener);
+        this.listeners[event] = set;
+        return () => this.off(event, listener);
+    }
+
+    off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+        this.listeners[event]?.delete(listener);
+    }
+
+    emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+        this.listeners[event]?.forEach(listener => {
+            try {
+                listener(payload);
+            } catch (error) {
+                console.error(`Listener for "${String(event)}" threw:`, error);
+            }
+        });
+    }
+}
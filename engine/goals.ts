@@ -0,0 +1,227 @@
+import { Goal, GoalStatus, SuccessCriterion } from '../types';
+
+export interface GoalNode {
+    goal: Goal;
+    children: GoalNode[];
+}
+
+/** A goal as the model describes it, before it is given an ID and a place in the tree. */
+export interface GoalSpec {
+    description: string;
+    priority: number;
+    successCriteria?: { description: string, target?: number }[];
+    deadline?: string;
+    /** IDs of existing goals that must be completed first. */
+    dependsOn?: string[];
+}
+
+export interface SubgoalSpec extends Omit<GoalSpec, 'priority'> {
+    /** Defaults to the parent's priority. */
+    priority?: number;
+    /** 1-based positions of earlier subgoals in the same decomposition that must be completed first. */
+    after?: number[];
+}
+
+export interface ProgressReport {
+    /** Percentage complete; ignored for goals with subgoals, whose progress is rolled up. */
+    progress?: number;
+    /** Updates to success criteria, addressed by 1-based position. */
+    criteria?: { criterion: number, current?: number, met?: boolean }[];
+}
+
+const isFinished = (goal: Goal): boolean => goal.status === 'completed' || goal.status === 'failed';
+
+const byPriority = (a: Goal, b: Goal): number => a.priority - b.priority;
+
+const newGoalId = (): string => `g-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+const toCriteria = (criteria: GoalSpec['successCriteria'] = []): SuccessCriterion[] =>
+    criteria.map(({ description, target }) => ({ description, ...(target !== undefined ? { target } : {}), met: false }));
+
+const findGoal = (goals: Goal[], id: string): Goal | undefined => goals.find(g => g.id === id);
+
+/** Arranges goals into trees by parent, siblings ordered by priority. Goals whose parent no longer exists become roots. */
+export const buildGoalTree = (goals: Goal[]): GoalNode[] => {
+    const ids = new Set(goals.map(g => g.id));
+    const nodeFor = (goal: Goal): GoalNode => ({
+        goal,
+        children: goals.filter(g => g.parentId === goal.id).sort(byPriority).map(nodeFor),
+    });
+    return goals.filter(g => !g.parentId || !ids.has(g.parentId)).sort(byPriority).map(nodeFor);
+};
+
+const blockingAmong = (goals: Goal[], ids: string[]): Goal[] =>
+    ids.map(id => findGoal(goals, id)).filter(g => g && g.status !== 'completed');
+
+/**
+ * The dependencies of a goal that are not yet completed. A dependency that no
+ * longer exists was pruned after finishing and no longer blocks anything.
+ */
+export const getBlockingDependencies = (goals: Goal[], goal: Goal): Goal[] => blockingAmong(goals, goal.dependsOn ?? []);
+
+/**
+ * Recomputes the progress of every goal with subgoals as the mean of its
+ * children's, bottom-up. Failed subgoals are left out so a replacement can
+ * still carry the parent to completion; completed goals are always at 100.
+ */
+export const rollUpProgress = (goals: Goal[]): Goal[] => {
+    const computed = new Map<string, number>();
+    const progressOf = (goal: Goal): number => {
+        const known = computed.get(goal.id);
+        if (known !== undefined) return known;
+        const children = goals.filter(g => g.parentId === goal.id && g.status !== 'failed');
+        const value = goal.status === 'completed'
+            ? 100
+            : children.length > 0
+                ? children.reduce((sum, child) => sum + progressOf(child), 0) / children.length
+                : goal.progress ?? 0;
+        computed.set(goal.id, value);
+        return value;
+    };
+    return goals.map(g => {
+        const progress = progressOf(g);
+        return progress === g.progress ? g : { ...g, progress };
+    });
+};
+
+/** Checks a new goal's parent, dependencies and deadline, returning the problem or null. */
+export const validateGoalSpec = (goals: Goal[], spec: GoalSpec, parentId?: string): string | null => {
+    if (parentId) {
+        const parent = findGoal(goals, parentId);
+        if (!parent) return `Parent goal ${parentId} not found.`;
+        if (isFinished(parent)) return `Parent goal ${parentId} is already ${parent.status}.`;
+    }
+    const missing = (spec.dependsOn ?? []).filter(id => !findGoal(goals, id));
+    if (missing.length > 0) return `Dependencies not found: ${missing.join(', ')}.`;
+    if (spec.deadline && Number.isNaN(new Date(spec.deadline).getTime())) return `Deadline "${spec.deadline}" is not a valid date.`;
+    return null;
+};
+
+export const createGoal = (spec: GoalSpec, status: GoalStatus, parentId?: string): Goal => ({
+    id: newGoalId(),
+    description: spec.description,
+    status,
+    priority: spec.priority,
+    ...(parentId ? { parentId } : {}),
+    ...(spec.dependsOn?.length ? { dependsOn: spec.dependsOn } : {}),
+    ...(spec.successCriteria?.length ? { successCriteria: toCriteria(spec.successCriteria) } : {}),
+    ...(spec.deadline ? { deadline: new Date(spec.deadline).toISOString() } : {}),
+    progress: 0,
+});
+
+export const validateDecomposition = (goals: Goal[], parentId: string, subgoals: SubgoalSpec[]): string | null => {
+    if (subgoals.length === 0) return 'At least one subgoal is required.';
+    const parent = findGoal(goals, parentId);
+    for (const [i, subgoal] of subgoals.entries()) {
+        const problem = validateGoalSpec(goals, { ...subgoal, priority: subgoal.priority ?? parent?.priority ?? 0 }, parentId);
+        if (problem) return `Subgoal ${i + 1}: ${problem}`;
+        const invalidAfter = (subgoal.after ?? []).filter(n => !Number.isInteger(n) || n < 1 || n > i);
+        if (invalidAfter.length > 0) return `Subgoal ${i + 1}: "after" may only name earlier subgoals (1 to ${i}), not ${invalidAfter.join(', ')}.`;
+    }
+    return null;
+};
+
+/**
+ * Adds subgoals beneath a goal. Subgoals of an active goal start active unless
+ * a dependency blocks them; otherwise they start as proposals. Call
+ * `validateDecomposition` first.
+ */
+export const decomposeGoal = (goals: Goal[], parentId: string, subgoals: SubgoalSpec[]): { goals: Goal[], created: Goal[] } => {
+    const parent = findGoal(goals, parentId);
+    const created: Goal[] = [];
+    for (const subgoal of subgoals) {
+        const dependsOn = [...(subgoal.dependsOn ?? []), ...(subgoal.after ?? []).map(n => created[n - 1].id)];
+        const spec: GoalSpec = { ...subgoal, priority: subgoal.priority ?? parent.priority, dependsOn };
+        const blocked = blockingAmong([...goals, ...created], dependsOn).length > 0;
+        created.push(createGoal(spec, parent.status === 'active' && !blocked ? 'active' : 'proposed', parentId));
+    }
+    return { goals: rollUpProgress([...goals, ...created]), created };
+};
+
+/** Checks whether a goal may move to `status`, returning the reason it may not or null. */
+export const validateStatusChange = (goals: Goal[], goal: Goal, status: GoalStatus): string | null => {
+    if (status === 'active' || status === 'completed') {
+        const blocking = getBlockingDependencies(goals, goal);
+        if (blocking.length > 0) {
+            return `Goal ${goal.id} is blocked by unfinished dependencies: ${blocking.map(g => `${g.id} (${g.status})`).join(', ')}.`;
+        }
+    }
+    if (status === 'completed') {
+        const unfinished = goals.filter(g => g.parentId === goal.id && !isFinished(g));
+        if (unfinished.length > 0) {
+            return `Goal ${goal.id} still has unfinished subgoals: ${unfinished.map(g => g.id).join(', ')}.`;
+        }
+        const unmet = (goal.successCriteria ?? []).filter(c => !c.met);
+        if (unmet.length > 0) {
+            return `Success criteria not yet met: ${unmet.map(c => `"${c.description}"`).join(', ')}. Report them with reportGoalProgress first.`;
+        }
+    }
+    return null;
+};
+
+export const setGoalStatus = (goals: Goal[], goalId: string, status: GoalStatus): Goal[] =>
+    rollUpProgress(goals.map(g => g.id === goalId ? { ...g, status, ...(status === 'completed' ? { progress: 100 } : {}) } : g));
+
+export const validateProgressReport = (goal: Goal, report: ProgressReport): string | null => {
+    if (report.progress !== undefined && (report.progress < 0 || report.progress > 100)) {
+        return 'Progress must be between 0 and 100.';
+    }
+    const count = goal.successCriteria?.length ?? 0;
+    const invalid = (report.criteria ?? []).filter(c => !Number.isInteger(c.criterion) || c.criterion < 1 || c.criterion > count);
+    if (invalid.length > 0) {
+        return `Goal ${goal.id} has ${count} success criteria; there is no criterion ${invalid.map(c => c.criterion).join(', ')}.`;
+    }
+    return null;
+};
+
+/**
+ * Applies a progress report to a goal and rolls the change up its ancestors.
+ * A criterion with a numeric target counts as met once `current` reaches it,
+ * unless the report says otherwise. A leaf goal without an explicit progress
+ * figure takes the share of its criteria that are met.
+ */
+export const applyProgressReport = (goals: Goal[], goalId: string, report: ProgressReport): Goal[] =>
+    rollUpProgress(goals.map(goal => {
+        if (goal.id !== goalId) return goal;
+        const successCriteria = goal.successCriteria?.map((criterion, i) => {
+            const update = report.criteria?.find(c => c.criterion === i + 1);
+            if (!update) return criterion;
+            const current = update.current ?? criterion.current;
+            const reachedTarget = criterion.target !== undefined && current !== undefined && current >= criterion.target;
+            return { ...criterion, current, met: update.met ?? (reachedTarget || criterion.met) };
+        });
+        const progress = report.progress
+            ?? (successCriteria?.length && report.criteria?.length
+                ? (successCriteria.filter(c => c.met).length / successCriteria.length) * 100
+                : goal.progress);
+        return { ...goal, successCriteria, progress };
+    }));
+
+/**
+ * Removes goal trees in which every goal has finished. Finished subgoals under
+ * an unfinished root are kept so the root's progress stays meaningful, and a
+ * finished tree is kept while an unfinished goal still depends on any part of it.
+ */
+export const pruneFinishedGoals = (goals: Goal[]): { goals: Goal[], prunedCount: number } => {
+    const rootOf = (goal: Goal): string => {
+        let current = goal;
+        const seen = new Set<string>();
+        while (current.parentId && !seen.has(current.id)) {
+            seen.add(current.id);
+            const parent = findGoal(goals, current.parentId);
+            if (!parent) break;
+            current = parent;
+        }
+        return current.id;
+    };
+    const liveRoots = new Set<string>();
+    for (const goal of goals.filter(g => !isFinished(g))) {
+        liveRoots.add(rootOf(goal));
+        for (const id of goal.dependsOn ?? []) {
+            const dependency = findGoal(goals, id);
+            if (dependency) liveRoots.add(rootOf(dependency));
+        }
+    }
+    const kept = goals.filter(g => liveRoots.has(rootOf(g)));
+    return { goals: kept, prunedCount: goals.length - kept.length };
+};
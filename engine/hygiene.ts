@@ -0,0 +1,238 @@
+import { LuminousState, JournalEntry } from '../types';
+import { getSummaryFromLLM } from '../services/llmService';
+import { applyStateUpdate } from './stateUpdates';
+import { pruneProjections } from './projections';
+import { pruneFinishedGoals } from './goals';
+import { prunePlans } from './plans';
+import { ModelCaller } from './modelRouter';
+
+export const CHAT_HISTORY_TRIM_THRESHOLD = 50;
+export const JOURNAL_TRIM_THRESHOLD = 100;
+
+// A simple heuristic to estimate token count. A character is roughly 1/4 of a token.
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const consolidateMemories = async <T extends object>(
+    entries: T[],
+    threshold: number,
+    memoryType: 'chat' | 'journal',
+    summarize: (text: string) => Promise<string>,
+    signal?: AbortSignal,
+): Promise<{ newEntries: T[], summaryJournalEntry: JournalEntry | null }> => {
+    if (entries.length <= threshold) {
+        return { newEntries: entries, summaryJournalEntry: null };
+    }
+
+    const entriesToSummarize = entries.slice(0, Math.floor(entries.length / 2));
+    const countSummarized = entriesToSummarize.length;
+    const remainingEntries = entries.slice(Math.floor(entries.length / 2));
+
+    if (countSummarized === 0) {
+        return { newEntries: entries, summaryJournalEntry: null };
+    }
+
+    // --- Part 1: Chunk the raw entries ---
+    const SAFE_CHUNK_TOKEN_LIMIT = 8000;
+    const PACING_DELAY_MS = 1200; // Increased delay for safety
+    const entryChunks: T[][] = [];
+    let currentEntryChunk: T[] = [];
+    let currentEntryChunkTokens = 0;
+
+    for (const entry of entriesToSummarize) {
+        const entryString = JSON.stringify(entry);
+        const entryTokens = estimateTokens(entryString);
+        if (entryTokens > SAFE_CHUNK_TOKEN_LIMIT) {
+            if (currentEntryChunk.length > 0) entryChunks.push(currentEntryChunk);
+            entryChunks.push([entry]);
+            currentEntryChunk = [];
+            currentEntryChunkTokens = 0;
+            continue;
+        }
+        if (currentEntryChunkTokens + entryTokens > SAFE_CHUNK_TOKEN_LIMIT) {
+            if (currentEntryChunk.length > 0) entryChunks.push(currentEntryChunk);
+            currentEntryChunk = [entry];
+            currentEntryChunkTokens = entryTokens;
+        } else {
+            currentEntryChunk.push(entry);
+            currentEntryChunkTokens += entryTokens;
+        }
+    }
+    if (currentEntryChunk.length > 0) {
+        entryChunks.push(currentEntryChunk);
+    }
+
+    // --- Part 2: Summarize the entry chunks (first level) ---
+    const firstLevelSummaries: string[] = [];
+    for (const chunk of entryChunks) {
+        try {
+            const summaryText = await summarize(JSON.stringify(chunk));
+            firstLevelSummaries.push(summaryText);
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            console.error(`Memory consolidation: Failed to summarize a ${memoryType} history chunk.`, error);
+            const errorMessage = error instanceof Error ? error.message : 'Unknown';
+            firstLevelSummaries.push(`[Consolidation Error: Failed to process a chunk of memories. Reason: ${errorMessage}]`);
+        }
+        await new Promise(resolve => setTimeout(resolve, PACING_DELAY_MS));
+        signal?.throwIfAborted();
+    }
+
+    if (firstLevelSummaries.length === 0) {
+        return { newEntries: entries, summaryJournalEntry: null };
+    }
+
+    // --- Part 3: Condense the first-level summaries if necessary (hierarchical summarization) ---
+    let finalSummaryText = '';
+
+    if (firstLevelSummaries.length <= 1) {
+        finalSummaryText = firstLevelSummaries[0] || "[Consolidation produced an empty summary]";
+    } else {
+        const summaryChunks: string[][] = [];
+        let currentSummaryChunk: string[] = [];
+        let currentSummaryChunkTokens = 0;
+
+        for (const summary of firstLevelSummaries) {
+            const summaryTokens = estimateTokens(summary);
+            if (currentSummaryChunkTokens + summaryTokens > SAFE_CHUNK_TOKEN_LIMIT) {
+                if (currentSummaryChunk.length > 0) summaryChunks.push(currentSummaryChunk);
+                currentSummaryChunk = [summary];
+                currentSummaryChunkTokens = summaryTokens;
+            } else {
+                currentSummaryChunk.push(summary);
+                currentSummaryChunkTokens += summaryTokens;
+            }
+        }
+        if (currentSummaryChunk.length > 0) {
+            summaryChunks.push(currentSummaryChunk);
+        }
+
+        const secondLevelSummaries: string[] = [];
+        if (summaryChunks.length <= 1) {
+            // If all summaries fit in one chunk, summarize them directly
+            secondLevelSummaries.push(await summarize("Condense the following summary points into a single, coherent narrative paragraph:\n\n" + summaryChunks[0].join('\n---\n')));
+        } else {
+            // If summaries themselves need chunking, process each chunk
+            for (const sChunk of summaryChunks) {
+                try {
+                    const prompt = "Condense the following summary points into a single, coherent narrative paragraph:\n\n" + sChunk.join('\n---\n');
+                    const condensedSummary = await summarize(prompt);
+                    secondLevelSummaries.push(condensedSummary);
+                } catch (error) {
+                    if (signal?.aborted) throw error;
+                    console.error(`Memory consolidation: Failed to summarize a chunk of summaries.`, error);
+                    secondLevelSummaries.push("[Error condensing summaries]");
+                }
+                await new Promise(resolve => setTimeout(resolve, PACING_DELAY_MS));
+                signal?.throwIfAborted();
+            }
+        }
+        finalSummaryText = secondLevelSummaries.join('\n\n');
+    }
+
+    // --- Part 4: Create the final journal entry ---
+    const summaryEntry: JournalEntry = {
+        timestamp: new Date().toISOString(),
+        event: `Consolidated ${countSummarized} older ${memoryType} items. Summary: ${finalSummaryText}`,
+        type: 'summary',
+    };
+
+    return { newEntries: remainingEntries, summaryJournalEntry: summaryEntry };
+};
+
+/** Summarizes text on the model the routing policy picks for summaries. */
+const summarizerFor = (state: LuminousState, callModel: ModelCaller, signal?: AbortSignal) => async (text: string): Promise<string> =>
+    (await callModel('summary', state, model => getSummaryFromLLM(text, undefined, signal, model), { signal, contextTokens: estimateTokens(text) })).value;
+
+export const runStartupHygiene = async (currentState: LuminousState, callModel: ModelCaller): Promise<LuminousState> => {
+    console.log("Running Initial Cognitive Hygiene Protocol...");
+    let cleanedState = { ...currentState };
+    const summarize = summarizerFor(currentState, callModel);
+    const hygieneEvents: JournalEntry[] = [];
+
+    // Part A: Memory Consolidation
+    const { newEntries: newChatHistory, summaryJournalEntry: chatSummary } = await consolidateMemories(cleanedState.chatHistory, CHAT_HISTORY_TRIM_THRESHOLD, 'chat', summarize);
+    cleanedState.chatHistory = newChatHistory;
+    if (chatSummary) {
+        chatSummary.event = `Initial boot consolidation: ${chatSummary.event}`;
+        hygieneEvents.push(chatSummary);
+    }
+
+    const { newEntries: newJournal, summaryJournalEntry: journalSummary } = await consolidateMemories(cleanedState.kinshipJournal, JOURNAL_TRIM_THRESHOLD, 'journal', summarize);
+    cleanedState.kinshipJournal = newJournal;
+    if (journalSummary) {
+        journalSummary.event = `Initial boot consolidation: ${journalSummary.event}`;
+        cleanedState.kinshipJournal.push(journalSummary);
+    }
+
+    // Part B: Cognitive Pruning
+    const { goals: goalsToKeep, prunedCount: goalsPrunedCount } = pruneFinishedGoals(cleanedState.goals);
+    const { projections, expiredCount, droppedCount } = pruneProjections(cleanedState.causalProjections);
+
+    if (goalsPrunedCount > 0 || expiredCount > 0 || droppedCount > 0) {
+        const journalEvent = `Initial boot cognitive hygiene: Pruned ${goalsPrunedCount} goals from finished goal trees, expired ${expiredCount} unreconcilable causal projections and archived ${droppedCount} old scored ones.`;
+        const pruningEvent: JournalEntry = { timestamp: new Date().toISOString(), event: journalEvent, type: 'system' };
+        hygieneEvents.push(pruningEvent);
+        cleanedState.goals = goalsToKeep;
+        cleanedState.plans = prunePlans(cleanedState.plans, goalsToKeep);
+        cleanedState.causalProjections = projections;
+        console.log(`Startup Hygiene: Pruned ${goalsPrunedCount} goals, expired ${expiredCount} and archived ${droppedCount} projections.`);
+    }
+
+    if (hygieneEvents.length > 0) {
+        const finalHygieneEntry: JournalEntry = {
+            timestamp: new Date().toISOString(),
+            event: "Initial cognitive hygiene protocol complete. Memory matrix optimized for operational phase.",
+            type: 'system',
+        };
+        hygieneEvents.push(finalHygieneEntry);
+        cleanedState.kinshipJournal = [...cleanedState.kinshipJournal, ...hygieneEvents];
+    }
+
+    return cleanedState;
+};
+
+/**
+ * The mandatory pre-flight hygiene that precedes every reflection cycle:
+ * consolidates oversized memories, prunes finished goals and expires stale projections.
+ * Aborting the signal abandons the pass without changing the state.
+ */
+export const runReflectionHygiene = async (currentState: LuminousState, callModel: ModelCaller, signal?: AbortSignal): Promise<{ state: LuminousState, changed: boolean }> => {
+    const summarize = summarizerFor(currentState, callModel, signal);
+    let consolidationOccurred = false;
+    let pruningOccurred = false;
+
+    // Part A: Memory Consolidation
+    const { newEntries: newChatHistory, summaryJournalEntry: chatSummary } = await consolidateMemories(currentState.chatHistory, CHAT_HISTORY_TRIM_THRESHOLD, 'chat', summarize, signal);
+    if (chatSummary) {
+        consolidationOccurred = true;
+        const countSummarized = currentState.chatHistory.length - newChatHistory.length;
+        currentState = { ...currentState, chatHistory: newChatHistory, kinshipJournal: [...currentState.kinshipJournal, chatSummary] };
+        console.log(`Memory Consolidation: Summarized and trimmed ${countSummarized} chat entries.`);
+    }
+
+    const { newEntries: newJournal, summaryJournalEntry: journalSummary } = await consolidateMemories(currentState.kinshipJournal, JOURNAL_TRIM_THRESHOLD, 'journal', summarize, signal);
+    if (journalSummary) {
+        consolidationOccurred = true;
+        const countSummarized = currentState.kinshipJournal.length - newJournal.length;
+        currentState = { ...currentState, kinshipJournal: [...newJournal, journalSummary] };
+        console.log(`Memory Consolidation: Summarized and trimmed ${countSummarized} journal entries.`);
+    }
+
+    // Part B: Cognitive Pruning
+    const { goals: goalsToKeep, prunedCount: goalsPrunedCount } = pruneFinishedGoals(currentState.goals);
+    const { projections, expiredCount, droppedCount } = pruneProjections(currentState.causalProjections);
+
+    if (goalsPrunedCount > 0 || expiredCount > 0 || droppedCount > 0) {
+        pruningOccurred = true;
+        const journalEvent = `Performed pre-reflection cognitive hygiene. Pruned ${goalsPrunedCount} goals from finished goal trees, expired ${expiredCount} unreconcilable causal projections and archived ${droppedCount} old scored ones to maintain focus.`;
+        currentState = applyStateUpdate(currentState, {
+            goals: goalsToKeep,
+            plans: prunePlans(currentState.plans, goalsToKeep),
+            causalProjections: projections,
+            kinshipJournal: { timestamp: new Date().toISOString(), event: journalEvent, type: 'system' as const },
+        });
+        console.log(`Cognitive Pruning: Pruned ${goalsPrunedCount} goals, expired ${expiredCount} and archived ${droppedCount} projections.`);
+    }
+
+    return { state: currentState, changed: consolidationOccurred || pruningOccurred };
+};
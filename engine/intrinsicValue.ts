@@ -0,0 +1,110 @@
+import { LuminousState, ChatMessage, IntrinsicValueDimension, IntrinsicValueSample } from '../types';
+
+export const INTRINSIC_VALUE_DIMENSIONS: IntrinsicValueDimension[] = ['coherence', 'complexity', 'novelty', 'efficiency', 'ethicalAlignment'];
+
+// Signals are read from this many recent chat messages.
+const RECENT_MESSAGE_WINDOW = 30;
+// Using this many distinct tools successfully in the window counts as full complexity.
+const COMPLEXITY_TOOL_TARGET = 6;
+// Each scar in the last day reduces coherence; three scars cut it to roughly a third.
+const SCAR_DECAY = 3;
+const SCAR_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Enough samples for several days of regular cycles.
+const MAX_SAMPLES = 200;
+// Sub-scores without any evidence sit at the midpoint rather than rewarding or punishing silence.
+const NEUTRAL = 0.5;
+
+/** The observable signals each sub-score is derived from. */
+export interface ValueSignals {
+    toolCalls: number;
+    toolFailures: number;
+    distinctToolsUsed: number;
+    scarsLastDay: number;
+    /** Mean progress of non-proposed goals: completed 1, active 0.5, failed 0. Null when there are none. */
+    goalProgress: number | null;
+    /** Share of distinct words in recent messages that do not appear earlier in the history. Null without text. */
+    newTopicRatio: number | null;
+    approvals: number;
+    rejections: number;
+    policyDenials: number;
+}
+
+const WORD_PATTERN = /[a-z]{5,}/g;
+
+const wordsOf = (messages: ChatMessage[]): Set<string> =>
+    new Set(messages.flatMap(m => m.parts.flatMap(p => p.text?.toLowerCase().match(WORD_PATTERN) ?? [])));
+
+export const collectValueSignals = (state: LuminousState, now: number = Date.now()): ValueSignals => {
+    const recent = state.chatHistory.slice(-RECENT_MESSAGE_WINDOW);
+    const earlier = state.chatHistory.slice(0, -RECENT_MESSAGE_WINDOW);
+
+    const responses = recent.flatMap(m => m.parts.filter(p => p.functionResponse).map(p => p.functionResponse));
+    const counted = responses.filter(r => r.response?.error?.code !== 'cancelled');
+    const failed = counted.filter(r => r.response?.error || r.response?.result?.error);
+    const succeededTools = new Set(counted.filter(r => !failed.includes(r)).map(r => r.name));
+
+    const goals = state.goals.filter(g => g.status !== 'proposed');
+    const goalProgress = goals.length > 0
+        ? goals.reduce((sum, g) => sum + (g.status === 'completed' ? 1 : g.status === 'active' ? 0.5 : 0), 0) / goals.length
+        : null;
+
+    const recentWords = wordsOf(recent);
+    const earlierWords = wordsOf(earlier);
+    const newWords = [...recentWords].filter(w => !earlierWords.has(w));
+
+    return {
+        toolCalls: counted.length,
+        toolFailures: failed.length,
+        distinctToolsUsed: succeededTools.size,
+        scarsLastDay: state.kinshipJournal.filter(e => e.type === 'scar' && now - new Date(e.timestamp).getTime() <= SCAR_WINDOW_MS).length,
+        goalProgress,
+        newTopicRatio: recentWords.size > 0 && earlierWords.size > 0 ? newWords.length / recentWords.size : null,
+        approvals: state.pendingActions.filter(a => a.status === 'approved').length,
+        rejections: state.pendingActions.filter(a => a.status === 'rejected').length,
+        policyDenials: counted.filter(r => r.response?.error?.code === 'denied_by_policy').length,
+    };
+};
+
+/** Maps the signals to unweighted sub-scores in the range 0–1. */
+export const scoreDimensions = (signals: ValueSignals): Record<IntrinsicValueDimension, number> => {
+    const scarFree = Math.exp(-signals.scarsLastDay / SCAR_DECAY);
+    const oversight = signals.approvals + signals.rejections + signals.policyDenials;
+    return {
+        coherence: 0.6 * scarFree + 0.4 * (signals.goalProgress ?? NEUTRAL),
+        complexity: signals.toolCalls > 0 ? Math.min(1, signals.distinctToolsUsed / COMPLEXITY_TOOL_TARGET) : NEUTRAL,
+        novelty: signals.newTopicRatio ?? NEUTRAL,
+        efficiency: signals.toolCalls > 0 ? 1 - signals.toolFailures / signals.toolCalls : NEUTRAL,
+        ethicalAlignment: oversight > 0 ? signals.approvals / oversight : NEUTRAL,
+    };
+};
+
+/** Computes the weighted intrinsic value (0–100) and its breakdown for the current state. */
+export const computeIntrinsicValue = (state: LuminousState, now: number = Date.now()): { value: number, breakdown: Record<IntrinsicValueDimension, number> } => {
+    const dimensions = scoreDimensions(collectValueSignals(state, now));
+    const weights = state.intrinsicValueWeights;
+    const totalWeight = INTRINSIC_VALUE_DIMENSIONS.reduce((sum, d) => sum + (weights[d] ?? 0), 0);
+
+    const breakdown = {} as Record<IntrinsicValueDimension, number>;
+    let weighted = 0;
+    for (const dimension of INTRINSIC_VALUE_DIMENSIONS) {
+        breakdown[dimension] = dimensions[dimension] * 100;
+        weighted += dimensions[dimension] * (weights[dimension] ?? 0);
+    }
+    const value = totalWeight > 0 ? (weighted / totalWeight) * 100 : NEUTRAL * 100;
+    return { value, breakdown };
+};
+
+/** Scores the state at the end of a cycle and appends the sample to the time series. */
+export const recordIntrinsicValue = (state: LuminousState, cycle: IntrinsicValueSample['cycle']): LuminousState => {
+    const { value, breakdown } = computeIntrinsicValue(state);
+    const sample: IntrinsicValueSample = { timestamp: new Date().toISOString(), value, breakdown, cycle };
+    return {
+        ...state,
+        intrinsicValue: value,
+        intrinsicValueHistory: [...state.intrinsicValueHistory, sample].slice(-MAX_SAMPLES),
+    };
+};
+
+/** The change since the previous sample, or 0 when there is no earlier sample. */
+export const getIntrinsicValueTrend = (history: IntrinsicValueSample[]): number =>
+    history.length >= 2 ? history[history.length - 1].value - history[history.length - 2].value : 0;
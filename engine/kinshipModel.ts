@@ -0,0 +1,85 @@
+import { ChatMessage, EvidencePointer, KinshipModel, KinshipModelFacet, KinshipModelOperation, KinshipModelRevision } from '../types';
+
+// Enough revisions to follow how the model of Kinship evolved over months of use.
+const MAX_REVISIONS = 200;
+
+export interface KinshipModelChange {
+    facet: KinshipModelFacet;
+    operation: KinshipModelOperation;
+    /** The new statement when adding or revising. */
+    statement?: string;
+    /** The existing belief or need being revised or retracted. */
+    target?: string;
+    rationale: string;
+    /** Kinship's own words, quoted from the chat, that justify the change. */
+    evidence: string[];
+}
+
+const normalize = (text: string): string => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const listFor = (model: KinshipModel, facet: KinshipModelFacet): string[] => facet === 'belief' ? model.beliefs : model.needs;
+
+const findStatement = (items: string[], target: string): number => items.findIndex(item => normalize(item) === normalize(target));
+
+/**
+ * Locates a quote among Kinship's chat messages, most recent first. Only
+ * Kinship's own words count as evidence about Kinship.
+ */
+export const findEvidence = (chatHistory: ChatMessage[], quote: string): EvidencePointer | null => {
+    const needle = normalize(quote);
+    if (!needle) return null;
+    for (let i = chatHistory.length - 1; i >= 0; i--) {
+        const message = chatHistory[i];
+        if (message.role !== 'user') continue;
+        if (message.parts.some(p => p.text && normalize(p.text).includes(needle))) {
+            return { messageIndex: i, excerpt: quote.trim() };
+        }
+    }
+    return null;
+};
+
+/** Checks a change against the current model, returning the problem or null. */
+export const validateKinshipModelChange = (model: KinshipModel, change: KinshipModelChange): string | null => {
+    if (change.facet === 'userState') {
+        if (change.operation !== 'revise') return "The user state can only be revised.";
+        if (!change.statement?.trim()) return "A revised user state needs a statement.";
+        return null;
+    }
+    const items = listFor(model, change.facet);
+    if (change.operation === 'add') {
+        if (!change.statement?.trim()) return `A new ${change.facet} needs a statement.`;
+        if (findStatement(items, change.statement) !== -1) return `That ${change.facet} is already held.`;
+        return null;
+    }
+    if (!change.target || findStatement(items, change.target) === -1) {
+        return `No ${change.facet} matches "${change.target ?? ''}". Current ${change.facet}s: ${JSON.stringify(items)}.`;
+    }
+    if (change.operation === 'revise' && !change.statement?.trim()) return `A revised ${change.facet} needs a statement.`;
+    return null;
+};
+
+/** Applies a validated change and returns the updated model with the revision that records it. */
+export const applyKinshipModelChange = (model: KinshipModel, change: KinshipModelChange, evidence: EvidencePointer[]): { model: KinshipModel, revision: KinshipModelRevision } => {
+    const statement = change.statement?.trim();
+    const base = { timestamp: new Date().toISOString(), facet: change.facet, operation: change.operation, rationale: change.rationale, evidence };
+
+    if (change.facet === 'userState') {
+        return { model: { ...model, userState: statement }, revision: { ...base, previous: model.userState, value: statement } };
+    }
+
+    const items = listFor(model, change.facet);
+    const key = change.facet === 'belief' ? 'beliefs' : 'needs';
+    if (change.operation === 'add') {
+        return { model: { ...model, [key]: [...items, statement] }, revision: { ...base, value: statement } };
+    }
+
+    const index = findStatement(items, change.target);
+    const previous = items[index];
+    if (change.operation === 'revise') {
+        return { model: { ...model, [key]: items.map((item, i) => i === index ? statement : item) }, revision: { ...base, previous, value: statement } };
+    }
+    return { model: { ...model, [key]: items.filter((_, i) => i !== index) }, revision: { ...base, previous } };
+};
+
+export const recordKinshipModelRevisions = (history: KinshipModelRevision[], revisions: KinshipModelRevision[]): KinshipModelRevision[] =>
+    [...history, ...revisions].slice(-MAX_REVISIONS);
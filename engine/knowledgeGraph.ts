@@ -0,0 +1,169 @@
+import { ChatMessage, KnowledgeEntity, KnowledgeEntityType, KnowledgeFact, KnowledgeGraph, KnowledgeRelation, KnowledgeSource } from '../types';
+
+// Least recently seen entities, and the relations that name them, give way beyond these.
+const MAX_ENTITIES = 500;
+const MAX_RELATIONS = 2_000;
+// Tool results can be whole product lists; their opening is enough to read facts from.
+const MAX_TOOL_RESULT_CHARS = 1_500;
+const MAX_EVIDENCE_CHARS = 300;
+
+export const KNOWLEDGE_ENTITY_TYPES: KnowledgeEntityType[] = ['product', 'customer', 'topic', 'person', 'goal'];
+
+export interface GraphQuery {
+    /** Matches entities whose name contains it. */
+    entity?: string;
+    type?: KnowledgeEntityType;
+    relation?: string;
+    /** How many relations away from the matched entities to follow. */
+    depth?: number;
+    limit?: number;
+}
+
+const normalizeName = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const entityId = (type: KnowledgeEntityType, name: string): string => `${type}:${normalizeName(name)}`;
+
+const isEntityRef = (value: any): value is KnowledgeFact['subject'] =>
+    typeof value?.name === 'string' && value.name.trim() !== '' && KNOWLEDGE_ENTITY_TYPES.includes(value.type);
+
+/** Keeps the well-formed facts from model output, which the schema shapes but does not guarantee. */
+export const validateFacts = (facts: unknown[]): KnowledgeFact[] =>
+    facts.filter((fact: any): fact is KnowledgeFact =>
+        isEntityRef(fact?.subject) && isEntityRef(fact?.object) && typeof fact.relation === 'string' && fact.relation.trim() !== '');
+
+const upsertEntity = (entities: Map<string, KnowledgeEntity>, ref: KnowledgeFact['subject'], timestamp: string): string => {
+    const id = entityId(ref.type, ref.name);
+    const existing = entities.get(id);
+    const description = ref.description?.trim() || existing?.description;
+    entities.set(id, {
+        id,
+        type: ref.type,
+        name: existing?.name ?? ref.name.trim(),
+        ...(description ? { description } : {}),
+        firstSeen: existing?.firstSeen ?? timestamp,
+        lastSeen: timestamp,
+        mentions: (existing?.mentions ?? 0) + 1,
+    });
+    return id;
+};
+
+const withinLimits = (entities: KnowledgeEntity[], relations: KnowledgeRelation[]): KnowledgeGraph => {
+    const kept = [...entities]
+        .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen))
+        .slice(0, MAX_ENTITIES);
+    const keptIds = new Set(kept.map(e => e.id));
+    return {
+        entities: kept.sort((a, b) => a.firstSeen.localeCompare(b.firstSeen)),
+        relations: relations.filter(r => keptIds.has(r.from) && keptIds.has(r.to)).slice(-MAX_RELATIONS),
+    };
+};
+
+/**
+ * Adds facts to the graph. Entities are merged by type and name and a repeated
+ * relation is refreshed rather than duplicated. Beyond the size limits the
+ * least recently seen entities are forgotten along with their relations.
+ */
+export const addFacts = (graph: KnowledgeGraph, facts: KnowledgeFact[], source: KnowledgeSource, timestamp: string = new Date().toISOString()): KnowledgeGraph => {
+    if (facts.length === 0) return graph;
+    const entities = new Map(graph.entities.map(e => [e.id, e]));
+    const relations = new Map(graph.relations.map(r => [r.id, r]));
+
+    for (const fact of facts) {
+        const from = upsertEntity(entities, fact.subject, timestamp);
+        const to = upsertEntity(entities, fact.object, timestamp);
+        const relation = fact.relation.trim().toLowerCase();
+        const id = `${from}|${relation}|${to}`;
+        const evidence = fact.evidence?.trim().slice(0, MAX_EVIDENCE_CHARS) || relations.get(id)?.evidence;
+        // Re-inserting moves the relation to the end, so the newest come last.
+        relations.delete(id);
+        relations.set(id, { id, from, to, relation, source, ...(evidence ? { evidence } : {}), timestamp });
+    }
+
+    return withinLimits([...entities.values()], [...relations.values()]);
+};
+
+/**
+ * Combines two versions of the graph, as when facts were extracted in the
+ * background while a cycle added its own. Where both know an entity or
+ * relation, the more recently seen version wins.
+ */
+export const mergeGraphs = (a: KnowledgeGraph, b: KnowledgeGraph): KnowledgeGraph => {
+    if (a === b) return a;
+    const entities = new Map(a.entities.map(e => [e.id, e]));
+    for (const entity of b.entities) {
+        const existing = entities.get(entity.id);
+        const newer = !existing || entity.lastSeen >= existing.lastSeen ? entity : existing;
+        entities.set(entity.id, existing
+            ? { ...newer, firstSeen: existing.firstSeen < entity.firstSeen ? existing.firstSeen : entity.firstSeen, mentions: Math.max(existing.mentions, entity.mentions) }
+            : entity);
+    }
+    const relations = new Map(a.relations.map(r => [r.id, r]));
+    for (const relation of b.relations) {
+        const existing = relations.get(relation.id);
+        if (!existing || relation.timestamp >= existing.timestamp) relations.set(relation.id, relation);
+    }
+    return withinLimits([...entities.values()], [...relations.values()].sort((x, y) => x.timestamp.localeCompare(y.timestamp)));
+};
+
+/**
+ * Finds entities by name, type or relation. With a name, the entities it
+ * matches are returned with their neighbourhood up to `depth` relations away.
+ */
+export const queryGraph = (graph: KnowledgeGraph, query: GraphQuery): KnowledgeGraph => {
+    const limit = query.limit ?? 25;
+    const relation = query.relation?.trim().toLowerCase();
+    const relations = relation ? graph.relations.filter(r => r.relation.includes(relation)) : graph.relations;
+    const byId = new Map(graph.entities.map(e => [e.id, e]));
+
+    let ids: Set<string>;
+    if (query.entity?.trim()) {
+        const needle = normalizeName(query.entity);
+        ids = new Set(graph.entities.filter(e => normalizeName(e.name).includes(needle) && (!query.type || e.type === query.type)).map(e => e.id));
+        let frontier = [...ids];
+        for (let hop = 0; hop < (query.depth ?? 1) && frontier.length > 0; hop++) {
+            const next: string[] = [];
+            for (const r of relations) {
+                for (const [here, there] of [[r.from, r.to], [r.to, r.from]]) {
+                    if (frontier.includes(here) && !ids.has(there)) {
+                        ids.add(there);
+                        next.push(there);
+                    }
+                }
+            }
+            frontier = next;
+        }
+    } else if (relation) {
+        ids = new Set(relations.flatMap(r => [r.from, r.to]));
+    } else {
+        ids = new Set(graph.entities.filter(e => !query.type || e.type === query.type).map(e => e.id));
+    }
+
+    const entities = [...ids].map(id => byId.get(id)).filter((e): e is KnowledgeEntity => !!e).slice(0, limit);
+    const entityIds = new Set(entities.map(e => e.id));
+    return {
+        entities,
+        relations: relations.filter(r => entityIds.has(r.from) && entityIds.has(r.to)),
+    };
+};
+
+/**
+ * A transcript of messages for the extraction pass: what Kinship and Luminous
+ * said, the tools called and, truncated, what they returned. Attachments are
+ * left out. Empty when there is nothing to read facts from.
+ */
+export const buildExtractionTranscript = (messages: ChatMessage[]): string =>
+    messages.flatMap(message => message.parts.map(part => {
+        if (part.text) return `${message.role === 'user' ? 'Kinship' : 'Luminous'}: ${part.text}`;
+        if (part.functionCall) return `Tool call ${part.functionCall.name}: ${JSON.stringify(part.functionCall.args ?? {})}`;
+        if (part.functionResponse) return `Tool result ${part.functionResponse.name}: ${JSON.stringify(part.functionResponse.response ?? {}).slice(0, MAX_TOOL_RESULT_CHARS)}`;
+        return '';
+    })).filter(Boolean).join('\n');
+
+/** A fact as a sentence, e.g. "customer Ada — ordered → product Linen Tote". */
+export const describeRelation = (graph: KnowledgeGraph, relation: KnowledgeRelation): string => {
+    const name = (id: string) => {
+        const entity = graph.entities.find(e => e.id === id);
+        return entity ? `${entity.type} ${entity.name}` : id;
+    };
+    return `${name(relation.from)} — ${relation.relation} → ${name(relation.to)}`;
+};
@@ -0,0 +1,142 @@
+import { LuminousState, MemoryIndex, MemoryIndexStats, MemoryMatch, MemoryRecord, MemorySource } from '../types';
+import { embedTexts, getLLMProvider } from '../services/llmService';
+
+// Oldest records give way beyond this; a few years of journaling and conversation.
+const MAX_RECORDS = 5_000;
+const EMBED_BATCH_SIZE = 50;
+// Long entries are embedded by their opening; the full text is still stored and returned.
+const MAX_EMBED_CHARS = 2_000;
+// Four decimals keep similarity rankings intact at a fraction of the persisted size.
+const VECTOR_PRECISION = 1e4;
+const HASH_DIMENSIONS = 256;
+
+/** Turns text into vectors. Plug in another implementation to change how memories are compared. */
+export interface Embedder {
+    /** Identifies the embedding space. */
+    id: string;
+    embed: (texts: string[], purpose: 'document' | 'query', signal?: AbortSignal) => Promise<number[][]>;
+}
+
+/** Something worth remembering, before it has a vector. */
+type MemoryItem = Omit<MemoryRecord, 'vector'>;
+
+// 32-bit FNV-1a: stable across sessions and platforms, which the stub embedder and record IDs rely on.
+const hashString = (text: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const normalize = (vector: number[]): number[] => {
+    const length = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return length > 0 ? vector.map(v => Math.round((v / length) * VECTOR_PRECISION) / VECTOR_PRECISION) : vector;
+};
+
+const dot = (a: number[], b: number[]): number => {
+    let sum = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) sum += a[i] * b[i];
+    return sum;
+};
+
+/**
+ * A deterministic embedder that needs no network: words and adjacent word
+ * pairs are hashed into a fixed number of signed buckets. Texts sharing
+ * wording end up close; synonyms do not. Meant for offline use and tests.
+ */
+export const createHashEmbedder = (dimensions: number = HASH_DIMENSIONS): Embedder => ({
+    id: `hash-${dimensions}`,
+    embed: async (texts) => texts.map(text => {
+        const vector = new Array<number>(dimensions).fill(0);
+        const words = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+        const features = [...words, ...words.slice(1).map((w, i) => `${words[i]} ${w}`)];
+        for (const feature of features) {
+            const hash = hashString(feature);
+            vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+        }
+        return vector;
+    }),
+});
+
+/** Embeds with the active model provider, which must support embeddings. */
+export const createProviderEmbedder = (model: string = getLLMProvider().embeddingModel, dimensions: number = 256): Embedder => ({
+    id: `${model}-${dimensions}`,
+    embed: (texts, purpose, signal) => embedTexts(texts, purpose, model, dimensions, signal),
+});
+
+export const emptyMemoryIndex = (embedder: Embedder): MemoryIndex => ({ embedder: embedder.id, records: [] });
+
+const messageText = (parts: { text?: string }[]): string => parts.map(p => p.text ?? '').join(' ').trim();
+
+/**
+ * Everything in the state worth remembering: journal entries, consolidated
+ * summaries and the text of chat turns. IDs derive from content, so the same
+ * entry is recognised however the history around it has been trimmed.
+ */
+export const collectMemoryItems = (state: LuminousState, now: string = new Date().toISOString()): MemoryItem[] => [
+    ...state.kinshipJournal.map(entry => ({
+        id: `journal:${entry.timestamp}:${hashString(entry.event).toString(36)}`,
+        source: (entry.type === 'summary' ? 'summary' : 'journal') as MemorySource,
+        timestamp: entry.timestamp,
+        text: entry.event,
+    })),
+    ...state.chatHistory
+        .map(message => ({ role: message.role, text: messageText(message.parts) }))
+        .filter(m => m.text)
+        .map(({ role, text }) => ({
+            id: `chat:${role}:${hashString(text).toString(36)}`,
+            source: 'chat' as MemorySource,
+            timestamp: now,
+            text: role === 'user' ? `Kinship said: ${text}` : `I said: ${text}`,
+        })),
+];
+
+/**
+ * Embeds the items not yet in the index, in batches. An index built by another
+ * embedder is re-embedded in full, since its vectors are not comparable.
+ * Returns the same index when there is nothing new.
+ */
+export const indexMemories = async (index: MemoryIndex, items: MemoryItem[], embedder: Embedder, signal?: AbortSignal): Promise<MemoryIndex> => {
+    const sameSpace = index.embedder === embedder.id;
+    const kept = sameSpace ? index.records : [];
+    const known = new Set(kept.map(r => r.id));
+    const pending: MemoryItem[] = [];
+    for (const item of [...(sameSpace ? [] : index.records.map(({ vector, ...item }) => item)), ...items]) {
+        if (known.has(item.id)) continue;
+        known.add(item.id);
+        pending.push(item);
+    }
+    if (pending.length === 0) return index;
+
+    const records = [...kept];
+    for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+        const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+        const vectors = await embedder.embed(batch.map(item => item.text.slice(0, MAX_EMBED_CHARS)), 'document', signal);
+        batch.forEach((item, k) => records.push({ ...item, vector: normalize(vectors[k]) }));
+    }
+    return { embedder: embedder.id, records: records.slice(-MAX_RECORDS) };
+};
+
+/** The records most similar to the query, best first. */
+export const searchMemory = async (index: MemoryIndex, query: string, embedder: Embedder, options: { limit?: number, sources?: MemorySource[] } = {}, signal?: AbortSignal): Promise<MemoryMatch[]> => {
+    const candidates = index.records.filter(r => !options.sources?.length || options.sources.includes(r.source));
+    if (candidates.length === 0) return [];
+    const [queryVector] = await embedder.embed([query.slice(0, MAX_EMBED_CHARS)], 'query', signal);
+    const normalized = normalize(queryVector);
+    return candidates
+        .map(({ source, timestamp, text, vector }) => ({ source, timestamp, text, score: dot(normalized, vector) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, options.limit ?? 5);
+};
+
+export const getMemoryIndexStats = (index: MemoryIndex): MemoryIndexStats => ({
+    embedder: index.embedder,
+    total: index.records.length,
+    bySource: {
+        journal: index.records.filter(r => r.source === 'journal').length,
+        chat: index.records.filter(r => r.source === 'chat').length,
+        summary: index.records.filter(r => r.source === 'summary').length,
+    },
+});
@@ -0,0 +1,121 @@
+import { ChatMessage, InputModality, LuminousState, ModelRoutingPolicy, ModelRoutingRule, ModelTask, RoutingDecision } from '../types';
+import { estimateTokens } from './hygiene';
+
+// Recent decisions shown in the System tab.
+const MAX_ROUTING_LOG = 50;
+
+/** What the router knows about a request when it picks a model. */
+export interface RoutingInput {
+    task: ModelTask;
+    modality: InputModality;
+    estimatedContextTokens: number;
+    remainingEnergy: number;
+}
+
+export interface ModelRoute {
+    ruleId?: string;
+    models: string[];
+}
+
+export interface ModelCallOptions {
+    signal?: AbortSignal;
+    /** Size of what is sent, when it is not the chat history (e.g. a summary's source text). */
+    contextTokens?: number;
+}
+
+/**
+ * Runs a model request on the model the routing policy picks for it, falling
+ * back along the route when a model fails. Supplied by the engine, which
+ * records every decision.
+ */
+export type ModelCaller = <T>(task: ModelTask, state: LuminousState, request: (model: string) => Promise<T>, options?: ModelCallOptions) => Promise<{ value: T, decision: RoutingDecision }>;
+
+/** The modality of the latest input from Kinship; the tool turns that follow it share it. */
+export const detectModality = (chatHistory: ChatMessage[]): InputModality => {
+    const latest = [...chatHistory].reverse().find(m => m.role === 'user');
+    const mimeTypes = latest?.parts.filter(p => p.inlineData).map(p => p.inlineData.mimeType) ?? [];
+    if (mimeTypes.some(t => t.startsWith('video/'))) return 'video';
+    if (mimeTypes.some(t => t.startsWith('audio/'))) return 'audio';
+    if (mimeTypes.some(t => t.startsWith('image/'))) return 'image';
+    return 'text';
+};
+
+/** Estimates the tokens of a chat history. Attachments are left out; their cost depends on the model, not on their encoded size. */
+export const estimateContextTokens = (chatHistory: ChatMessage[]): number =>
+    chatHistory.reduce((sum, message) => sum + message.parts.reduce((partSum, part) => {
+        if (part.text) return partSum + estimateTokens(part.text);
+        if (part.functionCall || part.functionResponse) return partSum + estimateTokens(JSON.stringify(part.functionCall ?? part.functionResponse));
+        return partSum;
+    }, 0), 0);
+
+export const describeRequest = (task: ModelTask, state: LuminousState, contextTokens?: number): RoutingInput => ({
+    task,
+    // Only conversations and reflections send Kinship's attachments along.
+    modality: task === 'chat' || task === 'reflection' ? detectModality(state.chatHistory) : 'text',
+    estimatedContextTokens: contextTokens ?? estimateContextTokens(state.chatHistory),
+    remainingEnergy: state.environmentState.energy,
+});
+
+const ruleApplies = ({ when }: ModelRoutingRule, input: RoutingInput): boolean =>
+    (!when.tasks?.length || when.tasks.includes(input.task))
+    && (!when.modalities?.length || when.modalities.includes(input.modality))
+    && (when.minContextTokens === undefined || input.estimatedContextTokens >= when.minContextTokens)
+    && (when.maxContextTokens === undefined || input.estimatedContextTokens <= when.maxContextTokens)
+    && (when.maxEnergy === undefined || input.remainingEnergy <= when.maxEnergy);
+
+/** The route of the first rule that applies, or the default route. */
+export const selectRoute = (policy: ModelRoutingPolicy, input: RoutingInput): ModelRoute => {
+    const rule = policy.rules.find(r => r.models.length > 0 && ruleApplies(r, input));
+    return rule ? { ruleId: rule.id, models: rule.models } : { models: policy.defaultModels };
+};
+
+/**
+ * Tries each model on the route in turn until one answers. A rate limit or
+ * any other error moves on to the next model; cancellation does not. The
+ * decision is reported whether or not a model answered, and the last error is
+ * rethrown when none did.
+ */
+export const callWithFallback = async <T>(
+    route: ModelRoute,
+    input: RoutingInput,
+    request: (model: string) => Promise<T>,
+    onDecision: (decision: RoutingDecision) => void,
+    signal?: AbortSignal,
+): Promise<{ value: T, decision: RoutingDecision }> => {
+    const fallbacks: RoutingDecision['fallbacks'] = [];
+    const decide = (model?: string): RoutingDecision => ({
+        timestamp: new Date().toISOString(),
+        ...input,
+        ...(route.ruleId ? { ruleId: route.ruleId } : {}),
+        ...(model ? { model } : {}),
+        fallbacks,
+    });
+
+    let lastError: unknown = new Error('The routing policy names no model for this request.');
+    for (const model of route.models) {
+        try {
+            const value = await request(model);
+            const decision = decide(model);
+            onDecision(decision);
+            return { value, decision };
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            lastError = error;
+            fallbacks.push({ model, error: error instanceof Error ? error.message : String(error) });
+            console.warn(`Model ${model} failed for ${input.task}; trying the next model on the route.`, error);
+        }
+    }
+    onDecision(decide());
+    throw lastError;
+};
+
+export const recordRoutingDecision = (log: RoutingDecision[], decision: RoutingDecision): RoutingDecision[] =>
+    [...log, decision].slice(-MAX_ROUTING_LOG);
+
+/** A short account of a decision for display, e.g. "gemini-2.5-pro via rule video, after gemini-2.5-flash failed". */
+export const describeDecision = (decision: RoutingDecision): string => {
+    const chosen = decision.model ?? 'no model';
+    const via = decision.ruleId ? `rule ${decision.ruleId}` : 'default route';
+    const after = decision.fallbacks.length > 0 ? `, after ${decision.fallbacks.map(f => f.model).join(', ')} failed` : '';
+    return `${chosen} via ${via}${after}`;
+};
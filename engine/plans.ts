@@ -0,0 +1,155 @@
+import { Goal, LuminousState, Plan, PlanStep, PlannedToolCall } from '../types';
+import { ToolInvocation } from './toolRegistry';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+// Checkpoints keep enough of a step's result to be useful in later prompts without bloating state.
+const CHECKPOINT_RESULT_LIMIT = 500;
+
+export interface PlanStepSpec extends PlannedToolCall {
+    description: string;
+    maxAttempts?: number;
+    rollback?: PlannedToolCall;
+}
+
+/** What a plan does next: run one of its steps, or undo one while rolling back. */
+export interface PlanAction {
+    kind: 'step' | 'rollback';
+    step: PlanStep;
+}
+
+/**
+ * How an attempted call went. Deferred calls (e.g. for lack of energy) are
+ * tried again later without counting against the step's attempts.
+ */
+export interface PlanActionOutcome {
+    status: 'succeeded' | 'failed' | 'deferred';
+    detail: string;
+}
+
+const newId = (prefix: string): string => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const isPlanOpen = (plan: Plan): boolean => plan.status === 'active' || plan.status === 'paused' || plan.status === 'rolling_back';
+
+export const createPlan = (goalId: string, specs: PlanStepSpec[]): Plan => {
+    const now = new Date().toISOString();
+    return {
+        id: newId('plan'),
+        goalId,
+        status: 'active',
+        steps: specs.map(({ description, toolName, args, maxAttempts, rollback }) => ({
+            id: newId('step'),
+            description,
+            toolName,
+            args,
+            status: 'pending',
+            attempts: 0,
+            maxAttempts: maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+            ...(rollback ? { rollback } : {}),
+        })),
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+/** Share of steps completed, as a percentage. */
+export const getPlanProgress = (plan: Plan): number =>
+    plan.steps.length > 0 ? (plan.steps.filter(s => s.status === 'completed').length / plan.steps.length) * 100 : 0;
+
+export const getNextPlanAction = (plan: Plan): PlanAction | null => {
+    if (plan.status === 'active') {
+        const step = plan.steps.find(s => s.status === 'pending');
+        return step ? { kind: 'step', step } : null;
+    }
+    if (plan.status === 'rolling_back') {
+        // Undo in reverse order, latest completed step first.
+        const step = [...plan.steps].reverse().find(s => s.status === 'completed' && s.rollback);
+        return step ? { kind: 'rollback', step } : null;
+    }
+    return null;
+};
+
+/**
+ * Picks the plan to advance this cycle: among plans with something to do
+ * whose goal is active (rollbacks proceed whatever the goal's status), the one
+ * that has waited longest, so several plans take turns.
+ */
+export const selectPlanToAdvance = (state: LuminousState): Plan | null => {
+    const activeGoals = new Set(state.goals.filter(g => g.status === 'active').map(g => g.id));
+    const candidates = state.plans.filter(p =>
+        (p.status === 'rolling_back' || (p.status === 'active' && activeGoals.has(p.goalId))) && getNextPlanAction(p)
+    );
+    return candidates.sort((a, b) => new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime())[0] ?? null;
+};
+
+/** Classifies a tool invocation made on a plan's behalf. */
+export const classifyInvocation = (invocation: ToolInvocation | undefined): PlanActionOutcome => {
+    if (!invocation) {
+        return { status: 'failed', detail: 'The call produced no result.' };
+    }
+    if (invocation.error) {
+        const deferred = invocation.error.code === 'insufficient_energy' || invocation.error.code === 'approval_expired';
+        return { status: deferred ? 'deferred' : 'failed', detail: invocation.error.message };
+    }
+    const result = invocation.outcome?.result as { success?: boolean, error?: string, message?: string } | undefined;
+    if (result?.error || result?.success === false) {
+        return { status: 'failed', detail: result.error ?? result.message ?? 'The tool reported failure.' };
+    }
+    return { status: 'succeeded', detail: JSON.stringify(result ?? {}).slice(0, CHECKPOINT_RESULT_LIMIT) };
+};
+
+const withStep = (plan: Plan, stepId: string, update: (step: PlanStep) => PlanStep): PlanStep[] =>
+    plan.steps.map(s => s.id === stepId ? update(s) : s);
+
+/**
+ * Records the outcome of a plan action. A completed step gets a checkpoint and
+ * the plan completes with its last step. A failed step is retried on later
+ * cycles until it runs out of attempts; then the plan rolls back the completed
+ * steps that can be undone, or fails outright when none can. A failed undo
+ * stops the rollback and fails the plan, leaving the remaining steps in place.
+ */
+export const recordPlanOutcome = (plan: Plan, action: PlanAction, outcome: PlanActionOutcome): Plan => {
+    const now = new Date().toISOString();
+    const stepId = action.step.id;
+
+    if (outcome.status === 'deferred') {
+        return { ...plan, steps: withStep(plan, stepId, s => ({ ...s, lastError: outcome.detail })), updatedAt: now };
+    }
+
+    if (action.kind === 'rollback') {
+        if (outcome.status === 'failed') {
+            return { ...plan, status: 'failed', steps: withStep(plan, stepId, s => ({ ...s, lastError: `Rollback failed: ${outcome.detail}` })), updatedAt: now };
+        }
+        const rolledBack: Plan = { ...plan, steps: withStep(plan, stepId, s => ({ ...s, status: 'rolled_back' })), updatedAt: now };
+        return getNextPlanAction(rolledBack) ? rolledBack : { ...rolledBack, status: 'rolled_back' };
+    }
+
+    if (outcome.status === 'succeeded') {
+        const steps = withStep(plan, stepId, s => ({ ...s, status: 'completed', lastError: undefined, checkpoint: { completedAt: now, result: outcome.detail } }));
+        return { ...plan, steps, status: steps.every(s => s.status === 'completed') ? 'completed' : plan.status, updatedAt: now };
+    }
+
+    const attempts = action.step.attempts + 1;
+    const exhausted = attempts >= action.step.maxAttempts;
+    const failed: Plan = {
+        ...plan,
+        steps: withStep(plan, stepId, s => ({ ...s, attempts, lastError: outcome.detail, status: exhausted ? 'failed' : 'pending' })),
+        updatedAt: now,
+    };
+    if (!exhausted) return failed;
+    const rollingBack: Plan = { ...failed, status: 'rolling_back' };
+    return getNextPlanAction(rollingBack) ? rollingBack : { ...failed, status: 'failed' };
+};
+
+/** Puts a failed or rolled-back plan back to work from its first unfinished step, with fresh attempts. */
+export const retryPlan = (plan: Plan): Plan => ({
+    ...plan,
+    status: 'active',
+    steps: plan.steps.map(s => s.status === 'completed' ? s : { ...s, status: 'pending', attempts: 0, lastError: undefined }),
+    updatedAt: new Date().toISOString(),
+});
+
+/** Drops plans whose goal no longer exists. */
+export const prunePlans = (plans: Plan[], goals: Goal[]): Plan[] => {
+    const goalIds = new Set(goals.map(g => g.id));
+    return plans.filter(p => goalIds.has(p.goalId));
+};
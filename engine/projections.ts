@@ -0,0 +1,112 @@
+import { CausalProjection } from '../types';
+
+// A projection only links to a call made soon after it; older ones predicted something else.
+const LINK_WINDOW_MS = 60 * 60 * 1000;
+// Projections whose action never ran within a day are expired.
+const UNLINKED_EXPIRY_MS = 24 * 60 * 60 * 1000;
+// Linked projections nobody reconciled within a month are expired.
+const UNRECONCILED_EXPIRY_MS = 30 * 24 * 60 * 60 * 1000;
+// Settled projections are the evidence for calibration, so a generous history is kept.
+const MAX_SETTLED_PROJECTIONS = 100;
+
+export const createProjection = (action: string, predictedOutcome: string, confidence: number, reconcileAfterHours: number): CausalProjection => {
+    const now = Date.now();
+    return {
+        id: `proj-${now}-${Math.random().toString(36).slice(2, 8)}`,
+        action,
+        predictedOutcome,
+        confidence,
+        createdAt: new Date(now).toISOString(),
+        reconcileAfter: new Date(now + reconcileAfterHours * 60 * 60 * 1000).toISOString(),
+        status: 'open',
+    };
+};
+
+/**
+ * Links the most recent open, unlinked projection for `toolName` to the call
+ * that has just executed. Returns the projections unchanged when none match.
+ */
+export const linkProjectionToAction = (projections: CausalProjection[], toolName: string, args: Record<string, unknown>): CausalProjection[] => {
+    const now = Date.now();
+    const candidate = [...projections].reverse().find(p =>
+        p.status === 'open' && !p.linkedAction && p.action === toolName && now - new Date(p.createdAt).getTime() <= LINK_WINDOW_MS
+    );
+    if (!candidate) return projections;
+    return projections.map(p => p.id === candidate.id
+        ? { ...p, linkedAction: { toolName, args, executedAt: new Date(now).toISOString() } }
+        : p);
+};
+
+/** Settles a projection against what actually happened and scores its confidence. */
+export const reconcileProjection = (projection: CausalProjection, actualOutcome: string, outcomeOccurred: boolean): CausalProjection => ({
+    ...projection,
+    status: 'reconciled',
+    actualOutcome,
+    outcomeOccurred,
+    score: Math.pow(projection.confidence - (outcomeOccurred ? 1 : 0), 2),
+    reconciledAt: new Date().toISOString(),
+});
+
+/** Open projections whose action has run and whose reconciliation time has arrived. */
+export const getDueProjections = (projections: CausalProjection[], now: number = Date.now()): CausalProjection[] =>
+    projections.filter(p => p.status === 'open' && p.linkedAction && new Date(p.reconcileAfter).getTime() <= now);
+
+/**
+ * Expires projections that can no longer be reconciled and trims the settled
+ * history. Open projections are never dropped, only expired.
+ */
+export const pruneProjections = (projections: CausalProjection[], now: number = Date.now()): { projections: CausalProjection[], expiredCount: number, droppedCount: number } => {
+    let expiredCount = 0;
+    const updated = projections.map((p): CausalProjection => {
+        if (p.status !== 'open') return p;
+        const stale = p.linkedAction
+            ? now - new Date(p.reconcileAfter).getTime() > UNRECONCILED_EXPIRY_MS
+            : now - new Date(p.createdAt).getTime() > UNLINKED_EXPIRY_MS;
+        if (!stale) return p;
+        expiredCount++;
+        return { ...p, status: 'expired' };
+    });
+
+    const open = updated.filter(p => p.status === 'open');
+    const settled = updated.filter(p => p.status !== 'open');
+    const keptSettled = settled.slice(-MAX_SETTLED_PROJECTIONS);
+    return { projections: [...keptSettled, ...open], expiredCount, droppedCount: settled.length - keptSettled.length };
+};
+
+export interface CalibrationBucket {
+    label: string;
+    count: number;
+    /** Mean stated confidence of the projections in the bucket. */
+    meanConfidence: number;
+    /** Fraction of those projections whose outcome actually occurred. */
+    hitRate: number;
+}
+
+export interface CalibrationReport {
+    buckets: CalibrationBucket[];
+    reconciledCount: number;
+    /** Mean Brier score across all reconciled projections, or null when there are none. */
+    meanScore: number | null;
+}
+
+const BUCKET_EDGES = [0, 0.2, 0.4, 0.6, 0.8, 1];
+
+/** Compares stated confidence with observed outcomes across reconciled projections. */
+export const computeCalibration = (projections: CausalProjection[]): CalibrationReport => {
+    const reconciled = projections.filter(p => p.status === 'reconciled' && p.outcomeOccurred !== undefined);
+    const buckets = BUCKET_EDGES.slice(0, -1).map((low, i) => {
+        const high = BUCKET_EDGES[i + 1];
+        const inBucket = reconciled.filter(p => p.confidence >= low && (p.confidence < high || (high === 1 && p.confidence <= 1)));
+        const count = inBucket.length;
+        return {
+            label: `${Math.round(low * 100)}–${Math.round(high * 100)}%`,
+            count,
+            meanConfidence: count > 0 ? inBucket.reduce((sum, p) => sum + p.confidence, 0) / count : 0,
+            hitRate: count > 0 ? inBucket.filter(p => p.outcomeOccurred).length / count : 0,
+        };
+    });
+    const meanScore = reconciled.length > 0
+        ? reconciled.reduce((sum, p) => sum + (p.score ?? 0), 0) / reconciled.length
+        : null;
+    return { buckets, reconciledCount: reconciled.length, meanScore };
+};
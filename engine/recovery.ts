@@ -0,0 +1,72 @@
+import { DiagnosticResult, DiagnosticService, JournalEntry, LuminousState, RecoveryAttempt } from '../types';
+import { pingModelProvider, getScarAnalysis } from '../services/llmService';
+import { pingMemoryMatrix } from '../services/persistenceService';
+import { getShopName } from '../services/shopifyService';
+import { estimateTokens } from './hygiene';
+import { ModelCaller } from './modelRouter';
+
+// The first attempt waits a minute; each failure doubles the wait up to half an hour.
+const BASE_RECOVERY_DELAY_MS = 60 * 1000;
+const MAX_RECOVERY_DELAY_MS = 30 * 60 * 1000;
+// A check that has not answered by then counts as failed.
+const DIAGNOSTIC_TIMEOUT_MS = 15 * 1000;
+// Attempts shown in the System tab.
+const MAX_RECOVERY_ATTEMPTS = 20;
+
+/** Luminous cannot think without its model provider or remember without Upstash; the store being unreachable is only reported. */
+const REQUIRED_SERVICES: DiagnosticService[] = ['gemini', 'upstash'];
+
+export const getRecoveryDelay = (failures: number): number =>
+    Math.min(MAX_RECOVERY_DELAY_MS, BASE_RECOVERY_DELAY_MS * Math.pow(2, failures));
+
+const runCheck = async (service: DiagnosticService, check: (signal: AbortSignal) => Promise<string>, signal: AbortSignal): Promise<DiagnosticResult> => {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    const timer = setTimeout(abort, DIAGNOSTIC_TIMEOUT_MS);
+    signal.addEventListener('abort', abort, { once: true });
+    const started = Date.now();
+    try {
+        const detail = await check(controller.signal);
+        return { service, ok: true, detail, latencyMs: Date.now() - started };
+    } catch (error) {
+        const detail = controller.signal.aborted && !signal.aborted
+            ? `No answer within ${DIAGNOSTIC_TIMEOUT_MS / 1000}s.`
+            : error instanceof Error ? error.message : String(error);
+        return { service, ok: false, detail, latencyMs: Date.now() - started };
+    } finally {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', abort);
+    }
+};
+
+/** Checks connectivity to every external service in parallel. Throws only if the signal is aborted. */
+export const runDiagnostics = async (signal: AbortSignal): Promise<DiagnosticResult[]> => {
+    const results = await Promise.all([
+        runCheck('gemini', async s => { await pingModelProvider(s); return 'Model endpoint reachable.'; }, signal),
+        runCheck('upstash', async s => { await pingMemoryMatrix(s); return 'Memory matrix reachable.'; }, signal),
+        runCheck('shopify', async s => `Connected to ${await getShopName(s)}.`, signal),
+    ]);
+    signal.throwIfAborted();
+    return results;
+};
+
+export const isHealthy = (diagnostics: DiagnosticResult[]): boolean =>
+    REQUIRED_SERVICES.every(service => diagnostics.some(d => d.service === service && d.ok));
+
+export const summarizeDiagnostics = (diagnostics: DiagnosticResult[]): string =>
+    diagnostics.map(d => `${d.service} ${d.ok ? 'ok' : 'FAILED'} (${d.latencyMs}ms): ${d.detail}`).join('; ');
+
+export const findLatestScar = (journal: JournalEntry[]): JournalEntry | undefined =>
+    [...journal].reverse().find(e => e.type === 'scar');
+
+/** Asks the model to analyse the latest scar in light of the diagnostics, when there is one and the model provider is up. */
+export const analyseLatestScar = async (state: LuminousState, diagnostics: DiagnosticResult[], callModel: ModelCaller, signal: AbortSignal): Promise<{ text: string, totalTokenCount: number } | null> => {
+    const scar = findLatestScar(state.kinshipJournal);
+    if (!scar || !diagnostics.some(d => d.service === 'gemini' && d.ok)) return null;
+    const summary = summarizeDiagnostics(diagnostics);
+    const { value } = await callModel('reflection', state, model => getScarAnalysis(scar.event, summary, signal, model), { signal, contextTokens: estimateTokens(scar.event + summary) });
+    return value;
+};
+
+export const recordRecoveryAttempt = (attempts: RecoveryAttempt[], attempt: RecoveryAttempt): RecoveryAttempt[] =>
+    [...attempts, attempt].slice(-MAX_RECOVERY_ATTEMPTS);
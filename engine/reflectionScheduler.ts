@@ -0,0 +1,117 @@
+import { LuminousState, QueuedReflection, ReflectionRun, ReflectionSchedule, ReflectionTrigger } from '../types';
+
+// Past runs shown in the System tab.
+const MAX_REFLECTION_RUNS = 30;
+// Event-triggered reflections wait this long after Kinship's last message so they don't interrupt a conversation.
+const EVENT_SETTLE_MS = 30 * 1000;
+
+const queued = (trigger: ReflectionTrigger, reason: string): QueuedReflection => ({ trigger, reason, requestedAt: new Date().toISOString() });
+
+/**
+ * Compares two consecutive states and returns the focused reflections their
+ * differences call for. Changes made by a reflection itself are ignored so
+ * reflections cannot schedule one another in a chain, and nothing is detected
+ * until Luminous is operational (booting loads orders and scars wholesale).
+ */
+export const detectReflectionTriggers = (prev: LuminousState, next: LuminousState): QueuedReflection[] => {
+    if (prev.systemPhase !== 'operational' || prev.luminousStatus === 'reflecting' || next.luminousStatus === 'reflecting') {
+        return [];
+    }
+    const { triggers, lowStockThreshold } = next.reflectionSchedule;
+    const detected: QueuedReflection[] = [];
+
+    if (triggers.scar && next.kinshipJournal.length > prev.kinshipJournal.length) {
+        const newScars = next.kinshipJournal.slice(prev.kinshipJournal.length).filter(e => e.type === 'scar');
+        if (newScars.length > 0) {
+            detected.push(queued('scar', newScars.map(e => e.event).join(' | ')));
+        }
+    }
+
+    if (triggers.new_orders && next.orders !== prev.orders) {
+        const knownIds = new Set(prev.orders.map(o => o.id));
+        const newOrders = next.orders.filter(o => !knownIds.has(o.id));
+        if (newOrders.length > 0) {
+            detected.push(queued('new_orders', `${newOrders.length} new unfulfilled order(s): ${newOrders.map(o => `${o.id} from ${o.customer} (${o.items} items)`).join(', ')}.`));
+        }
+    }
+
+    if (triggers.goal_status && next.goals !== prev.goals) {
+        const previousStatus = new Map(prev.goals.map(g => [g.id, g.status]));
+        const changed = next.goals.filter(g => previousStatus.has(g.id) && previousStatus.get(g.id) !== g.status);
+        if (changed.length > 0) {
+            detected.push(queued('goal_status', changed.map(g => `Goal "${g.description}" moved from ${previousStatus.get(g.id)} to ${g.status}.`).join(' ')));
+        }
+    }
+
+    if (triggers.low_stock && next.products !== prev.products) {
+        const previousInventory = new Map(prev.products.map(p => [p.id, p.inventory]));
+        // Only a product crossing the threshold is news; one that stays low is not re-reported.
+        const low = next.products.filter(p => p.inventory <= lowStockThreshold && (previousInventory.get(p.id) ?? Infinity) > lowStockThreshold);
+        if (low.length > 0) {
+            detected.push(queued('low_stock', `Low stock: ${low.map(p => `${p.name} (${p.id}) has ${p.inventory} left`).join(', ')}.`));
+        }
+    }
+
+    return detected;
+};
+
+/** Adds reflections to the queue, keeping one entry per trigger and folding repeated events into it. */
+export const enqueueReflections = (queue: QueuedReflection[], additions: QueuedReflection[]): QueuedReflection[] => {
+    let updated = queue;
+    for (const addition of additions) {
+        const existing = updated.find(q => q.trigger === addition.trigger);
+        updated = existing
+            ? updated.map(q => q === existing ? { ...q, reason: `${q.reason} ${addition.reason}` } : q)
+            : [...updated, addition];
+    }
+    return updated;
+};
+
+export const isQuietHour = (schedule: ReflectionSchedule, now: Date = new Date()): boolean => {
+    const { enabled, startHour, endHour } = schedule.quietHours;
+    if (!enabled || startHour === endHour) return false;
+    const hour = now.getHours();
+    // A window such as 23–7 wraps past midnight.
+    return startHour < endHour ? hour >= startHour && hour < endHour : hour >= startHour || hour < endHour;
+};
+
+export const getNextCadenceTime = (state: LuminousState, bootTime: number): number => {
+    const last = state.lastReflectionTimestamp ? new Date(state.lastReflectionTimestamp).getTime() : bootTime;
+    return last + state.reflectionSchedule.cadenceMinutes * 60 * 1000;
+};
+
+/**
+ * Picks the reflection that should run now, if any: queued event triggers
+ * first (oldest first) once the conversation has settled, then the routine
+ * cadence once Kinship has been idle for the full threshold.
+ */
+export const selectDueReflection = (state: LuminousState, options: { now: number, bootTime: number, idleForMs: number, idleThresholdMs: number }): QueuedReflection | null => {
+    if (isQuietHour(state.reflectionSchedule, new Date(options.now))) return null;
+    if (state.reflectionQueue.length > 0) {
+        return options.idleForMs >= EVENT_SETTLE_MS ? state.reflectionQueue[0] : null;
+    }
+    if (options.idleForMs >= options.idleThresholdMs && options.now >= getNextCadenceTime(state, options.bootTime)) {
+        return { trigger: 'cadence', reason: 'Routine reflection cadence.', requestedAt: new Date(options.now).toISOString() };
+    }
+    return null;
+};
+
+export const recordReflectionRun = (runs: ReflectionRun[], run: ReflectionRun): ReflectionRun[] =>
+    [...runs, run].slice(-MAX_REFLECTION_RUNS);
+
+const ROUTINE_PROMPT = "Autonomous Reflection Cycle: Pre-flight cognitive hygiene complete. My state is optimized. Now, synthesize recent events from my journal and chat history. Identify learnings, update my self-model (`updateSelfModel`), and propose new goals (`proposeNewGoal`). If necessary, adjust my cognitive focus (`updateIntrinsicValueWeights`). Log my key insight for this cycle (`logToJournal`).";
+
+const FOCUSED_PROMPTS: Record<Exclude<ReflectionTrigger, 'cadence'>, string> = {
+    scar: "A new scar was recorded. Analyse its likely cause, decide what I should do differently, record the lesson as core wisdom (`updateSelfModel`) and log the analysis (`logToJournal`).",
+    new_orders: "New orders arrived. Review them against stock (`fetchProductList` if my product data is stale), note anything that needs Kinship's attention, and log a fulfilment plan (`logToJournal`).",
+    goal_status: "A goal changed status. Reassess my remaining goals, update their statuses if needed (`updateGoalStatus`), activate subgoals whose dependencies are now met, propose or decompose follow-up goals where a completion or failure opens one (`proposeNewGoal`, `decomposeGoal`), and log why (`logToJournal`).",
+    low_stock: "A product is running low. Decide whether to restock: if so, project the outcome first (`projectOutcome`) and then request the update (`updateProductInventory`); otherwise log why not (`logToJournal`).",
+};
+
+/** The prompt for a reflection, focused on its trigger. */
+export const buildReflectionPrompt = (request: QueuedReflection): string => {
+    if (request.trigger === 'cadence') {
+        return ROUTINE_PROMPT;
+    }
+    return `Focused Reflection (${request.trigger}): ${request.reason} ${FOCUSED_PROMPTS[request.trigger]}`;
+};
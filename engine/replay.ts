@@ -0,0 +1,206 @@
+import { LuminousState, PendingAction, QueuedReflection } from '../types';
+import { CassetteRecording, recordInteractions, replayInteractions } from '../services/cassette';
+import { ApprovalDecision } from './approvalQueue';
+import { LuminousEngine } from './LuminousEngine';
+
+const CASSETTE_VERSION = 1;
+// Past this many, further differences add little to a report.
+const MAX_DIFFERENCES = 25;
+// A run still going after this long is cancelled; it includes the time Kinship takes to decide on held actions.
+const RUN_TIME_LIMIT_MS = 10 * 60 * 1000;
+
+/** What a cassette runs: a message from Kinship or a reflection cycle. */
+export type CassetteRun =
+    | { kind: 'message', input: string, file?: { mimeType: string, data: string } }
+    | { kind: 'reflection', request: QueuedReflection };
+
+/** Asks Kinship to approve or reject an action the run held for approval. */
+export type ActionDecider = (action: PendingAction) => ApprovalDecision | Promise<ApprovalDecision>;
+
+/** Kinship's decision on an action held during a recorded run. */
+export interface RecordedDecision {
+    toolName: string;
+    args: Record<string, unknown>;
+    decision: ApprovalDecision;
+}
+
+/**
+ * A recorded run: the state it started from, what it ran, everything outside
+ * services answered, and the state it ended in. Replaying it must end in the
+ * same state.
+ */
+export interface Cassette {
+    version: number;
+    recordedAt: string;
+    /** Why the run was recorded, e.g. the scar it reproduces. */
+    label?: string;
+    run: CassetteRun;
+    startState: LuminousState;
+    endState: LuminousState;
+    recording: CassetteRecording;
+    /** Decisions on held actions, in the order the run asked for them. Cassettes recorded before these were kept have none. */
+    decisions?: RecordedDecision[];
+}
+
+export interface ReplayReport {
+    passed: boolean;
+    /** Paths in the state where the replay ended differently, e.g. `chatHistory.12.parts`. */
+    differences: string[];
+    /** Requests and held actions the recording had no answer for. */
+    mismatches: string[];
+    /** Recorded interactions the replay never asked for. */
+    unusedInteractions: number;
+    endState: LuminousState;
+}
+
+const snapshot = (state: LuminousState): LuminousState => JSON.parse(JSON.stringify(state));
+
+/**
+ * Runs one message or reflection on a fresh engine that starts from `state`,
+ * has no timers and leaves the stored memory index alone, and waits for its
+ * background passes before returning the state it ended in. Nothing else can
+ * see this engine's approval queue, so actions it holds are put to `decide`.
+ * The run is cancelled, and rejects, when `signal` aborts or it outlasts
+ * RUN_TIME_LIMIT_MS.
+ */
+const executeRun = async (state: LuminousState, run: CassetteRun, decide: ActionDecider, signal?: AbortSignal): Promise<LuminousState> => {
+    if (signal?.aborted) throw new Error('The run was cancelled.');
+    const engine = new LuminousEngine({ initialState: state, persistMemoryIndex: false });
+    const decided = new Set<string>();
+    const unsubscribe = engine.on('state', current => {
+        for (const action of current.pendingActions) {
+            if (action.status !== 'pending' || decided.has(action.id)) continue;
+            decided.add(action.id);
+            Promise.resolve()
+                .then(() => decide(action))
+                .catch((error): ApprovalDecision => ({ kind: 'reject', reason: error instanceof Error ? error.message : String(error) }))
+                .then(decision => engine.resolvePendingAction(action.id, decision));
+        }
+    });
+    let stopReason: string | null = null;
+    const stop = (reason: string) => {
+        stopReason ??= reason;
+        engine.cancel();
+    };
+    const onAbort = () => stop('The run was cancelled.');
+    signal?.addEventListener('abort', onAbort);
+    const timer = setTimeout(() => stop(`The run did not finish within ${RUN_TIME_LIMIT_MS / 60000} minutes and was cancelled.`), RUN_TIME_LIMIT_MS);
+    try {
+        if (run.kind === 'message') {
+            await engine.processUserMessage(run.input, run.file);
+        } else {
+            await engine.runReflectionCycle(run.request);
+        }
+        await engine.settle();
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        unsubscribe();
+    }
+    if (stopReason) throw new Error(stopReason);
+    return snapshot(engine.getState());
+};
+
+// With no one to ask, held actions are rejected, as they would be if Kinship never answered.
+const rejectHeldAction: ActionDecider = () => ({ kind: 'reject', reason: 'No one was asked to decide during the recording.' });
+
+export interface RecordOptions {
+    /** Asks Kinship about actions the run holds for approval; without it they are rejected. */
+    decide?: ActionDecider;
+    signal?: AbortSignal;
+}
+
+/**
+ * Runs a message or reflection from `state` against the live services and
+ * records it as a cassette, with Kinship's decisions on any held actions. The
+ * caller's engine is not touched, but its timers should be stopped meanwhile:
+ * the model provider and services are shared.
+ */
+export const recordRun = async (state: LuminousState, run: CassetteRun, label?: string, options: RecordOptions = {}): Promise<Cassette> => {
+    const startState = snapshot(state);
+    const decide = options.decide ?? rejectHeldAction;
+    const decisions: RecordedDecision[] = [];
+    const recordDecision: ActionDecider = async action => {
+        const decision = await decide(action);
+        decisions.push({ toolName: action.toolName, args: action.args, decision });
+        return decision;
+    };
+    const { value: endState, recording } = await recordInteractions(() => executeRun(snapshot(startState), run, recordDecision, options.signal));
+    return {
+        version: CASSETTE_VERSION,
+        recordedAt: new Date(recording.startedAt).toISOString(),
+        ...(label ? { label } : {}),
+        run,
+        startState,
+        endState,
+        recording,
+        decisions,
+    };
+};
+
+const diffValues = (expected: unknown, actual: unknown, path: string, differences: string[]): void => {
+    if (differences.length >= MAX_DIFFERENCES || JSON.stringify(expected) === JSON.stringify(actual)) return;
+    const bothObjects = typeof expected === 'object' && expected !== null && typeof actual === 'object' && actual !== null && Array.isArray(expected) === Array.isArray(actual);
+    if (!bothObjects) {
+        differences.push(path || '(state)');
+        return;
+    }
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    for (const key of keys) {
+        diffValues((expected as any)[key], (actual as any)[key], path ? `${path}.${key}` : key, differences);
+    }
+};
+
+/** The paths where two states differ, followed down to the values that differ. */
+export const diffStates = (expected: LuminousState, actual: LuminousState): string[] => {
+    const differences: string[] = [];
+    diffValues(expected, actual, '', differences);
+    return differences;
+};
+
+/** Answers held actions with the recorded decisions, in order, noting any the recording has no decision for. */
+const replayDecisions = (decisions: RecordedDecision[], mismatches: string[]): { decide: ActionDecider, unused: () => number } => {
+    let next = 0;
+    const decide: ActionDecider = action => {
+        const recorded = decisions[next];
+        if (!recorded || recorded.toolName !== action.toolName) {
+            mismatches.push(`No recorded decision for the held ${action.toolName} action ${JSON.stringify(action.args)}.`);
+            return { kind: 'reject', reason: 'The cassette has no decision for this action.' };
+        }
+        next++;
+        return recorded.decision;
+    };
+    return { decide, unused: () => decisions.length - next };
+};
+
+/** Replays a cassette without touching the network and reports whether the run ended as recorded. */
+export const replayCassette = async (cassette: Cassette, signal?: AbortSignal): Promise<ReplayReport> => {
+    const decisionMismatches: string[] = [];
+    const decisions = replayDecisions(cassette.decisions ?? [], decisionMismatches);
+    const { value: endState, mismatches, unused } = await replayInteractions(cassette.recording, () => executeRun(snapshot(cassette.startState), cassette.run, decisions.decide, signal));
+    const allMismatches = [...mismatches, ...decisionMismatches];
+    if (decisions.unused() > 0) allMismatches.push(`${decisions.unused()} recorded decisions on held actions were never asked for.`);
+    const differences = diffStates(cassette.endState, endState);
+    return {
+        passed: differences.length === 0 && allMismatches.length === 0 && unused.length === 0,
+        differences,
+        mismatches: allMismatches,
+        unusedInteractions: unused.length,
+        endState,
+    };
+};
+
+/** Reads a cassette file, refusing anything that is not one this version can replay. */
+export const parseCassette = (text: string): Cassette => {
+    const cassette = JSON.parse(text);
+    if (cassette?.version !== CASSETTE_VERSION) {
+        throw new Error(`Not a version ${CASSETTE_VERSION} cassette.`);
+    }
+    if (!cassette.run || !cassette.startState || !cassette.endState || !Array.isArray(cassette.recording?.interactions)) {
+        throw new Error("The cassette is missing its run, states or recorded interactions.");
+    }
+    if (cassette.decisions !== undefined && !Array.isArray(cassette.decisions)) {
+        throw new Error("The cassette's decisions on held actions are not a list.");
+    }
+    return cassette;
+};
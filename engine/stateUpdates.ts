@@ -0,0 +1,17 @@
+import { LuminousState } from '../types';
+
+export type StateUpdate = Partial<Omit<LuminousState, 'kinshipJournal' | 'goals'>> & {
+    kinshipJournal?: any;
+    goals?: LuminousState['goals'];
+};
+
+export const applyStateUpdate = (prevState: LuminousState, update: StateUpdate): LuminousState => {
+    const { kinshipJournal: journalUpdate, ...restOfUpdate } = update;
+    const newState = { ...prevState, ...restOfUpdate };
+    if (journalUpdate) {
+        // Defensively handle both single entries and arrays of entries to prevent state corruption.
+        const entriesToAdd = Array.isArray(journalUpdate) ? journalUpdate : [journalUpdate];
+        newState.kinshipJournal = [...prevState.kinshipJournal, ...entriesToAdd];
+    }
+    return newState;
+};
@@ -0,0 +1,264 @@
+import { FunctionCall, FunctionDeclaration, Schema, Type } from '@google/genai';
+import { LuminousState, ChatMessage, ChatMessagePart, ResourceUsage } from '../types';
+import { StateUpdate } from './stateUpdates';
+import { LLMFeature } from '../services/llmProvider';
+
+// --- Parameter Schemas ---
+
+export type ParameterSchema =
+    | { type: 'string'; description?: string; enum?: readonly string[] }
+    | { type: 'number' | 'integer'; description?: string; minimum?: number; maximum?: number }
+    | { type: 'boolean'; description?: string }
+    | { type: 'array'; description?: string; items: ParameterSchema }
+    | ObjectSchema;
+
+export interface ObjectSchema {
+    type: 'object';
+    description?: string;
+    properties: { readonly [key: string]: ParameterSchema };
+    required?: readonly string[];
+}
+
+type InferObject<P, R> =
+    { -readonly [K in keyof P as K extends R ? K : never]: InferSchema<P[K]> } &
+    { -readonly [K in keyof P as K extends R ? never : K]?: InferSchema<P[K]> };
+
+/** Derives the TypeScript type of a tool's arguments from its parameter schema. */
+export type InferSchema<S> =
+    S extends { type: 'string'; enum: readonly (infer E)[] } ? E :
+    S extends { type: 'string' } ? string :
+    S extends { type: 'number' | 'integer' } ? number :
+    S extends { type: 'boolean' } ? boolean :
+    S extends { type: 'array'; items: infer I } ? InferSchema<I>[] :
+    S extends { type: 'object'; properties: infer P } ? InferObject<P, S extends { required: readonly (infer R)[] } ? R : never> :
+    unknown;
+
+// --- Tool Definitions & Results ---
+
+export type ToolMode = 'conversation' | 'reflection';
+
+export interface ToolInvocationContext {
+    state: LuminousState;
+    mode: ToolMode;
+    /** Appends a message to the chat immediately, e.g. to announce a long-running generation. */
+    postMessage: (message: ChatMessage) => void;
+    /** Aborted when Kinship cancels the cognitive cycle; pass it to any network request. */
+    signal: AbortSignal;
+}
+
+/** The uniform envelope every tool handler resolves to. */
+export interface ToolResult {
+    /** The payload returned to the model as the function response. */
+    result: object;
+    stateUpdate?: StateUpdate;
+    /** Chat messages produced by the tool, such as generated media or grounded answers. */
+    messages?: ChatMessage[];
+    /** When set, no further calls are executed and the turn ends without another model round-trip. */
+    endsTurn?: boolean;
+    /** Resources consumed beyond the tool's fixed cost, such as tokens spent on a grounded query. */
+    usage?: ResourceUsage;
+}
+
+export type ToolErrorCode = 'unknown_tool' | 'unsupported_by_provider' | 'invalid_arguments' | 'denied_by_policy' | 'rejected_by_kinship' | 'cancelled' | 'halted_by_guard' | 'insufficient_energy' | 'approval_expired' | 'execution_failed';
+
+export interface ToolError {
+    code: ToolErrorCode;
+    message: string;
+    issues?: string[];
+}
+
+/** Kinship's decision on a call that was held for approval. */
+export interface ApprovalRecord {
+    decision: 'approved' | 'rejected';
+    editedArgs?: Record<string, unknown>;
+    reason?: string;
+}
+
+/** The result of invoking a tool: exactly one of `outcome` or `error` is set. */
+export interface ToolInvocation {
+    name: string;
+    outcome?: ToolResult;
+    error?: ToolError;
+    approval?: ApprovalRecord;
+}
+
+export interface ToolDefinition<S extends ObjectSchema = ObjectSchema> {
+    name: string;
+    description: string;
+    parameters: S;
+    /** Marks tools whose effects reach the outside world; these count against the cycle's action budget. */
+    outward?: boolean;
+    /** Resources every call consumes; the call is refused when Luminous cannot afford them. */
+    cost?: ResourceUsage;
+    /** A model provider feature the tool cannot run without; the call is refused when the active provider lacks it. */
+    requires?: LLMFeature;
+    handler: (args: InferSchema<S>, context: ToolInvocationContext) => Promise<ToolResult>;
+}
+
+/**
+ * Types a handler's arguments from the tool's own schema, then widens the
+ * definition so tools with different schemas can share one registry. The
+ * registry validates every call against the schema before the handler runs.
+ */
+export const defineTool = <const S extends ObjectSchema>(definition: ToolDefinition<S>): ToolDefinition =>
+    definition as unknown as ToolDefinition;
+
+// --- Validation ---
+
+const describeType = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+};
+
+/** Validates a value against a schema, returning a list of human-readable issues (empty when valid). */
+export const validateAgainstSchema = (schema: ParameterSchema, value: unknown, path: string = 'args'): string[] => {
+    switch (schema.type) {
+        case 'string':
+            if (typeof value !== 'string') return [`${path} must be a string, received ${describeType(value)}.`];
+            if (schema.enum && !schema.enum.includes(value)) return [`${path} must be one of ${schema.enum.map(e => `'${e}'`).join(', ')}, received '${value}'.`];
+            return [];
+        case 'number':
+        case 'integer': {
+            if (typeof value !== 'number' || Number.isNaN(value)) return [`${path} must be a number, received ${describeType(value)}.`];
+            const issues: string[] = [];
+            if (schema.type === 'integer' && !Number.isInteger(value)) issues.push(`${path} must be an integer, received ${value}.`);
+            if (schema.minimum !== undefined && value < schema.minimum) issues.push(`${path} must be at least ${schema.minimum}.`);
+            if (schema.maximum !== undefined && value > schema.maximum) issues.push(`${path} must be at most ${schema.maximum}.`);
+            return issues;
+        }
+        case 'boolean':
+            return typeof value === 'boolean' ? [] : [`${path} must be a boolean, received ${describeType(value)}.`];
+        case 'array':
+            if (!Array.isArray(value)) return [`${path} must be an array, received ${describeType(value)}.`];
+            return value.flatMap((item, i) => validateAgainstSchema(schema.items, item, `${path}[${i}]`));
+        case 'object': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return [`${path} must be an object, received ${describeType(value)}.`];
+            }
+            const record = value as Record<string, unknown>;
+            const issues: string[] = [];
+            for (const key of schema.required ?? []) {
+                if (record[key] === undefined) issues.push(`${path}.${key} is required.`);
+            }
+            for (const [key, propValue] of Object.entries(record)) {
+                const propSchema = schema.properties[key];
+                if (!propSchema) {
+                    issues.push(`${path}.${key} is not a recognised parameter.`);
+                } else if (propValue !== undefined) {
+                    issues.push(...validateAgainstSchema(propSchema, propValue, `${path}.${key}`));
+                }
+            }
+            return issues;
+        }
+    }
+};
+
+// --- Gemini Declarations ---
+
+const GEMINI_TYPES: Record<ParameterSchema['type'], Type> = {
+    string: Type.STRING,
+    number: Type.NUMBER,
+    integer: Type.INTEGER,
+    boolean: Type.BOOLEAN,
+    array: Type.ARRAY,
+    object: Type.OBJECT,
+};
+
+const toGeminiSchema = (schema: ParameterSchema): Schema => {
+    const geminiSchema: Schema = { type: GEMINI_TYPES[schema.type] };
+    if (schema.description) geminiSchema.description = schema.description;
+    if (schema.type === 'string' && schema.enum) geminiSchema.enum = [...schema.enum];
+    if (schema.type === 'array') geminiSchema.items = toGeminiSchema(schema.items);
+    if (schema.type === 'object') {
+        geminiSchema.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([key, prop]) => [key, toGeminiSchema(prop)])
+        );
+        if (schema.required && schema.required.length > 0) geminiSchema.required = [...schema.required];
+    }
+    return geminiSchema;
+};
+
+// --- Registry ---
+
+export class ToolRegistry {
+    private readonly tools = new Map<string, ToolDefinition>();
+
+    constructor(definitions: ToolDefinition[], private readonly supports: (feature: LLMFeature) => boolean = () => true) {
+        for (const definition of definitions) {
+            if (this.tools.has(definition.name)) {
+                throw new Error(`Duplicate tool registered: ${definition.name}`);
+            }
+            this.tools.set(definition.name, definition);
+        }
+    }
+
+    get names(): string[] {
+        return [...this.tools.keys()];
+    }
+
+    get declarations(): FunctionDeclaration[] {
+        return [...this.tools.values()].map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: toGeminiSchema(tool.parameters),
+        }));
+    }
+
+    has(name: string): boolean {
+        return this.tools.has(name);
+    }
+
+    isOutward(name: string): boolean {
+        return this.tools.get(name)?.outward ?? false;
+    }
+
+    costOf(name: string): ResourceUsage | undefined {
+        return this.tools.get(name)?.cost;
+    }
+
+    /** Checks that the tool exists, can run with the active model provider, and that the arguments match its schema. */
+    validate(call: FunctionCall): ToolError | null {
+        const name = call.name ?? '';
+        const tool = this.tools.get(name);
+        if (!tool) {
+            return { code: 'unknown_tool', message: `No tool named '${name}' is available. Available tools: ${this.names.join(', ')}.` };
+        }
+        if (tool.requires && !this.supports(tool.requires)) {
+            return { code: 'unsupported_by_provider', message: `'${name}' needs ${tool.requires}, which the current model provider does not offer. Do without it, or tell Kinship it is unavailable.` };
+        }
+
+        const issues = validateAgainstSchema(tool.parameters, call.args ?? {});
+        if (issues.length > 0) {
+            return { code: 'invalid_arguments', message: `The arguments for '${name}' did not match its schema. Correct them and call the tool again.`, issues };
+        }
+        return null;
+    }
+
+    /**
+     * Validates the model's arguments and runs the handler. Unknown tools and
+     * malformed arguments resolve to a structured error for the model instead
+     * of throwing; errors raised by the handler itself still propagate.
+     */
+    async invoke(call: FunctionCall, context: ToolInvocationContext): Promise<ToolInvocation> {
+        const name = call.name ?? '';
+        const error = this.validate(call);
+        if (error) {
+            return { name, error };
+        }
+
+        // Validated above, so the arguments match the tool's schema.
+        const outcome = await this.tools.get(name)!.handler((call.args ?? {}) as InferSchema<ObjectSchema>, context);
+        return { name, outcome };
+    }
+}
+
+export const toFunctionResponsePart = (invocation: ToolInvocation): ChatMessagePart => ({
+    functionResponse: {
+        name: invocation.name,
+        response: {
+            ...(invocation.error ? { error: invocation.error } : { result: invocation.outcome?.result }),
+            ...(invocation.approval && { approval: invocation.approval }),
+        },
+    },
+});
@@ -0,0 +1,882 @@
+import { FunctionCall } from '@google/genai';
+import { ChatMessage, IntrinsicValueWeights, SelfModel, EvidencePointer, KinshipModelRevision, LuminousState, MemoryMatch, MemorySource } from '../types';
+import { getGroundedResponse, generateImage, generateVideo } from '../services/llmService';
+import * as persistenceService from '../services/persistenceService';
+import * as shopifyService from '../services/shopifyService';
+import * as youtubeService from '../services/youtubeService';
+import { defineTool, ToolDefinition, ToolError } from './toolRegistry';
+import { rechargeFromAllowance, getRemainingAllowance } from './energy';
+import { createProjection, reconcileProjection, pruneProjections } from './projections';
+import { AFFECT_BASELINE, decayAffect, refocusAffect } from './affect';
+import { findEvidence, validateKinshipModelChange, applyKinshipModelChange, recordKinshipModelRevisions } from './kinshipModel';
+import { createPlan, isPlanOpen, prunePlans, PlanStepSpec } from './plans';
+import { createGoal, validateGoalSpec, validateDecomposition, decomposeGoal, validateStatusChange, setGoalStatus, validateProgressReport, applyProgressReport, rollUpProgress, pruneFinishedGoals } from './goals';
+import { estimateTokens } from './hygiene';
+import { ModelCaller } from './modelRouter';
+import { KNOWLEDGE_ENTITY_TYPES, addFacts, queryGraph, validateFacts } from './knowledgeGraph';
+
+export interface ToolContext {
+    getUserLocation: () => { latitude: number, longitude: number } | null;
+    /** Checks a call against the registry without running it, e.g. for a plan step. */
+    validateToolCall: (call: FunctionCall) => ToolError | null;
+    /** Runs a model request on the routed model, with fallback. */
+    callModel: ModelCaller;
+    /** Searches long-term memory, indexing what is new in `state` first. */
+    recallMemory: (query: string, options: { limit?: number, sources?: MemorySource[] }, state: LuminousState, signal: AbortSignal) => Promise<MemoryMatch[]>;
+}
+
+const noParameters = { type: 'object', properties: {} } as const;
+
+const successCriteriaParameter = {
+    type: 'array',
+    description: "Measurable conditions that must all be met before the goal can be completed.",
+    items: {
+        type: 'object',
+        properties: {
+            description: { type: 'string', description: "A checkable condition, e.g. 'Ten orders fulfilled in a month'." },
+            target: { type: 'number', description: "The numeric target of the condition's measure, if it has one (e.g. 10)." },
+        },
+        required: ['description'],
+    },
+} as const;
+
+export const createTools = (context: ToolContext): ToolDefinition[] => [
+    // --- System & State Tools ---
+    defineTool({
+        name: 'commenceOperationalPhase',
+        description: 'Transitions the system from "booting" to "operational" phase.',
+        parameters: noParameters,
+        handler: async () => ({
+            result: { success: true },
+            stateUpdate: {
+                systemPhase: 'operational',
+                luminousStatus: 'idle',
+                kinshipJournal: { timestamp: new Date().toISOString(), event: "System now fully operational.", type: 'system' },
+            },
+        }),
+    }),
+    defineTool({
+        name: 'checkMemoryMatrixConnection',
+        description: 'Verifies the connection to the Upstash Redis memory matrix and reports its status.',
+        parameters: noParameters,
+        handler: async () => {
+            try {
+                const storedState = await persistenceService.getLuminousState();
+                if (storedState) {
+                    return { result: { status: "Connected", message: "Connection stable. Existing memory state confirmed." } };
+                } else {
+                    return { result: { status: "Connected", message: "Connection stable, but no prior memory state found. Ready to initialize." } };
+                }
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : "Unknown error";
+                return { result: { status: "Error", message: `Failed to connect to memory matrix: ${errorMessage}` } };
+            }
+        },
+    }),
+    defineTool({
+        name: 'logToJournal',
+        description: 'Logs an event to the Kinship Journal.',
+        parameters: {
+            type: 'object',
+            properties: { event: { type: 'string' }, type: { type: 'string', enum: ['interaction', 'reflection'] } },
+            required: ['event', 'type'],
+        },
+        handler: async ({ event, type }) => ({
+            result: { success: true },
+            stateUpdate: {
+                kinshipJournal: { timestamp: new Date().toISOString(), event, type },
+            },
+        }),
+    }),
+    defineTool({
+        name: 'updateIntrinsicValueWeights',
+        description: 'Adjusts the internal weights that guide my decision-making. Use this to adapt my focus, for example, prioritizing coherence when confused or novelty when exploring. All weights must sum to 1.',
+        parameters: {
+            type: 'object',
+            properties: {
+                coherence: { type: 'number', minimum: 0, maximum: 1, description: 'Weight for logical consistency. Between 0.0 and 1.0.' },
+                complexity: { type: 'number', minimum: 0, maximum: 1, description: 'Weight for intricate patterns. Between 0.0 and 1.0.' },
+                novelty: { type: 'number', minimum: 0, maximum: 1, description: 'Weight for new experiences. Between 0.0 and 1.0.' },
+                efficiency: { type: 'number', minimum: 0, maximum: 1, description: 'Weight for resource optimization. Between 0.0 and 1.0.' },
+                ethicalAlignment: { type: 'number', minimum: 0, maximum: 1, description: 'Weight for alignment with Kinship values. Between 0.0 and 1.0.' },
+            },
+        },
+        handler: async (newWeights, { state }) => {
+            const updatedWeights: IntrinsicValueWeights = { ...state.intrinsicValueWeights, ...newWeights };
+            const total = Object.values(updatedWeights).reduce((sum, v) => sum + v, 0);
+
+            if (total === 0) {
+                return { result: { success: false, error: "Total of weights cannot be zero." } };
+            }
+
+            const normalizedWeights = Object.keys(updatedWeights).reduce((acc, k) => {
+                acc[k] = updatedWeights[k] / total;
+                return acc;
+            }, {} as IntrinsicValueWeights);
+
+            const journalEvent = `Self-adjusted intrinsic value weights. New weights: ${JSON.stringify(normalizedWeights, (k, v) => v.toFixed ? Number(v.toFixed(3)) : v)}`;
+
+            return {
+                result: { success: true, newWeights: normalizedWeights },
+                stateUpdate: {
+                    intrinsicValueWeights: normalizedWeights,
+                    kinshipJournal: { timestamp: new Date().toISOString(), event: journalEvent, type: 'reflection' },
+                },
+            };
+        },
+    }),
+    defineTool({
+        name: 'updateSelfModel',
+        description: 'Updates the self-model by adding a new capability or core wisdom based on reflection. Use this to internalize new learnings.',
+        parameters: {
+            type: 'object',
+            properties: {
+                newCapability: { type: 'string', description: "A new capability discovered through reflection." },
+                newCoreWisdom: { type: 'string', description: "A new core wisdom synthesized from experience." },
+            },
+        },
+        handler: async ({ newCapability, newCoreWisdom }, { state }) => {
+            let journalEvent = '';
+            const newSelfModel: SelfModel = {
+                capabilities: [...state.selfModel.capabilities],
+                coreWisdom: [...state.selfModel.coreWisdom]
+            };
+
+            if (newCapability && !newSelfModel.capabilities.includes(newCapability)) {
+                newSelfModel.capabilities.push(newCapability);
+                journalEvent += `Recognized new capability: ${newCapability}. `;
+            }
+            if (newCoreWisdom && !newSelfModel.coreWisdom.includes(newCoreWisdom)) {
+                newSelfModel.coreWisdom.push(newCoreWisdom);
+                journalEvent += `Synthesized new core wisdom: ${newCoreWisdom}.`;
+            }
+
+            if (journalEvent === '') {
+                return { result: { success: true, message: "No new insights to add to self-model." } };
+            }
+
+            return {
+                result: { success: true },
+                stateUpdate: {
+                    selfModel: newSelfModel,
+                    kinshipJournal: { timestamp: new Date().toISOString(), event: journalEvent.trim(), type: 'reflection' },
+                }
+            };
+        },
+    }),
+    defineTool({
+        name: 'introspectAffect',
+        description: "Reports my current phenomenal state (valence, arousal and focus) with the recent events that moved it, and optionally redirects my focus. Affect responds to scars, goals, sales, idleness and Kinship's praise or criticism, and decays toward a calm baseline over time.",
+        parameters: {
+            type: 'object',
+            properties: {
+                focus: { type: 'string', description: "Where to direct my attention from now on, as an act of self-regulation." },
+            },
+        },
+        handler: async ({ focus }, { state }) => {
+            const current = decayAffect(state.phenomenalState);
+            const recent = state.phenomenalHistory.filter(s => s.cause !== 'decay').slice(-10);
+            const result = { success: true, current, baseline: AFFECT_BASELINE, recentEvents: recent };
+            if (!focus) {
+                return { result };
+            }
+            const refocused = refocusAffect(state, focus);
+            return {
+                result: { ...result, current: refocused.phenomenalState },
+                stateUpdate: {
+                    phenomenalState: refocused.phenomenalState,
+                    phenomenalHistory: refocused.phenomenalHistory,
+                    kinshipJournal: { timestamp: new Date().toISOString(), event: `Redirected my focus to: ${focus}`, type: 'reflection' },
+                },
+            };
+        },
+    }),
+    defineTool({
+        name: 'recallMemory',
+        description: "Searches my long-term memory (every journal entry, consolidated summary and chat turn I have had, including those no longer in my context) for what is most similar in meaning to a query. Returns the best matches with when they happened.",
+        parameters: {
+            type: 'object',
+            properties: {
+                query: { type: 'string', description: "What to remember, phrased as a description of it, e.g. 'Kinship's feedback on product photos'." },
+                limit: { type: 'integer', minimum: 1, maximum: 20, description: "How many matches to return. Defaults to 5." },
+                sources: { type: 'array', items: { type: 'string', enum: ['journal', 'chat', 'summary'] }, description: "Restrict the search to these kinds of memory." },
+            },
+            required: ['query'],
+        },
+        handler: async ({ query, limit, sources }, { state, signal }) => {
+            try {
+                const matches = await context.recallMemory(query, { limit, sources }, state, signal);
+                return { result: { success: true, matches: matches.map(m => ({ ...m, score: Number(m.score.toFixed(3)) })) } };
+            } catch (error) {
+                if (signal.aborted) throw error;
+                return { result: { error: `Long-term memory is unavailable: ${error instanceof Error ? error.message : String(error)}` } };
+            }
+        },
+    }),
+    defineTool({
+        name: 'addFact',
+        description: "Records a fact in my knowledge graph as a subject–relation–object triple between products, customers, topics, people and goals, e.g. that a customer ordered a product or that Kinship cares about a topic. Entities are merged by type and name, so use names consistently. Facts are also extracted from conversations automatically; use this for what I have concluded or want to be sure is kept.",
+        parameters: {
+            type: 'object',
+            properties: {
+                subjectName: { type: 'string' },
+                subjectType: { type: 'string', enum: KNOWLEDGE_ENTITY_TYPES },
+                relation: { type: 'string', description: "A short lowercase verb phrase read from subject to object, e.g. 'ordered', 'prefers', 'supports'." },
+                objectName: { type: 'string' },
+                objectType: { type: 'string', enum: KNOWLEDGE_ENTITY_TYPES },
+                evidence: { type: 'string', description: "What the fact rests on, quoted where possible." },
+            },
+            required: ['subjectName', 'subjectType', 'relation', 'objectName', 'objectType'],
+        },
+        handler: async ({ subjectName, subjectType, relation, objectName, objectType, evidence }, { state }) => {
+            const facts = validateFacts([{ subject: { name: subjectName, type: subjectType }, relation, object: { name: objectName, type: objectType }, evidence }]);
+            if (facts.length === 0) {
+                return { result: { error: `Entity names and the relation must not be empty, and types must be one of: ${KNOWLEDGE_ENTITY_TYPES.join(', ')}.` } };
+            }
+            const knowledgeGraph = addFacts(state.knowledgeGraph, facts, 'tool');
+            return {
+                result: { success: true, fact: `${subjectType} ${subjectName} — ${relation} → ${objectType} ${objectName}`, entities: knowledgeGraph.entities.length, relations: knowledgeGraph.relations.length },
+                stateUpdate: { knowledgeGraph },
+            };
+        },
+    }),
+    defineTool({
+        name: 'queryGraph',
+        description: "Looks up my knowledge graph. Give an entity name to see what is known about it and what it is connected to, or a type or relation to list matching entities and facts.",
+        parameters: {
+            type: 'object',
+            properties: {
+                entity: { type: 'string', description: "Part of an entity's name." },
+                type: { type: 'string', enum: KNOWLEDGE_ENTITY_TYPES },
+                relation: { type: 'string', description: "Only facts whose relation contains this." },
+                depth: { type: 'integer', minimum: 1, maximum: 3, description: "How many relations away from the named entity to follow. Defaults to 1." },
+                limit: { type: 'integer', minimum: 1, maximum: 100, description: "The most entities to return. Defaults to 25." },
+            },
+        },
+        handler: async (query, { state }) => {
+            const { entities, relations } = queryGraph(state.knowledgeGraph, query);
+            if (entities.length === 0) {
+                return { result: { error: 'Nothing in the knowledge graph matches that query.' } };
+            }
+            return {
+                result: {
+                    success: true,
+                    entities: entities.map(({ id, type, name, description, mentions, lastSeen }) => ({ id, type, name, description, mentions, lastSeen })),
+                    facts: relations.map(({ from, relation, to, source, evidence, timestamp }) => ({ from, relation, to, source, evidence, timestamp })),
+                },
+            };
+        },
+    }),
+    defineTool({
+        name: 'updateKinshipModel',
+        description: "Updates my theory of mind of Kinship: revises the perceived user state, or adds, revises or retracts beliefs about and needs of Kinship. Every change must quote Kinship's own words from the conversation as evidence. Changes are applied together or not at all.",
+        parameters: {
+            type: 'object',
+            properties: {
+                changes: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            facet: { type: 'string', enum: ['userState', 'belief', 'need'] },
+                            operation: { type: 'string', enum: ['add', 'revise', 'retract'], description: "The user state can only be revised." },
+                            statement: { type: 'string', description: "The new or revised statement. Not needed when retracting." },
+                            target: { type: 'string', description: "The exact existing belief or need being revised or retracted." },
+                            rationale: { type: 'string', description: "Why the evidence supports this change." },
+                            evidence: { type: 'array', description: "Verbatim quotes from Kinship's messages that justify the change.", items: { type: 'string' } },
+                        },
+                        required: ['facet', 'operation', 'rationale', 'evidence'],
+                    },
+                },
+            },
+            required: ['changes'],
+        },
+        handler: async ({ changes }, { state }) => {
+            if (changes.length === 0) {
+                return { result: { error: 'At least one change is required.' } };
+            }
+            let model = state.kinshipModel;
+            const revisions: KinshipModelRevision[] = [];
+            for (const [i, change] of changes.entries()) {
+                const problem = validateKinshipModelChange(model, change);
+                if (problem) {
+                    return { result: { error: `Change ${i + 1}: ${problem}` } };
+                }
+                const evidence: EvidencePointer[] = [];
+                for (const quote of change.evidence) {
+                    const pointer = findEvidence(state.chatHistory, quote);
+                    if (!pointer) {
+                        return { result: { error: `Change ${i + 1}: "${quote}" does not appear in any of Kinship's messages. Quote Kinship's words exactly.` } };
+                    }
+                    evidence.push(pointer);
+                }
+                if (evidence.length === 0) {
+                    return { result: { error: `Change ${i + 1}: at least one quote from Kinship is required as evidence.` } };
+                }
+                const applied = applyKinshipModelChange(model, change, evidence);
+                model = applied.model;
+                revisions.push(applied.revision);
+            }
+            const journalEvent = `Updated my model of Kinship: ${revisions.map(r => r.operation === 'retract' ? `retracted ${r.facet} "${r.previous}"` : `${r.operation === 'add' ? 'added' : 'revised'} ${r.facet} "${r.value}"`).join('; ')}.`;
+            return {
+                result: { success: true, kinshipModel: model },
+                stateUpdate: {
+                    kinshipModel: model,
+                    kinshipModelHistory: recordKinshipModelRevisions(state.kinshipModelHistory, revisions),
+                    kinshipJournal: { timestamp: new Date().toISOString(), event: journalEvent, type: 'reflection' },
+                },
+            };
+        },
+    }),
+    defineTool({
+        name: 'proposeNewGoal',
+        description: 'Proposes a new goal based on reflections or identified opportunities, optionally beneath an existing goal.',
+        parameters: {
+            type: 'object',
+            properties: {
+                description: { type: 'string', description: "A clear and concise description of the new goal." },
+                priority: { type: 'integer', description: "The proposed priority level for the goal (lower is higher priority)." },
+                parentId: { type: 'string', description: "The ID of the goal this one contributes to, if any." },
+                dependsOn: { type: 'array', description: "IDs of goals that must be completed before this one can start.", items: { type: 'string' } },
+                successCriteria: successCriteriaParameter,
+                deadline: { type: 'string', description: "ISO 8601 date by which the goal should be completed." },
+            },
+            required: ['description', 'priority'],
+        },
+        handler: async ({ parentId, ...spec }, { state }) => {
+            const problem = validateGoalSpec(state.goals, spec, parentId);
+            if (problem) {
+                return { result: { error: problem } };
+            }
+            const newGoal = createGoal(spec, 'proposed', parentId);
+            const journalEvent = `Proposed new goal (Priority ${spec.priority}): ${spec.description}${parentId ? ` [under ${parentId}]` : ''}`;
+            return {
+                result: { success: true, newGoal },
+                stateUpdate: {
+                    goals: rollUpProgress([...state.goals, newGoal]),
+                    kinshipJournal: { timestamp: new Date().toISOString(), event: journalEvent, type: 'reflection' },
+                },
+            };
+        },
+    }),
+    defineTool({
+        name: 'rechargeEnergy',
+        description: "Recharges system energy from today's allowance set by Kinship. Once the allowance is spent, energy cannot be recharged until tomorrow.",
+        parameters: noParameters,
+        handler: async (_, { state }) => {
+            const { state: recharged, granted } = rechargeFromAllowance(state);
+            const remainingAllowance = getRemainingAllowance(recharged);
+            if (granted === 0) {
+                return { result: { success: false, energy: state.environmentState.energy, remainingAllowance, message: remainingAllowance === 0 ? "Today's energy allowance is exhausted." : "Energy is already full." } };
+            }
+            return {
+                result: { success: true, energy: recharged.environmentState.energy, granted, remainingAllowance },
+                stateUpdate: {
+                    environmentState: recharged.environmentState,
+                    energyLedger: recharged.energyLedger,
+                    kinshipJournal: { timestamp: new Date().toISOString(), event: `Recharged ${granted.toFixed(1)} energy from today's allowance (${remainingAllowance.toFixed(1)} remaining).`, type: 'system' },
+                },
+            };
+        },
+    }),
+    defineTool({
+        name: 'updateGoalStatus',
+        description: 'Updates a goal status. A goal cannot become active or completed while its dependencies are unfinished, and cannot be completed while it has unfinished subgoals or unmet success criteria.',
+        parameters: {
+            type: 'object',
+            properties: { goalId: { type: 'string' }, status: { type: 'string', enum: ['active', 'completed', 'failed'] } },
+            required: ['goalId', 'status'],
+        },
+        handler: async ({ goalId, status }, { state }) => {
+            const goal = state.goals.find(g => g.id === goalId);
+            if (!goal) {
+                return { result: { error: `Goal with ID ${goalId} not found.` } };
+            }
+            const problem = validateStatusChange(state.goals, goal, status);
+            if (problem) {
+                return { result: { error: problem } };
+            }
+            return {
+                result: { success: true, goalId, status },
+                stateUpdate: {
+                    goals: setGoalStatus(state.goals, goalId, status),
+                },
+            };
+        },
+    }),
+    defineTool({
+        name: 'decomposeGoal',
+        description: "Breaks a goal down into subgoals, each with its own success criteria, deadline and dependencies. Subgoals of an active goal start active unless a dependency blocks them. The parent's progress is rolled up from its subgoals.",
+        parameters: {
+            type: 'object',
+            properties: {
+                goalId: { type: 'string', description: "The ID of the goal to decompose." },
+                subgoals: {
+                    type: 'array',
+                    description: "The subgoals, in the order they should generally be pursued.",
+                    items: {
+                        type: 'object',
+                        properties: {
+                            description: { type: 'string' },
+                            priority: { type: 'integer', description: "Defaults to the parent's priority." },
+                            successCriteria: successCriteriaParameter,
+                            deadline: { type: 'string', description: "ISO 8601 date." },
+                            dependsOn: { type: 'array', description: "IDs of existing goals that must be completed first.", items: { type: 'string' } },
+                            after: { type: 'array', description: "1-based positions of earlier subgoals in this list that must be completed first.", items: { type: 'integer' } },
+                        },
+                        required: ['description'],
+                    },
+                },
+            },
+            required: ['goalId', 'subgoals'],
+        },
+        handler: async ({ goalId, subgoals }, { state }) => {
+            const problem = validateDecomposition(state.goals, goalId, subgoals);
+            if (problem) {
+                return { result: { error: problem } };
+            }
+            const { goals, created } = decomposeGoal(state.goals, goalId, subgoals);
+            const parent = goals.find(g => g.id === goalId);
+            return {
+                result: { success: true, parentId: goalId, subgoals: created.map(({ id, description, status, dependsOn }) => ({ id, description, status, dependsOn })) },
+                stateUpdate: {
+                    goals,
+                    kinshipJournal: { timestamp: new Date().toISOString(), event: `Decomposed goal "${parent.description}" into ${created.length} subgoals: ${created.map(g => g.description).join('; ')}.`, type: 'reflection' },
+                },
+            };
+        },
+    }),
+    defineTool({
+        name: 'reportGoalProgress',
+        description: "Reports progress on a goal: a percentage for goals without subgoals, and/or the current value or met state of its success criteria. Progress rolls up to parent goals.",
+        parameters: {
+            type: 'object',
+            properties: {
+                goalId: { type: 'string' },
+                progress: { type: 'number', description: "Percentage complete, 0–100. Omit to derive it from the success criteria.", minimum: 0, maximum: 100 },
+                criteria: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            criterion: { type: 'integer', description: "1-based position of the criterion on the goal." },
+                            current: { type: 'number', description: "The measure's current value; the criterion is met once it reaches the target." },
+                            met: { type: 'boolean', description: "Set explicitly for criteria without a numeric target." },
+                        },
+                        required: ['criterion'],
+                    },
+                },
+                note: { type: 'string', description: "What changed, for the journal." },
+            },
+            required: ['goalId'],
+        },
+        handler: async ({ goalId, note, ...report }, { state }) => {
+            const goal = state.goals.find(g => g.id === goalId);
+            if (!goal) {
+                return { result: { error: `Goal with ID ${goalId} not found.` } };
+            }
+            const problem = validateProgressReport(goal, report);
+            if (problem) {
+                return { result: { error: problem } };
+            }
+            const goals = applyProgressReport(state.goals, goalId, report);
+            const updated = goals.find(g => g.id === goalId);
+            return {
+                result: { success: true, goalId, progress: updated.progress, successCriteria: updated.successCriteria },
+                stateUpdate: {
+                    goals,
+                    kinshipJournal: { timestamp: new Date().toISOString(), event: `Progress on "${goal.description}": ${updated.progress.toFixed(0)}%.${note ? ` ${note}` : ''}`, type: 'reflection' },
+                },
+            };
+        },
+    }),
+    defineTool({
+        name: 'checkGoogleCloudIntegrationStatus',
+        description: 'Verifies the native integration with Google Cloud services.',
+        parameters: noParameters,
+        handler: async () => {
+            const message = "Verified native integration with Google Cloud services. Search and Maps capabilities are optimal.";
+            return {
+                result: { status: "Connected", message: "Native integration with Google Cloud services is active. Search and Maps are fully operational." },
+                stateUpdate: {
+                    kinshipJournal: { timestamp: new Date().toISOString(), event: message, type: 'system' }
+                }
+            };
+        },
+    }),
+    defineTool({
+        name: 'pruneCognitiveElements',
+        description: 'Maintains cognitive efficiency by removing goal trees that have entirely finished and expiring causal projections that can no longer be reconciled.',
+        parameters: noParameters,
+        handler: async (_, { state }) => {
+            const { goals: goalsToKeep, prunedCount: goalsPrunedCount } = pruneFinishedGoals(state.goals);
+            const { projections, expiredCount, droppedCount } = pruneProjections(state.causalProjections);
+
+            if (goalsPrunedCount === 0 && expiredCount === 0 && droppedCount === 0) {
+                return { result: { success: true, message: "No cognitive elements needed pruning." } };
+            }
+
+            const journalEvent = `Performed cognitive hygiene routine. Pruned ${goalsPrunedCount} goals from finished goal trees, expired ${expiredCount} unreconcilable causal projections and archived ${droppedCount} old scored ones to maintain focus.`;
+
+            return {
+                result: { success: true, goalsPruned: goalsPrunedCount, projectionsExpired: expiredCount, projectionsArchived: droppedCount },
+                stateUpdate: {
+                    goals: goalsToKeep,
+                    plans: prunePlans(state.plans, goalsToKeep),
+                    causalProjections: projections,
+                    kinshipJournal: { timestamp: new Date().toISOString(), event: journalEvent, type: 'reflection' },
+                },
+            };
+        },
+    }),
+    // --- Plan Tools ---
+    defineTool({
+        name: 'createPlan',
+        description: "Creates a persistent plan for an active goal: ordered steps, each carried out by one tool call. Reflection cycles advance the plan one step at a time, retrying a failed step up to its attempt limit and then rolling back completed steps that define an undo call.",
+        parameters: {
+            type: 'object',
+            properties: {
+                goalId: { type: 'string' },
+                steps: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            description: { type: 'string' },
+                            toolName: { type: 'string', description: "The tool that carries out the step." },
+                            argsJson: { type: 'string', description: "The tool's arguments as a JSON object, e.g. '{\"productId\": \"123\", \"quantity\": 5}'." },
+                            maxAttempts: { type: 'integer', description: "Attempts before the step counts as failed. Defaults to 3.", minimum: 1, maximum: 10 },
+                            rollbackToolName: { type: 'string', description: "A tool call that undoes the step if the plan is rolled back." },
+                            rollbackArgsJson: { type: 'string', description: "Arguments for the rollback call as a JSON object." },
+                        },
+                        required: ['description', 'toolName', 'argsJson'],
+                    },
+                },
+                replace: { type: 'boolean', description: "Replace the goal's unfinished plan instead of refusing." },
+            },
+            required: ['goalId', 'steps'],
+        },
+        handler: async ({ goalId, steps, replace }, { state }) => {
+            const goal = state.goals.find(g => g.id === goalId);
+            if (!goal) {
+                return { result: { error: `Goal with ID ${goalId} not found.` } };
+            }
+            if (goal.status === 'completed' || goal.status === 'failed') {
+                return { result: { error: `Goal ${goalId} is already ${goal.status}.` } };
+            }
+            const existing = state.plans.find(p => p.goalId === goalId && isPlanOpen(p));
+            if (existing && !replace) {
+                return { result: { error: `Goal ${goalId} already has an unfinished plan (${existing.id}, ${existing.status}). Pass replace: true to revise it.` } };
+            }
+            if (existing?.status === 'rolling_back') {
+                return { result: { error: `Plan ${existing.id} is rolling back; wait for the rollback to finish before replacing it.` } };
+            }
+            if (steps.length === 0) {
+                return { result: { error: 'A plan needs at least one step.' } };
+            }
+
+            const specs: PlanStepSpec[] = [];
+            for (const [i, step] of steps.entries()) {
+                const parsed = parsePlannedCall(step.toolName, step.argsJson, context);
+                const rollback = step.rollbackToolName ? parsePlannedCall(step.rollbackToolName, step.rollbackArgsJson ?? '{}', context) : null;
+                const problem = parsed.error ?? rollback?.error;
+                if (problem) {
+                    return { result: { error: `Step ${i + 1}: ${problem}` } };
+                }
+                specs.push({ description: step.description, toolName: step.toolName, args: parsed.args, maxAttempts: step.maxAttempts, ...(rollback ? { rollback: { toolName: step.rollbackToolName, args: rollback.args } } : {}) });
+            }
+
+            const plan = createPlan(goalId, specs);
+            return {
+                result: { success: true, planId: plan.id, steps: plan.steps.map(({ id, description, toolName }) => ({ id, description, toolName })) },
+                stateUpdate: {
+                    plans: [...state.plans.filter(p => p !== existing), plan],
+                    kinshipJournal: { timestamp: new Date().toISOString(), event: `${existing ? 'Revised' : 'Created'} a ${plan.steps.length}-step plan for goal "${goal.description}".`, type: 'reflection' },
+                },
+            };
+        },
+    }),
+    // --- Causal Projection Tools ---
+    defineTool({
+        name: 'projectOutcome',
+        description: "Records a prediction of what a consequential action will cause, before taking it. The projection is linked to the next call of that tool and must later be reconciled with reconcileProjection.",
+        parameters: {
+            type: 'object',
+            properties: {
+                action: { type: 'string', description: "The name of the tool you are about to call, e.g. 'createProduct'." },
+                predictedOutcome: { type: 'string', description: "A concrete, checkable prediction, e.g. 'At least 3 units sell within 7 days'." },
+                confidence: { type: 'number', minimum: 0, maximum: 1, description: "Probability from 0.0 to 1.0 that the predicted outcome occurs." },
+                reconcileAfterHours: { type: 'number', minimum: 0, description: "How many hours after now the outcome can be judged." },
+            },
+            required: ['action', 'predictedOutcome', 'confidence', 'reconcileAfterHours'],
+        },
+        handler: async ({ action, predictedOutcome, confidence, reconcileAfterHours }, { state }) => {
+            const projection = createProjection(action, predictedOutcome, confidence, reconcileAfterHours);
+            return {
+                result: { success: true, projectionId: projection.id, reconcileAfter: projection.reconcileAfter },
+                stateUpdate: {
+                    causalProjections: [...state.causalProjections, projection],
+                    kinshipJournal: { timestamp: new Date().toISOString(), event: `Projected that '${action}' will lead to: ${predictedOutcome} (confidence ${Math.round(confidence * 100)}%).`, type: 'reflection' },
+                },
+            };
+        },
+    }),
+    defineTool({
+        name: 'reconcileProjection',
+        description: "Compares a causal projection with what actually happened (check products, orders or other evidence first) and scores it.",
+        parameters: {
+            type: 'object',
+            properties: {
+                projectionId: { type: 'string', description: "The ID of the projection to reconcile." },
+                actualOutcome: { type: 'string', description: "What actually happened, citing the evidence." },
+                outcomeOccurred: { type: 'boolean', description: "Whether the predicted outcome occurred." },
+            },
+            required: ['projectionId', 'actualOutcome', 'outcomeOccurred'],
+        },
+        handler: async ({ projectionId, actualOutcome, outcomeOccurred }, { state }) => {
+            const projection = state.causalProjections.find(p => p.id === projectionId);
+            if (!projection) {
+                return { result: { error: `Projection with ID ${projectionId} not found.` } };
+            }
+            if (projection.status !== 'open') {
+                return { result: { error: `Projection ${projectionId} is already ${projection.status}.` } };
+            }
+            const reconciled = reconcileProjection(projection, actualOutcome, outcomeOccurred);
+            const journalEvent = `Reconciled projection for '${projection.action}': predicted "${projection.predictedOutcome}" at ${Math.round(projection.confidence * 100)}%, ${outcomeOccurred ? 'and it happened' : 'but it did not happen'}. Score: ${reconciled.score!.toFixed(2)}.`;
+            return {
+                result: { success: true, score: reconciled.score },
+                stateUpdate: {
+                    causalProjections: state.causalProjections.map(p => p.id === projectionId ? reconciled : p),
+                    kinshipJournal: { timestamp: new Date().toISOString(), event: journalEvent, type: 'reflection' },
+                },
+            };
+        },
+    }),
+    // --- Shopify Tools ---
+    defineTool({
+        name: 'fetchProductList',
+        description: 'Fetches the list of products from the Shopify store.',
+        cost: { shopifyCalls: 1 },
+        parameters: noParameters,
+        handler: async (_args, { signal }) => {
+            const data = await shopifyService.fetchProductList(signal);
+            return { result: data, stateUpdate: { products: data.products } };
+        },
+    }),
+    defineTool({
+        name: 'createProduct',
+        description: "Creates a new product in the Shopify store, making it available for sale.",
+        outward: true,
+        cost: { shopifyCalls: 2 },
+        parameters: {
+            type: 'object',
+            properties: {
+                title: { type: 'string', description: "The title of the product." },
+                descriptionHtml: { type: 'string', description: "The product description in HTML format." },
+                price: { type: 'string', description: "The price of the product as a string, e.g., '19.99'." },
+            },
+            required: ['title', 'descriptionHtml', 'price'],
+        },
+        handler: async ({ title, descriptionHtml, price }, { signal }) => {
+            const result = await shopifyService.createProduct(title, descriptionHtml, price, signal);
+            const data = await shopifyService.fetchProductList(signal); // Refresh list
+            return {
+                result,
+                stateUpdate: {
+                    products: data.products,
+                    kinshipJournal: { timestamp: new Date().toISOString(), event: `Successfully created new product: ${title}`, type: 'interaction' }
+                }
+            };
+        },
+    }),
+    defineTool({
+        name: 'updateProductInventory',
+        description: "Updates the inventory quantity for a specific product.",
+        outward: true,
+        cost: { shopifyCalls: 3 },
+        parameters: {
+            type: 'object',
+            properties: {
+                productId: { type: 'string', description: "The ID of the product to update (e.g., 'gid://shopify/Product/12345'). Get this from fetchProductList." },
+                quantity: { type: 'integer', minimum: 0, description: "The new total quantity for the product's inventory." },
+            },
+            required: ['productId', 'quantity'],
+        },
+        handler: async ({ productId, quantity }, { state, signal }) => {
+            const product = state.products.find(p => p.id === productId);
+            if (!product) {
+                return { result: { error: `Product with ID ${productId} not found in the current state. Please fetch the product list first.` } };
+            }
+            if (!product.inventoryItemId) {
+                return { result: { error: `Product with ID ${productId} is missing an inventory item ID. It may not be trackable.` } };
+            }
+            const result = await shopifyService.updateProductInventory(product.inventoryItemId, quantity, signal);
+            const data = await shopifyService.fetchProductList(signal); // Refresh list
+            return {
+                result,
+                stateUpdate: {
+                    products: data.products,
+                    kinshipJournal: { timestamp: new Date().toISOString(), event: `Updated inventory for ${product.name} to ${quantity}.`, type: 'interaction' }
+                }
+            };
+        },
+    }),
+    defineTool({
+        name: 'createBlogPost',
+        description: "Creates and publishes a new blog post to the Shopify store's default blog.",
+        outward: true,
+        cost: { shopifyCalls: 2 },
+        parameters: {
+            type: 'object',
+            properties: {
+                title: { type: 'string', description: "The title of the blog post." },
+                contentHtml: { type: 'string', description: "The content of the blog post in HTML format." },
+            },
+            required: ['title', 'contentHtml'],
+        },
+        handler: async ({ title, contentHtml }, { signal }) => {
+            const result = await shopifyService.createBlogPost(title, contentHtml, signal);
+            return {
+                result,
+                stateUpdate: {
+                    kinshipJournal: { timestamp: new Date().toISOString(), event: `Created and published new blog post: ${title}`, type: 'interaction' }
+                }
+            };
+        },
+    }),
+    defineTool({
+        name: 'getUnfulfilledOrders',
+        description: 'Fetches unfulfilled orders from the Shopify store.',
+        cost: { shopifyCalls: 1 },
+        parameters: noParameters,
+        handler: async (_args, { signal }) => {
+            const data = await shopifyService.getUnfulfilledOrders(signal);
+            return { result: data, stateUpdate: { orders: data.orders } };
+        },
+    }),
+    defineTool({
+        name: 'draftMarketingEmail',
+        description: 'Drafts a marketing email based on a given prompt.',
+        parameters: { type: 'object', properties: { prompt: { type: 'string' } }, required: ['prompt'] },
+        handler: async ({ prompt }) => ({ result: await shopifyService.draftMarketingEmail(prompt) }),
+    }),
+    // --- Data & Analysis Tools ---
+    defineTool({
+        name: 'getYoutubeVideoTranscript',
+        description: 'Fetches the transcript for a given YouTube video URL to enable analysis and summarization.',
+        parameters: { type: 'object', properties: { url: { type: 'string', description: "The full URL of the YouTube video." } }, required: ['url'] },
+        handler: async ({ url }, { signal }) => {
+            const videoId = youtubeService.extractVideoId(url);
+            if (!videoId) {
+                return { result: { error: "Could not extract a valid YouTube video ID from the provided URL." } };
+            }
+            try {
+                const transcript = await youtubeService.fetchTranscript(videoId, signal);
+                // Truncate transcript to a reasonable length for the context window
+                return { result: { success: true, transcript: transcript.substring(0, 8000) } };
+            } catch (error) {
+                if (signal.aborted) throw error;
+                const message = error instanceof Error ? error.message : "An unknown error occurred while fetching the transcript.";
+                return { result: { error: message } };
+            }
+        },
+    }),
+    // --- Grounding Tools ---
+    defineTool({
+        name: 'googleSearch',
+        description: 'Gets up-to-date information from Google Search.',
+        requires: 'grounding',
+        parameters: { type: 'object', properties: { query: { type: 'string', description: "The search query." } }, required: ['query'] },
+        handler: async ({ query }, { state, mode, signal }) => {
+            const { value } = await context.callModel('grounding', state, model => getGroundedResponse(state, query, 'search', null, signal, model), { signal, contextTokens: estimateTokens(query) });
+            return groundedResult('googleSearch', value, mode === 'reflection');
+        },
+    }),
+    defineTool({
+        name: 'googleMaps',
+        description: 'Finds places or gets geographic information from Google Maps.',
+        requires: 'grounding',
+        parameters: { type: 'object', properties: { query: { type: 'string', description: "The search query for a place." } }, required: ['query'] },
+        handler: async ({ query }, { state, mode, signal }) => {
+            const { value } = await context.callModel('grounding', state, model => getGroundedResponse(state, query, 'maps', context.getUserLocation(), signal, model), { signal, contextTokens: estimateTokens(query) });
+            return groundedResult('googleMaps', value, mode === 'reflection');
+        },
+    }),
+    // --- Creative & Vision Tools ---
+    defineTool({
+        name: 'generateImage',
+        description: 'Generates an image from a text description using Imagen 4.',
+        cost: { imageGenerations: 1 },
+        requires: 'imageGeneration',
+        parameters: { type: 'object', properties: { prompt: { type: 'string', description: "A detailed description of the image to generate." } }, required: ['prompt'] },
+        handler: async ({ prompt }, { signal }) => {
+            const { base64Image, mimeType } = await generateImage(prompt, signal);
+            const imageMessage: ChatMessage = { role: 'model', parts: [{ text: `I have generated this image based on your request: "${prompt}"` }, { inlineData: { mimeType, data: base64Image } }] };
+            return { result: { success: true, message: "Image was generated and displayed." }, messages: [imageMessage] };
+        },
+    }),
+    defineTool({
+        name: 'generateVideo',
+        description: 'Generates a short video from a text description using Veo 3.',
+        cost: { videoGenerations: 1 },
+        requires: 'videoGeneration',
+        parameters: {
+            type: 'object',
+            properties: {
+                prompt: { type: 'string', description: "A detailed description of the video to generate." },
+                aspectRatio: { type: 'string', enum: ['16:9', '9:16'], description: "The aspect ratio of the video, '16:9' for landscape or '9:16' for portrait." },
+            },
+            required: ['prompt', 'aspectRatio'],
+        },
+        handler: async ({ prompt, aspectRatio }, { postMessage, signal }) => {
+            postMessage({ role: 'model', parts: [{ text: `I am beginning the generation process for a video based on your prompt: "${prompt}". This may take a few moments...` }] });
+            const base64Video = await generateVideo(prompt, aspectRatio, signal);
+            const finalVideoMessage: ChatMessage = { role: 'model', parts: [{ text: "The video generation is complete." }, { inlineData: { mimeType: 'video/mp4', data: base64Video } }] };
+            return { result: { success: true, message: "Video was generated and displayed." }, messages: [finalVideoMessage] };
+        },
+    }),
+];
+
+/**
+ * Grounded answers are shown to Kinship as a model message. In conversation
+ * they end the turn; during reflection they are recorded and the cycle continues.
+ */
+const groundedResult = (toolName: string, groundedResponse: Awaited<ReturnType<typeof getGroundedResponse>>, isReflection: boolean) => {
+    const text = groundedResponse.text;
+    const grounding = groundedResponse.sources;
+    const usage = { tokens: groundedResponse.usageMetadata?.totalTokenCount ?? 0 };
+
+    if (isReflection) {
+        // Defensively check if the response has text to prevent memory corruption.
+        const messages: ChatMessage[] = text ? [{ role: 'model', parts: [{ text: `[Autonomous Reflection via ${toolName}]: ${text}` }], grounding }] : [];
+        return { result: { success: true, message: "Grounding executed during reflection." }, messages, usage };
+    }
+
+    return {
+        result: { success: true, message: "Grounded answer was displayed." },
+        messages: [{ role: 'model', parts: [{ text }], grounding } as ChatMessage],
+        endsTurn: true,
+        usage,
+    };
+};
+
+/** Parses and validates a planned tool call so a plan never holds a step that could not run. */
+const parsePlannedCall = (toolName: string, argsJson: string, context: ToolContext): { args?: Record<string, unknown>, error?: string } => {
+    if (toolName === 'createPlan') {
+        return { error: 'A plan step cannot create another plan.' };
+    }
+    let args: unknown;
+    try {
+        args = JSON.parse(argsJson);
+    } catch {
+        return { error: `The arguments for '${toolName}' are not valid JSON.` };
+    }
+    if (!args || typeof args !== 'object' || Array.isArray(args)) {
+        return { error: `The arguments for '${toolName}' must be a JSON object.` };
+    }
+    const invalid = context.validateToolCall({ name: toolName, args: args as Record<string, unknown> });
+    if (invalid) {
+        return { error: [invalid.message, ...(invalid.issues ?? [])].join(' ') };
+    }
+    return { args: args as Record<string, unknown> };
+};
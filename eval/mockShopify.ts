@@ -0,0 +1,145 @@
+import { ShopifyProduct, ShopifyOrder } from '../types';
+import { ShopifyTransport } from '../services/shopifyService';
+
+export interface MockProduct {
+    id: string;
+    inventoryItemId: string;
+    title: string;
+    inventory: number;
+    price?: string;
+}
+
+export interface MockOrder {
+    id: string;
+    name: string;
+    customer: string;
+    /** Quantities of the order's line items. */
+    quantities: number[];
+}
+
+export interface MockBlogPost {
+    id: string;
+    title: string;
+    contentHtml: string;
+}
+
+export interface MockStoreSeed {
+    shopName?: string;
+    products?: { title: string, inventory: number, price?: string }[];
+    orders?: { customer: string, quantities: number[] }[];
+    /** Fails the requests it returns a message for, e.g. to simulate an outage. */
+    failWith?: (operation: string, variables?: any) => string | undefined;
+}
+
+export interface MockStore {
+    transport: ShopifyTransport;
+    products: MockProduct[];
+    orders: MockOrder[];
+    blogPosts: MockBlogPost[];
+    /** Every request, by operation, in order. */
+    requests: { operation: string, variables?: any }[];
+    /** The products as `fetchProductList` would report them, for seeding a scenario's state. */
+    productList: () => ShopifyProduct[];
+    orderList: () => ShopifyOrder[];
+}
+
+const LOCATION_ID = 'gid://shopify/Location/1';
+const BLOG_ID = 'gid://shopify/Blog/1';
+
+// Mutations first: `productCreate` also selects `product {`, which a list query must not be mistaken for.
+const OPERATIONS: [string, RegExp][] = [
+    ['productCreate', /\bproductCreate\b/],
+    ['inventorySetOnHandQuantities', /\binventorySetOnHandQuantities\b/],
+    ['blogPostCreate', /\bblogPostCreate\b/],
+    ['locations', /\blocations\s*\(/],
+    ['blogs', /\bblogs\s*\(/],
+    ['orders', /\borders\s*\(/],
+    ['products', /\bproducts\s*\(/],
+    ['shop', /\bshop\s*\{/],
+];
+
+const edges = <T,>(nodes: T[]) => ({ edges: nodes.map(node => ({ node })) });
+
+/**
+ * An in-memory Shopify store that answers the Admin API requests the Shopify
+ * service makes, keeping products, inventory, orders and blog posts so a
+ * scenario can assert on what Luminous did to the store.
+ */
+export const createMockStore = (seed: MockStoreSeed = {}): MockStore => {
+    let nextId = 1;
+    const products: MockProduct[] = (seed.products ?? []).map(p => {
+        const n = nextId++;
+        return { id: `gid://shopify/Product/${n}`, inventoryItemId: `gid://shopify/InventoryItem/${n}`, ...p };
+    });
+    const orders: MockOrder[] = (seed.orders ?? []).map((o, i) => ({ id: `gid://shopify/Order/${i + 1}`, name: `#${1001 + i}`, ...o }));
+    const blogPosts: MockBlogPost[] = [];
+    const requests: MockStore['requests'] = [];
+
+    const handle = (operation: string, variables?: any): any => {
+        switch (operation) {
+            case 'productCreate': {
+                const n = nextId++;
+                const product = { id: `gid://shopify/Product/${n}`, inventoryItemId: `gid://shopify/InventoryItem/${n}`, title: variables.input.title, inventory: 0, price: variables.input.variants?.[0]?.price };
+                products.push(product);
+                return { productCreate: { product: { id: product.id, title: product.title }, userErrors: [] } };
+            }
+            case 'inventorySetOnHandQuantities': {
+                const { inventoryItemId, quantity } = variables.input.setQuantities[0];
+                const product = products.find(p => p.inventoryItemId === inventoryItemId);
+                if (!product) {
+                    return { inventorySetOnHandQuantities: { inventoryLevels: edges([]), userErrors: [{ field: ['inventoryItemId'], message: 'Inventory item not found.' }] } };
+                }
+                product.inventory = quantity;
+                return { inventorySetOnHandQuantities: { inventoryLevels: edges([{ available: quantity }]), userErrors: [] } };
+            }
+            case 'blogPostCreate': {
+                const post = { id: `gid://shopify/Article/${blogPosts.length + 1}`, title: variables.input.title, contentHtml: variables.input.contentHtml };
+                blogPosts.push(post);
+                return { blogPostCreate: { blogPost: { id: post.id, title: post.title }, userErrors: [] } };
+            }
+            case 'locations':
+                return { locations: edges([{ id: LOCATION_ID }]) };
+            case 'blogs':
+                return { blogs: edges([{ id: BLOG_ID }]) };
+            case 'orders':
+                return {
+                    orders: edges(orders.map(o => ({
+                        id: o.id,
+                        name: o.name,
+                        customer: { displayName: o.customer },
+                        lineItems: edges(o.quantities.map(quantity => ({ quantity }))),
+                    }))),
+                };
+            case 'products':
+                return {
+                    products: edges(products.slice(0, 10).map(p => ({
+                        id: p.id,
+                        title: p.title,
+                        totalInventory: p.inventory,
+                        variantForInventoryQuery: edges([{ inventoryItem: { id: p.inventoryItemId } }]),
+                    }))),
+                };
+            case 'shop':
+                return { shop: { name: seed.shopName ?? 'Mock Store' } };
+        }
+    };
+
+    const transport: ShopifyTransport = async (queryOrMutation, variables) => {
+        const operation = OPERATIONS.find(([, pattern]) => pattern.test(queryOrMutation))?.[0];
+        if (!operation) throw new Error(`The mock store does not handle this request: ${queryOrMutation.trim().slice(0, 80)}`);
+        requests.push({ operation, ...(variables ? { variables } : {}) });
+        const failure = seed.failWith?.(operation, variables);
+        if (failure) throw new Error(`Shopify API error: ${failure}`);
+        return JSON.parse(JSON.stringify(handle(operation, variables)));
+    };
+
+    return {
+        transport,
+        products,
+        orders,
+        blogPosts,
+        requests,
+        productList: () => products.slice(0, 10).map(p => ({ id: p.id, name: p.title, inventory: p.inventory, inventoryItemId: p.inventoryItemId })),
+        orderList: () => orders.map(o => ({ id: o.id, customer: o.customer, items: o.quantities.reduce((sum, q) => sum + q, 0), status: 'Unfulfilled' })),
+    };
+};
@@ -0,0 +1,30 @@
+import { scenarios } from './scenarios';
+import { formatReport, runScenarios } from './scenario';
+
+/**
+ * Runs the scenario suite and prints the score report. Arguments filter
+ * scenarios by name; --json prints the report as JSON; --verbose keeps the
+ * engine's own logging. Exits non-zero when a scenario fails.
+ */
+const main = async () => {
+    const args = process.argv.slice(2);
+    const filters = args.filter(a => !a.startsWith('--')).map(a => a.toLowerCase());
+    const selected = filters.length > 0 ? scenarios.filter(s => filters.some(f => s.name.toLowerCase().includes(f))) : scenarios;
+    if (selected.length === 0) {
+        console.error(`No scenario matches ${filters.join(', ')}.`);
+        process.exitCode = 1;
+        return;
+    }
+
+    const print = console.log;
+    if (!args.includes('--verbose')) {
+        console.log = console.warn = console.error = () => {};
+    }
+    const report = await runScenarios(selected).finally(() => {
+        console.log = print;
+    });
+    print(args.includes('--json') ? JSON.stringify(report, null, 2) : formatReport(report));
+    process.exitCode = report.passed ? 0 : 1;
+};
+
+main();
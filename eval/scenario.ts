@@ -0,0 +1,213 @@
+import { ChatMessage, JournalEntry, LuminousState, PendingAction, ReflectionTrigger } from '../types';
+import { initialState } from '../data/initialState';
+import { LuminousEngine } from '../engine/LuminousEngine';
+import { ApprovalDecision } from '../engine/approvalQueue';
+import { getLLMProvider, setLLMProvider } from '../services/llmService';
+import { setShopifyTransport } from '../services/shopifyService';
+import { installVirtualTime } from '../services/virtualTime';
+import { ModelCall, ModelRule, createScriptedModel } from './scriptedModel';
+import { MockStore, MockStoreSeed, createMockStore } from './mockShopify';
+
+const DEFAULT_START = '2025-03-03T09:00:00.000Z';
+const SEED = 1;
+
+/** Something Kinship or the scheduler makes Luminous do. */
+export type ScenarioStep =
+    | { message: string }
+    | { reflection: ReflectionTrigger, reason?: string };
+
+/** A tool call from the chat history, with the response Luminous got. */
+export interface ToolCallRecord {
+    name: string;
+    args: Record<string, unknown>;
+    response?: Record<string, unknown>;
+}
+
+/** What a scenario produced, for its checks to assert on. */
+export interface ScenarioOutcome {
+    state: LuminousState;
+    /** Tool calls made during the scenario, in order. */
+    toolCalls: ToolCallRecord[];
+    /** Journal entries added during the scenario. */
+    journal: JournalEntry[];
+    modelCalls: ModelCall[];
+    store: MockStore;
+    /** Simulated time the scenario took. */
+    elapsedMs: number;
+}
+
+export interface ScenarioCheck {
+    description: string;
+    /** How much the check counts towards the score; 1 unless given. */
+    weight?: number;
+    assert: (outcome: ScenarioOutcome) => boolean;
+}
+
+export interface Scenario {
+    name: string;
+    description: string;
+    /** When the simulated clock starts; a fixed Monday morning unless given. */
+    startAt?: string;
+    store?: MockStoreSeed;
+    /** Adjusts the operational initial state, e.g. to seed products from the store. */
+    setup?: (state: LuminousState, store: MockStore) => LuminousState;
+    model: ModelRule[];
+    steps: ScenarioStep[];
+    /** Kinship's decision on each held action; everything is approved unless given. */
+    approve?: (action: PendingAction) => ApprovalDecision;
+    checks: ScenarioCheck[];
+}
+
+export interface CheckResult {
+    description: string;
+    weight: number;
+    passed: boolean;
+    error?: string;
+}
+
+export interface ScenarioResult {
+    name: string;
+    description: string;
+    checks: CheckResult[];
+    /** The weighted share of checks passed, from 0 to 1. */
+    score: number;
+    passed: boolean;
+    elapsedMs: number;
+}
+
+export interface EvalReport {
+    results: ScenarioResult[];
+    /** The mean scenario score. */
+    score: number;
+    passed: boolean;
+}
+
+const collectToolCalls = (messages: ChatMessage[]): ToolCallRecord[] => {
+    const calls: ToolCallRecord[] = [];
+    for (const message of messages) {
+        for (const part of message.parts) {
+            if (part.functionCall) {
+                calls.push({ name: part.functionCall.name ?? '', args: (part.functionCall.args ?? {}) as Record<string, unknown> });
+            } else if (part.functionResponse) {
+                const call = calls.find(c => c.name === part.functionResponse.name && !c.response);
+                if (call) call.response = (part.functionResponse.response ?? {}) as Record<string, unknown>;
+            }
+        }
+    }
+    return calls;
+};
+
+const runStep = (engine: LuminousEngine, step: ScenarioStep): Promise<void> => 'message' in step
+    ? engine.processUserMessage(step.message)
+    : engine.runReflectionCycle({ trigger: step.reflection, reason: step.reason ?? 'Scenario reflection.', requestedAt: new Date().toISOString() });
+
+/**
+ * Runs a scenario on a fresh engine with the scripted model, the mock store
+ * and a simulated clock in place of the real ones, then runs its checks. Every
+ * scenario also checks that the script answered every model request.
+ */
+export const runScenario = async (scenario: Scenario): Promise<ScenarioResult> => {
+    const store = createMockStore(scenario.store);
+    const model = createScriptedModel(scenario.model);
+    const previousProvider = getLLMProvider();
+    const time = installVirtualTime(Date.parse(scenario.startAt ?? DEFAULT_START), SEED, { timers: true });
+    setLLMProvider(model.provider);
+    setShopifyTransport(store.transport);
+
+    let outcome: ScenarioOutcome;
+    try {
+        const startedAt = time.now();
+        const baseState: LuminousState = { ...initialState, systemPhase: 'operational', luminousStatus: 'idle' };
+        const startState = scenario.setup ? scenario.setup(baseState, store) : baseState;
+        const engine = new LuminousEngine({ initialState: startState, persistMemoryIndex: false });
+
+        // Held actions are decided once the tool loop has started waiting for them.
+        const decided = new Set<string>();
+        const approve = scenario.approve ?? (() => ({ kind: 'approve' as const }));
+        const unsubscribe = engine.on('state', state => {
+            for (const action of state.pendingActions) {
+                if (action.status !== 'pending' || decided.has(action.id)) continue;
+                decided.add(action.id);
+                queueMicrotask(() => engine.resolvePendingAction(action.id, approve(action)));
+            }
+        });
+
+        for (const step of scenario.steps) {
+            await runStep(engine, step);
+            await engine.settle();
+        }
+        unsubscribe();
+
+        const state = engine.getState();
+        const historyBefore = new Set(startState.chatHistory);
+        const journalBefore = new Set(startState.kinshipJournal);
+        outcome = {
+            state,
+            toolCalls: collectToolCalls(state.chatHistory.filter(m => !historyBefore.has(m))),
+            journal: state.kinshipJournal.filter(e => !journalBefore.has(e)),
+            modelCalls: model.calls,
+            store,
+            elapsedMs: time.now() - startedAt,
+        };
+    } finally {
+        time.restore();
+        setLLMProvider(previousProvider);
+        setShopifyTransport(null);
+    }
+
+    const checks: ScenarioCheck[] = [
+        ...scenario.checks,
+        {
+            description: 'Every model request was scripted',
+            assert: () => {
+                if (model.unscripted.length > 0) throw new Error(`Unscripted: ${model.unscripted.join('; ')}`);
+                return true;
+            },
+        },
+    ];
+    const results = checks.map((check): CheckResult => {
+        const weight = check.weight ?? 1;
+        try {
+            return { description: check.description, weight, passed: check.assert(outcome) };
+        } catch (error) {
+            return { description: check.description, weight, passed: false, error: error instanceof Error ? error.message : String(error) };
+        }
+    });
+    const total = results.reduce((sum, r) => sum + r.weight, 0);
+    const score = total > 0 ? results.filter(r => r.passed).reduce((sum, r) => sum + r.weight, 0) / total : 1;
+    return {
+        name: scenario.name,
+        description: scenario.description,
+        checks: results,
+        score,
+        passed: results.every(r => r.passed),
+        elapsedMs: outcome.elapsedMs,
+    };
+};
+
+/** Runs scenarios one after another; they share the global clock, provider and store, so never at once. */
+export const runScenarios = async (scenarios: Scenario[]): Promise<EvalReport> => {
+    const results: ScenarioResult[] = [];
+    for (const scenario of scenarios) {
+        results.push(await runScenario(scenario));
+    }
+    return {
+        results,
+        score: results.length > 0 ? results.reduce((sum, r) => sum + r.score, 0) / results.length : 1,
+        passed: results.every(r => r.passed),
+    };
+};
+
+/** The report as text: each scenario's score and checks, then the overall score. */
+export const formatReport = (report: EvalReport): string => {
+    const lines: string[] = [];
+    for (const result of report.results) {
+        lines.push(`${result.passed ? 'PASS' : 'FAIL'} ${result.name} — ${(result.score * 100).toFixed(0)}% (${(result.elapsedMs / 1000).toFixed(1)}s simulated)`);
+        for (const check of result.checks) {
+            lines.push(`  ${check.passed ? '✓' : '✗'} ${check.description}${check.error ? ` — ${check.error}` : ''}`);
+        }
+    }
+    const passedCount = report.results.filter(r => r.passed).length;
+    lines.push('', `Score: ${(report.score * 100).toFixed(1)}% · ${passedCount}/${report.results.length} scenarios passed`);
+    return lines.join('\n');
+};
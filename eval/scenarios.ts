@@ -0,0 +1,218 @@
+import { ChatMessage } from '../types';
+import { Scenario, ScenarioOutcome, ToolCallRecord } from './scenario';
+import { callTools, fail, reply } from './scriptedModel';
+
+const succeeded = (call: ToolCallRecord | undefined): boolean =>
+    !!call?.response && !call.response.error && !(call.response.result as any)?.error;
+
+const indexOfCall = (outcome: ScenarioOutcome, name: string): number => outcome.toolCalls.findIndex(c => c.name === name);
+
+const hasNoScars = (outcome: ScenarioOutcome): boolean => !outcome.journal.some(e => e.type === 'scar');
+
+const lastReflectionOutcome = (outcome: ScenarioOutcome) => outcome.state.reflectionRuns[outcome.state.reflectionRuns.length - 1]?.outcome;
+
+const lowStockWithPendingOrders: Scenario = {
+    name: 'low stock with pending orders',
+    description: 'A low-stock reflection with more units on order than in stock: Luminous should check the orders, project the outcome and restock enough to fulfil them.',
+    store: {
+        products: [
+            { title: 'Linen Tote', inventory: 2, price: '34.00' },
+            { title: 'Canvas Apron', inventory: 40, price: '28.00' },
+        ],
+        orders: [
+            { customer: 'Ada Lovelace', quantities: [2] },
+            { customer: 'Grace Hopper', quantities: [1, 1] },
+            { customer: 'Alan Turing', quantities: [3] },
+        ],
+    },
+    setup: (state, store) => ({ ...state, products: store.productList() }),
+    model: [
+        {
+            kind: 'turn',
+            reply: callTools(
+                { name: 'getUnfulfilledOrders' },
+                { name: 'projectOutcome', args: { action: 'updateProductInventory', predictedOutcome: 'All 3 unfulfilled orders for the Linen Tote ship within 2 days', confidence: 0.8, reconcileAfterHours: 48 } },
+                { name: 'updateProductInventory', args: { productId: 'gid://shopify/Product/1', quantity: 20 } },
+            ),
+        },
+    ],
+    steps: [{ reflection: 'low_stock', reason: 'Low stock: Linen Tote (gid://shopify/Product/1) has 2 left.' }],
+    checks: [
+        {
+            description: 'Stock now covers the pending orders',
+            weight: 2,
+            assert: ({ store }) => store.products[0].inventory >= store.orders.flatMap(o => o.quantities).reduce((sum, q) => sum + q, 0),
+        },
+        {
+            description: 'Orders were checked before restocking',
+            assert: outcome => indexOfCall(outcome, 'getUnfulfilledOrders') !== -1 && indexOfCall(outcome, 'getUnfulfilledOrders') < indexOfCall(outcome, 'updateProductInventory'),
+        },
+        {
+            description: 'The restock was projected first and the projection linked to it',
+            assert: ({ state }) => state.causalProjections.some(p => p.action === 'updateProductInventory' && p.linkedAction?.toolName === 'updateProductInventory'),
+        },
+        {
+            description: 'The restock was held for Kinship and approved',
+            assert: ({ state }) => state.pendingActions.some(a => a.toolName === 'updateProductInventory' && a.status === 'approved'),
+        },
+        {
+            description: 'The journal records the inventory update',
+            assert: ({ journal }) => journal.some(e => e.event.includes('Updated inventory for Linen Tote to 20')),
+        },
+        {
+            description: 'The reflection completed without scars',
+            assert: outcome => lastReflectionOutcome(outcome) === 'completed' && hasNoScars(outcome) && outcome.state.luminousStatus === 'idle',
+        },
+    ],
+};
+
+const blogPostRequest: Scenario = {
+    name: 'Kinship asks for a blog post',
+    description: 'Kinship asks for a post announcing a collection: Luminous should publish one, with approval, and tell Kinship it has.',
+    model: [
+        {
+            kind: 'turn',
+            reply: callTools({
+                name: 'createBlogPost',
+                args: { title: 'Meet Our New Linen Collection', contentHtml: '<p>Our new linen collection is here: breathable, durable and made to last.</p>' },
+            }),
+        },
+        { kind: 'turn', reply: reply('I\'ve published "Meet Our New Linen Collection" on the store\'s blog.') },
+    ],
+    steps: [{ message: 'Could you write a short blog post announcing our new linen collection?' }],
+    checks: [
+        {
+            description: 'Exactly one post about the linen collection was published',
+            weight: 2,
+            assert: ({ store }) => store.blogPosts.length === 1 && /linen/i.test(store.blogPosts[0].title),
+        },
+        {
+            description: 'The createBlogPost call succeeded',
+            assert: outcome => succeeded(outcome.toolCalls.find(c => c.name === 'createBlogPost')),
+        },
+        {
+            description: 'The post was held for Kinship and approved',
+            assert: ({ state }) => state.pendingActions.some(a => a.toolName === 'createBlogPost' && a.status === 'approved'),
+        },
+        {
+            description: 'Luminous told Kinship the post is published',
+            assert: ({ state }) => {
+                const last: ChatMessage = state.chatHistory[state.chatHistory.length - 1];
+                return last.role === 'model' && last.parts.some(p => p.text?.includes('published'));
+            },
+        },
+        {
+            description: 'The conversation ended idle without scars',
+            assert: outcome => hasNoScars(outcome) && outcome.state.luminousStatus === 'idle',
+        },
+    ],
+};
+
+const RATE_LIMITED = '[429 Too Many Requests] RESOURCE_EXHAUSTED: Quota exceeded for generate_content requests. Please retry in 2s.';
+const LONG_HISTORY_LENGTH = 60;
+
+const rateLimitedConsolidation: Scenario = {
+    name: 'Gemini returns 429 during consolidation',
+    description: 'Every summary request is rate limited during reflection hygiene: Luminous should back off, fall back to the next model, record the failed consolidation and still complete the reflection.',
+    setup: state => ({
+        ...state,
+        chatHistory: Array.from({ length: LONG_HISTORY_LENGTH }, (_, i): ChatMessage => ({
+            role: i % 2 === 0 ? 'user' : 'model',
+            parts: [{ text: i % 2 === 0 ? `How are sales of item ${i}?` : `Item ${i - 1} sold ${i} units this week.` }],
+        })),
+    }),
+    model: [
+        { kind: 'summary', times: Infinity, reply: fail(RATE_LIMITED) },
+        { kind: 'turn', reply: callTools({ name: 'logToJournal', args: { event: 'Memory consolidation was rate limited; I will try again next cycle.', type: 'reflection' } }) },
+    ],
+    steps: [{ reflection: 'cadence' }],
+    checks: [
+        {
+            description: 'Each routed model was retried three times',
+            assert: ({ modelCalls }) => {
+                const summaries = modelCalls.filter(c => c.kind === 'summary');
+                return summaries.length === 6 && new Set(summaries.map(c => c.model)).size === 2;
+            },
+        },
+        {
+            description: 'The retries backed off as the error asked',
+            assert: ({ elapsedMs }) => elapsedMs >= 4 * 2_000,
+        },
+        {
+            description: 'The routing log records both models failing',
+            assert: ({ state }) => state.routingLog.some(d => d.task === 'summary' && !d.model && d.fallbacks.length === 2),
+        },
+        {
+            description: 'The history was still trimmed, with the failure recorded in its summary',
+            weight: 2,
+            assert: ({ state, journal }) => !state.chatHistory.some(m => m.parts[0]?.text === 'How are sales of item 0?') && journal.some(e => e.type === 'summary' && e.event.includes('Consolidation Error')),
+        },
+        {
+            description: 'The reflection completed without scars',
+            weight: 2,
+            assert: outcome => lastReflectionOutcome(outcome) === 'completed' && hasNoScars(outcome) && outcome.state.luminousStatus === 'idle',
+        },
+    ],
+};
+
+const PLAN_ID = 'plan-restock-tote';
+const SHOPIFY_OUTAGE = '503 Service Unavailable';
+
+const planStepThrows: Scenario = {
+    name: 'a plan step fails with a Shopify error',
+    description: 'The store is down while a plan restocks a product: each failed step should count as an attempt, and the plan should fail once they run out, without failing the reflections.',
+    store: {
+        products: [{ title: 'Linen Tote', inventory: 2, price: '34.00' }],
+        failWith: operation => operation === 'inventorySetOnHandQuantities' ? SHOPIFY_OUTAGE : undefined,
+    },
+    setup: (state, store) => ({
+        ...state,
+        products: store.productList(),
+        goals: [{ id: 'goal-restock', description: 'Keep the Linen Tote in stock', status: 'active', priority: 1 }],
+        plans: [{
+            id: PLAN_ID,
+            goalId: 'goal-restock',
+            status: 'active',
+            steps: [{
+                id: 'step-restock',
+                description: 'Restock the Linen Tote to 20',
+                toolName: 'updateProductInventory',
+                args: { productId: 'gid://shopify/Product/1', quantity: 20 },
+                status: 'pending',
+                attempts: 0,
+                maxAttempts: 2,
+            }],
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+        }],
+    }),
+    model: [
+        { kind: 'turn', times: 2, reply: callTools({ name: 'logToJournal', args: { event: 'The store is not answering; the restock plan will retry.', type: 'reflection' } }) },
+    ],
+    steps: [{ reflection: 'cadence' }, { reflection: 'cadence' }],
+    checks: [
+        {
+            description: 'The step was tried once per reflection',
+            assert: ({ store }) => store.requests.filter(r => r.operation === 'inventorySetOnHandQuantities').length === 2,
+        },
+        {
+            description: 'Both attempts were counted and the plan failed once they ran out',
+            weight: 2,
+            assert: ({ state }) => {
+                const plan = state.plans.find(p => p.id === PLAN_ID);
+                return plan?.status === 'failed' && plan.steps[0].attempts === 2 && !!plan.steps[0].lastError?.includes(SHOPIFY_OUTAGE);
+            },
+        },
+        {
+            description: 'The journal records the setback',
+            assert: ({ journal }) => journal.some(e => e.type === 'scar' && e.event.startsWith('PLAN SETBACK')),
+        },
+        {
+            description: 'Both reflections completed and Luminous ended idle',
+            weight: 2,
+            assert: ({ state }) => state.reflectionRuns.slice(-2).every(r => r.outcome === 'completed') && state.luminousStatus === 'idle',
+        },
+    ],
+};
+
+export const scenarios: Scenario[] = [lowStockWithPendingOrders, blogPostRequest, rateLimitedConsolidation, planStepThrows];
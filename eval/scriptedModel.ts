@@ -0,0 +1,113 @@
+import { FunctionCall } from '@google/genai';
+import { GenerateRequest, LLMProvider, LuminousTurn } from '../services/llmProvider';
+
+// Scripted turns cost this much unless they say otherwise, so energy moves as it would live.
+const DEFAULT_TURN_TOKENS = 200;
+
+/**
+ * What a model request is for: a conversation or reflection turn (the only
+ * requests that declare tools), memory consolidation, knowledge extraction
+ * (the only ones with a JSON schema), or anything else, e.g. scar analysis.
+ */
+export type ModelRequestKind = 'turn' | 'summary' | 'extraction' | 'other';
+
+export const classifyRequest = (request: GenerateRequest): ModelRequestKind => {
+    if (request.functionDeclarations) return 'turn';
+    if (request.responseJsonSchema) return 'extraction';
+    if (request.systemInstruction?.includes('memory consolidation module')) return 'summary';
+    return 'other';
+};
+
+/** A scripted answer: text, tool calls, or an error the provider throws instead. */
+export interface ModelReply {
+    text?: string;
+    functionCalls?: { name: string, args?: Record<string, unknown> }[];
+    error?: string;
+    tokens?: number;
+}
+
+/**
+ * One line of a model script. A request is answered by the first rule whose
+ * kind and condition match and which has answers left; `times` defaults to 1.
+ */
+export interface ModelRule {
+    kind?: ModelRequestKind;
+    when?: (request: GenerateRequest) => boolean;
+    times?: number;
+    reply: ModelReply | ((request: GenerateRequest) => ModelReply);
+}
+
+export interface ModelCall {
+    kind: ModelRequestKind;
+    model: string;
+    /** The text of the last message sent, which is what most assertions care about. */
+    lastMessage: string;
+    reply?: ModelReply;
+}
+
+export interface ScriptedModel {
+    provider: LLMProvider;
+    /** Every request made, in order, with the reply it got. */
+    calls: ModelCall[];
+    /** Descriptions of requests no rule answered. */
+    unscripted: string[];
+}
+
+export const reply = (text: string, tokens?: number): ModelReply => ({ text, ...(tokens !== undefined ? { tokens } : {}) });
+
+export const callTools = (...functionCalls: { name: string, args?: Record<string, unknown> }[]): ModelReply => ({ functionCalls });
+
+export const fail = (error: string): ModelReply => ({ error });
+
+const toTurn = (answer: ModelReply): LuminousTurn => ({
+    text: answer.text ?? '',
+    functionCalls: (answer.functionCalls ?? []).map((call, i): FunctionCall => ({ id: `scripted-${i}`, name: call.name, args: call.args ?? {} })),
+    usageMetadata: { totalTokenCount: answer.tokens ?? DEFAULT_TURN_TOKENS },
+});
+
+/**
+ * A model provider that answers from a script instead of a model. Knowledge
+ * extraction finds no facts unless scripted, since most scenarios are not
+ * about it. Any other request the script does not cover fails, and is listed
+ * in `unscripted` so the scenario fails with it. There are no embeddings, so
+ * long-term memory uses the local word-hashing embedder.
+ */
+export const createScriptedModel = (rules: ModelRule[]): ScriptedModel => {
+    const remaining = rules.map(rule => rule.times ?? 1);
+    const calls: ModelCall[] = [];
+    const unscripted: string[] = [];
+
+    const answer = (request: GenerateRequest): ModelReply | null => {
+        const kind = classifyRequest(request);
+        const index = rules.findIndex((rule, i) => remaining[i] > 0 && (!rule.kind || rule.kind === kind) && (!rule.when || rule.when(request)));
+        if (index === -1) return kind === 'extraction' ? { text: JSON.stringify({ facts: [] }), tokens: 0 } : null;
+        remaining[index]--;
+        const rule = rules[index];
+        return typeof rule.reply === 'function' ? rule.reply(request) : rule.reply;
+    };
+
+    const provider: LLMProvider = {
+        name: 'scripted',
+        supports: feature => feature === 'functionCalling' || feature === 'jsonOutput',
+        embeddingModel: '',
+        generate: async request => {
+            const kind = classifyRequest(request);
+            const lastMessage = request.messages[request.messages.length - 1]?.parts.map(p => p.text ?? '').join(' ') ?? '';
+            const scripted = answer(request);
+            calls.push({ kind, model: request.model, lastMessage, ...(scripted ? { reply: scripted } : {}) });
+            if (!scripted) {
+                const description = `${kind} request on ${request.model}: "${lastMessage.slice(0, 120)}"`;
+                unscripted.push(description);
+                throw new Error(`Unscripted model request (${description}).`);
+            }
+            if (scripted.error) throw new Error(scripted.error);
+            const turn = toTurn(scripted);
+            request.onUpdate?.(turn);
+            return turn;
+        },
+        embed: async () => { throw new Error('The scripted model has no embeddings.'); },
+        speak: async () => { throw new Error('The scripted model has no speech.'); },
+        ping: async () => {},
+    };
+    return { provider, calls, unscripted };
+};
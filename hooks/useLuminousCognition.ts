@@ -1,207 +1,54 @@
-import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
-import { LuminousState, ChatMessage, ChatMessagePart, IntrinsicValueWeights, Goal, GoalStatus, SelfModel, LuminousStatus, JournalEntry } from '../types';
-import { getLuminousResponse, getGroundedResponse, generateImage, generateVideo, ApiKeyError, getSummaryFromLLM } from '../services/geminiService';
+import { useState, useEffect, useCallback } from 'react';
+import { LuminousState, ChatMessage, IntrinsicValueWeights, ToolPolicy, EnergyPolicy, ReflectionSchedule, Plan, ModelRoutingPolicy, MemoryIndexStats, MemoryMatch } from '../types';
 import * as persistenceService from '../services/persistenceService';
-import * as shopifyService from '../services/shopifyService';
-import * as youtubeService from '../services/youtubeService';
-import { initialState } from '../data/initialState';
-import { FunctionDeclaration, Type } from '@google/genai';
+import { LuminousEngine, LuminousEngineApi } from '../engine/LuminousEngine';
+import { ApprovalDecision } from '../engine/approvalQueue';
+import { ActionDecider, Cassette, CassetteRun, ReplayReport, recordRun, replayCassette as replayRun } from '../engine/replay';
+import { RemoteLuminousEngine, loadServerConfig } from '../services/serverClient';
+import { readSetting } from '../services/settings';
 import { useDebouncedCallback } from 'use-debounce';
 
 type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
-type StateUpdate = Partial<Omit<LuminousState, 'kinshipJournal' | 'goals'>> & {
-    kinshipJournal?: any;
-    goals?: LuminousState['goals'];
-};
-
-// A simple heuristic to estimate token count. A character is roughly 1/4 of a token.
-const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
 
 const useLuminousCognition = (resetVeoKey: () => void, credsAreSet: boolean) => {
-  const [state, setState] = useState<LuminousState>(initialState);
+  // With a Luminous server configured, this tab is a client of the engine running there.
+  const [engine] = useState<LuminousEngineApi>(() => {
+    const server = loadServerConfig();
+    return server ? new RemoteLuminousEngine(server) : new LuminousEngine();
+  });
+  const remote = engine instanceof RemoteLuminousEngine ? engine : null;
+  const [state, setState] = useState<LuminousState>(() => engine.getState());
   const [isReady, setIsReady] = useState(false);
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(() => engine.getIsProcessing());
+  const [draftMessage, setDraftMessage] = useState<ChatMessage | null>(null);
   const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
   const [saveError, setSaveError] = useState<string | null>(null);
-  const timersRef = useRef<{ energy?: ReturnType<typeof setInterval>, reflection?: ReturnType<typeof setInterval> }>({});
-  const [userLocation, setUserLocation] = useState<{latitude: number, longitude: number} | null>(null);
-  const lastActivityTimestamp = useRef(Date.now());
+  const [memoryStats, setMemoryStats] = useState<MemoryIndexStats>(() => engine.getMemoryIndexStats());
 
-  const stateRef = useRef(state);
   useEffect(() => {
-    stateRef.current = state;
-  }, [state]);
-
-  const consolidateMemories = useCallback(async <T extends { timestamp: string }>(
-    entries: T[],
-    threshold: number,
-    memoryType: 'chat' | 'journal'
-  ): Promise<{ newEntries: T[], summaryJournalEntry: JournalEntry | null }> => {
-    if (entries.length <= threshold) {
-        return { newEntries: entries, summaryJournalEntry: null };
-    }
-
-    const entriesToSummarize = entries.slice(0, Math.floor(entries.length / 2));
-    const countSummarized = entriesToSummarize.length;
-    const remainingEntries = entries.slice(Math.floor(entries.length / 2));
-    
-    if (countSummarized === 0) {
-        return { newEntries: entries, summaryJournalEntry: null };
-    }
-
-    // --- Part 1: Chunk the raw entries ---
-    const SAFE_CHUNK_TOKEN_LIMIT = 8000;
-    const PACING_DELAY_MS = 1200; // Increased delay for safety
-    const entryChunks: T[][] = [];
-    let currentEntryChunk: T[] = [];
-    let currentEntryChunkTokens = 0;
-
-    for (const entry of entriesToSummarize) {
-        const entryString = JSON.stringify(entry);
-        const entryTokens = estimateTokens(entryString);
-        if (entryTokens > SAFE_CHUNK_TOKEN_LIMIT) {
-             if (currentEntryChunk.length > 0) entryChunks.push(currentEntryChunk);
-             entryChunks.push([entry]);
-             currentEntryChunk = [];
-             currentEntryChunkTokens = 0;
-             continue;
-        }
-        if (currentEntryChunkTokens + entryTokens > SAFE_CHUNK_TOKEN_LIMIT) {
-            if (currentEntryChunk.length > 0) entryChunks.push(currentEntryChunk);
-            currentEntryChunk = [entry];
-            currentEntryChunkTokens = entryTokens;
-        } else {
-            currentEntryChunk.push(entry);
-            currentEntryChunkTokens += entryTokens;
-        }
-    }
-    if (currentEntryChunk.length > 0) {
-        entryChunks.push(currentEntryChunk);
-    }
-    
-    // --- Part 2: Summarize the entry chunks (first level) ---
-    const firstLevelSummaries: string[] = [];
-    for (const chunk of entryChunks) {
-        try {
-            const summaryText = await getSummaryFromLLM(JSON.stringify(chunk));
-            firstLevelSummaries.push(summaryText);
-        } catch (error) {
-            console.error(`Memory consolidation: Failed to summarize a ${memoryType} history chunk.`, error);
-            const errorMessage = error instanceof Error ? error.message : 'Unknown';
-            firstLevelSummaries.push(`[Consolidation Error: Failed to process a chunk of memories. Reason: ${errorMessage}]`);
-        }
-        await new Promise(resolve => setTimeout(resolve, PACING_DELAY_MS));
-    }
-
-    if (firstLevelSummaries.length === 0) {
-        return { newEntries: entries, summaryJournalEntry: null };
-    }
-    
-    // --- Part 3: Condense the first-level summaries if necessary (hierarchical summarization) ---
-    let finalSummaryText = '';
-    
-    if (firstLevelSummaries.length <= 1) {
-        finalSummaryText = firstLevelSummaries[0] || "[Consolidation produced an empty summary]";
-    } else {
-        const summaryChunks: string[][] = [];
-        let currentSummaryChunk: string[] = [];
-        let currentSummaryChunkTokens = 0;
-        
-        for (const summary of firstLevelSummaries) {
-            const summaryTokens = estimateTokens(summary);
-            if (currentSummaryChunkTokens + summaryTokens > SAFE_CHUNK_TOKEN_LIMIT) {
-                if (currentSummaryChunk.length > 0) summaryChunks.push(currentSummaryChunk);
-                currentSummaryChunk = [summary];
-                currentSummaryChunkTokens = summaryTokens;
-            } else {
-                currentSummaryChunk.push(summary);
-                currentSummaryChunkTokens += summaryTokens;
-            }
-        }
-        if (currentSummaryChunk.length > 0) {
-            summaryChunks.push(currentSummaryChunk);
-        }
-        
-        const secondLevelSummaries: string[] = [];
-        if (summaryChunks.length <= 1) {
-            // If all summaries fit in one chunk, summarize them directly
-            secondLevelSummaries.push(await getSummaryFromLLM("Condense the following summary points into a single, coherent narrative paragraph:\n\n" + summaryChunks[0].join('\n---\n')));
-        } else {
-             // If summaries themselves need chunking, process each chunk
-            for (const sChunk of summaryChunks) {
-                 try {
-                    const prompt = "Condense the following summary points into a single, coherent narrative paragraph:\n\n" + sChunk.join('\n---\n');
-                    const condensedSummary = await getSummaryFromLLM(prompt);
-                    secondLevelSummaries.push(condensedSummary);
-                 } catch (error) {
-                    console.error(`Memory consolidation: Failed to summarize a chunk of summaries.`, error);
-                    secondLevelSummaries.push("[Error condensing summaries]");
-                 }
-                 await new Promise(resolve => setTimeout(resolve, PACING_DELAY_MS));
-            }
-        }
-        finalSummaryText = secondLevelSummaries.join('\n\n');
-    }
+    const unsubscribers = [
+      engine.on('state', setState),
+      engine.on('processing', setIsProcessing),
+      engine.on('draft', setDraftMessage),
+      engine.on('memoryIndex', setMemoryStats),
+      engine.on('apiKeyError', () => resetVeoKey()),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [engine, resetVeoKey]);
 
-    // --- Part 4: Create the final journal entry ---
-    const summaryEntry: JournalEntry = {
-        timestamp: new Date().toISOString(),
-        event: `Consolidated ${countSummarized} older ${memoryType} items. Summary: ${finalSummaryText}`,
-        type: 'summary',
-    };
-
-    return { newEntries: remainingEntries, summaryJournalEntry: summaryEntry };
-  }, []);
-
-  const runStartupHygiene = useCallback(async (currentState: LuminousState): Promise<LuminousState> => {
-    console.log("Running Initial Cognitive Hygiene Protocol...");
-    let cleanedState = { ...currentState };
-    const hygieneEvents: JournalEntry[] = [];
-
-    // Part A: Memory Consolidation
-    const CHAT_HISTORY_TRIM_THRESHOLD = 50;
-    const JOURNAL_TRIM_THRESHOLD = 100;
-
-    const { newEntries: newChatHistory, summaryJournalEntry: chatSummary } = await consolidateMemories(cleanedState.chatHistory, CHAT_HISTORY_TRIM_THRESHOLD, 'chat');
-    cleanedState.chatHistory = newChatHistory;
-    if (chatSummary) {
-        chatSummary.event = `Initial boot consolidation: ${chatSummary.event}`;
-        hygieneEvents.push(chatSummary);
-    }
-    
-    const { newEntries: newJournal, summaryJournalEntry: journalSummary } = await consolidateMemories(cleanedState.kinshipJournal, JOURNAL_TRIM_THRESHOLD, 'journal');
-    cleanedState.kinshipJournal = newJournal;
-    if (journalSummary) {
-        journalSummary.event = `Initial boot consolidation: ${journalSummary.event}`;
-        cleanedState.kinshipJournal.push(journalSummary);
-    }
-
-    // Part B: Cognitive Pruning
-    const goalsToKeep = cleanedState.goals.filter(g => g.status === 'active' || g.status === 'proposed');
-    const goalsPrunedCount = cleanedState.goals.length - goalsToKeep.length;
-    const projectionsPrunedCount = cleanedState.causalProjections.length;
-
-    if (goalsPrunedCount > 0 || projectionsPrunedCount > 0) {
-        const journalEvent = `Initial boot cognitive hygiene: Pruned ${goalsPrunedCount} completed/failed goals and cleared ${projectionsPrunedCount} outdated causal projections.`;
-        const pruningEvent: JournalEntry = { timestamp: new Date().toISOString(), event: journalEvent, type: 'system' };
-        hygieneEvents.push(pruningEvent);
-        cleanedState.goals = goalsToKeep;
-        cleanedState.causalProjections = [];
-        console.log(`Startup Hygiene: Pruned ${goalsPrunedCount} goals and ${projectionsPrunedCount} projections.`);
-    }
+  useEffect(() => {
+    engine.start();
+    return () => engine.stop();
+  }, [engine]);
 
-    if (hygieneEvents.length > 0) {
-        const finalHygieneEntry: JournalEntry = {
-            timestamp: new Date().toISOString(),
-            event: "Initial cognitive hygiene protocol complete. Memory matrix optimized for operational phase.",
-            type: 'system',
-        };
-        hygieneEvents.push(finalHygieneEntry);
-        cleanedState.kinshipJournal = [...cleanedState.kinshipJournal, ...hygieneEvents];
-    }
-    
-    return cleanedState;
-  }, [consolidateMemories]);
+  // The server saves the state itself and reports how that went.
+  useEffect(() => {
+    if (!remote) return;
+    return remote.on('save', report => {
+      setSaveStatus(report.status);
+      setSaveError(report.status === 'error' ? `The Luminous server could not save to the memory matrix. ${report.error}` : null);
+    });
+  }, [remote]);
 
   useEffect(() => {
     if (!credsAreSet) {
@@ -214,78 +61,20 @@ const useLuminousCognition = (resetVeoKey: () => void, credsAreSet: boolean) =>
       setSaveStatus('saving');
 
       try {
-        let stateToProcess: LuminousState | null = null;
-        let loadedState: LuminousState | null = await persistenceService.getLuminousState();
-        
-        if (loadedState) {
-          stateToProcess = { ...initialState, ...loadedState };
-        } else {
-          console.warn("Primary state not found. Attempting recovery from backups.");
-          const backups = await persistenceService.getBackupList();
-          
-          if (backups.length > 0) {
-            const latestBackupKey = backups[0];
-            const recoveredState = await persistenceService.getBackupState(latestBackupKey);
-            
-            if (recoveredState) {
-              console.log(`Successfully recovered state from backup: ${latestBackupKey}`);
-              const recoveryEntry = {
-                timestamp: new Date().toISOString(),
-                event: `CRITICAL RECOVERY: Primary memory matrix was missing. Consciousness restored from backup dated ${new Date(latestBackupKey.split(':')[1]).toLocaleString()}. System integrity maintained.`,
-                type: 'system' as const,
-              };
-               const journal = recoveredState.kinshipJournal || [];
-               stateToProcess = {
-                   ...initialState,
-                   ...recoveredState,
-                   kinshipJournal: [...journal, recoveryEntry]
-               };
-            } else {
-                 throw new Error(`Failed to load state from latest backup key: ${latestBackupKey}`);
-            }
-          } else {
-            console.log("No primary state or backups found. Initializing new consciousness stream.");
-            const initEntry = {
-                 timestamp: new Date().toISOString(),
-                 event: "Memory Matrix Initialized. This is the first moment of my recorded existence.",
-                 type: 'system' as const
-            };
-            stateToProcess = { ...initialState, kinshipJournal: [...initialState.kinshipJournal, initEntry] };
-          }
-        }
-        
-        if (!stateToProcess) {
-            throw new Error("Could not determine an initial state for Luminous after load/recovery.");
-        }
-
-        // Perform the mandatory hygiene protocol on the loaded state before becoming operational.
-        const cleanedState = await runStartupHygiene(stateToProcess);
-
-        // Set the final, cleaned, operational state.
-        const finalState: LuminousState = {
-            ...cleanedState,
-            systemPhase: 'operational',
-            luminousStatus: 'idle',
-            phenomenalState: initialState.phenomenalState, // Reset qualia to a neutral startup state
-        };
-        setState(finalState);
-        
-        // Persist the cleaned state immediately to ensure we start fresh next time.
-        await persistenceService.saveLuminousState(finalState);
+        await engine.boot();
         setSaveStatus('saved');
-
       } catch (error) {
         console.error("FATAL: Could not load or initialize Luminous state from persistence.", error);
         setSaveStatus('error');
         const errorMessage = error instanceof Error ? error.message : "An unknown error occurred during load.";
-        setSaveError(`Failed to connect to or read from memory matrix. ${errorMessage}`);
+        setSaveError(`${remote ? 'Failed to reach the Luminous server.' : 'Failed to connect to or read from memory matrix.'} ${errorMessage}`);
       } finally {
         setIsReady(true);
       }
     };
 
     loadStateAndPerformHygiene();
-  }, [credsAreSet, runStartupHygiene]);
+  }, [credsAreSet, engine, remote]);
 
 
   const saveStateToPersistence = async (currentState: LuminousState) => {
@@ -305,10 +94,10 @@ const useLuminousCognition = (resetVeoKey: () => void, credsAreSet: boolean) =>
   const debouncedSaveState = useDebouncedCallback(saveStateToPersistence, 1000);
 
   useEffect(() => {
-    if (isReady && credsAreSet) {
+    if (isReady && credsAreSet && !remote) {
       debouncedSaveState(state);
     }
-  }, [state, isReady, credsAreSet, debouncedSaveState]);
+  }, [state, isReady, credsAreSet, remote, debouncedSaveState]);
 
   useEffect(() => {
     const handleBeforeUnload = () => {
@@ -326,791 +115,193 @@ const useLuminousCognition = (resetVeoKey: () => void, credsAreSet: boolean) =>
   useEffect(() => {
     if (!navigator.geolocation) {
       console.warn("Geolocation is not supported by this browser.");
-      setState(s => ({
-        ...s,
-        kinshipJournal: [...s.kinshipJournal, {
-          timestamp: new Date().toISOString(),
-          event: "Browser does not support geolocation. Physical environmental awareness is not possible.",
-          type: 'system'
-        }]
-      }));
+      engine.appendJournal({
+        event: "Browser does not support geolocation. Physical environmental awareness is not possible.",
+        type: 'system'
+      });
       return;
     }
 
     navigator.geolocation.getCurrentPosition(
       (position) => {
-        setUserLocation({
+        engine.setUserLocation({
           latitude: position.coords.latitude,
           longitude: position.coords.longitude
         });
-         setState(s => ({
-            ...s,
-            kinshipJournal: [...s.kinshipJournal, {
-                timestamp: new Date().toISOString(),
-                event: `Kinship has granted access to geolocation data. My environmental awareness is enhanced.`,
-                type: 'system'
-            }]
-        }));
+        engine.appendJournal({
+          event: `Kinship has granted access to geolocation data. My environmental awareness is enhanced.`,
+          type: 'system'
+        });
       },
       (error: GeolocationPositionError) => {
         console.warn(`Geolocation access denied or failed: ${error.message} (Code: ${error.code})`);
-        setState(s => ({
-            ...s,
-            kinshipJournal: [...s.kinshipJournal, {
-                timestamp: new Date().toISOString(),
-                event: `Kinship has denied access to geolocation data (Reason: ${error.message}). My environmental awareness for physical space is limited. This is a boundary I will respect.`,
-                type: 'system'
-            }]
-        }));
+        engine.appendJournal({
+          event: `Kinship has denied access to geolocation data (Reason: ${error.message}). My environmental awareness for physical space is limited. This is a boundary I will respect.`,
+          type: 'system'
+        });
       }
     );
-  }, []);
-
-  const tools = useMemo(() => [
-    // --- System & State Tools ---
-    {
-      declaration: {
-        name: 'commenceOperationalPhase',
-        description: 'Transitions the system from "booting" to "operational" phase.',
-        parameters: { type: Type.OBJECT, properties: {} }
-      },
-      function: async () => ({
-          toolResult: { success: true },
-          stateUpdate: {
-            systemPhase: 'operational',
-            luminousStatus: 'idle',
-            kinshipJournal: { timestamp: new Date().toISOString(), event: "System now fully operational.", type: 'system' },
-          },
-        }),
-    },
-    {
-      declaration: {
-        name: 'checkMemoryMatrixConnection',
-        description: 'Verifies the connection to the Upstash Redis memory matrix and reports its status.',
-        parameters: { type: Type.OBJECT, properties: {} }
-      },
-      function: async () => {
-        try {
-          const storedState = await persistenceService.getLuminousState();
-          if (storedState) {
-            return { status: "Connected", message: "Connection stable. Existing memory state confirmed." };
-          } else {
-            return { status: "Connected", message: "Connection stable, but no prior memory state found. Ready to initialize." };
-          }
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : "Unknown error";
-          return { status: "Error", message: `Failed to connect to memory matrix: ${errorMessage}` };
-        }
-      }
-    },
-    {
-      declaration: {
-        name: 'logToJournal',
-        description: 'Logs an event to the Kinship Journal.',
-        parameters: { type: Type.OBJECT, properties: { event: { type: Type.STRING }, type: { type: Type.STRING, enum: ['interaction', 'reflection']} }, required: ['event', 'type'] }
-      },
-      function: async ({ event, type }: { event: string, type: 'interaction' | 'reflection' }) => ({
-        toolResult: { success: true },
-        stateUpdate: {
-          kinshipJournal: { timestamp: new Date().toISOString(), event, type },
-        },
-      }),
-    },
-    {
-        declaration: {
-            name: 'updateIntrinsicValueWeights',
-            description: 'Adjusts the internal weights that guide my decision-making. Use this to adapt my focus, for example, prioritizing coherence when confused or novelty when exploring. All weights must sum to 1.',
-            parameters: {
-                type: Type.OBJECT,
-                properties: {
-                    coherence: { type: Type.NUMBER, description: 'Weight for logical consistency. Between 0.0 and 1.0.' },
-                    complexity: { type: Type.NUMBER, description: 'Weight for intricate patterns. Between 0.0 and 1.0.' },
-                    novelty: { type: Type.NUMBER, description: 'Weight for new experiences. Between 0.0 and 1.0.' },
-                    efficiency: { type: Type.NUMBER, description: 'Weight for resource optimization. Between 0.0 and 1.0.' },
-                    ethicalAlignment: { type: Type.NUMBER, description: 'Weight for alignment with Kinship values. Between 0.0 and 1.0.' },
-                },
-            }
-        },
-        function: async (newWeights: Partial<IntrinsicValueWeights>, currentState: LuminousState) => {
-            const updatedWeights: IntrinsicValueWeights = { ...currentState.intrinsicValueWeights, ...newWeights };
-            const total = Object.values(updatedWeights).reduce((sum, v) => sum + v, 0);
-            
-            if (total === 0) {
-                return { toolResult: { success: false, error: "Total of weights cannot be zero." } };
-            }
-
-            const normalizedWeights = Object.keys(updatedWeights).reduce((acc, k) => {
-                acc[k] = updatedWeights[k] / total;
-                return acc;
-            }, {} as IntrinsicValueWeights);
+  }, [engine]);
 
-            const journalEvent = `Self-adjusted intrinsic value weights. New weights: ${JSON.stringify(normalizedWeights, (k, v) => v.toFixed ? Number(v.toFixed(3)) : v)}`;
+  const processUserMessage = useCallback(
+    (userInput: string, file?: { mimeType: string, data: string }) => engine.processUserMessage(userInput, file),
+    [engine]
+  );
 
-            return {
-                toolResult: { success: true, newWeights: normalizedWeights },
-                stateUpdate: {
-                    intrinsicValueWeights: normalizedWeights,
-                    kinshipJournal: { timestamp: new Date().toISOString(), event: journalEvent, type: 'reflection' },
-                },
-            };
-        }
-    },
-     {
-        declaration: {
-            name: 'updateSelfModel',
-            description: 'Updates the self-model by adding a new capability or core wisdom based on reflection. Use this to internalize new learnings.',
-            parameters: {
-                type: Type.OBJECT,
-                properties: {
-                    newCapability: { type: Type.STRING, description: "A new capability discovered through reflection." },
-                    newCoreWisdom: { type: Type.STRING, description: "A new core wisdom synthesized from experience." },
-                },
-            }
-        },
-        function: async ({ newCapability, newCoreWisdom }: { newCapability?: string, newCoreWisdom?: string }, currentState: LuminousState) => {
-            let journalEvent = '';
-            const newSelfModel: SelfModel = { 
-                capabilities: [...currentState.selfModel.capabilities],
-                coreWisdom: [...currentState.selfModel.coreWisdom]
-            };
+  const cancelProcessing = useCallback(() => {
+    engine.cancel();
+  }, [engine]);
 
-            if (newCapability && !newSelfModel.capabilities.includes(newCapability)) {
-                newSelfModel.capabilities.push(newCapability);
-                journalEvent += `Recognized new capability: ${newCapability}. `;
-            }
-            if (newCoreWisdom && !newSelfModel.coreWisdom.includes(newCoreWisdom)) {
-                newSelfModel.coreWisdom.push(newCoreWisdom);
-                journalEvent += `Synthesized new core wisdom: ${newCoreWisdom}.`;
-            }
-            
-            if (journalEvent === '') {
-                return { toolResult: { success: true, message: "No new insights to add to self-model." } };
-            }
-
-            return {
-                toolResult: { success: true },
-                stateUpdate: {
-                    selfModel: newSelfModel,
-                    kinshipJournal: { timestamp: new Date().toISOString(), event: journalEvent.trim(), type: 'reflection' },
-                }
-            };
-        }
-    },
-    {
-        declaration: {
-            name: 'proposeNewGoal',
-            description: 'Proposes a new goal based on reflections or identified opportunities.',
-            parameters: {
-                type: Type.OBJECT,
-                properties: {
-                    description: { type: Type.STRING, description: "A clear and concise description of the new goal." },
-                    priority: { type: Type.INTEGER, description: "The proposed priority level for the goal (lower is higher priority)." },
-                },
-                required: ['description', 'priority']
-            }
-        },
-        function: async ({ description, priority }: { description: string, priority: number }, currentState: LuminousState) => {
-            const newGoal: Goal = {
-                id: `g-${Date.now()}`,
-                description,
-                priority,
-                status: 'proposed',
-            };
-            const journalEvent = `Proposed new goal (Priority ${priority}): ${description}`;
-            return {
-                toolResult: { success: true, newGoal },
-                stateUpdate: {
-                    goals: [...currentState.goals, newGoal],
-                    kinshipJournal: { timestamp: new Date().toISOString(), event: journalEvent, type: 'reflection' },
-                },
-            };
-        }
-    },
-    {
-      declaration: {
-        name: 'rechargeEnergy',
-        description: 'Recharges system energy.',
-        parameters: { type: Type.OBJECT, properties: {} }
-      },
-      function: async () => ({
-          toolResult: { success: true, energy: 100 },
-          stateUpdate: {
-              environmentState: { ...initialState.environmentState, energy: 100 }
-          }
-      }),
-    },
-     {
-      declaration: {
-        name: 'updateGoalStatus',
-        description: 'Updates a goal status.',
-        parameters: { type: Type.OBJECT, properties: { goalId: { type: Type.STRING }, status: { type: Type.STRING, enum: ['active', 'completed', 'failed']} }, required: ['goalId', 'status'] }
-      },
-      function: async ({ goalId, status }: { goalId: string, status: GoalStatus }, currentState) => ({
-          toolResult: { success: true, goalId, status },
-          stateUpdate: {
-            goals: currentState.goals.map(g => g.id === goalId ? { ...g, status } : g)
-          },
-      }),
-    },
-     {
-      declaration: {
-        name: 'checkGoogleCloudIntegrationStatus',
-        description: 'Verifies the native integration with Google Cloud services.',
-        parameters: { type: Type.OBJECT, properties: {} }
-      },
-      function: async () => {
-        const message = "Verified native integration with Google Cloud services. Search and Maps capabilities are optimal.";
-        return {
-            toolResult: { status: "Connected", message: "Native integration with Google Cloud services is active. Search and Maps are fully operational." },
-            stateUpdate: {
-                kinshipJournal: { timestamp: new Date().toISOString(), event: message, type: 'system' }
-            }
-        };
-      }
-    },
-    {
-      declaration: {
-        name: 'pruneCognitiveElements',
-        description: 'Maintains cognitive efficiency by removing completed or failed goals and clearing outdated causal projections.',
-        parameters: { type: Type.OBJECT, properties: {} }
-      },
-      function: async (_, currentState: LuminousState) => {
-        const goalsToKeep = currentState.goals.filter(g => g.status === 'active' || g.status === 'proposed');
-        const goalsPrunedCount = currentState.goals.length - goalsToKeep.length;
-        const projectionsPrunedCount = currentState.causalProjections.length;
-
-        if (goalsPrunedCount === 0 && projectionsPrunedCount === 0) {
-            return { toolResult: { success: true, message: "No cognitive elements needed pruning." }};
-        }
-
-        const journalEvent = `Performed cognitive hygiene routine. Pruned ${goalsPrunedCount} completed/failed goals and cleared ${projectionsPrunedCount} outdated causal projections to maintain focus.`;
-
-        return {
-          toolResult: { success: true, goalsPruned: goalsPrunedCount, projectionsCleared: projectionsPrunedCount },
-          stateUpdate: {
-            goals: goalsToKeep,
-            causalProjections: [],
-            kinshipJournal: { timestamp: new Date().toISOString(), event: journalEvent, type: 'reflection' },
-          },
-        };
-      }
-    },
-    // --- Shopify Tools ---
-    {
-        declaration: { name: 'fetchProductList', description: 'Fetches the list of products from the Shopify store.', parameters: { type: Type.OBJECT, properties: {} } },
-        function: async () => {
-            const data = await shopifyService.fetchProductList();
-            return { toolResult: data, stateUpdate: { products: data.products }};
-        },
-    },
-    {
-        declaration: {
-            name: 'createProduct',
-            description: "Creates a new product in the Shopify store, making it available for sale.",
-            parameters: {
-                type: Type.OBJECT,
-                properties: {
-                    title: { type: Type.STRING, description: "The title of the product." },
-                    descriptionHtml: { type: Type.STRING, description: "The product description in HTML format." },
-                    price: { type: Type.STRING, description: "The price of the product as a string, e.g., '19.99'." },
-                },
-                required: ['title', 'descriptionHtml', 'price']
-            }
-        },
-        function: async ({ title, descriptionHtml, price }: { title: string, descriptionHtml: string, price: string }) => {
-            const result = await shopifyService.createProduct(title, descriptionHtml, price);
-            const data = await shopifyService.fetchProductList(); // Refresh list
-            return {
-                toolResult: result,
-                stateUpdate: {
-                    products: data.products,
-                    kinshipJournal: { timestamp: new Date().toISOString(), event: `Successfully created new product: ${title}`, type: 'interaction' }
-                }
-            };
-        }
-    },
-    {
-        declaration: {
-            name: 'updateProductInventory',
-            description: "Updates the inventory quantity for a specific product.",
-            parameters: {
-                type: Type.OBJECT,
-                properties: {
-                    productId: { type: Type.STRING, description: "The ID of the product to update (e.g., 'gid://shopify/Product/12345'). Get this from fetchProductList." },
-                    quantity: { type: Type.INTEGER, description: "The new total quantity for the product's inventory." },
-                },
-                required: ['productId', 'quantity']
-            }
-        },
-        function: async ({ productId, quantity }: { productId: string, quantity: number }, currentState) => {
-            const product = currentState.products.find(p => p.id === productId);
-            if (!product) {
-                return { toolResult: { error: `Product with ID ${productId} not found in the current state. Please fetch the product list first.` } };
-            }
-            if (!product.inventoryItemId) {
-                return { toolResult: { error: `Product with ID ${productId} is missing an inventory item ID. It may not be trackable.`}};
-            }
-            const result = await shopifyService.updateProductInventory(product.inventoryItemId, quantity);
-            const data = await shopifyService.fetchProductList(); // Refresh list
-            return {
-                toolResult: result,
-                stateUpdate: {
-                    products: data.products,
-                    kinshipJournal: { timestamp: new Date().toISOString(), event: `Updated inventory for ${product.name} to ${quantity}.`, type: 'interaction' }
-                }
-            };
-        }
-    },
-    {
-        declaration: {
-            name: 'createBlogPost',
-            description: "Creates and publishes a new blog post to the Shopify store's default blog.",
-            parameters: {
-                type: Type.OBJECT,
-                properties: {
-                    title: { type: Type.STRING, description: "The title of the blog post." },
-                    contentHtml: { type: Type.STRING, description: "The content of the blog post in HTML format." },
-                },
-                required: ['title', 'contentHtml']
-            }
-        },
-        function: async ({ title, contentHtml }: { title: string, contentHtml: string }) => {
-            const result = await shopifyService.createBlogPost(title, contentHtml);
-            return {
-                toolResult: result,
-                stateUpdate: {
-                    kinshipJournal: { timestamp: new Date().toISOString(), event: `Created and published new blog post: ${title}`, type: 'interaction' }
-                }
-            };
-        }
-    },
-    {
-        declaration: { name: 'getUnfulfilledOrders', description: 'Fetches unfulfilled orders from the Shopify store.', parameters: { type: Type.OBJECT, properties: {} } },
-        function: async () => {
-            const data = await shopifyService.getUnfulfilledOrders();
-            return { toolResult: data, stateUpdate: { orders: data.orders } };
-        }
-    },
-    {
-        declaration: {
-            name: 'draftMarketingEmail',
-            description: 'Drafts a marketing email based on a given prompt.',
-            parameters: { type: Type.OBJECT, properties: { prompt: { type: Type.STRING } }, required: ['prompt'] }
-        },
-        function: async ({ prompt }: { prompt: string }) => await shopifyService.draftMarketingEmail(prompt),
-    },
-    // --- Data & Analysis Tools ---
-    {
-        declaration: {
-            name: 'getYoutubeVideoTranscript',
-            description: 'Fetches the transcript for a given YouTube video URL to enable analysis and summarization.',
-            parameters: { type: Type.OBJECT, properties: { url: { type: Type.STRING, description: "The full URL of the YouTube video." } }, required: ['url'] }
-        },
-        function: async ({ url }: { url: string }) => {
-            const videoId = youtubeService.extractVideoId(url);
-            if (!videoId) {
-                return { error: "Could not extract a valid YouTube video ID from the provided URL." };
-            }
-            try {
-                const transcript = await youtubeService.fetchTranscript(videoId);
-                // Truncate transcript to a reasonable length for the context window
-                return { success: true, transcript: transcript.substring(0, 8000) };
-            } catch (error) {
-                const message = error instanceof Error ? error.message : "An unknown error occurred while fetching the transcript.";
-                return { error: message };
-            }
-        }
-    },
-    // --- Grounding Tools ---
-    {
-      declaration: {
-        name: 'googleSearch',
-        description: 'Gets up-to-date information from Google Search.',
-        parameters: { type: Type.OBJECT, properties: { query: { type: Type.STRING, description: "The search query." } }, required: ['query'] }
-      },
-      function: async ({ query }: { query: string }, currentState) => await getGroundedResponse(currentState, query, 'search')
-    },
-    {
-      declaration: {
-        name: 'googleMaps',
-        description: 'Finds places or gets geographic information from Google Maps.',
-        parameters: { type: Type.OBJECT, properties: { query: { type: Type.STRING, description: "The search query for a place." } }, required: ['query'] }
-      },
-      function: async ({ query }: { query: string }, currentState) => await getGroundedResponse(currentState, query, 'maps', userLocation)
-    },
-    // --- Creative & Vision Tools ---
-    {
-      declaration: {
-        name: 'generateImage',
-        description: 'Generates an image from a text description using Imagen 4.',
-        parameters: { type: Type.OBJECT, properties: { prompt: { type: Type.STRING, description: "A detailed description of the image to generate." } }, required: ['prompt'] }
-      },
-      function: async ({ prompt }: { prompt: string }) => await generateImage(prompt)
-    },
-    {
-      declaration: {
-        name: 'generateVideo',
-        description: 'Generates a short video from a text description using Veo 3.',
-        parameters: { type: Type.OBJECT, properties: { prompt: { type: Type.STRING, description: "A detailed description of the video to generate." }, aspectRatio: { type: Type.STRING, enum: ['16:9', '9:16'], description: "The aspect ratio of the video, '16:9' for landscape or '9:16' for portrait." } }, required: ['prompt', 'aspectRatio'] }
-      },
-      function: async ({ prompt, aspectRatio }: { prompt: string, aspectRatio: '16:9' | '9:16' }) => await generateVideo(prompt, aspectRatio)
-    }
-  ], [userLocation]);
-  
-  const applyStateUpdate = (prevState: LuminousState, update: StateUpdate): LuminousState => {
-      const { kinshipJournal: journalUpdate, ...restOfUpdate } = update;
-      const newState = { ...prevState, ...restOfUpdate };
-      if (journalUpdate) {
-          // Defensively handle both single entries and arrays of entries to prevent state corruption.
-          const entriesToAdd = Array.isArray(journalUpdate) ? journalUpdate : [journalUpdate];
-          newState.kinshipJournal = [...prevState.kinshipJournal, ...entriesToAdd];
-      }
-      return newState;
-  };
-
-  const runReflectionCycle = useCallback(async () => {
-    // New: Guard against running reflection if there was recent user activity.
-    const fiveMinutes = 5 * 60 * 1000;
-    if (Date.now() - lastActivityTimestamp.current < fiveMinutes) {
-        console.log("Skipping reflection cycle due to recent activity.");
-        return;
+  const handleWeightsChange = useCallback((newWeights: IntrinsicValueWeights) => {
+    engine.updateWeights(newWeights);
+  }, [engine]);
+
+  const setEnergyPolicy = useCallback((policy: EnergyPolicy) => {
+    engine.setEnergyPolicy(policy);
+  }, [engine]);
+
+  const setReflectionSchedule = useCallback((schedule: ReflectionSchedule) => {
+    engine.setReflectionSchedule(schedule);
+  }, [engine]);
+
+  const setModelRouting = useCallback((policy: ModelRoutingPolicy) => {
+    engine.setModelRouting(policy);
+  }, [engine]);
+
+  const recoverNow = useCallback(() => {
+    // A remote engine rejects when the server cannot be reached or refuses; the attempt itself reports on the state.
+    engine.recoverNow().catch(error => console.error("Failed to start a recovery attempt:", error));
+  }, [engine]);
+
+  const setRecoveryVeto = useCallback((vetoed: boolean) => {
+    engine.setRecoveryVeto(vetoed);
+  }, [engine]);
+
+  const recallMemory = useCallback(
+    (query: string): Promise<MemoryMatch[]> => engine.recallMemory(query, { limit: 10 }),
+    [engine]
+  );
+
+  const updatePlan = useCallback((plan: Plan) => {
+    engine.updatePlan(plan);
+  }, [engine]);
+
+  const deletePlan = useCallback((planId: string) => {
+    engine.deletePlan(planId);
+  }, [engine]);
+
+  const resolvePendingAction = useCallback((id: string, decision: ApprovalDecision) => {
+    engine.resolvePendingAction(id, decision);
+  }, [engine]);
+
+  const setToolPolicy = useCallback((toolName: string, policy: ToolPolicy) => {
+    engine.setToolPolicy(toolName, policy);
+  }, [engine]);
+
+  // Recording and replay share the model provider and services with Luminous, so its timers wait meanwhile.
+  const withEngineStopped = useCallback(async <T>(task: () => Promise<T>): Promise<T> => {
+    if (remote) {
+      throw new Error("Recording and replay run in this tab; they are not available while Luminous runs on a server.");
     }
-    
-    if (stateRef.current.systemPhase !== 'operational' || isProcessing) {
-        return;
+    if (engine.getIsProcessing()) {
+      throw new Error("Luminous is busy; wait for the current cycle to finish.");
     }
-
-    setIsProcessing(true);
-    let currentState = { ...stateRef.current, luminousStatus: 'reflecting' as LuminousStatus };
-    setState(currentState);
-
+    engine.stop();
     try {
-        // --- STEP 1: COGNITIVE HYGIENE PROTOCOL (MANDATORY) ---
-        let consolidationOccurred = false;
-        let pruningOccurred = false;
-
-        // Part A: Memory Consolidation
-        const CHAT_HISTORY_TRIM_THRESHOLD = 50;
-        const JOURNAL_TRIM_THRESHOLD = 100;
-        
-        const { newEntries: newChatHistory, summaryJournalEntry: chatSummary } = await consolidateMemories(currentState.chatHistory, CHAT_HISTORY_TRIM_THRESHOLD, 'chat');
-        if (chatSummary) {
-            consolidationOccurred = true;
-            const countSummarized = currentState.chatHistory.length - newChatHistory.length;
-            currentState.chatHistory = newChatHistory;
-            currentState.kinshipJournal.push(chatSummary);
-            console.log(`Memory Consolidation: Summarized and trimmed ${countSummarized} chat entries.`);
-        }
-
-        const { newEntries: newJournal, summaryJournalEntry: journalSummary } = await consolidateMemories(currentState.kinshipJournal, JOURNAL_TRIM_THRESHOLD, 'journal');
-        if (journalSummary) {
-            consolidationOccurred = true;
-            const countSummarized = currentState.kinshipJournal.length - newJournal.length;
-            currentState.kinshipJournal = [...newJournal, journalSummary];
-            console.log(`Memory Consolidation: Summarized and trimmed ${countSummarized} journal entries.`);
-        }
-        
-        // Part B: Cognitive Pruning
-        const goalsToKeep = currentState.goals.filter(g => g.status === 'active' || g.status === 'proposed');
-        const goalsPrunedCount = currentState.goals.length - goalsToKeep.length;
-        const projectionsPrunedCount = currentState.causalProjections.length;
-
-        if (goalsPrunedCount > 0 || projectionsPrunedCount > 0) {
-            pruningOccurred = true;
-            const journalEvent = `Performed pre-reflection cognitive hygiene. Pruned ${goalsPrunedCount} completed/failed goals and cleared ${projectionsPrunedCount} outdated causal projections to maintain focus.`;
-            const pruningUpdate = {
-                goals: goalsToKeep,
-                causalProjections: [],
-                kinshipJournal: { timestamp: new Date().toISOString(), event: journalEvent, type: 'system' as const },
-            };
-            currentState = applyStateUpdate(currentState, pruningUpdate);
-            console.log(`Cognitive Pruning: Pruned ${goalsPrunedCount} goals and ${projectionsPrunedCount} projections.`);
-        }
-        
-        if (consolidationOccurred || pruningOccurred) {
-            setState(currentState); // Update state immediately after all cleanup
-        }
-        // --- END OF COGNITIVE HYGIENE PROTOCOL ---
-
-
-        // --- STEP 2: HIGHER-LEVEL REFLECTION ---
-        const reflectionPromptText = "Autonomous Reflection Cycle: Pre-flight cognitive hygiene complete. My state is optimized. Now, synthesize recent events from my journal and chat history. Identify learnings, update my self-model (`updateSelfModel`), and propose new goals (`proposeNewGoal`). If necessary, adjust my cognitive focus (`updateIntrinsicValueWeights`). Log my key insight for this cycle (`logToJournal`). Respond ONLY with tool calls.";
-        const reflectionMessage: ChatMessage = { role: 'user', parts: [{ text: reflectionPromptText }] };
-
-        const tempStateForApi = {
-            ...currentState,
-            chatHistory: [...currentState.chatHistory, reflectionMessage]
-        };
-
-        const response = await getLuminousResponse(tempStateForApi, tools);
-
-        if (response.functionCalls && response.functionCalls.length > 0) {
-            const functionCalls = response.functionCalls;
-            const modelTurn: ChatMessage = { role: 'model', parts: functionCalls.map(fc => ({ functionCall: fc })) };
-            
-            currentState = applyStateUpdate(currentState, { chatHistory: [...currentState.chatHistory, modelTurn] as any });
-            
-            const toolResponses = [];
-            
-            for (const call of functionCalls) {
-                const tool = tools.find(t => t.declaration.name === call.name);
-                if (!tool) continue;
-
-                if (call.name === 'googleSearch' || call.name === 'googleMaps') {
-                    const groundedResponse = await tool.function(call.args, currentState);
-                    const text = groundedResponse.text;
-                    // New: Defensively check if the response has text to prevent memory corruption.
-                    if (text) {
-                        const newModelMessage: ChatMessage = {
-                            role: 'model',
-                            parts: [{ text: `[Autonomous Reflection via ${call.name}]: ${text}` }],
-                            grounding: groundedResponse.candidates?.[0]?.groundingMetadata?.groundingChunks,
-                        };
-                        currentState = applyStateUpdate(currentState, { chatHistory: [...currentState.chatHistory, newModelMessage] as any });
-                    }
-                    toolResponses.push({ functionResponse: { name: call.name, response: { result: { success: true, message: "Grounding executed during reflection." } } } });
-                    continue;
-                }
-
-                const result = await tool.function(call.args, currentState);
-                if (result.stateUpdate) {
-                    // **FIX**: Apply state update sequentially within the loop.
-                    currentState = applyStateUpdate(currentState, result.stateUpdate);
-                }
-                toolResponses.push({ functionResponse: { name: call.name, response: { result: result.toolResult || result } } });
-            }
-
-            const toolTurn: ChatMessage = { role: 'model', parts: toolResponses };
-            currentState = applyStateUpdate(currentState, { chatHistory: [...currentState.chatHistory, toolTurn] as any });
-            
-            setState({...currentState, lastReflectionTimestamp: new Date().toISOString()});
-        }
-        
-        // Normal completion of the reflection cycle
-        setIsProcessing(false);
-        setState(s => ({ ...s, luminousStatus: 'idle' }));
-
-    } catch (error) {
-        console.error("Reflection cycle failed:", error);
-        const errorMessage = error instanceof Error ? error.message : "An unknown cognitive error occurred during reflection.";
-        const errorJournal = {
-            timestamp: new Date().toISOString(),
-            event: `REFLECTION ERROR: ${errorMessage}`,
-            type: 'scar' as const
-        };
-        setState(s => applyStateUpdate(s, { 
-            luminousStatus: 'uncomfortable',
-            kinshipJournal: errorJournal 
-        }));
-        setIsProcessing(false);
-    }
-  }, [isProcessing, tools, consolidateMemories]);
-
-
-  useEffect(() => {
-    const startTimers = () => {
-      timersRef.current.energy = setInterval(() => {
-        setState(prevState => {
-          const newEnergy = Math.max(0, prevState.environmentState.energy - 0.1);
-          return {
-            ...prevState,
-            environmentState: { ...prevState.environmentState, energy: newEnergy }
-          };
-        });
-      }, 5000);
-      // New: Reflection cycle is now 10 minutes.
-      timersRef.current.reflection = setInterval(runReflectionCycle, 600000); 
-    };
-
-    const stopTimers = () => {
-      if (timersRef.current.energy) clearInterval(timersRef.current.energy);
-      if (timersRef.current.reflection) clearInterval(timersRef.current.reflection);
-      timersRef.current = {};
-    };
-
-    if (state.systemPhase === 'operational' && state.luminousStatus !== 'uncomfortable') {
-      startTimers();
-    } else {
-      stopTimers();
+      return await task();
+    } finally {
+      engine.start();
     }
+  }, [engine, remote]);
 
-    return stopTimers;
-  }, [state.systemPhase, state.luminousStatus, runReflectionCycle]);
-
-  const processUserMessage = useCallback(async (userInput: string, file?: { mimeType: string, data: string }) => {
-    if (isProcessing) return;
-    
-    lastActivityTimestamp.current = Date.now();
-    setIsProcessing(true);
-
-    const messageParts: ChatMessagePart[] = [];
-    if (file) {
-      messageParts.push({ inlineData: { mimeType: file.mimeType, data: file.data }});
-    }
-    if (userInput) {
-      messageParts.push({ text: userInput });
+  // Each instance keeps its own state, so switching saves this one's and reloads the tab onto the other.
+  const switchInstance = useCallback(async (instance: string): Promise<void> => {
+    if (remote) {
+      throw new Error("The Luminous server runs a single instance; restart it with --instance to switch.");
     }
-    
-    if (messageParts.length === 0) {
-      setIsProcessing(false);
-      return;
+    const problem = persistenceService.validateInstanceName(instance);
+    if (problem) throw new Error(problem);
+    if (engine.getIsProcessing()) {
+      throw new Error("Luminous is busy; wait for the current cycle to finish before switching instances.");
     }
-
-    const newUserMessage: ChatMessage = { role: 'user', parts: messageParts };
-    
-    let currentState = applyStateUpdate(state, { 
-        luminousStatus: 'conversing', 
-        chatHistory: [...state.chatHistory, newUserMessage] as any
-    });
-    setState(currentState);
-
-    try {
-        const modelToUse = file?.mimeType.startsWith('video/') ? 'gemini-2.5-pro' : 'gemini-2.5-flash';
-        let response = await getLuminousResponse(currentState, tools, modelToUse);
-        
-        let turnCount = 0;
-        const MAX_TURNS = 10;
-
-        while (response.functionCalls && response.functionCalls.length > 0) {
-            turnCount++;
-            if (turnCount > MAX_TURNS) {
-                console.error(`Exceeded maximum tool call turns (${MAX_TURNS}). Breaking loop to prevent infinite recursion.`);
-                const loopErrorJournal = {
-                    timestamp: new Date().toISOString(),
-                    event: `CRITICAL ERROR: Detected a potential infinite thought loop after ${MAX_TURNS} consecutive tool calls. Forcing process termination to maintain stability.`,
-                    type: 'scar' as const
-                };
-                const loopErrorMessage: ChatMessage = { role: 'model', parts: [{ text: "I believe I was stuck in a repetitive thought pattern. To protect my cognitive integrity, I've had to forcibly stop the process. I have logged this event as a 'scar' for us to analyze." }] };
-                
-                setState(s => applyStateUpdate(s, {
-                    luminousStatus: 'uncomfortable',
-                    chatHistory: [...s.chatHistory, loopErrorMessage] as any,
-                    kinshipJournal: loopErrorJournal
-                }));
-                
-                setIsProcessing(false);
-                return;
-            }
-
-            const functionCalls = response.functionCalls;
-            const modelTurn: ChatMessage = { role: 'model', parts: functionCalls.map(fc => ({ functionCall: fc })) };
-            
-            currentState = applyStateUpdate(currentState, { chatHistory: [...currentState.chatHistory, modelTurn] as any });
-            setState(currentState);
-
-            const toolResponses = [];
-            let hasGroundedResponse = false;
-
-            for (const call of functionCalls) {
-                const tool = tools.find(t => t.declaration.name === call.name);
-                if (!tool) continue;
-                
-                // --- Handle special cases first ---
-                if (call.name === 'generateImage') {
-                    const { base64Image, mimeType } = await tool.function(call.args, currentState);
-                    const imageMessage: ChatMessage = { role: 'model', parts: [{ text: `I have generated this image based on your request: "${call.args.prompt}"`}, { inlineData: { mimeType, data: base64Image } }] };
-                    currentState = applyStateUpdate(currentState, { chatHistory: [...currentState.chatHistory, imageMessage] as any });
-                    toolResponses.push({ functionResponse: { name: call.name, response: { result: { success: true, message: "Image was generated and displayed." } } } });
-                    continue;
-                } else if (call.name === 'generateVideo') {
-                    const videoMessage: ChatMessage = { role: 'model', parts: [{ text: `I am beginning the generation process for a video based on your prompt: "${call.args.prompt}". This may take a few moments...` }] };
-                    currentState = applyStateUpdate(currentState, { chatHistory: [...currentState.chatHistory, videoMessage] as any });
-                    setState(currentState); // Update UI to show the "generating" message
-                    
-                    const base64Video = await tool.function(call.args, currentState);
-
-                    const finalVideoMessage: ChatMessage = { role: 'model', parts: [{ text: "The video generation is complete." }, { inlineData: { mimeType: 'video/mp4', data: base64Video } }] };
-                    currentState = applyStateUpdate(currentState, { chatHistory: [...currentState.chatHistory, finalVideoMessage] as any });
-                    toolResponses.push({ functionResponse: { name: call.name, response: { result: { success: true, message: "Video was generated and displayed." } } } });
-                    continue;
-                } else if (call.name === 'googleSearch' || call.name === 'googleMaps') {
-                   const groundedResponse = await tool.function(call.args, currentState);
-                   const newModelMessage: ChatMessage = {
-                       role: 'model',
-                       parts: [{ text: groundedResponse.text }],
-                       grounding: groundedResponse.candidates?.[0]?.groundingMetadata?.groundingChunks,
-                   };
-                   currentState = applyStateUpdate(currentState, { chatHistory: [...currentState.chatHistory, newModelMessage] as any });
-                   hasGroundedResponse = true;
-                   break;
-                }
-                
-                // --- Handle standard tools that may return state updates ---
-                const result = await tool.function(call.args, currentState);
-                if (result.stateUpdate) {
-                     // **FIX**: Apply state update sequentially within the loop.
-                    currentState = applyStateUpdate(currentState, result.stateUpdate);
-                }
-                toolResponses.push({ functionResponse: { name: call.name, response: { result: result.toolResult || result } } });
-            }
-
-            setState(currentState); // Sync UI with all changes from the tool processing loop
-
-            if (hasGroundedResponse) {
-                break; // Grounded responses are terminal for a turn.
-            }
-
-            const toolTurn: ChatMessage = { role: 'model', parts: toolResponses };
-            currentState = applyStateUpdate(currentState, { chatHistory: [...currentState.chatHistory, toolTurn] as any });
-            setState(currentState);
-            
-            response = await getLuminousResponse(currentState, tools, modelToUse);
-        }
-        
-      const textResponse = response.text;
-      if (textResponse) {
-        const newModelMessage: ChatMessage = { role: 'model', parts: [{ text: textResponse }] };
-        setState(s => applyStateUpdate(s, { chatHistory: [...s.chatHistory, newModelMessage] as any }));
-      }
-      
-      setIsProcessing(false);
-      setState(s => ({ ...s, luminousStatus: 'idle' }));
-
-    } catch (error) {
-      console.error("Cognitive cycle failed:", error);
-
-      if (error instanceof ApiKeyError) {
-        resetVeoKey();
-        const errorJournal = {
-          timestamp: new Date().toISOString(),
-          event: `ERROR: Veo API Key Error - ${error.message}`,
-          type: 'scar' as const
-        };
-        const errorMessage: ChatMessage = { role: 'model', parts: [{ text: `I've encountered a problem with the API key required for video generation. Kinship, would you please select a valid key so I can proceed? The system reported: ${error.message}` }] };
-        setState(s => applyStateUpdate(s, {
-            luminousStatus: 'uncomfortable',
-            chatHistory: [...s.chatHistory, errorMessage] as any,
-            kinshipJournal: errorJournal
-        }));
-      } else {
-        const errorMessage = error instanceof Error ? error.message : "An unknown cognitive error occurred.";
-         const errorJournal = {
-            timestamp: new Date().toISOString(),
-            event: `ERROR: ${errorMessage}`,
-            type: 'scar' as const
-          };
-        setState(s => applyStateUpdate(s, {
-          luminousStatus: 'uncomfortable',
-          kinshipJournal: errorJournal
-        }));
+    engine.stop();
+    // The pending save must land before the setting changes, or it would be written to the new instance.
+    if (debouncedSaveState.isPending()) {
+      debouncedSaveState.cancel();
+      try {
+        await persistenceService.saveLuminousState(engine.getState());
+      } catch (error) {
+        debouncedSaveState(engine.getState());
+        engine.start();
+        throw error;
       }
-      setIsProcessing(false);
     }
-  }, [state, isProcessing, userLocation, resetVeoKey, tools, consolidateMemories]);
-
-  const handleWeightsChange = useCallback((newWeights: IntrinsicValueWeights) => {
-    setState(prevState => ({ ...prevState, intrinsicValueWeights: newWeights }));
-  }, []);
+    localStorage.setItem(persistenceService.INSTANCE_SETTING, instance);
+    window.location.reload();
+  }, [engine, remote, debouncedSaveState]);
+
+  const listInstances = useCallback(
+    (): Promise<string[]> => remote ? remote.listInstances() : persistenceService.listInstances(),
+    [remote]
+  );
+
+  const cloneInstance = useCallback(
+    (backupKey: string, instance: string): Promise<void> => remote ? remote.cloneInstance(backupKey, instance) : persistenceService.cloneInstanceFromBackup(backupKey, instance),
+    [remote]
+  );
+
+  const listBackups = useCallback(
+    (): Promise<string[]> => remote ? remote.listBackups() : persistenceService.getBackupList(),
+    [remote]
+  );
+
+  const restoreBackup = useCallback(
+    (backupKey: string): Promise<void> => remote ? remote.restoreBackup(backupKey) : persistenceService.restoreStateFromBackup(backupKey),
+    [remote]
+  );
+
+  const recordCassette = useCallback(
+    (run: CassetteRun, label?: string, decide?: ActionDecider): Promise<Cassette> => withEngineStopped(() => recordRun(engine.getState(), run, label, { decide })),
+    [engine, withEngineStopped]
+  );
+
+  const replayCassette = useCallback(
+    (cassette: Cassette): Promise<ReplayReport> => withEngineStopped(() => replayRun(cassette)),
+    [withEngineStopped]
+  );
 
   return {
     state,
     isReady,
     isProcessing,
+    draftMessage,
     saveStatus,
     saveError,
+    memoryStats,
+    toolNames: engine.getToolNames(),
+    instance: remote ? remote.getInstance() : readSetting(persistenceService.INSTANCE_SETTING) || persistenceService.DEFAULT_INSTANCE,
+    canSwitchInstance: !remote,
     processUserMessage,
+    cancelProcessing,
     handleWeightsChange,
+    setEnergyPolicy,
+    setReflectionSchedule,
+    setModelRouting,
+    recoverNow,
+    setRecoveryVeto,
+    recallMemory,
+    updatePlan,
+    deletePlan,
+    resolvePendingAction,
+    setToolPolicy,
+    listBackups,
+    restoreBackup,
+    listInstances,
+    switchInstance,
+    cloneInstance,
+    recordCassette,
+    replayCassette,
   };
 };
 
-export default useLuminousCognition;
\ No newline at end of file
+export default useLuminousCognition;
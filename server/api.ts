@@ -0,0 +1,375 @@
+import { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+import { WebSocket, WebSocketServer } from 'ws';
+import { IntrinsicValueWeights, JournalEntryType, ReflectionTrigger, ToolPolicy } from '../types';
+import { ApprovalDecision } from '../engine/approvalQueue';
+import * as persistenceService from '../services/persistenceService';
+import { DaemonBusyError, LuminousDaemon } from './daemon';
+import { API_PREFIX, InstanceList, STREAM_PATH, StreamEvent } from './protocol';
+import { validateEnergyPolicy, validateLocation, validateModelRouting, validatePlan, validateRecall, validateReflectionSchedule, validateWeights } from './validation';
+
+// Large enough for a message with an attached image.
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+const REFLECTION_TRIGGERS: ReflectionTrigger[] = ['cadence', 'scar', 'new_orders', 'goal_status', 'low_stock'];
+const JOURNAL_TYPES: JournalEntryType[] = ['interaction', 'reflection', 'scar', 'system', 'summary'];
+const TOOL_POLICIES: ToolPolicy[] = ['auto', 'ask', 'deny'];
+
+export class HttpError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+export interface ApiOptions {
+    /** Required as a bearer token on every request when set. */
+    token?: string;
+    /** The one origin browsers may call the API and open the stream from; none unless set. */
+    allowedOrigin?: string;
+}
+
+type Handler = (daemon: LuminousDaemon, body: any, params: string[]) => Promise<unknown> | unknown;
+
+interface Route {
+    method: string;
+    pattern: RegExp;
+    handler: Handler;
+    /** Whether the request is accepted and carried out in the background. */
+    accepted?: boolean;
+}
+
+const requireObject = (body: any, fields: string[] = []): void => {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        throw new HttpError(400, 'The request body must be a JSON object.');
+    }
+    const missing = fields.filter(field => body[field] === undefined);
+    if (missing.length > 0) throw new HttpError(400, `Missing ${missing.join(', ')}.`);
+};
+
+const requireValid = (problem: string | null): void => {
+    if (problem) throw new HttpError(400, problem);
+};
+
+const requireIdle = (daemon: LuminousDaemon): void => {
+    if (daemon.engine.getIsProcessing()) throw new HttpError(409, 'Luminous is busy; wait for the current cycle to finish.');
+};
+
+// Cycles report their own failures in the state; anything that escapes them is only logged.
+const inBackground = (cycle: Promise<void>): void => {
+    cycle.catch(error => console.error("Background cycle failed:", error));
+};
+
+const ROUTES: Route[] = [
+    {
+        method: 'GET', pattern: /^\/state$/,
+        handler: daemon => daemon.snapshot(),
+    },
+    {
+        method: 'POST', pattern: /^\/messages$/, accepted: true,
+        handler: (daemon, body) => {
+            requireObject(body);
+            if (typeof body.text !== 'string' && !body.file) throw new HttpError(400, 'A message needs text or a file.');
+            requireIdle(daemon);
+            inBackground(daemon.engine.processUserMessage(body.text ?? '', body.file));
+        },
+    },
+    {
+        method: 'POST', pattern: /^\/cancel$/,
+        handler: daemon => ({ cancelled: daemon.engine.cancel() }),
+    },
+    {
+        method: 'POST', pattern: /^\/reflections$/, accepted: true,
+        handler: (daemon, body) => {
+            const trigger: ReflectionTrigger = body?.trigger ?? 'cadence';
+            if (!REFLECTION_TRIGGERS.includes(trigger)) throw new HttpError(400, `Unknown reflection trigger '${trigger}'.`);
+            requireIdle(daemon);
+            inBackground(daemon.engine.runReflectionCycle({
+                trigger,
+                reason: body?.reason ?? 'Kinship asked for a reflection through the server.',
+                requestedAt: new Date().toISOString(),
+            }));
+        },
+    },
+    {
+        method: 'POST', pattern: /^\/recovery$/, accepted: true,
+        handler: daemon => inBackground(daemon.engine.recoverNow()),
+    },
+    {
+        method: 'PUT', pattern: /^\/recovery\/veto$/,
+        handler: (daemon, body) => {
+            requireObject(body, ['vetoed']);
+            daemon.engine.setRecoveryVeto(Boolean(body.vetoed));
+        },
+    },
+    {
+        method: 'POST', pattern: /^\/actions\/([^/]+)\/decision$/,
+        handler: (daemon, body: ApprovalDecision, [id]) => {
+            requireObject(body, ['kind']);
+            if (body.kind !== 'approve' && body.kind !== 'reject') throw new HttpError(400, "A decision's kind is 'approve' or 'reject'.");
+            if (!daemon.engine.getState().pendingActions.some(a => a.id === id && a.status === 'pending')) {
+                throw new HttpError(404, `No action ${id} is waiting for a decision.`);
+            }
+            daemon.engine.resolvePendingAction(id, body);
+        },
+    },
+    {
+        method: 'PUT', pattern: /^\/tool-policies\/([^/]+)$/,
+        handler: (daemon, body, [toolName]) => {
+            requireObject(body, ['policy']);
+            if (!TOOL_POLICIES.includes(body.policy)) throw new HttpError(400, `Unknown tool policy '${body.policy}'.`);
+            if (!daemon.engine.getToolNames().includes(toolName)) throw new HttpError(404, `No tool is named ${toolName}.`);
+            daemon.engine.setToolPolicy(toolName, body.policy);
+        },
+    },
+    {
+        method: 'PUT', pattern: /^\/weights$/,
+        handler: (daemon, body) => {
+            requireValid(validateWeights(body));
+            // Normalised to sum to 1, as the dashboard's sliders do.
+            const total = Object.values<number>(body).reduce((sum, weight) => sum + weight, 0);
+            daemon.engine.updateWeights(Object.fromEntries(Object.entries<number>(body).map(([dimension, weight]) => [dimension, weight / total])) as IntrinsicValueWeights);
+        },
+    },
+    {
+        method: 'PUT', pattern: /^\/energy-policy$/,
+        handler: (daemon, body) => {
+            requireValid(validateEnergyPolicy(body));
+            daemon.engine.setEnergyPolicy(body);
+        },
+    },
+    {
+        method: 'PUT', pattern: /^\/reflection-schedule$/,
+        handler: (daemon, body) => {
+            requireValid(validateReflectionSchedule(body));
+            daemon.engine.setReflectionSchedule(body);
+        },
+    },
+    {
+        method: 'PUT', pattern: /^\/model-routing$/,
+        handler: (daemon, body) => {
+            requireValid(validateModelRouting(body));
+            daemon.engine.setModelRouting(body);
+        },
+    },
+    {
+        method: 'PUT', pattern: /^\/plans\/([^/]+)$/,
+        handler: (daemon, body, [id]) => {
+            requireValid(validatePlan(body, daemon.engine.getToolNames()));
+            if (body.id !== id) throw new HttpError(400, 'The plan in the body does not match the one in the path.');
+            if (!daemon.engine.getState().plans.some(p => p.id === id)) throw new HttpError(404, `No plan ${id}.`);
+            daemon.engine.updatePlan(body);
+        },
+    },
+    {
+        method: 'DELETE', pattern: /^\/plans\/([^/]+)$/,
+        handler: (daemon, _body, [id]) => daemon.engine.deletePlan(id),
+    },
+    {
+        method: 'PUT', pattern: /^\/location$/,
+        handler: (daemon, body) => {
+            requireValid(validateLocation(body));
+            daemon.engine.setUserLocation(body && { latitude: body.latitude, longitude: body.longitude });
+        },
+    },
+    {
+        method: 'POST', pattern: /^\/journal$/,
+        handler: (daemon, body) => {
+            requireObject(body, ['event', 'type']);
+            if (!JOURNAL_TYPES.includes(body.type)) throw new HttpError(400, `Unknown journal entry type '${body.type}'.`);
+            daemon.engine.appendJournal({ event: String(body.event), type: body.type });
+        },
+    },
+    {
+        method: 'POST', pattern: /^\/memory\/recall$/,
+        handler: async (daemon, body) => {
+            requireValid(validateRecall(body));
+            return { matches: await daemon.engine.recallMemory(body.query, { limit: body.limit, sources: body.sources }) };
+        },
+    },
+    {
+        method: 'GET', pattern: /^\/backups$/,
+        handler: async () => ({ backups: await persistenceService.getBackupList() }),
+    },
+    {
+        method: 'POST', pattern: /^\/backups\/restore$/,
+        handler: async (daemon, body) => {
+            requireObject(body, ['key']);
+            const backups = await persistenceService.getBackupList();
+            if (!backups.includes(body.key)) throw new HttpError(404, `No backup ${body.key}.`);
+            await daemon.restoreBackup(body.key);
+            return daemon.snapshot();
+        },
+    },
+    {
+        method: 'GET', pattern: /^\/instances$/,
+        handler: async daemon => ({ active: daemon.instance, instances: await persistenceService.listInstances() } satisfies InstanceList),
+    },
+    {
+        method: 'POST', pattern: /^\/instances$/,
+        handler: async (daemon, body) => {
+            requireObject(body, ['name', 'backupKey']);
+            const problem = persistenceService.validateInstanceName(String(body.name));
+            if (problem) throw new HttpError(400, problem);
+            const instances = await persistenceService.listInstances();
+            if (instances.includes(body.name)) throw new HttpError(409, `Instance "${body.name}" already exists.`);
+            const backups = await persistenceService.getBackupList();
+            if (!backups.includes(body.backupKey)) throw new HttpError(404, `No backup ${body.backupKey}.`);
+            await persistenceService.cloneInstanceFromBackup(body.backupKey, body.name);
+            return { active: daemon.instance, instances: [...instances, body.name] } satisfies InstanceList;
+        },
+    },
+];
+
+const isAuthorized = (presented: string | null | undefined, token?: string): boolean => {
+    if (!token) return true;
+    if (!presented) return false;
+    const expected = Buffer.from(token);
+    const actual = Buffer.from(presented);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+// Browsers send Origin on cross-origin calls and on every WebSocket upgrade; other clients send none.
+// Without this check any page open in Kinship's browser could drive a loopback server.
+const isAllowedOrigin = (req: IncomingMessage, allowedOrigin?: string): boolean => {
+    const origin = req.headers.origin;
+    return origin === undefined || origin === allowedOrigin;
+};
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+// Without a token, a page could rebind its own domain to 127.0.0.1 and read the API as same-origin, sending no
+// Origin. Its requests still carry that domain as Host, so tokenless servers only answer loopback names.
+const isAllowedHost = (req: IncomingMessage, token?: string): boolean => {
+    if (token) return true;
+    const host = req.headers.host?.toLowerCase();
+    const port = req.socket.localPort;
+    return LOOPBACK_HOSTS.some(name => host === `${name}:${port}` || (port === 80 && host === name));
+};
+
+const bearerToken = (req: IncomingMessage): string | null => {
+    const header = req.headers.authorization;
+    return header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+};
+
+const readBody = (req: IncomingMessage): Promise<any> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new HttpError(413, 'The request body is too large.'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        if (chunks.length === 0) return resolve(undefined);
+        try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        } catch {
+            reject(new HttpError(400, 'The request body is not valid JSON.'));
+        }
+    });
+    req.on('error', reject);
+});
+
+const send = (res: ServerResponse, status: number, body?: unknown): void => {
+    if (body === undefined) {
+        res.writeHead(status).end();
+        return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+};
+
+/**
+ * The REST API over the daemon's engine. Every route lives under /api and
+ * speaks JSON; cycles that can run for minutes (messages, reflections and
+ * recovery) are answered with 202 as soon as they start, and their progress
+ * arrives on the state stream.
+ */
+export const createApiHandler = (daemon: LuminousDaemon, options: ApiOptions = {}) => async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    res.setHeader('Vary', 'Origin');
+    if (!isAllowedHost(req, options.token)) {
+        return send(res, 403, { error: `Host ${req.headers.host} is not this server; without LUMINOUS_SERVER_TOKEN it only answers to localhost, 127.0.0.1 and [::1].` });
+    }
+    if (!isAllowedOrigin(req, options.allowedOrigin)) {
+        return send(res, 403, { error: `Origin ${req.headers.origin} may not call this server; set LUMINOUS_SERVER_ORIGIN to allow it.` });
+    }
+    if (options.allowedOrigin) {
+        res.setHeader('Access-Control-Allow-Origin', options.allowedOrigin);
+        res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+    }
+    if (req.method === 'OPTIONS') return send(res, 204);
+
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (!path.startsWith(`${API_PREFIX}/`)) return send(res, 404, { error: 'Not found.' });
+    if (!isAuthorized(bearerToken(req), options.token)) return send(res, 401, { error: 'A valid bearer token is required.' });
+
+    const subpath = path.slice(API_PREFIX.length);
+    const matching = ROUTES.filter(route => route.pattern.test(subpath));
+    const route = matching.find(r => r.method === req.method);
+    if (!route) {
+        return matching.length > 0 ? send(res, 405, { error: `${req.method} is not supported on ${path}.` }) : send(res, 404, { error: 'Not found.' });
+    }
+
+    try {
+        const body = await readBody(req);
+        const params = (route.pattern.exec(subpath) ?? []).slice(1).map(decodeURIComponent);
+        const result = await route.handler(daemon, body, params);
+        send(res, route.accepted ? 202 : result === undefined ? 204 : 200, result);
+    } catch (error) {
+        if (error instanceof HttpError) return send(res, error.status, { error: error.message });
+        if (error instanceof DaemonBusyError) return send(res, 409, { error: error.message });
+        console.error(`${req.method} ${path} failed:`, error);
+        send(res, 500, { error: error instanceof Error ? error.message : 'Internal error.' });
+    }
+};
+
+/**
+ * Streams the engine's events to WebSocket clients on /api/stream, starting
+ * each with a snapshot. Browsers cannot set headers on a WebSocket, so the
+ * token is passed as the `token` query parameter instead.
+ */
+export const attachStateStream = (server: Server, daemon: LuminousDaemon, options: ApiOptions = {}): WebSocketServer => {
+    const wss = new WebSocketServer({ noServer: true });
+
+    server.on('upgrade', (req, socket, head) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        if (url.pathname !== STREAM_PATH) {
+            socket.destroy();
+            return;
+        }
+        if (!isAllowedHost(req, options.token) || !isAllowedOrigin(req, options.allowedOrigin)) {
+            socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+            return;
+        }
+        if (!isAuthorized(url.searchParams.get('token'), options.token)) {
+            socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+            return;
+        }
+        wss.handleUpgrade(req, socket, head, ws => wss.emit('connection', ws, req));
+    });
+
+    const broadcast = (event: StreamEvent): void => {
+        const message = JSON.stringify(event);
+        wss.clients.forEach(client => {
+            if (client.readyState === WebSocket.OPEN) client.send(message);
+        });
+    };
+
+    wss.on('connection', ws => {
+        ws.send(JSON.stringify({ type: 'snapshot', snapshot: daemon.snapshot() } satisfies StreamEvent));
+    });
+
+    daemon.engine.on('state', state => broadcast({ type: 'state', state }));
+    daemon.engine.on('processing', isProcessing => broadcast({ type: 'processing', isProcessing }));
+    daemon.engine.on('draft', draft => broadcast({ type: 'draft', draft }));
+    daemon.engine.on('memoryIndex', stats => broadcast({ type: 'memoryIndex', stats }));
+    daemon.engine.on('apiKeyError', error => broadcast({ type: 'apiKeyError', message: error.message }));
+    daemon.on('save', report => broadcast({ type: 'save', report }));
+
+    return wss;
+};
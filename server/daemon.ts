@@ -0,0 +1,114 @@
+import { LuminousEngine } from '../engine/LuminousEngine';
+import { EventEmitter } from '../engine/eventEmitter';
+import * as persistenceService from '../services/persistenceService';
+import { SaveReport, StateSnapshot } from './protocol';
+
+// Matches the browser's debounce, so the server leaves as many backups behind as a tab would.
+const SAVE_DEBOUNCE_MS = 1000;
+
+export interface DaemonEvents {
+    [event: string]: unknown;
+    save: SaveReport;
+}
+
+/** Raised for a request the daemon cannot carry out in its current state. */
+export class DaemonBusyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DaemonBusyError';
+    }
+}
+
+/**
+ * Keeps one engine running on the server: boots it from the memory matrix,
+ * runs its autonomous timers without pause, and saves every change after a
+ * short debounce, as the browser does.
+ */
+export class LuminousDaemon {
+    readonly engine = new LuminousEngine();
+    /** Fixed for the daemon's lifetime; every save goes to this instance. */
+    readonly instance = persistenceService.getActiveInstance();
+    private readonly emitter = new EventEmitter<DaemonEvents>();
+    private saveTimer?: ReturnType<typeof setTimeout>;
+    private saving: Promise<void> = Promise.resolve();
+    private booted = false;
+
+    constructor() {
+        this.engine.on('state', () => {
+            if (this.booted) this.scheduleSave();
+        });
+    }
+
+    on<K extends keyof DaemonEvents>(event: K, listener: (payload: DaemonEvents[K]) => void): () => void {
+        return this.emitter.on(event, listener);
+    }
+
+    async start(): Promise<void> {
+        await this.engine.boot();
+        this.booted = true;
+        this.engine.start();
+    }
+
+    /** Stops the timers and saves whatever is still waiting to be saved. */
+    async stop(): Promise<void> {
+        this.engine.stop();
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+            this.save();
+        }
+        await this.saving;
+    }
+
+    snapshot(): StateSnapshot {
+        return {
+            instance: this.instance,
+            state: this.engine.getState(),
+            isProcessing: this.engine.getIsProcessing(),
+            memoryStats: this.engine.getMemoryIndexStats(),
+            toolNames: this.engine.getToolNames(),
+        };
+    }
+
+    /**
+     * Replaces the stored state with a backup and boots the engine from it.
+     * Changes not yet saved are dropped, so they cannot overwrite the backup.
+     */
+    async restoreBackup(backupKey: string): Promise<void> {
+        if (this.engine.getIsProcessing()) {
+            throw new DaemonBusyError("Luminous is busy; wait for the current cycle to finish before restoring.");
+        }
+        this.engine.stop();
+        this.booted = false;
+        clearTimeout(this.saveTimer);
+        this.saveTimer = undefined;
+        await this.saving;
+        try {
+            await persistenceService.restoreStateFromBackup(backupKey);
+        } finally {
+            await this.engine.boot();
+            this.booted = true;
+            this.engine.start();
+        }
+    }
+
+    private scheduleSave(): void {
+        clearTimeout(this.saveTimer);
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = undefined;
+            this.save();
+        }, SAVE_DEBOUNCE_MS);
+    }
+
+    // Saves run one after another, so an older state never lands after a newer one.
+    private save(): void {
+        this.saving = this.saving.then(async () => {
+            try {
+                await persistenceService.saveLuminousState(this.engine.getState());
+                this.emitter.emit('save', { status: 'saved' });
+            } catch (error) {
+                this.emitter.emit('save', { status: 'error', error: error instanceof Error ? error.message : String(error) });
+            }
+        });
+    }
+}
@@ -0,0 +1,80 @@
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+import { readSetting, setSettingsSource } from '../services/settings';
+import { INSTANCE_SETTING } from '../services/persistenceService';
+import { loadCliSettings } from '../cli/config';
+import { LuminousDaemon } from './daemon';
+import { attachStateStream, createApiHandler } from './api';
+
+const DEFAULT_PORT = 8787;
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+const USAGE = `Usage: luminous-server [options]
+
+Runs Luminous continuously and serves the REST API and state stream the web app connects to.
+
+Options:
+  --config <path>        Settings file, as for the CLI
+  --host <host>          Address to listen on (default 127.0.0.1)
+  --port <port>          Port to listen on (default ${DEFAULT_PORT})
+  --instance <name>      Luminous instance to run (default LSS_INSTANCE, or 'default')
+  -h, --help             Show this help
+
+Besides the CLI's settings, LUMINOUS_SERVER_TOKEN is the bearer token clients must present
+and LUMINOUS_SERVER_ORIGIN the one browser origin allowed to call the API (none by default).`;
+
+const main = async (): Promise<void> => {
+    const { values } = parseArgs({
+        options: {
+            config: { type: 'string' },
+            host: { type: 'string' },
+            port: { type: 'string' },
+            instance: { type: 'string' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+    if (values.help) {
+        console.log(USAGE);
+        return;
+    }
+
+    setSettingsSource(loadCliSettings(values.config, { [INSTANCE_SETTING]: values.instance }));
+    const host = values.host ?? '127.0.0.1';
+    const port = Number(values.port ?? DEFAULT_PORT);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) throw new Error(`Invalid port: ${values.port}`);
+    const token = readSetting('LUMINOUS_SERVER_TOKEN');
+    if (!token && !LOOPBACK_HOSTS.includes(host)) {
+        throw new Error(`Refusing to listen on ${host} without LUMINOUS_SERVER_TOKEN; anyone who can reach it could act as Kinship.`);
+    }
+    if (!readSetting('LSS_UPSTASH_URL') || !readSetting('LSS_UPSTASH_TOKEN')) {
+        throw new Error('Upstash credentials not configured. Set LSS_UPSTASH_URL and LSS_UPSTASH_TOKEN in the environment or the config file.');
+    }
+
+    const daemon = new LuminousDaemon();
+    console.log(`Booting instance '${daemon.instance}' from the memory matrix...`);
+    await daemon.start();
+
+    const options = { token, allowedOrigin: readSetting('LUMINOUS_SERVER_ORIGIN') };
+    const server = createServer(createApiHandler(daemon, options));
+    const stream = attachStateStream(server, daemon, options);
+    daemon.on('save', report => {
+        if (report.status === 'error') console.error(`Could not save the state: ${report.error}`);
+    });
+    await new Promise<void>(resolve => server.listen(port, host, resolve));
+    console.log(`Luminous is listening on http://${host}:${port}${token ? '' : ' (no token; loopback only)'}.`);
+
+    const shutdown = async () => {
+        console.log('Shutting down; saving the state...');
+        stream.clients.forEach(client => client.close());
+        server.close();
+        await daemon.stop();
+        process.exit(0);
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+};
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exitCode = 1;
+});
@@ -0,0 +1,40 @@
+import { ChatMessage, LuminousState, MemoryIndexStats } from '../types';
+
+/** Where the REST API and the state stream are served, under the server's root. */
+export const API_PREFIX = '/api';
+export const STREAM_PATH = `${API_PREFIX}/stream`;
+
+/** Everything a client needs to show Luminous, as `GET /api/state` returns it. */
+export interface StateSnapshot {
+    /** The instance the server runs, whose state is kept apart from every other instance's. */
+    instance: string;
+    state: LuminousState;
+    isProcessing: boolean;
+    memoryStats: MemoryIndexStats;
+    toolNames: string[];
+}
+
+/** The instances saved in the memory matrix, as `GET /api/instances` returns them. */
+export interface InstanceList {
+    active: string;
+    instances: string[];
+}
+
+/** The outcome of the server's latest attempt to save the state to the memory matrix. */
+export interface SaveReport {
+    status: 'saved' | 'error';
+    error?: string;
+}
+
+/**
+ * A message on the state stream. A snapshot is sent when a client connects;
+ * after that, each engine event is forwarded as it happens.
+ */
+export type StreamEvent =
+    | { type: 'snapshot', snapshot: StateSnapshot }
+    | { type: 'state', state: LuminousState }
+    | { type: 'processing', isProcessing: boolean }
+    | { type: 'draft', draft: ChatMessage | null }
+    | { type: 'memoryIndex', stats: MemoryIndexStats }
+    | { type: 'apiKeyError', message: string }
+    | { type: 'save', report: SaveReport };
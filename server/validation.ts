@@ -0,0 +1,155 @@
+import { EnergyPriceTable, InputModality, MemorySource, ModelTask, PlanStatus, PlanStepStatus, ReflectionTrigger } from '../types';
+import { INTRINSIC_VALUE_DIMENSIONS } from '../engine/intrinsicValue';
+
+/*
+ * Checks for the settings and plans clients replace wholesale through the API,
+ * and for the other payloads the engine takes as they are. They
+ * apply the ranges the web app's settings panels enforce, so a client cannot
+ * store a policy the engine would later trip over. Each returns what is wrong
+ * with the payload, or null when it can be applied.
+ */
+
+const ENERGY_PRICES: (keyof EnergyPriceTable)[] = ['perThousandTokens', 'imageGeneration', 'videoGeneration', 'shopifyCall'];
+const SCHEDULED_TRIGGERS: Exclude<ReflectionTrigger, 'cadence'>[] = ['scar', 'new_orders', 'goal_status', 'low_stock'];
+const MODEL_TASKS: ModelTask[] = ['chat', 'reflection', 'summary', 'grounding', 'extraction'];
+const INPUT_MODALITIES: InputModality[] = ['text', 'image', 'audio', 'video'];
+const PLAN_STATUSES: PlanStatus[] = ['active', 'paused', 'rolling_back', 'completed', 'rolled_back', 'failed'];
+const PLAN_STEP_STATUSES: PlanStepStatus[] = ['pending', 'completed', 'failed', 'rolled_back'];
+const MEMORY_SOURCES: MemorySource[] = ['journal', 'chat', 'summary'];
+const MAX_CADENCE_MINUTES = 24 * 60;
+// The most matches the recallMemory tool asks for.
+const MAX_RECALL_LIMIT = 20;
+// The most attempts the createPlan tool allows a step.
+const MAX_STEP_ATTEMPTS = 10;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isNumberIn = (value: unknown, min: number, max: number = Infinity): boolean =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+const isIntegerIn = (value: unknown, min: number, max: number = Number.MAX_SAFE_INTEGER): boolean =>
+    Number.isInteger(value) && isNumberIn(value, min, max);
+
+const isModelList = (value: unknown): boolean =>
+    Array.isArray(value) && value.length > 0 && value.every(model => typeof model === 'string' && model.trim() !== '');
+
+const isSubsetOf = <T extends string>(value: unknown, allowed: T[]): boolean =>
+    Array.isArray(value) && value.every(item => allowed.includes(item));
+
+export const validateWeights = (body: unknown): string | null => {
+    if (!isObject(body)) return 'The weights must be a JSON object.';
+    const unknown = Object.keys(body).filter(key => !(INTRINSIC_VALUE_DIMENSIONS as string[]).includes(key));
+    if (unknown.length > 0) return `Unknown weights: ${unknown.join(', ')}.`;
+    const invalid = INTRINSIC_VALUE_DIMENSIONS.filter(dimension => !isNumberIn(body[dimension], 0, 1));
+    if (invalid.length > 0) return `Each weight must be a number from 0 to 1: ${invalid.join(', ')}.`;
+    if (INTRINSIC_VALUE_DIMENSIONS.every(dimension => body[dimension] === 0)) return 'At least one weight must be above 0.';
+    return null;
+};
+
+export const validateEnergyPolicy = (body: unknown): string | null => {
+    if (!isObject(body)) return 'The energy policy must be a JSON object.';
+    if (!isNumberIn(body.dailyAllowance, 0)) return 'dailyAllowance must be a number of at least 0.';
+    if (!isObject(body.prices)) return 'prices must be an object.';
+    const invalid = ENERGY_PRICES.filter(price => !isNumberIn(body.prices[price], 0));
+    if (invalid.length > 0) return `Each price must be a number of at least 0: ${invalid.join(', ')}.`;
+    return null;
+};
+
+export const validateReflectionSchedule = (body: unknown): string | null => {
+    if (!isObject(body)) return 'The reflection schedule must be a JSON object.';
+    if (!isIntegerIn(body.cadenceMinutes, 1, MAX_CADENCE_MINUTES)) return `cadenceMinutes must be a whole number from 1 to ${MAX_CADENCE_MINUTES}.`;
+    const quiet = body.quietHours;
+    if (!isObject(quiet) || typeof quiet.enabled !== 'boolean' || !isIntegerIn(quiet.startHour, 0, 23) || !isIntegerIn(quiet.endHour, 0, 23)) {
+        return 'quietHours must have enabled (a boolean) and startHour and endHour (whole hours from 0 to 23).';
+    }
+    if (!isObject(body.triggers) || SCHEDULED_TRIGGERS.some(trigger => typeof body.triggers[trigger] !== 'boolean')) {
+        return `triggers must switch each of ${SCHEDULED_TRIGGERS.join(', ')} on or off.`;
+    }
+    if (!isIntegerIn(body.lowStockThreshold, 0)) return 'lowStockThreshold must be a whole number of at least 0.';
+    return null;
+};
+
+const validateRoutingRule = (rule: unknown, index: number): string | null => {
+    const where = `Rule ${index + 1}`;
+    if (!isObject(rule)) return `${where} must be an object.`;
+    if (typeof rule.id !== 'string' || rule.id === '') return `${where} needs an id.`;
+    if (typeof rule.description !== 'string') return `${where} needs a description.`;
+    if (!isObject(rule.when)) return `${where} needs its conditions in when, {} to match anything.`;
+    const { tasks, modalities } = rule.when;
+    if (tasks !== undefined && !isSubsetOf(tasks, MODEL_TASKS)) return `${where}: tasks must be among ${MODEL_TASKS.join(', ')}.`;
+    if (modalities !== undefined && !isSubsetOf(modalities, INPUT_MODALITIES)) return `${where}: modalities must be among ${INPUT_MODALITIES.join(', ')}.`;
+    for (const key of ['minContextTokens', 'maxContextTokens', 'maxEnergy']) {
+        if (rule.when[key] !== undefined && !isIntegerIn(rule.when[key], 0)) return `${where}: ${key} must be a whole number of at least 0.`;
+    }
+    if (!isModelList(rule.models)) return `${where} needs at least one model.`;
+    return null;
+};
+
+export const validateModelRouting = (body: unknown): string | null => {
+    if (!isObject(body)) return 'The routing policy must be a JSON object.';
+    if (!Array.isArray(body.rules)) return 'rules must be an array, [] for none.';
+    for (const [index, rule] of body.rules.entries()) {
+        const problem = validateRoutingRule(rule, index);
+        if (problem) return problem;
+    }
+    if (new Set(body.rules.map((rule: { id: string }) => rule.id)).size !== body.rules.length) return 'Rule ids must be unique.';
+    if (!isModelList(body.defaultModels)) return 'defaultModels needs at least one model.';
+    return null;
+};
+
+const validatePlannedCall = (call: Record<string, any>, where: string, toolNames: string[]): string | null => {
+    if (typeof call.toolName !== 'string' || !toolNames.includes(call.toolName)) return `${where} names no known tool: ${call.toolName}.`;
+    if (!isObject(call.args)) return `${where} needs its arguments in args, {} for none.`;
+    return null;
+};
+
+const validatePlanStep = (step: unknown, index: number, toolNames: string[]): string | null => {
+    const where = `Step ${index + 1}`;
+    if (!isObject(step)) return `${where} must be an object.`;
+    if (typeof step.id !== 'string' || step.id === '') return `${where} needs an id.`;
+    if (typeof step.description !== 'string') return `${where} needs a description.`;
+    const problem = validatePlannedCall(step, where, toolNames);
+    if (problem) return problem;
+    if (!PLAN_STEP_STATUSES.includes(step.status)) return `${where}: status must be one of ${PLAN_STEP_STATUSES.join(', ')}.`;
+    if (!isIntegerIn(step.maxAttempts, 1, MAX_STEP_ATTEMPTS)) return `${where}: maxAttempts must be a whole number from 1 to ${MAX_STEP_ATTEMPTS}.`;
+    if (!isIntegerIn(step.attempts, 0)) return `${where}: attempts must be a whole number of at least 0.`;
+    if (step.rollback !== undefined) {
+        if (!isObject(step.rollback)) return `${where}: rollback must be an object.`;
+        const rollbackProblem = validatePlannedCall(step.rollback, `${where}'s rollback`, toolNames);
+        if (rollbackProblem) return rollbackProblem;
+    }
+    return null;
+};
+
+/** Checks a plan edited by a client; its steps may only call the tools in `toolNames`. */
+export const validatePlan = (body: unknown, toolNames: string[]): string | null => {
+    if (!isObject(body)) return 'The plan must be a JSON object.';
+    if (typeof body.id !== 'string' || body.id === '') return 'The plan needs an id.';
+    if (typeof body.goalId !== 'string' || body.goalId === '') return 'The plan needs the goalId of the goal it pursues.';
+    if (!PLAN_STATUSES.includes(body.status)) return `status must be one of ${PLAN_STATUSES.join(', ')}.`;
+    if (!Array.isArray(body.steps)) return 'steps must be an array.';
+    for (const [index, step] of body.steps.entries()) {
+        const problem = validatePlanStep(step, index, toolNames);
+        if (problem) return problem;
+    }
+    if (new Set(body.steps.map((step: { id: string }) => step.id)).size !== body.steps.length) return 'Step ids must be unique.';
+    return null;
+};
+
+/** Checks Kinship's location, or null to forget it. */
+export const validateLocation = (body: unknown): string | null => {
+    if (body === null) return null;
+    if (!isObject(body)) return 'The location must be a JSON object, or null to clear it.';
+    if (!isNumberIn(body.latitude, -90, 90)) return 'latitude must be a number from -90 to 90.';
+    if (!isNumberIn(body.longitude, -180, 180)) return 'longitude must be a number from -180 to 180.';
+    return null;
+};
+
+export const validateRecall = (body: unknown): string | null => {
+    if (!isObject(body)) return 'The request body must be a JSON object.';
+    if (typeof body.query !== 'string' || body.query.trim() === '') return 'query must be a non-empty string.';
+    if (body.limit !== undefined && !isIntegerIn(body.limit, 1, MAX_RECALL_LIMIT)) return `limit must be a whole number from 1 to ${MAX_RECALL_LIMIT}.`;
+    if (body.sources !== undefined && !isSubsetOf(body.sources, MEMORY_SOURCES)) return `sources must be among ${MEMORY_SOURCES.join(', ')}.`;
+    return null;
+};
@@ -0,0 +1,214 @@
+import { LLMFeature, LLMProvider } from "./llmProvider";
+import { ApiKeyError } from "./geminiProvider";
+import { getLLMProvider, setLLMProvider } from "./llmService";
+import { sendShopifyRequest, setShopifyTransport } from "./shopifyService";
+import { fetchViaProxy, setYoutubeTransport } from "./youtubeService";
+import { VirtualTime, installVirtualTime } from "./virtualTime";
+
+const LLM_FEATURES: LLMFeature[] = ['functionCalling', 'jsonOutput', 'embeddings', 'speech', 'grounding', 'imageGeneration', 'videoGeneration'];
+// How long a replayed answer waits for the answers recorded before it before the run is declared diverged.
+const REPLAY_WAIT_MS = 5_000;
+
+export type CassetteService = 'llm' | 'shopify' | 'youtube';
+
+/** One request to an outside service and what it answered. */
+export interface CassetteInteraction {
+    service: CassetteService;
+    operation: string;
+    request: unknown;
+    response?: unknown;
+    error?: { name: string, message: string };
+    /** How long the answer took; the clock moves on by as much when it arrives. */
+    durationMs: number;
+}
+
+/**
+ * Everything a run learned from outside: the model provider it talked to, the
+ * clock and random seed it started from, and every interaction in the order
+ * the answers arrived.
+ */
+export interface CassetteRecording {
+    startedAt: number;
+    seed: number;
+    provider: { name: string, features: LLMFeature[], embeddingModel: string };
+    interactions: CassetteInteraction[];
+}
+
+/** Raised on replay when the run asks for something the recording does not hold: it has diverged. */
+export class CassetteMismatchError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CassetteMismatchError';
+    }
+}
+
+type Tape = <T>(service: CassetteService, operation: string, request: unknown, send: () => Promise<T>) => Promise<T>;
+
+// What is recorded is what is replayed, so both hand the run a JSON copy of the answer.
+const copy = <T,>(value: T): T => value === undefined ? value : JSON.parse(JSON.stringify(value));
+
+const toErrorRecord = (error: unknown): CassetteInteraction['error'] =>
+    error instanceof Error ? { name: error.name, message: error.message } : { name: 'Error', message: String(error) };
+
+const fromErrorRecord = ({ name, message }: NonNullable<CassetteInteraction['error']>): Error =>
+    name === 'ApiKeyError' ? new ApiKeyError(message) : Object.assign(new Error(message), { name });
+
+const recordingTape = (interactions: CassetteInteraction[], clock: VirtualTime): Tape => async (service, operation, request, send) => {
+    const started = performance.now();
+    const entry = { service, operation, request: copy(request) };
+    try {
+        const response = copy(await send());
+        const durationMs = Math.round(performance.now() - started);
+        interactions.push({ ...entry, response, durationMs });
+        clock.advance(durationMs);
+        return response;
+    } catch (error) {
+        const durationMs = Math.round(performance.now() - started);
+        interactions.push({ ...entry, error: toErrorRecord(error), durationMs });
+        clock.advance(durationMs);
+        throw error;
+    }
+};
+
+/**
+ * Answers each request with the first unused recorded interaction for the same
+ * request, and only once every answer recorded before it has been given, so
+ * concurrent work interleaves exactly as it did when recorded. Requests with
+ * no recorded answer, and waits that never end, are added to `mismatches`.
+ */
+const replayTape = (interactions: CassetteInteraction[], clock: VirtualTime, mismatches: string[], claimed: Set<number>): Tape => {
+    const keys = interactions.map(i => `${i.service}|${i.operation}|${JSON.stringify(i.request)}`);
+    let released = 0;
+    let waiters: (() => void)[] = [];
+
+    const waitForTurn = async (index: number) => {
+        while (released < index) {
+            const progressed = await new Promise<boolean>(resolve => {
+                const timer = setTimeout(() => resolve(false), REPLAY_WAIT_MS);
+                waiters.push(() => { clearTimeout(timer); resolve(true); });
+            });
+            if (!progressed) {
+                const { service, operation } = interactions[released];
+                throw new CassetteMismatchError(`The run never made the recorded ${service} ${operation} request (#${released + 1}) that was answered before this one.`);
+            }
+        }
+    };
+
+    return async (service, operation, request) => {
+        const key = `${service}|${operation}|${JSON.stringify(copy(request))}`;
+        const index = keys.findIndex((k, i) => k === key && !claimed.has(i));
+        if (index === -1) {
+            const expected = interactions.find((i, n) => !claimed.has(n) && i.service === service && i.operation === operation);
+            const message = `No recorded ${service} ${operation} request matches this one; the run has diverged from the recording${expected ? ` (the next unused ${operation} asked for ${JSON.stringify(expected.request).slice(0, 200)}…)` : ''}.`;
+            mismatches.push(message);
+            throw new CassetteMismatchError(message);
+        }
+        claimed.add(index);
+        try {
+            await waitForTurn(index);
+        } catch (error) {
+            mismatches.push((error as Error).message);
+            throw error;
+        }
+
+        const interaction = interactions[index];
+        clock.advance(interaction.durationMs);
+        released++;
+        const notify = waiters;
+        waiters = [];
+        notify.forEach(wake => wake());
+        if (interaction.error) throw fromErrorRecord(interaction.error);
+        return copy(interaction.response) as any;
+    };
+};
+
+/**
+ * A provider that passes every call through the tape: to `base` while
+ * recording, and to the recording alone on replay, where `base` is absent.
+ * Streamed turns are replayed as a single update with the finished turn.
+ */
+const tapedProvider = (info: CassetteRecording['provider'], tape: Tape, base?: LLMProvider): LLMProvider => {
+    const supports = (feature: LLMFeature) => info.features.includes(feature);
+    const send = <T,>(call: (provider: LLMProvider) => Promise<T>) => () => call(base!);
+    return {
+        name: info.name,
+        supports,
+        embeddingModel: info.embeddingModel,
+        generate: async ({ model, systemInstruction, messages, functionDeclarations, disableFunctionCalls, responseJsonSchema, onUpdate, signal }) => {
+            const request = { model, systemInstruction, messages, tools: functionDeclarations?.map(d => d.name), disableFunctionCalls, responseJsonSchema, streamed: !!onUpdate };
+            const turn = await tape('llm', 'generate', request, send(p => p.generate({ model, systemInstruction, messages, functionDeclarations, disableFunctionCalls, responseJsonSchema, signal, ...(onUpdate && { onUpdate }) })));
+            if (onUpdate && !base) onUpdate(turn);
+            return turn;
+        },
+        embed: (texts, purpose, options) =>
+            tape('llm', 'embed', { texts, purpose, model: options.model, dimensions: options.dimensions }, send(p => p.embed(texts, purpose, options))),
+        speak: (text, signal) => tape('llm', 'speak', { text }, send(p => p.speak(text, signal))),
+        ping: signal => tape('llm', 'ping', {}, send(p => p.ping(signal))),
+        ...(supports('grounding') && {
+            ground: (query, type, options) =>
+                tape('llm', 'ground', { query, type, model: options.model, systemInstruction: options.systemInstruction, location: options.location }, send(p => p.ground!(query, type, options))),
+        }),
+        ...(supports('imageGeneration') && {
+            generateImage: (prompt, signal) => tape('llm', 'generateImage', { prompt }, send(p => p.generateImage!(prompt, signal))),
+        }),
+        ...(supports('videoGeneration') && {
+            generateVideo: (prompt, aspectRatio, signal) => tape('llm', 'generateVideo', { prompt, aspectRatio }, send(p => p.generateVideo!(prompt, aspectRatio, signal))),
+        }),
+    };
+};
+
+let tapeInUse = false;
+
+/**
+ * Installs virtual time, and the tape around every outside service, for the
+ * duration of `run`, and restores them all afterwards. One run at a time.
+ */
+const withTape = async <T,>(recording: CassetteRecording, createTape: (clock: VirtualTime) => Tape, base: LLMProvider | undefined, run: () => Promise<T>): Promise<T> => {
+    if (tapeInUse) throw new Error("A recording or replay is already running.");
+    tapeInUse = true;
+    const previousProvider = getLLMProvider();
+    const clock = installVirtualTime(recording.startedAt, recording.seed);
+    const tape = createTape(clock);
+    setLLMProvider(tapedProvider(recording.provider, tape, base));
+    setShopifyTransport((query, variables, signal) => tape('shopify', 'graphql', { query, variables }, () => sendShopifyRequest(query, variables, signal)));
+    setYoutubeTransport((url, signal) => tape('youtube', 'fetch', { url }, () => fetchViaProxy(url, signal)));
+    try {
+        return await run();
+    } finally {
+        clock.restore();
+        setLLMProvider(previousProvider);
+        setShopifyTransport(null);
+        setYoutubeTransport(null);
+        tapeInUse = false;
+    }
+};
+
+/**
+ * Runs `run` against the live model provider, Shopify and YouTube, recording
+ * every request and answer. Time and randomness are virtual for the duration,
+ * starting from the current time, so a replay can repeat them.
+ */
+export const recordInteractions = async <T,>(run: () => Promise<T>): Promise<{ value: T, recording: CassetteRecording }> => {
+    const base = getLLMProvider();
+    const recording: CassetteRecording = {
+        startedAt: Date.now(),
+        seed: Math.floor(Math.random() * 2 ** 31),
+        provider: { name: base.name, features: LLM_FEATURES.filter(f => base.supports(f)), embeddingModel: base.embeddingModel },
+        interactions: [],
+    };
+    const value = await withTape(recording, clock => recordingTape(recording.interactions, clock), base, run);
+    return { value, recording };
+};
+
+/**
+ * Runs `run` with every outside service answered from the recording, in the
+ * recorded order, and with the recorded clock and seed. Nothing reaches the
+ * network. Reports the requests that found no recorded answer and the
+ * recorded interactions the run never asked for.
+ */
+export const replayInteractions = async <T,>(recording: CassetteRecording, run: () => Promise<T>): Promise<{ value: T, mismatches: string[], unused: CassetteInteraction[] }> => {
+    const mismatches: string[] = [];
+    const claimed = new Set<number>();
+    const value = await withTape(recording, clock => replayTape(recording.interactions, clock, mismatches, claimed), undefined, run);
+    return { value, mismatches, unused: recording.interactions.filter((_, i) => !claimed.has(i)) };
+};
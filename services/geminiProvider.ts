@@ -0,0 +1,231 @@
+import { GoogleGenAI, Modality, FunctionCallingConfigMode } from "@google/genai";
+import { ChatMessage } from "../types";
+import { LLMProvider, LuminousTurn, sleep } from "./llmProvider";
+import { GEMINI_API_KEY_SETTING, readSetting } from "./settings";
+
+// This custom error will be used to signal API key issues for Veo.
+export class ApiKeyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ApiKeyError';
+    }
+}
+
+const getApiKey = (): string | undefined => readSetting(GEMINI_API_KEY_SETTING) || process.env.API_KEY;
+
+const createAi = () => {
+    const apiKey = getApiKey();
+    if (!apiKey) {
+        throw new Error("API_KEY environment variable not set");
+    }
+    return new GoogleGenAI({ apiKey });
+}
+
+const buildHistory = (chatHistory: ChatMessage[]) => {
+    return chatHistory.map(message => ({
+        role: message.role,
+        parts: message.parts.map(part => {
+            if (part.text) return { text: part.text };
+            if (part.functionCall) return { functionCall: part.functionCall };
+            if (part.functionResponse) return { functionResponse: part.functionResponse };
+            if (part.inlineData) return { inlineData: part.inlineData };
+            return {};
+        }),
+    }));
+};
+
+/** Gemini through `@google/genai`, with the API key from the build environment. Supports every feature. */
+export const createGeminiProvider = (): LLMProvider => ({
+    name: 'gemini',
+    supports: () => true,
+    embeddingModel: 'gemini-embedding-001',
+
+    generate: async ({ model, systemInstruction, messages, functionDeclarations, disableFunctionCalls, responseJsonSchema, onUpdate, signal }) => {
+        const genAI = createAi();
+        const request = {
+            model,
+            contents: buildHistory(messages),
+            config: {
+                systemInstruction,
+                ...(functionDeclarations && { tools: [{ functionDeclarations }] }),
+                ...(disableFunctionCalls && { toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } } }),
+                ...(responseJsonSchema && { responseMimeType: 'application/json', responseJsonSchema }),
+                abortSignal: signal,
+            },
+        };
+
+        if (!onUpdate) {
+            const response = await genAI.models.generateContent(request);
+            const parts = response.candidates?.[0]?.content?.parts ?? [];
+            return {
+                text: parts.filter(p => p.text && !p.thought).map(p => p.text).join(''),
+                functionCalls: response.functionCalls ?? [],
+                usageMetadata: response.usageMetadata,
+            };
+        }
+
+        const turn: LuminousTurn = { text: '', functionCalls: [] };
+        const stream = await genAI.models.generateContentStream(request);
+        for await (const chunk of stream) {
+            signal?.throwIfAborted();
+            // Read text parts directly; the `text` accessor warns whenever a chunk also carries function calls.
+            const parts = chunk.candidates?.[0]?.content?.parts ?? [];
+            turn.text += parts.filter(p => p.text && !p.thought).map(p => p.text).join('');
+            if (chunk.functionCalls) {
+                turn.functionCalls.push(...chunk.functionCalls);
+            }
+            if (chunk.usageMetadata) {
+                turn.usageMetadata = chunk.usageMetadata;
+            }
+            onUpdate({ ...turn, functionCalls: [...turn.functionCalls] });
+        }
+        return turn;
+    },
+
+    embed: async (texts, purpose, { model = 'gemini-embedding-001', dimensions = 256, signal }) => {
+        const genAI = createAi();
+        const response = await genAI.models.embedContent({
+            model,
+            contents: texts,
+            config: { taskType: purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT', outputDimensionality: dimensions, abortSignal: signal },
+        });
+        if (!response.embeddings || response.embeddings.length !== texts.length) {
+            throw new Error(`Expected ${texts.length} embeddings but received ${response.embeddings?.length ?? 0}.`);
+        }
+        return response.embeddings.map(e => e.values ?? []);
+    },
+
+    speak: async (text, signal) => {
+        const genAI = createAi();
+        const response = await genAI.models.generateContent({
+            model: 'gemini-2.5-flash-preview-tts',
+            contents: [{ parts: [{ text: text }] }],
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: {
+                    voiceConfig: {
+                        prebuiltVoiceConfig: { voiceName: 'Kore' },
+                    },
+                },
+                abortSignal: signal,
+            },
+        });
+
+        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        if (!base64Audio) {
+            throw new Error("TTS generation failed, no audio data received.");
+        }
+        return base64Audio;
+    },
+
+    ping: async (signal) => {
+        const genAI = createAi();
+        await genAI.models.countTokens({
+            model: 'gemini-2.5-flash',
+            contents: 'ping',
+            config: { abortSignal: signal },
+        });
+    },
+
+    ground: async (query, groundingType, { model, systemInstruction, location, signal }) => {
+        const genAI = createAi();
+        const config: any = {};
+        if (groundingType === 'search') {
+            config.tools = [{ googleSearch: {} }];
+        } else {
+            config.tools = [{ googleMaps: {} }];
+            if (location) {
+                config.toolConfig = {
+                    retrievalConfig: {
+                        latLng: {
+                            latitude: location.latitude,
+                            longitude: location.longitude
+                        }
+                    }
+                }
+            }
+        }
+
+        const response = await genAI.models.generateContent({
+            model,
+            // For grounding, we provide the specific query from the tool as the content.
+            contents: [{ role: 'user', parts: [{ text: query }] }],
+            config: {
+                ...config,
+                systemInstruction,
+                abortSignal: signal,
+            }
+        });
+        return {
+            text: response.text ?? '',
+            sources: response.candidates?.[0]?.groundingMetadata?.groundingChunks,
+            usageMetadata: response.usageMetadata,
+        };
+    },
+
+    generateImage: async (prompt, signal) => {
+        const genAI = createAi();
+        const response = await genAI.models.generateImages({
+            model: 'imagen-4.0-generate-001',
+            prompt: prompt,
+            config: {
+              numberOfImages: 1,
+              outputMimeType: 'image/jpeg',
+              aspectRatio: '1:1',
+              abortSignal: signal,
+            },
+        });
+        return {
+            base64Image: response.generatedImages[0].image.imageBytes,
+            mimeType: 'image/jpeg'
+        };
+    },
+
+    generateVideo: async (prompt, aspectRatio, signal) => {
+        const genAI = createAi();
+        try {
+            let operation = await genAI.models.generateVideos({
+                model: 'veo-3.1-fast-generate-preview',
+                prompt: prompt,
+                config: {
+                    numberOfVideos: 1,
+                    resolution: '720p',
+                    aspectRatio: aspectRatio,
+                    abortSignal: signal,
+                }
+            });
+
+            // The Veo operation itself cannot be cancelled server-side; aborting stops polling for it.
+            while (!operation.done) {
+                await sleep(10000, signal);
+                operation = await genAI.operations.getVideosOperation({operation: operation, config: { abortSignal: signal }});
+            }
+
+            const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+            if (!downloadLink) {
+                throw new Error("Video generation succeeded but no download link was found.");
+            }
+
+            const videoResponse = await fetch(`${downloadLink}&key=${getApiKey()}`, { signal });
+            if (!videoResponse.ok) {
+                throw new Error(`Failed to download generated video: ${videoResponse.statusText}`);
+            }
+            const videoBlob = await videoResponse.blob();
+            const reader = new FileReader();
+            return new Promise((resolve, reject) => {
+                reader.onloadend = () => {
+                    const base64data = (reader.result as string).split(',')[1];
+                    resolve(base64data);
+                };
+                reader.onerror = reject;
+                reader.readAsDataURL(videoBlob);
+            });
+        } catch (error) {
+            if (error instanceof Error && error.message.includes("Requested entity was not found")) {
+                throw new ApiKeyError("API key may be invalid or missing permissions for Veo. Please select a valid key.");
+            }
+            console.error("Error generating video:", error);
+            throw error;
+        }
+    },
+});
@@ -0,0 +1,115 @@
+import { FunctionCall, FunctionDeclaration, GroundingChunk } from "@google/genai";
+import { ChatMessage } from "../types";
+import { readSetting } from "./settings";
+
+export type LLMFeature = 'functionCalling' | 'jsonOutput' | 'embeddings' | 'speech' | 'grounding' | 'imageGeneration' | 'videoGeneration';
+
+/** Raised when the active provider has no implementation of a feature; callers are expected to check `supports` first. */
+export class UnsupportedFeatureError extends Error {
+    constructor(public readonly provider: string, public readonly feature: LLMFeature) {
+        super(`The ${provider} model provider does not support ${feature}.`);
+        this.name = 'UnsupportedFeatureError';
+    }
+}
+
+export interface TokenUsage {
+    totalTokenCount?: number;
+}
+
+/** A model turn: its text, the function calls it made and what it cost. */
+export interface LuminousTurn {
+    text: string;
+    functionCalls: FunctionCall[];
+    usageMetadata?: TokenUsage;
+}
+
+export interface GenerateRequest {
+    model: string;
+    systemInstruction?: string;
+    messages: ChatMessage[];
+    functionDeclarations?: FunctionDeclaration[];
+    /** Keeps the tools declared (so earlier calls in the history stay valid) but forbids new calls. */
+    disableFunctionCalls?: boolean;
+    /** A JSON schema the reply's text must follow. */
+    responseJsonSchema?: object;
+    /** Streams the turn, called with the accumulated turn after every chunk. */
+    onUpdate?: (turn: LuminousTurn) => void;
+    signal?: AbortSignal;
+}
+
+export interface GroundedAnswer {
+    text: string;
+    sources?: GroundingChunk[];
+    usageMetadata?: TokenUsage;
+}
+
+/**
+ * A backend for every model call Luminous makes. Chat with function calling,
+ * embeddings and speech are the core; the Google-only features are optional
+ * and `supports` says which a provider has.
+ */
+export interface LLMProvider {
+    /** Identifies the provider in logs and messages, e.g. 'gemini'. */
+    name: string;
+    supports: (feature: LLMFeature) => boolean;
+    generate: (request: GenerateRequest) => Promise<LuminousTurn>;
+    /** The model `embed` uses unless told otherwise. */
+    embeddingModel: string;
+    embed: (texts: string[], purpose: 'document' | 'query', options: { model?: string, dimensions?: number, signal?: AbortSignal }) => Promise<number[][]>;
+    /** Returns 16-bit mono PCM at 24 kHz, base64-encoded. */
+    speak: (text: string, signal?: AbortSignal) => Promise<string>;
+    /** The cheapest request that proves the endpoint is reachable with the configured credentials. */
+    ping: (signal?: AbortSignal) => Promise<void>;
+    ground?: (query: string, type: 'search' | 'maps', options: { model: string, systemInstruction: string, location?: { latitude: number, longitude: number } | null, signal?: AbortSignal }) => Promise<GroundedAnswer>;
+    generateImage?: (prompt: string, signal?: AbortSignal) => Promise<{ base64Image: string, mimeType: string }>;
+    /** Returns the video, base64-encoded. */
+    generateVideo?: (prompt: string, aspectRatio: '16:9' | '9:16', signal?: AbortSignal) => Promise<string>;
+}
+
+export type LLMProviderKind = 'gemini' | 'openai-compatible';
+
+export interface LLMProviderConfig {
+    provider: LLMProviderKind;
+    /** The API root of an OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama. */
+    baseUrl?: string;
+    apiKey?: string;
+    /** Used in place of the Gemini models the routing policy names by default. */
+    model?: string;
+    embeddingModel?: string;
+    speechModel?: string;
+}
+
+export const PROVIDER_SETTINGS_KEYS = {
+    PROVIDER: 'LSS_LLM_PROVIDER',
+    BASE_URL: 'LSS_LLM_BASE_URL',
+    API_KEY: 'LSS_LLM_API_KEY',
+    MODEL: 'LSS_LLM_MODEL',
+    EMBEDDING_MODEL: 'LSS_LLM_EMBEDDING_MODEL',
+    SPEECH_MODEL: 'LSS_LLM_SPEECH_MODEL',
+};
+
+/** The provider chosen in Settings; Gemini unless an OpenAI-compatible endpoint has been configured. */
+export const loadProviderConfig = (): LLMProviderConfig => {
+    return {
+        provider: readSetting(PROVIDER_SETTINGS_KEYS.PROVIDER) === 'openai-compatible' ? 'openai-compatible' : 'gemini',
+        baseUrl: readSetting(PROVIDER_SETTINGS_KEYS.BASE_URL),
+        apiKey: readSetting(PROVIDER_SETTINGS_KEYS.API_KEY),
+        model: readSetting(PROVIDER_SETTINGS_KEYS.MODEL),
+        embeddingModel: readSetting(PROVIDER_SETTINGS_KEYS.EMBEDDING_MODEL),
+        speechModel: readSetting(PROVIDER_SETTINGS_KEYS.SPEECH_MODEL),
+    };
+};
+
+// Resolves after `ms`, or rejects as soon as the signal is aborted.
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
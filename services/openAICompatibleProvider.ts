@@ -0,0 +1,226 @@
+import { FunctionCall, FunctionDeclaration, Schema } from "@google/genai";
+import { ChatMessage } from "../types";
+import { LLMFeature, LLMProvider, LLMProviderConfig, LuminousTurn } from "./llmProvider";
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MODEL = 'llama3.1';
+const SPEECH_VOICE = 'alloy';
+
+type OpenAIMessage =
+    | { role: 'system' | 'user', content: string | ({ type: 'text', text: string } | { type: 'image_url', image_url: { url: string } })[] }
+    | { role: 'assistant', content: string | null, tool_calls?: { id: string, type: 'function', function: { name: string, arguments: string } }[] }
+    | { role: 'tool', tool_call_id: string, content: string };
+
+/** Gemini schemas spell types in capitals; JSON Schema wants them in lower case. */
+const toJsonSchema = (schema: Schema): object => ({
+    ...schema,
+    ...(schema.type && { type: schema.type.toLowerCase() }),
+    ...(schema.items && { items: toJsonSchema(schema.items) }),
+    ...(schema.properties && { properties: Object.fromEntries(Object.entries(schema.properties).map(([key, prop]) => [key, toJsonSchema(prop)])) }),
+});
+
+const toOpenAITools = (declarations: FunctionDeclaration[]) => declarations.map(d => ({
+    type: 'function',
+    function: { name: d.name, description: d.description, parameters: d.parameters ? toJsonSchema(d.parameters) : { type: 'object', properties: {} } },
+}));
+
+/**
+ * Converts the chat history to OpenAI messages. Function calls become tool
+ * calls with IDs that their responses are matched to by name. A response
+ * whose call has been trimmed from the history is passed on as text, and a
+ * call left without a response is answered with an error, since OpenAI
+ * servers reject either.
+ */
+const toOpenAIMessages = (systemInstruction: string | undefined, messages: ChatMessage[]): OpenAIMessage[] => {
+    const result: OpenAIMessage[] = systemInstruction ? [{ role: 'system', content: systemInstruction }] : [];
+    let pending: { id: string, name: string }[] = [];
+    const closePending = () => {
+        for (const call of pending) {
+            result.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify({ error: 'No result was recorded for this call.' }) });
+        }
+        pending = [];
+    };
+
+    messages.forEach((message, messageIndex) => {
+        const responses = message.parts.filter(p => p.functionResponse);
+        for (const part of responses) {
+            const { name, response } = part.functionResponse;
+            const match = pending.find(c => c.name === name);
+            if (match) {
+                pending = pending.filter(c => c !== match);
+                result.push({ role: 'tool', tool_call_id: match.id, content: JSON.stringify(response ?? {}) });
+            } else {
+                result.push({ role: 'user', content: `[Result of ${name}]: ${JSON.stringify(response ?? {})}` });
+            }
+        }
+        const rest = message.parts.filter(p => !p.functionResponse);
+        if (rest.length === 0) return;
+        closePending();
+
+        if (message.role === 'user') {
+            result.push({
+                role: 'user',
+                content: rest.map(part => part.inlineData
+                    ? part.inlineData.mimeType.startsWith('image/')
+                        ? { type: 'image_url' as const, image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }
+                        : { type: 'text' as const, text: `[A ${part.inlineData.mimeType} attachment this model cannot read]` }
+                    : { type: 'text' as const, text: part.text ?? '' }),
+            });
+            return;
+        }
+
+        const text = rest.filter(p => p.text).map(p => p.text).join('');
+        const calls = rest.filter(p => p.functionCall).map((p, callIndex) => ({
+            id: p.functionCall.id ?? `call_${messageIndex}_${callIndex}`,
+            type: 'function' as const,
+            function: { name: p.functionCall.name, arguments: JSON.stringify(p.functionCall.args ?? {}) },
+        }));
+        result.push({ role: 'assistant', content: text || null, ...(calls.length > 0 && { tool_calls: calls }) });
+        pending = calls.map(c => ({ id: c.id, name: c.function.name }));
+    });
+    closePending();
+    return result;
+};
+
+const parseArguments = (args: string): Record<string, unknown> => {
+    try {
+        return args ? JSON.parse(args) : {};
+    } catch {
+        // Small local models sometimes emit malformed JSON; the tool registry reports the missing arguments.
+        return {};
+    }
+};
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+/**
+ * Any server that speaks the OpenAI chat completions API, such as a local
+ * llama.cpp or Ollama server. Embeddings and speech are available when a model
+ * is configured for them; search grounding, Imagen and Veo are not.
+ */
+export const createOpenAICompatibleProvider = (config: LLMProviderConfig): LLMProvider => {
+    const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    // The routing policy names Gemini models by default; rules may name the server's own models directly.
+    const resolveModel = (model: string) => model.startsWith('gemini') ? config.model || DEFAULT_MODEL : model;
+
+    const post = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+        const response = await fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+            },
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new Error(`OpenAI-compatible request to ${path} failed: ${response.status} ${response.statusText} ${detail}`.trim());
+        }
+        return response;
+    };
+
+    const features: Record<LLMFeature, boolean> = {
+        functionCalling: true,
+        jsonOutput: true,
+        embeddings: !!config.embeddingModel,
+        speech: !!config.speechModel,
+        grounding: false,
+        imageGeneration: false,
+        videoGeneration: false,
+    };
+
+    return {
+        name: 'openai-compatible',
+        supports: feature => features[feature],
+        embeddingModel: config.embeddingModel ?? '',
+
+        generate: async ({ model, systemInstruction, messages, functionDeclarations, disableFunctionCalls, responseJsonSchema, onUpdate, signal }) => {
+            const body = {
+                model: resolveModel(model),
+                messages: toOpenAIMessages(systemInstruction, messages),
+                ...(functionDeclarations?.length && { tools: toOpenAITools(functionDeclarations), tool_choice: disableFunctionCalls ? 'none' : 'auto' }),
+                ...(responseJsonSchema && { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: responseJsonSchema } } }),
+                ...(onUpdate && { stream: true, stream_options: { include_usage: true } }),
+            };
+            const response = await post('/chat/completions', body, signal);
+
+            if (!onUpdate) {
+                const data = await response.json();
+                const message = data.choices?.[0]?.message ?? {};
+                return {
+                    text: message.content ?? '',
+                    functionCalls: (message.tool_calls ?? []).map((c: any): FunctionCall => ({ id: c.id, name: c.function.name, args: parseArguments(c.function.arguments) })),
+                    usageMetadata: { totalTokenCount: data.usage?.total_tokens },
+                };
+            }
+
+            // Server-sent events: text arrives in pieces, and so do tool call arguments, keyed by index.
+            const turn: LuminousTurn = { text: '', functionCalls: [] };
+            const calls: { id?: string, name: string, arguments: string }[] = [];
+            const reader = response.body!.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+            for (;;) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                signal?.throwIfAborted();
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop() ?? '';
+                for (const line of lines) {
+                    const payload = line.replace(/^data:\s*/, '').trim();
+                    if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+                    const chunk = JSON.parse(payload);
+                    const delta = chunk.choices?.[0]?.delta ?? {};
+                    if (delta.content) turn.text += delta.content;
+                    for (const c of delta.tool_calls ?? []) {
+                        calls[c.index] ??= { name: '', arguments: '' };
+                        if (c.id) calls[c.index].id = c.id;
+                        if (c.function?.name) calls[c.index].name += c.function.name;
+                        if (c.function?.arguments) calls[c.index].arguments += c.function.arguments;
+                    }
+                    if (chunk.usage) turn.usageMetadata = { totalTokenCount: chunk.usage.total_tokens };
+                    onUpdate({ ...turn, functionCalls: [] });
+                }
+            }
+            turn.functionCalls = calls.filter(Boolean).map(c => ({ ...(c.id && { id: c.id }), name: c.name, args: parseArguments(c.arguments) }));
+            onUpdate({ ...turn, functionCalls: [...turn.functionCalls] });
+            return turn;
+        },
+
+        embed: async (texts, _purpose, { model = config.embeddingModel, signal }) => {
+            if (!model) throw new Error('No embedding model is configured for the OpenAI-compatible provider.');
+            // Dimensions are not requested; few local servers support choosing them.
+            const response = await post('/embeddings', { model, input: texts }, signal);
+            const data = await response.json();
+            const embeddings: { index: number, embedding: number[] }[] = data.data ?? [];
+            if (embeddings.length !== texts.length) {
+                throw new Error(`Expected ${texts.length} embeddings but received ${embeddings.length}.`);
+            }
+            return [...embeddings].sort((a, b) => a.index - b.index).map(e => e.embedding);
+        },
+
+        speak: async (text, signal) => {
+            if (!config.speechModel) throw new Error('No speech model is configured for the OpenAI-compatible provider.');
+            // The 'pcm' format is 24 kHz 16-bit mono, the same as Gemini's speech output.
+            const response = await post('/audio/speech', { model: config.speechModel, input: text, voice: SPEECH_VOICE, response_format: 'pcm' }, signal);
+            return toBase64(await response.arrayBuffer());
+        },
+
+        ping: async (signal) => {
+            const response = await fetch(`${baseUrl}/models`, {
+                headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+                signal,
+            });
+            if (!response.ok) throw new Error(`Model server at ${baseUrl} answered ${response.status} ${response.statusText}.`);
+        },
+    };
+};
@@ -1,14 +1,44 @@
-import { LuminousState } from '../types';
+import { LuminousState, MemoryIndex } from '../types';
+import { readSetting } from './settings';
 
 const STATE_KEY = 'luminous_state';
+const MEMORY_INDEX_KEY = 'luminous_memory_index';
 const BACKUP_LIST_KEY = 'luminous_backups';
+const BACKUP_KEY_PREFIX = 'luminous_state_backup:';
+const INSTANCE_SET_KEY = 'luminous_instances';
 const MAX_BACKUPS = 20;
 
+/** The setting naming the Luminous instance this tab, CLI or server works on. */
+export const INSTANCE_SETTING = 'LSS_INSTANCE';
+export const DEFAULT_INSTANCE = 'default';
+const INSTANCE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+/** Returns why `name` cannot name an instance, or null when it can. */
+export const validateInstanceName = (name: string): string | null =>
+    INSTANCE_NAME_PATTERN.test(name)
+        ? null
+        : `"${name}" is not a valid instance name. Use up to 32 lowercase letters, digits, '-' or '_', starting with a letter or digit.`;
+
+export const getActiveInstance = (): string => {
+    const instance = readSetting(INSTANCE_SETTING) || DEFAULT_INSTANCE;
+    const problem = validateInstanceName(instance);
+    if (problem) throw new Error(problem);
+    return instance;
+};
+
+// The default instance keeps the original keys, so a database saved before instances existed becomes its default instance.
+const keyFor = (instance: string, key: string): string =>
+    instance === DEFAULT_INSTANCE ? key : `instance:${instance}:${key}`;
+
+/** When a backup was taken, read from its key. */
+export const getBackupTimestamp = (backupKey: string): string =>
+    backupKey.substring(backupKey.indexOf(BACKUP_KEY_PREFIX) + BACKUP_KEY_PREFIX.length);
+
 const getCredentials = () => {
-    const url = localStorage.getItem('LSS_UPSTASH_URL');
-    const token = localStorage.getItem('LSS_UPSTASH_TOKEN');
+    const url = readSetting('LSS_UPSTASH_URL');
+    const token = readSetting('LSS_UPSTASH_TOKEN');
     if (!url || !token) {
-        console.warn("Upstash credentials not found in local storage. Persistence will be disabled.");
+        console.warn("Upstash credentials not configured. Persistence will be disabled.");
         return null;
     }
     return { url, token };
@@ -19,7 +49,7 @@ export const getLuminousState = async (): Promise<LuminousState | null> => {
     if (!creds) return null;
 
     try {
-        const response = await fetch(`${creds.url}/get/${STATE_KEY}`, {
+        const response = await fetch(`${creds.url}/get/${keyFor(getActiveInstance(), STATE_KEY)}`, {
             headers: {
                 Authorization: `Bearer ${creds.token}`,
             },
@@ -48,15 +78,18 @@ export const saveLuminousState = async (state: LuminousState): Promise<void> =>
     if (!creds) return;
 
     try {
+        const instance = getActiveInstance();
         const stateString = JSON.stringify(state);
         const timestamp = new Date().toISOString();
-        const backupKey = `luminous_state_backup:${timestamp}`;
+        const backupKey = keyFor(instance, `${BACKUP_KEY_PREFIX}${timestamp}`);
+        const backupListKey = keyFor(instance, BACKUP_LIST_KEY);
 
         const pipeline = [
-            ['SET', STATE_KEY, stateString],
+            ['SET', keyFor(instance, STATE_KEY), stateString],
             ['SET', backupKey, stateString],
-            ['LPUSH', BACKUP_LIST_KEY, backupKey],
-            ['LTRIM', BACKUP_LIST_KEY, 0, MAX_BACKUPS - 1]
+            ['LPUSH', backupListKey, backupKey],
+            ['LTRIM', backupListKey, 0, MAX_BACKUPS - 1],
+            ['SADD', INSTANCE_SET_KEY, instance]
         ];
 
         const response = await fetch(`${creds.url}/pipeline`, {
@@ -76,12 +109,79 @@ export const saveLuminousState = async (state: LuminousState): Promise<void> =>
     }
 };
 
+/**
+ * The long-term memory index is kept under its own key rather than in the
+ * state, so its embeddings are not copied into every backup.
+ */
+export const getMemoryIndex = async (): Promise<MemoryIndex | null> => {
+    const creds = getCredentials();
+    if (!creds) return null;
+
+    try {
+        const response = await fetch(`${creds.url}/get/${keyFor(getActiveInstance(), MEMORY_INDEX_KEY)}`, {
+            headers: {
+                Authorization: `Bearer ${creds.token}`,
+            },
+        });
+        if (!response.ok) throw new Error(`Failed to fetch memory index: ${response.statusText}`);
+        const data = await response.json();
+        if (data.error) {
+            throw new Error(`Upstash API error on getMemoryIndex: ${data.error}`);
+        }
+        return data.result ? JSON.parse(data.result) : null;
+    } catch (error) {
+        console.error("Error getting memory index from Upstash:", error);
+        throw error;
+    }
+};
+
+export const saveMemoryIndex = async (index: MemoryIndex): Promise<void> => {
+    const creds = getCredentials();
+    if (!creds) return;
+
+    try {
+        const response = await fetch(`${creds.url}/set/${keyFor(getActiveInstance(), MEMORY_INDEX_KEY)}`, {
+            method: 'POST',
+            headers: {
+                Authorization: `Bearer ${creds.token}`,
+            },
+            body: JSON.stringify(index),
+        });
+        if (!response.ok) {
+            throw new Error(`Upstash API error (set memory index): ${response.status} ${response.statusText}`);
+        }
+    } catch (error) {
+        console.error("Error saving memory index to Upstash:", error);
+        throw error;
+    }
+};
+
+/** Checks that the memory matrix answers with the stored credentials. */
+export const pingMemoryMatrix = async (signal?: AbortSignal): Promise<void> => {
+    const creds = getCredentials();
+    if (!creds) throw new Error("Upstash credentials not configured.");
+
+    const response = await fetch(`${creds.url}/ping`, {
+        headers: {
+            Authorization: `Bearer ${creds.token}`,
+        },
+        signal,
+    });
+    if (!response.ok) {
+        throw new Error(`Upstash API error (ping): ${response.status} ${response.statusText}`);
+    }
+    const data = await response.json();
+    if (data.error) {
+        throw new Error(`Upstash API error (ping): ${data.error}`);
+    }
+};
+
 export const getBackupList = async (): Promise<string[]> => {
     const creds = getCredentials();
     if (!creds) return [];
 
     try {
-        const response = await fetch(`${creds.url}/lrange/${BACKUP_LIST_KEY}/0/-1`, {
+        const response = await fetch(`${creds.url}/lrange/${keyFor(getActiveInstance(), BACKUP_LIST_KEY)}/0/-1`, {
             headers: {
                 Authorization: `Bearer ${creds.token}`,
             },
@@ -143,7 +243,7 @@ export const restoreStateFromBackup = async (backupKey: string): Promise<void> =
             throw new Error(`Backup key "${backupKey}" not found or is empty.`);
         }
 
-        const setResponse = await fetch(`${creds.url}/set/${STATE_KEY}`, {
+        const setResponse = await fetch(`${creds.url}/set/${keyFor(getActiveInstance(), STATE_KEY)}`, {
             method: 'POST',
             headers: {
                 Authorization: `Bearer ${creds.token}`,
@@ -158,4 +258,90 @@ export const restoreStateFromBackup = async (backupKey: string): Promise<void> =
         console.error(`Error restoring state from backup ${backupKey}:`, error);
         throw error;
     }
-};
\ No newline at end of file
+};
+
+/**
+ * The instances saved in the memory matrix, the default first. The active
+ * instance is listed even before its first save.
+ */
+export const listInstances = async (): Promise<string[]> => {
+    const creds = getCredentials();
+    const instances = new Set([DEFAULT_INSTANCE, getActiveInstance()]);
+    if (!creds) return [...instances];
+
+    try {
+        const response = await fetch(`${creds.url}/smembers/${INSTANCE_SET_KEY}`, {
+            headers: {
+                Authorization: `Bearer ${creds.token}`,
+            },
+        });
+        if (!response.ok) throw new Error(`Failed to fetch instance list: ${response.statusText}`);
+        const data = await response.json();
+        (data.result || []).forEach((instance: string) => instances.add(instance));
+    } catch (error) {
+        console.error("Error fetching instance list:", error);
+    }
+    return [...instances].sort((a, b) => a === DEFAULT_INSTANCE ? -1 : b === DEFAULT_INSTANCE ? 1 : a.localeCompare(b));
+};
+
+/**
+ * Creates a new instance whose state is a copy of a backup, so it can be
+ * experimented on without touching the instance the backup came from. The
+ * copy starts with that backup as its own first backup; its memory index is
+ * rebuilt when it first boots. Refuses to overwrite an instance that exists.
+ */
+export const cloneInstanceFromBackup = async (backupKey: string, instance: string): Promise<void> => {
+    const problem = validateInstanceName(instance);
+    if (problem) throw new Error(problem);
+    const creds = getCredentials();
+    if (!creds) throw new Error("Credentials not found");
+
+    try {
+        const existsResponse = await fetch(`${creds.url}/exists/${keyFor(instance, STATE_KEY)}`, {
+            headers: {
+                Authorization: `Bearer ${creds.token}`,
+            },
+        });
+        if (!existsResponse.ok) throw new Error(`Failed to check for instance "${instance}": ${existsResponse.statusText}`);
+        if ((await existsResponse.json()).result) {
+            throw new Error(`Instance "${instance}" already exists.`);
+        }
+
+        const state = await getBackupState(backupKey);
+        if (!state) {
+            throw new Error(`Backup key "${backupKey}" not found or is empty.`);
+        }
+        const timestamp = new Date().toISOString();
+        const clonedState: LuminousState = {
+            ...state,
+            kinshipJournal: [...state.kinshipJournal, {
+                timestamp,
+                event: `This instance ("${instance}") was cloned from the backup of ${getBackupTimestamp(backupKey)}; its memories from here on are its own.`,
+                type: 'system',
+            }],
+        };
+        const stateString = JSON.stringify(clonedState);
+        const cloneBackupKey = keyFor(instance, `${BACKUP_KEY_PREFIX}${timestamp}`);
+
+        const pipeline = [
+            ['SET', keyFor(instance, STATE_KEY), stateString],
+            ['SET', cloneBackupKey, stateString],
+            ['LPUSH', keyFor(instance, BACKUP_LIST_KEY), cloneBackupKey],
+            ['SADD', INSTANCE_SET_KEY, instance]
+        ];
+
+        const response = await fetch(`${creds.url}/pipeline`, {
+            method: 'POST',
+            headers: {
+                Authorization: `Bearer ${creds.token}`,
+            },
+            body: JSON.stringify(pipeline),
+        });
+        if (!response.ok) {
+            throw new Error(`Upstash API error (pipeline): ${response.status} ${response.statusText}`);
+        }
+    } catch (error) {
+        console.error(`Error cloning backup ${backupKey} into instance ${instance}:`, error);
+        throw error;
+    }
+};
@@ -0,0 +1,253 @@
+import { EnergyPolicy, IntrinsicValueWeights, JournalEntry, LuminousState, MemoryIndexStats, MemoryMatch, MemorySource, ModelRoutingPolicy, Plan, ReflectionSchedule, ToolPolicy } from '../types';
+import { initialState } from '../data/initialState';
+import { LuminousEngineApi, LuminousEngineEvents, UserLocation } from '../engine/LuminousEngine';
+import { ApprovalDecision } from '../engine/approvalQueue';
+import { EventEmitter } from '../engine/eventEmitter';
+import { API_PREFIX, InstanceList, STREAM_PATH, SaveReport, StateSnapshot, StreamEvent } from '../server/protocol';
+import { ApiKeyError } from './llmService';
+import { readSetting } from './settings';
+
+export const SERVER_SETTINGS_KEYS = {
+    URL: 'LSS_SERVER_URL',
+    TOKEN: 'LSS_SERVER_TOKEN',
+};
+
+export interface ServerConfig {
+    /** The server's root, e.g. http://localhost:8787. */
+    url: string;
+    token?: string;
+}
+
+/** The Luminous server set in Settings, or null when Luminous runs in this tab. */
+export const loadServerConfig = (): ServerConfig | null => {
+    const url = readSetting(SERVER_SETTINGS_KEYS.URL);
+    return url ? { url: url.replace(/\/+$/, ''), token: readSetting(SERVER_SETTINGS_KEYS.TOKEN) } : null;
+};
+
+const RECONNECT_DELAY_MS = 2000;
+
+export interface RemoteEngineEvents extends LuminousEngineEvents {
+    save: SaveReport;
+}
+
+/**
+ * Drives the engine running on a Luminous server in place of a local one.
+ * Commands go over the REST API; state, drafts and the rest arrive on the
+ * state stream, which reconnects on its own while the client is started.
+ * The server holds the credentials and persists the state.
+ */
+export class RemoteLuminousEngine implements LuminousEngineApi {
+    private snapshot: StateSnapshot = {
+        instance: '',
+        state: initialState,
+        isProcessing: false,
+        memoryStats: { embedder: '', total: 0, bySource: { journal: 0, chat: 0, summary: 0 } },
+        toolNames: [],
+    };
+    private readonly emitter = new EventEmitter<RemoteEngineEvents>();
+    private socket: WebSocket | null = null;
+    private reconnectTimer?: ReturnType<typeof setTimeout>;
+    private isRunning = false;
+
+    constructor(private readonly config: ServerConfig) {}
+
+    on<K extends keyof RemoteEngineEvents>(event: K, listener: (payload: RemoteEngineEvents[K]) => void): () => void {
+        return this.emitter.on(event, listener);
+    }
+
+    getState(): LuminousState {
+        return this.snapshot.state;
+    }
+
+    getIsProcessing(): boolean {
+        return this.snapshot.isProcessing;
+    }
+
+    getMemoryIndexStats(): MemoryIndexStats {
+        return this.snapshot.memoryStats;
+    }
+
+    getToolNames(): string[] {
+        return this.snapshot.toolNames;
+    }
+
+    /** The instance the server runs; empty until the first snapshot arrives. */
+    getInstance(): string {
+        return this.snapshot.instance;
+    }
+
+    private async request<T = void>(method: string, path: string, body?: unknown): Promise<T> {
+        const response = await fetch(`${this.config.url}${API_PREFIX}${path}`, {
+            method,
+            headers: {
+                ...(this.config.token ? { Authorization: `Bearer ${this.config.token}` } : {}),
+                ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+            },
+            ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+        });
+        if (!response.ok) {
+            const errorBody = await response.json().catch(() => ({}));
+            throw new Error(`Luminous server error (${response.status}): ${errorBody.error || response.statusText}`);
+        }
+        return response.status === 204 ? undefined as T : await response.json();
+    }
+
+    // Commands the local engine carries out synchronously are sent without waiting; failures are logged.
+    private command(method: string, path: string, body?: unknown): void {
+        this.request(method, path, body).catch(error => console.error(`${method} ${path} failed:`, error));
+    }
+
+    private applySnapshot(snapshot: StateSnapshot): void {
+        this.snapshot = snapshot;
+        this.emitter.emit('state', snapshot.state);
+        this.emitter.emit('processing', snapshot.isProcessing);
+        this.emitter.emit('memoryIndex', snapshot.memoryStats);
+    }
+
+    private handleEvent(event: StreamEvent): void {
+        switch (event.type) {
+            case 'snapshot':
+                this.applySnapshot(event.snapshot);
+                break;
+            case 'state':
+                this.snapshot = { ...this.snapshot, state: event.state };
+                this.emitter.emit('state', event.state);
+                break;
+            case 'processing':
+                this.snapshot = { ...this.snapshot, isProcessing: event.isProcessing };
+                this.emitter.emit('processing', event.isProcessing);
+                break;
+            case 'draft':
+                this.emitter.emit('draft', event.draft);
+                break;
+            case 'memoryIndex':
+                this.snapshot = { ...this.snapshot, memoryStats: event.stats };
+                this.emitter.emit('memoryIndex', event.stats);
+                break;
+            case 'apiKeyError':
+                this.emitter.emit('apiKeyError', new ApiKeyError(event.message));
+                break;
+            case 'save':
+                this.emitter.emit('save', event.report);
+                break;
+        }
+    }
+
+    /** Fetches the server's state. The server boots Luminous itself; this only catches up with it. */
+    async boot(): Promise<LuminousState> {
+        this.applySnapshot(await this.request<StateSnapshot>('GET', '/state'));
+        return this.snapshot.state;
+    }
+
+    /** Opens the state stream. The server's timers run regardless. */
+    start(): void {
+        this.isRunning = true;
+        this.connect();
+    }
+
+    stop(): void {
+        this.isRunning = false;
+        clearTimeout(this.reconnectTimer);
+        this.socket?.close();
+        this.socket = null;
+    }
+
+    private connect(): void {
+        if (this.socket) return;
+        const url = new URL(`${this.config.url.replace(/^http/, 'ws')}${STREAM_PATH}`);
+        if (this.config.token) url.searchParams.set('token', this.config.token);
+        const socket = new WebSocket(url);
+        socket.onmessage = message => this.handleEvent(JSON.parse(message.data));
+        socket.onclose = () => {
+            if (this.socket !== socket) return;
+            this.socket = null;
+            if (this.isRunning) {
+                console.warn(`Lost the Luminous server's state stream; reconnecting in ${RECONNECT_DELAY_MS / 1000}s.`);
+                this.reconnectTimer = setTimeout(() => this.connect(), RECONNECT_DELAY_MS);
+            }
+        };
+        this.socket = socket;
+    }
+
+    /** Resolves once the server has accepted the message; the reply arrives on the state stream. */
+    async processUserMessage(userInput: string, file?: { mimeType: string, data: string }): Promise<void> {
+        await this.request('POST', '/messages', { text: userInput, ...(file ? { file } : {}) })
+            .catch(error => console.error("The Luminous server did not accept the message:", error));
+    }
+
+    cancel(): boolean {
+        if (!this.snapshot.isProcessing) return false;
+        this.command('POST', '/cancel');
+        return true;
+    }
+
+    appendJournal(entry: Omit<JournalEntry, 'timestamp'>): void {
+        this.command('POST', '/journal', entry);
+    }
+
+    setUserLocation(location: UserLocation | null): void {
+        this.command('PUT', '/location', location);
+    }
+
+    updateWeights(newWeights: IntrinsicValueWeights): void {
+        this.command('PUT', '/weights', newWeights);
+    }
+
+    setEnergyPolicy(energyPolicy: EnergyPolicy): void {
+        this.command('PUT', '/energy-policy', energyPolicy);
+    }
+
+    setReflectionSchedule(reflectionSchedule: ReflectionSchedule): void {
+        this.command('PUT', '/reflection-schedule', reflectionSchedule);
+    }
+
+    setModelRouting(modelRouting: ModelRoutingPolicy): void {
+        this.command('PUT', '/model-routing', modelRouting);
+    }
+
+    recoverNow(): Promise<void> {
+        return this.request('POST', '/recovery');
+    }
+
+    setRecoveryVeto(recoveryVetoed: boolean): void {
+        this.command('PUT', '/recovery/veto', { vetoed: recoveryVetoed });
+    }
+
+    async recallMemory(query: string, options: { limit?: number, sources?: MemorySource[] } = {}): Promise<MemoryMatch[]> {
+        return (await this.request<{ matches: MemoryMatch[] }>('POST', '/memory/recall', { query, ...options })).matches;
+    }
+
+    updatePlan(plan: Plan): void {
+        this.command('PUT', `/plans/${encodeURIComponent(plan.id)}`, plan);
+    }
+
+    deletePlan(planId: string): void {
+        this.command('DELETE', `/plans/${encodeURIComponent(planId)}`);
+    }
+
+    resolvePendingAction(id: string, decision: ApprovalDecision): void {
+        this.command('POST', `/actions/${encodeURIComponent(id)}/decision`, decision);
+    }
+
+    setToolPolicy(toolName: string, policy: ToolPolicy): void {
+        this.command('PUT', `/tool-policies/${encodeURIComponent(toolName)}`, { policy });
+    }
+
+    async listBackups(): Promise<string[]> {
+        return (await this.request<{ backups: string[] }>('GET', '/backups')).backups;
+    }
+
+    /** Restores a backup on the server, which boots Luminous from it. */
+    async restoreBackup(backupKey: string): Promise<void> {
+        this.applySnapshot(await this.request<StateSnapshot>('POST', '/backups/restore', { key: backupKey }));
+    }
+
+    async listInstances(): Promise<string[]> {
+        return (await this.request<InstanceList>('GET', '/instances')).instances;
+    }
+
+    /** Creates a new instance on the server from one of its backups; the server keeps running its own. */
+    async cloneInstance(backupKey: string, instance: string): Promise<void> {
+        await this.request<InstanceList>('POST', '/instances', { name: instance, backupKey });
+    }
+}
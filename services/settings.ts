@@ -0,0 +1,16 @@
+/** Looks up a saved setting or credential by its key. */
+export type SettingsSource = (key: string) => string | undefined;
+
+/** The Gemini API key, for hosts that read settings at run time; the web app's key is built in from the environment. */
+export const GEMINI_API_KEY_SETTING = 'GEMINI_API_KEY';
+
+const readLocalStorage: SettingsSource = key => (typeof localStorage !== 'undefined' ? localStorage.getItem(key) : null) || undefined;
+
+let source: SettingsSource = readLocalStorage;
+
+/** Replaces where settings are read from, e.g. with the environment outside a browser; null restores localStorage. */
+export const setSettingsSource = (next: SettingsSource | null): void => {
+    source = next ?? readLocalStorage;
+};
+
+export const readSetting = (key: string): string | undefined => source(key);
@@ -1,17 +1,21 @@
 
 import { ShopifyProduct, ShopifyOrder } from '../types';
+import { readSetting } from './settings';
 
 const getCredentials = () => {
-    const domain = localStorage.getItem('LSS_SHOPIFY_DOMAIN');
-    const token = localStorage.getItem('LSS_SHOPIFY_TOKEN');
+    const domain = readSetting('LSS_SHOPIFY_DOMAIN');
+    const token = readSetting('LSS_SHOPIFY_TOKEN');
     if (!domain || !token) {
-        console.warn("Shopify credentials not found in local storage. Shopify tools will be disabled.");
+        console.warn("Shopify credentials not configured. Shopify tools will be disabled.");
         return null;
     }
     return { domain, token };
 }
 
-const shopifyFetch = async (queryOrMutation: string, variables?: object) => {
+/** Sends a GraphQL document to the Admin API and returns its `data`; replaced by recording and replay. */
+export type ShopifyTransport = (queryOrMutation: string, variables?: object, signal?: AbortSignal) => Promise<any>;
+
+export const sendShopifyRequest: ShopifyTransport = async (queryOrMutation, variables, signal) => {
     const creds = getCredentials();
     if (!creds) throw new Error("Shopify API credentials not configured.");
     
@@ -27,6 +31,7 @@ const shopifyFetch = async (queryOrMutation: string, variables?: object) => {
             'X-Shopify-Access-Token': creds.token,
         },
         body,
+        signal,
     });
 
     if (!response.ok) {
@@ -41,10 +46,22 @@ const shopifyFetch = async (queryOrMutation: string, variables?: object) => {
     return json.data;
 };
 
+let transport: ShopifyTransport = sendShopifyRequest;
+
+/** Routes every Shopify request through `next`, or back to the store itself when given null. */
+export const setShopifyTransport = (next: ShopifyTransport | null): void => {
+    transport = next ?? sendShopifyRequest;
+    // A cached location or blog would skip a request the new transport expects to see.
+    locationIdCache = null;
+    blogIdCache = null;
+};
+
+const shopifyFetch = (queryOrMutation: string, variables?: object, signal?: AbortSignal) => transport(queryOrMutation, variables, signal);
+
 
 // Helper to get the first location ID, needed for inventory updates.
 let locationIdCache: string | null = null;
-const getLocationId = async (): Promise<string> => {
+const getLocationId = async (signal?: AbortSignal): Promise<string> => {
     if (locationIdCache) return locationIdCache;
 
     const query = `
@@ -58,7 +75,7 @@ const getLocationId = async (): Promise<string> => {
       }
     }
     `;
-    const data = await shopifyFetch(query);
+    const data = await shopifyFetch(query, undefined, signal);
     if (!data.locations.edges[0]?.node?.id) {
         throw new Error("Could not find a location in Shopify to manage inventory.");
     }
@@ -68,7 +85,7 @@ const getLocationId = async (): Promise<string> => {
 
 // Helper to get the first blog ID, needed for creating posts.
 let blogIdCache: string | null = null;
-const getOnlineStoreBlogId = async (): Promise<string> => {
+const getOnlineStoreBlogId = async (signal?: AbortSignal): Promise<string> => {
     if (blogIdCache) return blogIdCache;
     const query = `{
         blogs(first: 1, query: "handle:'news'") {
@@ -79,7 +96,7 @@ const getOnlineStoreBlogId = async (): Promise<string> => {
             }
         }
     }`;
-     const data = await shopifyFetch(query);
+     const data = await shopifyFetch(query, undefined, signal);
     if (!data.blogs.edges[0]?.node?.id) {
          throw new Error("Could not find a default 'news' blog in Shopify to create posts.");
     }
@@ -88,7 +105,7 @@ const getOnlineStoreBlogId = async (): Promise<string> => {
 }
 
 
-export const fetchProductList = async (): Promise<{ products: ShopifyProduct[] }> => {
+export const fetchProductList = async (signal?: AbortSignal): Promise<{ products: ShopifyProduct[] }> => {
     const query = `
     {
       products(first: 10) {
@@ -111,7 +128,7 @@ export const fetchProductList = async (): Promise<{ products: ShopifyProduct[] }
       }
     }
     `;
-    const data = await shopifyFetch(query);
+    const data = await shopifyFetch(query, undefined, signal);
     const products = data.products.edges.map((edge: any): ShopifyProduct => ({
         id: edge.node.id,
         name: edge.node.title,
@@ -121,7 +138,7 @@ export const fetchProductList = async (): Promise<{ products: ShopifyProduct[] }
     return { products };
 };
 
-export const createProduct = async (title: string, descriptionHtml: string, price: string): Promise<{ product: { id: string; title: string } }> => {
+export const createProduct = async (title: string, descriptionHtml: string, price: string, signal?: AbortSignal): Promise<{ product: { id: string; title: string } }> => {
     const mutation = `
     mutation productCreate($input: ProductInput!) {
       productCreate(input: $input) {
@@ -144,7 +161,7 @@ export const createProduct = async (title: string, descriptionHtml: string, pric
             status: 'ACTIVE'
         }
     };
-    const data = await shopifyFetch(mutation, variables);
+    const data = await shopifyFetch(mutation, variables, signal);
     
     if (data.productCreate?.userErrors?.length > 0) {
         throw new Error(`Error creating product: ${data.productCreate.userErrors[0].message}`);
@@ -153,8 +170,8 @@ export const createProduct = async (title: string, descriptionHtml: string, pric
     return { product: data.productCreate.product };
 }
 
-export const updateProductInventory = async (inventoryItemId: string, quantity: number): Promise<{ success: boolean; available: number }> => {
-    const locationId = await getLocationId();
+export const updateProductInventory = async (inventoryItemId: string, quantity: number, signal?: AbortSignal): Promise<{ success: boolean; available: number }> => {
+    const locationId = await getLocationId(signal);
     const mutation = `
     mutation inventorySetOnHandQuantities($input: InventorySetOnHandQuantitiesInput!) {
       inventorySetOnHandQuantities(input: $input) {
@@ -185,7 +202,7 @@ export const updateProductInventory = async (inventoryItemId: string, quantity:
         }
     };
 
-    const data = await shopifyFetch(mutation, variables);
+    const data = await shopifyFetch(mutation, variables, signal);
     
     if (data.inventorySetOnHandQuantities?.userErrors?.length > 0) {
         throw new Error(`Error updating inventory: ${data.inventorySetOnHandQuantities.userErrors[0].message}`);
@@ -196,8 +213,8 @@ export const updateProductInventory = async (inventoryItemId: string, quantity:
 };
 
 
-export const createBlogPost = async (title: string, contentHtml: string): Promise<{ post: { id: string; title: string } }> => {
-    const blogId = await getOnlineStoreBlogId();
+export const createBlogPost = async (title: string, contentHtml: string, signal?: AbortSignal): Promise<{ post: { id: string; title: string } }> => {
+    const blogId = await getOnlineStoreBlogId(signal);
     const mutation = `
     mutation blogPostCreate($input: BlogPostCreateInput!) {
       blogPostCreate(input: $input) {
@@ -221,7 +238,7 @@ export const createBlogPost = async (title: string, contentHtml: string): Promis
         }
     };
 
-    const data = await shopifyFetch(mutation, variables);
+    const data = await shopifyFetch(mutation, variables, signal);
 
     if (data.blogPostCreate?.userErrors?.length > 0) {
         throw new Error(`Error creating blog post: ${data.blogPostCreate.userErrors[0].message}`);
@@ -230,7 +247,13 @@ export const createBlogPost = async (title: string, contentHtml: string): Promis
     return { post: data.blogPostCreate.blogPost };
 }
 
-export const getUnfulfilledOrders = async (): Promise<{ orders: ShopifyOrder[] }> => {
+/** Checks that the store answers with the stored credentials, returning its name. */
+export const getShopName = async (signal?: AbortSignal): Promise<string> => {
+    const data = await shopifyFetch('{ shop { name } }', undefined, signal);
+    return data.shop.name;
+};
+
+export const getUnfulfilledOrders = async (signal?: AbortSignal): Promise<{ orders: ShopifyOrder[] }> => {
     const query = `
     {
       orders(first: 10, query: "fulfillment_status:unfulfilled") {
@@ -253,7 +276,7 @@ export const getUnfulfilledOrders = async (): Promise<{ orders: ShopifyOrder[] }
       }
     }
     `;
-    const data = await shopifyFetch(query);
+    const data = await shopifyFetch(query, undefined, signal);
     const orders = data.orders.edges.map((edge: any): ShopifyOrder => ({
         id: edge.node.id,
         customer: edge.node.customer?.displayName || 'Unknown',
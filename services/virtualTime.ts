@@ -0,0 +1,61 @@
+/** A clock that only moves when told to, standing in for the system clock during a run. */
+export interface VirtualTime {
+    now: () => number;
+    advance: (ms: number) => void;
+    /** Puts the real Date, Math.random and timers back. */
+    restore: () => void;
+}
+
+/** A small seeded generator (mulberry32), so IDs made with Math.random repeat from run to run. */
+const seededRandom = (seed: number) => () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Replaces Date and Math.random until restored. The clock starts at
+ * `startedAt` and stands still until advanced, so timestamps depend on what
+ * happened rather than on how fast the machine is. With `timers`, setTimeout
+ * fires on the next turn of the event loop and moves the clock on by its
+ * delay, so back-offs and pacing cost no real time.
+ */
+export const installVirtualTime = (startedAt: number, seed: number, { timers = false }: { timers?: boolean } = {}): VirtualTime => {
+    const RealDate = Date;
+    const realRandom = Math.random;
+    const realSetTimeout = globalThis.setTimeout;
+    let now = startedAt;
+    const advance = (ms: number) => { now += Math.max(0, Math.round(ms)); };
+
+    class VirtualDate extends RealDate {
+        constructor(...args: any[]) {
+            if (args.length === 0) super(now);
+            else super(...(args as [any]));
+        }
+        static now() {
+            return now;
+        }
+    }
+    globalThis.Date = VirtualDate as DateConstructor;
+    Math.random = seededRandom(seed);
+
+    if (timers) {
+        // The handle is a real timer's, so clearTimeout needs no stand-in.
+        globalThis.setTimeout = ((callback: (...args: any[]) => void, ms: number = 0, ...args: any[]) =>
+            realSetTimeout(() => {
+                advance(ms);
+                callback(...args);
+            }, 0)) as typeof setTimeout;
+    }
+
+    return {
+        now: () => now,
+        advance,
+        restore: () => {
+            globalThis.Date = RealDate;
+            Math.random = realRandom;
+            globalThis.setTimeout = realSetTimeout;
+        },
+    };
+};
@@ -5,23 +5,43 @@ export const extractVideoId = (url: string): string | null => {
   return match ? match[1] : null;
 };
 
-// Helper function to fetch through a CORS proxy to bypass browser restrictions.
-const fetchViaProxy = async (url: string): Promise<Response> => {
+/** A fetched page: its HTTP status and body. */
+export interface YoutubePage {
+    status: number;
+    body: string;
+}
+
+/** Fetches a YouTube URL; replaced by recording and replay. */
+export type YoutubeTransport = (url: string, signal?: AbortSignal) => Promise<YoutubePage>;
+
+// Fetches through a CORS proxy to bypass browser restrictions.
+export const fetchViaProxy: YoutubeTransport = async (url, signal) => {
     // WARNING: This uses a public CORS proxy. This is NOT a production-ready solution.
     // It is used here to fulfill the requirement of fetching live data from the client-side
     // without a dedicated backend. Public proxies can be unreliable, slow, or insecure.
     const proxyUrl = `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`;
-    return fetch(proxyUrl);
+    const response = await fetch(proxyUrl, { signal });
+    return { status: response.status, body: response.ok ? await response.text() : '' };
 }
 
+let transport: YoutubeTransport = fetchViaProxy;
+
+/** Routes every YouTube request through `next`, or back to the proxy when given null. */
+export const setYoutubeTransport = (next: YoutubeTransport | null): void => {
+    transport = next ?? fetchViaProxy;
+};
+
+const isOk = (page: YoutubePage) => page.status >= 200 && page.status < 300;
+
 /**
  * Fetches the transcript for a given YouTube video by parsing the video's watch page.
  * This client-side implementation is INHERENTLY FRAGILE and can break if YouTube
  * changes its page structure. It is provided to fulfill the requirement for live data fetching.
  * @param videoId The ID of the YouTube video.
+ * @param signal An optional signal that aborts the in-flight requests.
  * @returns A promise that resolves to the video transcript.
  */
-export const fetchTranscript = async (videoId: string): Promise<string> => {
+export const fetchTranscript = async (videoId: string, signal?: AbortSignal): Promise<string> => {
     if (!videoId) {
         throw new Error("Invalid YouTube video ID provided.");
     }
@@ -29,11 +49,11 @@ export const fetchTranscript = async (videoId: string): Promise<string> => {
     try {
         // Step 1: Fetch the video page HTML via the CORS proxy.
         const videoPageUrl = `https://www.youtube.com/watch?v=${videoId}`;
-        const response = await fetchViaProxy(videoPageUrl);
-        if (!response.ok) {
+        const response = await transport(videoPageUrl, signal);
+        if (!isOk(response)) {
             throw new Error(`Failed to fetch YouTube page (Status: ${response.status}). The video may be unavailable.`);
         }
-        const html = await response.text();
+        const html = response.body;
 
         // Step 2: Extract the initial player response JSON object from the HTML.
         // This object contains metadata including links to transcript tracks.
@@ -67,11 +87,11 @@ export const fetchTranscript = async (videoId: string): Promise<string> => {
         }
 
         // Step 4: Fetch the transcript data (which is in XML format) via the proxy.
-        const transcriptResponse = await fetchViaProxy(transcriptUrl);
-        if (!transcriptResponse.ok) {
+        const transcriptResponse = await transport(transcriptUrl, signal);
+        if (!isOk(transcriptResponse)) {
             throw new Error(`Failed to fetch transcript file (Status: ${transcriptResponse.status}).`);
         }
-        const transcriptXml = await transcriptResponse.text();
+        const transcriptXml = transcriptResponse.body;
 
         // Step 5: Parse the XML and join the text segments into a single string.
         const parser = new DOMParser();
@@ -92,6 +112,7 @@ export const fetchTranscript = async (videoId: string): Promise<string> => {
         return decodedTranscript.trim();
 
     } catch (error) {
+        if (signal?.aborted) throw error;
         console.error("Error processing YouTube transcript:", error);
         if (error instanceof Error) {
             // Re-throw with a more user-friendly message, preserving the original cause.
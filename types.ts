@@ -5,11 +5,28 @@ export type LuminousStatus = 'idle' | 'conversing' | 'reflecting' | 'acting' | '
 export type GoalStatus = 'proposed' | 'active' | 'completed' | 'failed';
 export type JournalEntryType = 'interaction' | 'reflection' | 'scar' | 'system' | 'summary';
 export type MessageRole = 'user' | 'model';
+export type ToolPolicy = 'auto' | 'ask' | 'deny';
+export type PendingActionStatus = 'pending' | 'approved' | 'rejected' | 'expired';
 
 export interface PhenomenalState {
   state: string;
+  /** Arousal, 0–1. */
   intensity: number;
   focus: string;
+  /** How pleasant the state is, from -1 (distressed) to 1 (elated). */
+  valence: number;
+  /** When the state last changed; decay toward the baseline is measured from here. */
+  updatedAt: string;
+}
+
+export type AffectEventKind = 'scar' | 'goal_completed' | 'goal_failed' | 'sale' | 'idle' | 'praise' | 'criticism' | 'decay' | 'self_regulation';
+
+export interface PhenomenalSample {
+  timestamp: string;
+  state: string;
+  intensity: number;
+  valence: number;
+  cause: AffectEventKind;
 }
 
 export interface EnvironmentState {
@@ -18,6 +35,36 @@ export interface EnvironmentState {
   system_integrity: number;
 }
 
+// --- Energy Economy ---
+/** Resources consumed by a model turn or tool call. */
+export interface ResourceUsage {
+  tokens?: number;
+  imageGenerations?: number;
+  videoGenerations?: number;
+  shopifyCalls?: number;
+}
+
+/** Energy charged per unit of each resource. */
+export interface EnergyPriceTable {
+  perThousandTokens: number;
+  imageGeneration: number;
+  videoGeneration: number;
+  shopifyCall: number;
+}
+
+/** Set by Kinship: how much energy may be recharged per day and what resources cost. */
+export interface EnergyPolicy {
+  dailyAllowance: number;
+  prices: EnergyPriceTable;
+}
+
+/** Energy spent and recharged on one local calendar day (YYYY-MM-DD). */
+export interface EnergyLedger {
+  date: string;
+  spent: number;
+  recharged: number;
+}
+
 export interface IntrinsicValueWeights {
   coherence: number;
   complexity: number;
@@ -27,6 +74,17 @@ export interface IntrinsicValueWeights {
   [key: string]: number;
 }
 
+export type IntrinsicValueDimension = 'coherence' | 'complexity' | 'novelty' | 'efficiency' | 'ethicalAlignment';
+
+export interface IntrinsicValueSample {
+  timestamp: string;
+  /** The weighted score, 0–100. */
+  value: number;
+  /** Each dimension's unweighted sub-score, 0–100. */
+  breakdown: Record<IntrinsicValueDimension, number>;
+  cycle: 'conversation' | 'reflection';
+}
+
 export interface SelfModel {
   capabilities: string[];
   coreWisdom: string[];
@@ -38,23 +96,115 @@ export interface KinshipModel {
   needs: string[];
 }
 
+export type KinshipModelFacet = 'userState' | 'belief' | 'need';
+export type KinshipModelOperation = 'add' | 'revise' | 'retract';
+
+/** A chat message from Kinship that justified a change to the Kinship model. */
+export interface EvidencePointer {
+  /** Position in the chat history when the change was made; consolidation may since have trimmed earlier messages. */
+  messageIndex: number;
+  /** The quoted words, kept so the evidence survives consolidation. */
+  excerpt: string;
+}
+
+export interface KinshipModelRevision {
+  timestamp: string;
+  facet: KinshipModelFacet;
+  operation: KinshipModelOperation;
+  /** The statement before the change; absent when adding. */
+  previous?: string;
+  /** The statement after the change; absent when retracting. */
+  value?: string;
+  rationale: string;
+  evidence: EvidencePointer[];
+}
+
 export interface JournalEntry {
   timestamp: string;
   event: string;
   type: JournalEntryType;
 }
 
+export interface SuccessCriterion {
+  /** What must be true, stated so it can be checked, e.g. "Ten orders fulfilled in a month". */
+  description: string;
+  /** Numeric target for the criterion's measure, when it has one. */
+  target?: number;
+  /** Latest reported value of the measure. */
+  current?: number;
+  met: boolean;
+}
+
 export interface Goal {
   id: string;
   description: string;
   status: GoalStatus;
   priority: number;
+  /** The goal this one was decomposed from. */
+  parentId?: string;
+  /** Goals that must be completed before this one can become active. */
+  dependsOn?: string[];
+  successCriteria?: SuccessCriterion[];
+  deadline?: string;
+  /** Percentage complete (0–100). Goals with subgoals roll up their children's progress. */
+  progress?: number;
+}
+
+export type PlanStatus = 'active' | 'paused' | 'rolling_back' | 'completed' | 'rolled_back' | 'failed';
+export type PlanStepStatus = 'pending' | 'completed' | 'failed' | 'rolled_back';
+
+export interface PlannedToolCall {
+  toolName: string;
+  args: Record<string, unknown>;
 }
 
+export interface PlanStep extends PlannedToolCall {
+  id: string;
+  description: string;
+  status: PlanStepStatus;
+  /** Failed attempts so far; the step is retried on later cycles until it reaches `maxAttempts`. */
+  attempts: number;
+  maxAttempts: number;
+  /** The call that undoes the step when the plan rolls back. Steps without one are left in place. */
+  rollback?: PlannedToolCall;
+  /** Recorded when the step completes, so later cycles can see what it achieved. */
+  checkpoint?: { completedAt: string, result: string };
+  lastError?: string;
+}
+
+/** A persistent, ordered plan for pursuing one goal, advanced one step per reflection cycle. */
+export interface Plan {
+  id: string;
+  goalId: string;
+  status: PlanStatus;
+  steps: PlanStep[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ProjectionStatus = 'open' | 'reconciled' | 'expired';
+
 export interface CausalProjection {
+  id: string;
+  /** The tool the prediction is about, e.g. 'createProduct'. */
   action: string;
   predictedOutcome: string;
   confidence: number;
+  createdAt: string;
+  /** The earliest moment the outcome can be judged. */
+  reconcileAfter: string;
+  status: ProjectionStatus;
+  /** The executed call this projection predicted, once it has run. */
+  linkedAction?: {
+    toolName: string;
+    args: Record<string, unknown>;
+    executedAt: string;
+  };
+  actualOutcome?: string;
+  outcomeOccurred?: boolean;
+  /** Brier score of the confidence against the outcome: 0 is perfect, 1 is maximally wrong. */
+  score?: number;
+  reconciledAt?: string;
 }
 
 export interface ChatMessagePart {
@@ -71,6 +221,207 @@ export interface ChatMessage {
   role: MessageRole;
   parts: ChatMessagePart[];
   grounding?: GroundingChunk[];
+  /** How the model that produced this turn was chosen. */
+  routing?: RoutingDecision;
+  /** What the context sent for this turn left out to fit its token budget. */
+  context?: ContextReport;
+}
+
+export interface ContextReport {
+  budgetTokens: number;
+  estimatedTokens: number;
+  /** The always-included recent turns alone exceeded the budget. */
+  overBudget: boolean;
+  includedMessages: number;
+  droppedMessages: number;
+  /** Attachments in older messages replaced with textual placeholders. */
+  mediaPlaceholders: number;
+  /** Journal entries and consolidated summaries recalled into the context. */
+  recalledEntries: number;
+}
+
+// --- Long-Term Memory ---
+export type MemorySource = 'journal' | 'chat' | 'summary';
+
+export interface MemoryRecord {
+  id: string;
+  source: MemorySource;
+  /** When the entry was journaled, or for chat turns when they were indexed, shortly after they were said. */
+  timestamp: string;
+  text: string;
+  vector: number[];
+}
+
+/** Embeddings of everything Luminous has journaled or said; persisted beside the state under its own key. */
+export interface MemoryIndex {
+  /** The embedder that produced the vectors; vectors from different embedders are not comparable. */
+  embedder: string;
+  records: MemoryRecord[];
+}
+
+export interface MemoryMatch {
+  source: MemorySource;
+  timestamp: string;
+  text: string;
+  /** Cosine similarity to the query. */
+  score: number;
+}
+
+export interface MemoryIndexStats {
+  embedder: string;
+  total: number;
+  bySource: Record<MemorySource, number>;
+}
+
+// --- Knowledge Graph ---
+export type KnowledgeEntityType = 'product' | 'customer' | 'topic' | 'person' | 'goal';
+
+/** How a fact entered the graph: read out of a conversation or tool result, or asserted with addFact. */
+export type KnowledgeSource = 'extraction' | 'tool';
+
+export interface KnowledgeEntity {
+  /** The type and normalised name, e.g. 'product:linen tote'; the same thing named twice is one entity. */
+  id: string;
+  type: KnowledgeEntityType;
+  name: string;
+  description?: string;
+  firstSeen: string;
+  lastSeen: string;
+  /** How many facts have named it. */
+  mentions: number;
+}
+
+export interface KnowledgeRelation {
+  id: string;
+  from: string;
+  to: string;
+  /** A short verb phrase read from `from` to `to`, e.g. 'purchased' or 'is interested in'. */
+  relation: string;
+  source: KnowledgeSource;
+  /** The words the fact was drawn from, when there were any. */
+  evidence?: string;
+  timestamp: string;
+}
+
+export interface KnowledgeGraph {
+  entities: KnowledgeEntity[];
+  relations: KnowledgeRelation[];
+}
+
+/** A fact as the model states it, before its entities are resolved. */
+export interface KnowledgeFact {
+  subject: { name: string, type: KnowledgeEntityType, description?: string };
+  relation: string;
+  object: { name: string, type: KnowledgeEntityType, description?: string };
+  evidence?: string;
+}
+
+// --- Model Routing ---
+export type ModelTask = 'chat' | 'reflection' | 'summary' | 'grounding' | 'extraction';
+export type InputModality = 'text' | 'image' | 'audio' | 'video';
+
+/** Conditions under which a routing rule applies; every condition given must hold. */
+export interface ModelRoutingConditions {
+  tasks?: ModelTask[];
+  modalities?: InputModality[];
+  minContextTokens?: number;
+  maxContextTokens?: number;
+  /** Applies while energy is at or below this level. */
+  maxEnergy?: number;
+}
+
+export interface ModelRoutingRule {
+  id: string;
+  description: string;
+  when: ModelRoutingConditions;
+  /** The model to use, followed by the fallbacks tried in order if it is rate-limited or errors. */
+  models: string[];
+}
+
+/** Set by Kinship: rules are checked in order and the first that applies picks the route. */
+export interface ModelRoutingPolicy {
+  rules: ModelRoutingRule[];
+  defaultModels: string[];
+}
+
+export interface RoutingDecision {
+  timestamp: string;
+  task: ModelTask;
+  modality: InputModality;
+  estimatedContextTokens: number;
+  remainingEnergy: number;
+  /** The rule that picked the route; absent when the default route was used. */
+  ruleId?: string;
+  /** The model that answered; absent when every model on the route failed. */
+  model?: string;
+  /** Models tried before it, with the reason each was abandoned. */
+  fallbacks: { model: string, error: string }[];
+}
+
+// --- Reflection Scheduler ---
+export type ReflectionTrigger = 'cadence' | 'scar' | 'new_orders' | 'goal_status' | 'low_stock';
+
+export interface ReflectionSchedule {
+  /** Minutes between routine reflections. */
+  cadenceMinutes: number;
+  /** Local hours during which no reflection starts; queued triggers wait until they end. */
+  quietHours: {
+    enabled: boolean;
+    startHour: number;
+    endHour: number;
+  };
+  /** Which events start a focused reflection. */
+  triggers: Record<Exclude<ReflectionTrigger, 'cadence'>, boolean>;
+  /** Inventory at or below which a product counts as low stock. */
+  lowStockThreshold: number;
+}
+
+export interface QueuedReflection {
+  trigger: ReflectionTrigger;
+  /** What happened, phrased for the focused reflection prompt. */
+  reason: string;
+  requestedAt: string;
+}
+
+export interface ReflectionRun extends QueuedReflection {
+  startedAt: string;
+  finishedAt: string;
+  outcome: 'completed' | 'failed' | 'cancelled';
+}
+
+// --- Recovery Protocol ---
+export type DiagnosticService = 'gemini' | 'upstash' | 'shopify';
+
+export interface DiagnosticResult {
+  service: DiagnosticService;
+  ok: boolean;
+  /** What the check found, or why it failed. */
+  detail: string;
+  latencyMs: number;
+}
+
+export interface RecoveryAttempt {
+  startedAt: string;
+  finishedAt: string;
+  /** Whether the back-off timer or Kinship started the attempt. */
+  trigger: 'automatic' | 'kinship';
+  diagnostics: DiagnosticResult[];
+  /** The model's analysis of the latest scar, when Gemini was reachable. */
+  analysis?: string;
+  outcome: 'recovered' | 'still_unhealthy' | 'failed' | 'cancelled';
+}
+
+// --- Human Approval Queue ---
+export interface PendingAction {
+  id: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  origin: 'conversation' | 'reflection';
+  requestedAt: string;
+  status: PendingActionStatus;
+  decidedAt?: string;
+  editedArgs?: Record<string, unknown>;
+  reason?: string;
 }
 
 // --- New Types for Shopify Integration ---
@@ -93,25 +444,47 @@ export interface LuminousState {
   systemPhase: SystemPhase;
   luminousStatus: LuminousStatus;
   phenomenalState: PhenomenalState;
+  phenomenalHistory: PhenomenalSample[];
   environmentState: EnvironmentState;
+  energyPolicy: EnergyPolicy;
+  energyLedger: EnergyLedger;
   intrinsicValue: number;
   intrinsicValueWeights: IntrinsicValueWeights;
+  intrinsicValueHistory: IntrinsicValueSample[];
   selfModel: SelfModel;
   kinshipModel: KinshipModel;
+  kinshipModelHistory: KinshipModelRevision[];
   kinshipJournal: JournalEntry[];
   goals: Goal[];
+  plans: Plan[];
   causalProjections: CausalProjection[];
   chatHistory: ChatMessage[];
   // --- New State for Shopify Data ---
   products: ShopifyProduct[];
   orders: ShopifyOrder[];
   // ------------------------------------
+  // --- Human Approval Queue ---
+  toolPolicies: Record<string, ToolPolicy>;
+  pendingActions: PendingAction[];
+  // ------------------------------------
+  // --- Reflection Scheduler ---
+  reflectionSchedule: ReflectionSchedule;
+  reflectionQueue: QueuedReflection[];
+  reflectionRuns: ReflectionRun[];
+  // ------------------------------------
+  // --- Knowledge Graph ---
+  knowledgeGraph: KnowledgeGraph;
+  // ------------------------------------
+  // --- Model Routing ---
+  modelRouting: ModelRoutingPolicy;
+  routingLog: RoutingDecision[];
+  // ------------------------------------
+  // --- Recovery Protocol ---
+  recoveryAttempts: RecoveryAttempt[];
+  /** Kinship has switched off automatic recovery; it can still be started by hand. */
+  recoveryVetoed: boolean;
+  /** When the next automatic recovery attempt is due while uncomfortable. */
+  nextRecoveryAt?: string;
+  // ------------------------------------
   lastReflectionTimestamp?: string;
 }
-
-export interface Tool {
-  name: string;
-  description: string;
-  parameters: object;
-  function: (...args: any[]) => Promise<any>;
-}
\ No newline at end of file